@@ -0,0 +1,240 @@
+import type { Request, Response, NextFunction } from "express";
+import type { Config } from "../config.js";
+import type { OAuthStore } from "../oauth/store.js";
+import { API_KEY_PREFIX } from "../oauth/apiKeyStore.js";
+import { ADMIN_SCOPE } from "../oauth/scopes.js";
+import { getRequestPathRestriction, getRequestUser } from "../utils/requestContext.js";
+import { queryAuditLog, MAX_AUDIT_QUERY_LIMIT } from "../utils/auditLog.js";
+import type { AuditQuery } from "../utils/auditLog.js";
+import { logger } from "../utils/logger.js";
+import { getErrorMessage } from "../utils/toolResponse.js";
+
+const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+
+/** A live MCP session as listed on the admin dashboard. */
+export interface McpSessionInfo {
+  sessionId: string;
+  clientId: string | undefined;
+  user: string | undefined;
+  createdAt: number;
+  lastActivity: number;
+}
+
+/** The admin API's view of the HTTP transport's session map. */
+export interface McpSessionControl {
+  list(): McpSessionInfo[];
+  /** Close a session. Returns false when no session has this ID. */
+  terminate(sessionId: string): Promise<boolean>;
+}
+
+function getAdmin(req: Request): string | undefined {
+  return getRequestUser({ authInfo: req.auth });
+}
+
+/**
+ * Middleware for /admin/api, placed after `jwtAuth`: only OAuth access
+ * tokens with the `vault:admin` scope of users listed in ADMIN_USERS get
+ * through. API keys and path-restricted credentials are refused whatever
+ * their user, so a key handed out for narrow access cannot manage others.
+ */
+export function requireAdmin(config: Config) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = getAdmin(req);
+    if (!user || !config.adminUsers.includes(user)) {
+      logger.warn("Admin API access denied", { user, path: req.path });
+      res.status(403).json({ error: "forbidden", error_description: "Admin access required" });
+      return;
+    }
+    if (req.auth?.token.startsWith(API_KEY_PREFIX) || getRequestPathRestriction({ authInfo: req.auth }) !== undefined) {
+      logger.warn("Admin API access denied for an API key", { user, path: req.path });
+      res.status(403).json({ error: "forbidden", error_description: "The admin API needs an OAuth access token, not an API key" });
+      return;
+    }
+    if (!req.auth?.scopes.includes(ADMIN_SCOPE)) {
+      logger.warn("Admin API access denied without the admin scope", { user, path: req.path });
+      res.status(403).json({ error: "insufficient_scope", error_description: `Requires the ${ADMIN_SCOPE} scope` });
+      return;
+    }
+    next();
+  };
+}
+
+/** GET /admin/api/clients: registered clients with their activity and users. */
+export function handleListClients(store: OAuthStore, sessions: McpSessionControl) {
+  return (_req: Request, res: Response): void => {
+    const tokens = store.listRefreshTokens();
+    const liveSessions = sessions.list();
+
+    const clients = store.listClients().map((client) => {
+      const clientTokens = tokens.filter((t) => t.clientId === client.clientId);
+      const clientSessions = liveSessions.filter((s) => s.clientId === client.clientId);
+      const users = new Set([...clientTokens.map((t) => t.subject), ...clientSessions.map((s) => s.user ?? "")]);
+      users.delete("");
+      const activity = [client.lastUsedAt ?? 0, ...clientSessions.map((s) => s.lastActivity)];
+      const lastActivity = Math.max(...activity);
+
+      return {
+        clientId: client.clientId,
+        clientName: client.clientName,
+        redirectUris: client.redirectUris,
+        tokenEndpointAuthMethod: client.tokenEndpointAuthMethod,
+        registeredAt: client.registeredAt,
+        lastActivity: lastActivity > 0 ? lastActivity : null,
+        lastUser: client.lastUser ?? null,
+        users: [...users].sort(),
+        refreshTokens: clientTokens.length,
+        sessions: clientSessions.length,
+      };
+    });
+
+    res.set("Cache-Control", "no-store");
+    res.json({ clients });
+  };
+}
+
+/**
+ * DELETE /admin/api/clients/:clientId: delete a client with its refresh
+ * tokens and close its MCP sessions. Its access tokens are rejected until
+ * they expire.
+ */
+export function handleDeleteClient(config: Config, store: OAuthStore, sessions: McpSessionControl) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const clientId = req.params.clientId as string;
+    if (!store.deleteClient(clientId, config.accessTokenExpirySeconds)) {
+      res.status(404).json({ error: "not_found", error_description: "Unknown client" });
+      return;
+    }
+
+    const clientSessions = sessions.list().filter((s) => s.clientId === clientId);
+    for (const session of clientSessions) {
+      await sessions.terminate(session.sessionId);
+    }
+
+    logger.info("Admin deleted OAuth client", { admin: getAdmin(req), clientId, sessionsClosed: clientSessions.length });
+    res.status(200).json({ status: "client deleted", sessionsClosed: clientSessions.length });
+  };
+}
+
+/** GET /admin/api/sessions: live MCP sessions. */
+export function handleListSessions(sessions: McpSessionControl) {
+  return (_req: Request, res: Response): void => {
+    res.set("Cache-Control", "no-store");
+    res.json({ sessions: sessions.list() });
+  };
+}
+
+/** DELETE /admin/api/sessions/:sessionId: close an MCP session. */
+export function handleTerminateSession(sessions: McpSessionControl) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const sessionId = req.params.sessionId as string;
+    if (!(await sessions.terminate(sessionId))) {
+      res.status(404).json({ error: "not_found", error_description: "Unknown session" });
+      return;
+    }
+    logger.info("Admin terminated MCP session", { admin: getAdmin(req), sessionId });
+    res.status(200).json({ status: "session terminated" });
+  };
+}
+
+/**
+ * GET /admin/api/tokens: outstanding refresh tokens. Tokens are identified by
+ * their hash, which cannot be used as a token.
+ */
+export function handleListTokens(store: OAuthStore) {
+  return (_req: Request, res: Response): void => {
+    const tokens = store.listRefreshTokens().map((token) => ({
+      ...token,
+      clientName: store.getClient(token.clientId)?.clientName ?? null,
+    }));
+    res.set("Cache-Control", "no-store");
+    res.json({ tokens });
+  };
+}
+
+/** DELETE /admin/api/tokens/:tokenId: revoke a refresh token. */
+export function handleRevokeToken(store: OAuthStore) {
+  return (req: Request, res: Response): void => {
+    const tokenId = req.params.tokenId as string;
+    const entry = store.revokeRefreshTokenById(tokenId);
+    if (!entry) {
+      res.status(404).json({ error: "not_found", error_description: "Unknown refresh token" });
+      return;
+    }
+    logger.info("Admin revoked refresh token", { admin: getAdmin(req), clientId: entry.clientId, user: entry.subject });
+    res.status(200).json({ status: "token revoked" });
+  };
+}
+
+/** GET /admin/api/consents: clients users have approved on the consent page. */
+export function handleListConsents(store: OAuthStore) {
+  return (_req: Request, res: Response): void => {
+    const consents = store.listConsents().map((consent) => ({
+      ...consent,
+      clientName: store.getClient(consent.clientId)?.clientName ?? null,
+    }));
+    res.set("Cache-Control", "no-store");
+    res.json({ consents });
+  };
+}
+
+/**
+ * DELETE /admin/api/consents/:user/:clientId: revoke a user's consent,
+ * with the refresh tokens the client holds for that user.
+ */
+export function handleDeleteConsent(store: OAuthStore) {
+  return (req: Request, res: Response): void => {
+    const user = (req.params.user as string).toLowerCase();
+    const clientId = req.params.clientId as string;
+    if (!store.revokeConsent(user, clientId)) {
+      res.status(404).json({ error: "not_found", error_description: "Unknown consent" });
+      return;
+    }
+    logger.info("Admin revoked consent", { admin: getAdmin(req), clientId, user });
+    res.status(200).json({ status: "consent revoked" });
+  };
+}
+
+/** Parse an ISO 8601 date or epoch milliseconds. */
+function parseTime(value: unknown): number | undefined | null {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") return null;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * GET /admin/api/audit?from=&to=&user=&path=&limit=: tool calls from the
+ * audit log, newest first. `from`/`to` take ISO 8601 dates or epoch
+ * milliseconds; `path` matches a file or everything below a directory.
+ */
+export function handleQueryAuditLog() {
+  return async (req: Request, res: Response): Promise<void> => {
+    const { user, path, limit } = req.query;
+    const from = parseTime(req.query.from);
+    const to = parseTime(req.query.to);
+    const parsedLimit = limit === undefined ? DEFAULT_AUDIT_QUERY_LIMIT : Number(limit);
+
+    if (from === null || to === null) {
+      res.status(400).json({ error: "invalid_request", error_description: "from and to must be ISO 8601 dates or epoch milliseconds" });
+      return;
+    }
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_AUDIT_QUERY_LIMIT) {
+      res.status(400).json({ error: "invalid_request", error_description: `limit must be an integer between 1 and ${MAX_AUDIT_QUERY_LIMIT}` });
+      return;
+    }
+    if ((user !== undefined && typeof user !== "string") || (path !== undefined && typeof path !== "string")) {
+      res.status(400).json({ error: "invalid_request", error_description: "user and path may only be given once" });
+      return;
+    }
+
+    const query: AuditQuery = { from, to, user: user?.toLowerCase(), path, limit: parsedLimit };
+    try {
+      const entries = await queryAuditLog(query);
+      res.set("Cache-Control", "no-store");
+      res.json({ entries });
+    } catch (error) {
+      logger.error("Audit log query failed", { error: getErrorMessage(error) });
+      res.status(500).json({ error: "server_error", error_description: "Could not read the audit log" });
+    }
+  };
+}
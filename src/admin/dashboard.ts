@@ -0,0 +1,208 @@
+import type { Request, Response } from "express";
+import type { Config } from "../config.js";
+import type { IdentityProvider } from "../oauth/identityProvider.js";
+import type { OAuthSessionStore } from "../oauth/sessionStore.js";
+import type { AccessTokenKeys } from "../oauth/signingKeys.js";
+import { redirectToProvider } from "../oauth/authorize.js";
+import { createAccessToken } from "../oauth/jwt.js";
+import { ADMIN_SCOPE } from "../oauth/scopes.js";
+import { logger } from "../utils/logger.js";
+
+/** Client ID of the access tokens issued by the dashboard sign-in. */
+export const ADMIN_DASHBOARD_CLIENT_ID = "admin-dashboard";
+
+/**
+ * Single-page admin UI. The page holds no data: its script keeps an access
+ * token with the `vault:admin` scope in sessionStorage and calls the
+ * /admin/api endpoints with it as a Bearer token, like any other client.
+ * The token comes from signing in at /admin/login, which renders the page
+ * with `signedInToken`, or is pasted into the form.
+ */
+function dashboardHtml(signedInToken: string | null): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Obsidian Vault MCP — Admin</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+  h1 { font-size: 1.4rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #ddd; vertical-align: top; }
+  code { font-size: 0.85rem; }
+  #error { color: #b00020; }
+  .empty { color: #777; }
+</style>
+</head>
+<body>
+<h1>Obsidian Vault MCP — Admin</h1>
+<p><a href="/admin/login">Sign in</a> as a user listed in ADMIN_USERS, or paste an access token.</p>
+<form id="login">
+  <label>Access token of an admin user with the vault:admin scope
+    <input id="token" type="password" size="60" autocomplete="off">
+  </label>
+  <button type="submit">Load</button>
+  <button type="button" id="logout">Forget token</button>
+</form>
+<p id="error"></p>
+
+<h2>Clients</h2>
+<table id="clients"></table>
+<h2>MCP sessions</h2>
+<table id="sessions"></table>
+<h2>Refresh tokens</h2>
+<table id="tokens"></table>
+<h2>Consents</h2>
+<table id="consents"></table>
+
+<script>
+const STORAGE_KEY = "vault-mcp-admin-token";
+const SIGNED_IN_TOKEN = ${JSON.stringify(signedInToken)};
+const $ = (id) => document.getElementById(id);
+
+function formatTime(ms) {
+  return ms ? new Date(ms).toLocaleString() : "—";
+}
+
+async function api(method, path) {
+  const res = await fetch("/admin/api/" + path, {
+    method,
+    headers: { Authorization: "Bearer " + sessionStorage.getItem(STORAGE_KEY) },
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error_description || body.error || res.statusText);
+  return body;
+}
+
+function renderTable(table, headers, rows, action) {
+  table.replaceChildren();
+  const head = table.insertRow();
+  for (const h of [...headers, ""]) head.appendChild(document.createElement("th")).textContent = h;
+  if (rows.length === 0) {
+    const cell = table.insertRow().insertCell();
+    cell.colSpan = headers.length + 1;
+    cell.className = "empty";
+    cell.textContent = "None";
+    return;
+  }
+  for (const row of rows) {
+    const tr = table.insertRow();
+    for (const value of row.cells) tr.insertCell().textContent = value;
+    const button = document.createElement("button");
+    button.textContent = action.label;
+    button.onclick = async () => {
+      if (!confirm(action.label + " " + row.label + "?")) return;
+      try {
+        await api("DELETE", action.path + "/" + [].concat(row.id).map(encodeURIComponent).join("/"));
+        await load();
+      } catch (error) {
+        $("error").textContent = error.message;
+      }
+    };
+    tr.insertCell().appendChild(button);
+  }
+}
+
+async function load() {
+  $("error").textContent = "";
+  try {
+    const [{ clients }, { sessions }, { tokens }, { consents }] = await Promise.all([
+      api("GET", "clients"), api("GET", "sessions"), api("GET", "tokens"), api("GET", "consents"),
+    ]);
+    renderTable($("clients"), ["Name", "Client ID", "Users", "Registered", "Last activity", "Tokens", "Sessions"],
+      clients.map((c) => ({
+        id: c.clientId,
+        label: c.clientName,
+        cells: [c.clientName, c.clientId, c.users.join(", ") || "—", formatTime(c.registeredAt), formatTime(c.lastActivity), c.refreshTokens, c.sessions],
+      })),
+      { label: "Revoke", path: "clients" });
+    renderTable($("sessions"), ["Session ID", "User", "Client ID", "Started", "Last activity"],
+      sessions.map((s) => ({
+        id: s.sessionId,
+        label: "session " + s.sessionId,
+        cells: [s.sessionId, s.user || "—", s.clientId || "—", formatTime(s.createdAt), formatTime(s.lastActivity)],
+      })),
+      { label: "Terminate", path: "sessions" });
+    renderTable($("tokens"), ["User", "Client", "Scopes", "Issued", "Expires"],
+      tokens.map((t) => ({
+        id: t.id,
+        label: "the refresh token of " + t.subject,
+        cells: [t.subject, t.clientName || t.clientId, (t.scopes || ["(all)"]).join(" "), formatTime(t.issuedAt), formatTime(t.expiresAt)],
+      })),
+      { label: "Revoke", path: "tokens" });
+    renderTable($("consents"), ["User", "Client", "Scopes", "Approved"],
+      consents.map((c) => ({
+        id: [c.user, c.clientId],
+        label: "the consent of " + c.user + " for " + (c.clientName || c.clientId),
+        cells: [c.user, c.clientName || c.clientId, c.scopes.join(" "), formatTime(c.grantedAt)],
+      })),
+      { label: "Revoke", path: "consents" });
+  } catch (error) {
+    $("error").textContent = error.message;
+  }
+}
+
+$("login").onsubmit = (event) => {
+  event.preventDefault();
+  sessionStorage.setItem(STORAGE_KEY, $("token").value.trim());
+  $("token").value = "";
+  load();
+};
+$("logout").onclick = () => {
+  sessionStorage.removeItem(STORAGE_KEY);
+  for (const id of ["clients", "sessions", "tokens", "consents"]) $(id).replaceChildren();
+};
+if (SIGNED_IN_TOKEN) {
+  sessionStorage.setItem(STORAGE_KEY, SIGNED_IN_TOKEN);
+  // Leave the one-time callback URL, so a reload shows the dashboard again
+  history.replaceState(null, "", "/admin");
+}
+if (sessionStorage.getItem(STORAGE_KEY)) load();
+</script>
+</body>
+</html>
+`;
+}
+
+function sendDashboard(res: Response, signedInToken: string | null): void {
+  res.set("Content-Security-Policy", "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; connect-src 'self'; form-action 'none'; frame-ancestors 'none'");
+  res.set("Cache-Control", "no-store");
+  res.type("html").send(dashboardHtml(signedInToken));
+}
+
+/** GET /admin: the dashboard page. Data is loaded from /admin/api with the admin's token. */
+export function handleAdminDashboard() {
+  return (_req: Request, res: Response): void => {
+    sendDashboard(res, null);
+  };
+}
+
+/**
+ * GET /admin/login
+ *
+ * Sign-in of the dashboard: the user logs in at the identity provider, whose
+ * callback then calls `renderAdminSignIn`.
+ */
+export function handleAdminLogin(provider: IdentityProvider, sessionStore: OAuthSessionStore) {
+  return async (_req: Request, res: Response): Promise<void> => {
+    await redirectToProvider(res, provider, sessionStore, { purpose: "admin_login" });
+  };
+}
+
+/**
+ * Finish a dashboard sign-in. Users in ADMIN_USERS get the dashboard with a
+ * new access token that carries the `vault:admin` scope only, so it cannot
+ * be used for vault tools; anyone else is refused.
+ */
+export function renderAdminSignIn(res: Response, config: Config, keys: AccessTokenKeys, username: string): void {
+  if (!config.adminUsers.includes(username)) {
+    logger.warn("Admin sign-in denied", { username });
+    res.status(403).json({ error: "access_denied", error_description: "Admin access required" });
+    return;
+  }
+  const token = createAccessToken(ADMIN_DASHBOARD_CLIENT_ID, username, [ADMIN_SCOPE], keys, config.accessTokenExpirySeconds);
+  logger.info("Admin signed in to the dashboard", { username });
+  sendDashboard(res, token);
+}
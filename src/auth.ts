@@ -1,13 +1,34 @@
 import type { Request, Response, NextFunction } from "express";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { verifyAccessToken } from "./oauth/jwt.js";
+import { createAuthInfo } from "./utils/requestContext.js";
+import { scopesFromClaim } from "./oauth/scopes.js";
+import type { OAuthStore } from "./oauth/store.js";
+import { API_KEY_PREFIX } from "./oauth/apiKeyStore.js";
+import type { ApiKeyStore } from "./oauth/apiKeyStore.js";
+import type { AccessTokenKeys } from "./oauth/signingKeys.js";
+import { isAllowedUser } from "./oauth/allowlist.js";
 import { logger } from "./utils/logger.js";
 
+declare module "express-serve-static-core" {
+  interface Request {
+    /** Set by `jwtAuth`; read by the MCP transport and exposed to tool handlers as `extra.authInfo`. */
+    auth?: AuthInfo;
+  }
+}
+
 /**
  * Express middleware that validates OAuth 2.1 JWT access tokens.
- * Only JWT tokens issued via the /oauth/token flow are accepted.
+ * JWT tokens issued via the /oauth/token flow are accepted, as are API keys
+ * (`ovk_...`) created with the `api-key` CLI subcommand, as long as their
+ * user is still in `allowedUsers`. Keys carry no provider token, so a user
+ * admitted by organization or team membership alone cannot use one.
+ * Tokens on the store's revocation list, and tokens of clients deleted by an
+ * admin, are rejected before they expire.
+ * On success the caller's identity is attached to `req.auth`.
  * Returns WWW-Authenticate header on 401 per RFC 9728 / MCP spec.
  */
-export function jwtAuth(jwtSecret: string, serverUrl: string) {
+export function jwtAuth(keys: AccessTokenKeys, serverUrl: string, store: OAuthStore, apiKeyStore: ApiKeyStore, allowedUsers: string[]) {
   const wwwAuthenticate = `Bearer resource_metadata="${serverUrl}/.well-known/oauth-protected-resource"`;
 
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -35,8 +56,38 @@ export function jwtAuth(jwtSecret: string, serverUrl: string) {
 
     const token = parts[1];
 
-    const jwtPayload = verifyAccessToken(token, jwtSecret);
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const apiKey = apiKeyStore.verify(token);
+      if (!apiKey) {
+        logger.warn("Invalid API key", { path: req.path });
+        res.set("WWW-Authenticate", wwwAuthenticate);
+        res.status(401).json({ error: "Invalid token" });
+        return;
+      }
+      if (!isAllowedUser(apiKey.subject, allowedUsers)) {
+        logger.warn("API key user not in allowlist", { path: req.path, keyId: apiKey.id, user: apiKey.subject });
+        res.set("WWW-Authenticate", wwwAuthenticate);
+        res.status(401).json({ error: "Invalid token" });
+        return;
+      }
+      const expiresAt = apiKey.expiresAt !== null ? Math.floor(apiKey.expiresAt / 1000) : undefined;
+      req.auth = createAuthInfo(token, `api-key:${apiKey.id}`, apiKey.subject, apiKey.scopes, expiresAt, apiKey.paths);
+      next();
+      return;
+    }
+
+    const jwtPayload = verifyAccessToken(token, keys);
+    const revoked = jwtPayload !== null
+      && ((jwtPayload.jti !== undefined && store.isAccessTokenRevoked(jwtPayload.jti)) || store.isClientRevoked(jwtPayload.client_id));
+    if (revoked) {
+      logger.warn("Revoked bearer token", { path: req.path, clientId: jwtPayload.client_id, user: jwtPayload.sub });
+      res.set("WWW-Authenticate", wwwAuthenticate);
+      res.status(401).json({ error: "Invalid token" });
+      return;
+    }
     if (jwtPayload) {
+      const scopes = scopesFromClaim(jwtPayload.scope);
+      req.auth = createAuthInfo(token, jwtPayload.client_id, jwtPayload.sub, scopes, jwtPayload.exp);
       next();
       return;
     }
@@ -0,0 +1,136 @@
+import { parseArgs } from "node:util";
+import { ApiKeyStore } from "../oauth/apiKeyStore.js";
+import type { ApiKey, ApiKeyStoreSnapshot } from "../oauth/apiKeyStore.js";
+import { parseScope, formatScope, ADMIN_SCOPE } from "../oauth/scopes.js";
+import { createStorageBackend } from "../utils/storageBackend.js";
+import { getErrorMessage } from "../utils/toolResponse.js";
+
+const USAGE = `Usage:
+  api-key create --name <name> --user <username> [--scope "<scopes>"] [--expires-in-days <n>] [--path <glob>]...
+  api-key list
+  api-key revoke <id-or-name>
+
+--scope defaults to all scopes (vault:read vault:write vault:history).
+--path may be repeated; globs use the ACCESS_CONTROL_FILE allow-rule syntax.
+Keys are stored in DATA_DIR/api-keys.json, which the server rereads every few seconds.`;
+
+export interface CommandOutput {
+  log(line: string): void;
+  error(line: string): void;
+}
+
+function formatDate(ms: number | null): string {
+  return ms === null ? "never" : new Date(ms).toISOString();
+}
+
+function describeKey(key: ApiKey): string {
+  const expired = key.expiresAt !== null && Date.now() > key.expiresAt ? " (expired)" : "";
+  return [
+    `${key.id}  ${key.name}`,
+    `  user: ${key.subject}`,
+    `  scope: ${formatScope(key.scopes)}`,
+    `  paths: ${key.paths ? key.paths.join(", ") : "(all)"}`,
+    `  created: ${formatDate(key.createdAt)}`,
+    `  expires: ${formatDate(key.expiresAt)}${expired}`,
+  ].join("\n");
+}
+
+function createKey(store: ApiKeyStore, args: string[], output: CommandOutput): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      name: { type: "string" },
+      user: { type: "string" },
+      scope: { type: "string" },
+      "expires-in-days": { type: "string" },
+      path: { type: "string", multiple: true },
+    },
+  });
+
+  if (!values.name?.trim() || !values.user?.trim()) {
+    output.error("--name and --user are required");
+    return 1;
+  }
+
+  const scopeResult = parseScope(values.scope?.replace(/,/g, " ").trim());
+  if ("error" in scopeResult) {
+    output.error(scopeResult.error);
+    return 1;
+  }
+  if (scopeResult.scopes.includes(ADMIN_SCOPE)) {
+    output.error(`API keys cannot have the ${ADMIN_SCOPE} scope; the admin API needs an OAuth access token`);
+    return 1;
+  }
+
+  let expiresInSeconds: number | undefined;
+  if (values["expires-in-days"] !== undefined) {
+    const days = Number(values["expires-in-days"]);
+    if (!Number.isInteger(days) || days < 1) {
+      output.error("--expires-in-days must be a positive integer");
+      return 1;
+    }
+    expiresInSeconds = days * 24 * 60 * 60;
+  }
+
+  const paths = (values.path ?? []).map((p) => p.trim()).filter((p) => p.length > 0);
+  const { key, apiKey } = store.create({
+    name: values.name.trim(),
+    subject: values.user.trim(),
+    scopes: scopeResult.scopes,
+    paths: paths.length > 0 ? paths : null,
+    expiresInSeconds,
+  });
+
+  output.log(describeKey(apiKey));
+  output.log("");
+  output.log("API key (shown only once, use as \"Authorization: Bearer <key>\"):");
+  output.log(key);
+  return 0;
+}
+
+/**
+ * `api-key` CLI subcommand: create, list and revoke API keys in DATA_DIR.
+ * Returns the process exit code.
+ */
+export function runApiKeyCommand(args: string[], dataDir: string, output: CommandOutput = console): number {
+  if (!dataDir) {
+    output.error("DATA_DIR must be set: API keys are stored in DATA_DIR/api-keys.json");
+    return 1;
+  }
+  const store = new ApiKeyStore(createStorageBackend<ApiKeyStoreSnapshot>(dataDir, "api-keys"));
+  const [command, ...rest] = args;
+
+  try {
+    switch (command) {
+      case "create":
+        return createKey(store, rest, output);
+
+      case "list": {
+        const keys = store.list();
+        output.log(keys.length > 0 ? keys.map(describeKey).join("\n\n") : "No API keys");
+        return 0;
+      }
+
+      case "revoke": {
+        if (rest.length !== 1) {
+          output.error(USAGE);
+          return 1;
+        }
+        const revoked = store.revoke(rest[0]);
+        if (!revoked) {
+          output.error(`No API key with id or name "${rest[0]}"`);
+          return 1;
+        }
+        output.log(`Revoked API key ${revoked.id} (${revoked.name})`);
+        return 0;
+      }
+
+      default:
+        output.error(USAGE);
+        return 1;
+    }
+  } catch (error) {
+    output.error(getErrorMessage(error));
+    return 1;
+  }
+}
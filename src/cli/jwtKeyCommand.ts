@@ -0,0 +1,68 @@
+import path from "node:path";
+import { KeyDirectory } from "../oauth/signingKeys.js";
+import type { SigningKeyInfo } from "../oauth/signingKeys.js";
+import { getErrorMessage } from "../utils/toolResponse.js";
+import type { CommandOutput } from "./apiKeyCommand.js";
+
+const USAGE = `Usage:
+  jwt-key list
+  jwt-key rotate
+
+Uses the same JWT_SIGNING_ALG (RS256 or ES256), JWT_KEYS_DIR / DATA_DIR and
+ACCESS_TOKEN_EXPIRY_SECONDS as the server. After "rotate" the server signs with
+the new key within a few seconds; the old key keeps verifying until its tokens expire.`;
+
+function describeKey(key: SigningKeyInfo, tokenLifetimeSeconds: number): string {
+  let status = "active";
+  if (key.retiredAt !== null) {
+    const validUntil = key.retiredAt + tokenLifetimeSeconds * 1000;
+    status = Date.now() < validUntil
+      ? `retired, verifies until ${new Date(validUntil).toISOString()}`
+      : "expired";
+  }
+  return `${key.kid}  ${key.alg}  created ${new Date(key.createdAt).toISOString()}  (${status})`;
+}
+
+/**
+ * `jwt-key` CLI subcommand: list and rotate the RS256/ES256 access token
+ * signing keys. Settings are read from `env` like the server's config.
+ * Returns the process exit code.
+ */
+export function runJwtKeyCommand(args: string[], env: NodeJS.ProcessEnv, output: CommandOutput = console): number {
+  const algorithm = (env.JWT_SIGNING_ALG ?? "HS256").toUpperCase();
+  if (algorithm !== "RS256" && algorithm !== "ES256") {
+    output.error("JWT_SIGNING_ALG must be RS256 or ES256: HS256 signs with JWT_SECRET and has no key files");
+    return 1;
+  }
+  const keysDir = env.JWT_KEYS_DIR ?? (env.DATA_DIR ? path.join(env.DATA_DIR, "jwt-keys") : "");
+  if (!keysDir) {
+    output.error("JWT_KEYS_DIR or DATA_DIR must be set");
+    return 1;
+  }
+  const tokenLifetimeSeconds = parseInt(env.ACCESS_TOKEN_EXPIRY_SECONDS ?? "3600", 10);
+
+  try {
+    // The CLI never verifies HS256 tokens, so JWT_SECRET is not needed
+    const keys = new KeyDirectory(keysDir, algorithm, "", tokenLifetimeSeconds);
+    switch (args[0]) {
+      case "list": {
+        const list = keys.list();
+        output.log(list.length > 0 ? list.map((k) => describeKey(k, tokenLifetimeSeconds)).join("\n") : `No signing keys in ${keysDir}`);
+        return 0;
+      }
+
+      case "rotate": {
+        const kid = keys.rotate();
+        output.log(`New signing key ${kid} (${algorithm}) in ${keysDir}`);
+        return 0;
+      }
+
+      default:
+        output.error(USAGE);
+        return 1;
+    }
+  } catch (error) {
+    output.error(getErrorMessage(error));
+    return 1;
+  }
+}
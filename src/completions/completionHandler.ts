@@ -0,0 +1,105 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CompleteRequestSchema, ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { CompleteResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "../config.js";
+import { loadNoteTypes } from "../guides/guideLoader.js";
+import { NOTE_URI_TEMPLATE, TAG_URI_TEMPLATE } from "../resources/vaultResources.js";
+import { countVaultTags } from "../tools/vaultOperations.js";
+import { checkScope } from "../utils/requestContext.js";
+import { VAULT_READ_SCOPE } from "../oauth/scopes.js";
+import { getPathAccess } from "../utils/accessControl.js";
+import type { PathAccessPolicy } from "../utils/accessControl.js";
+import type { ScanContext } from "../utils/progress.js";
+import { isInsideVault, resolveVaultPathSafe } from "../utils/pathValidation.js";
+import { isHiddenDirectory } from "../utils/constants.js";
+
+/** Values per completion response; the protocol's maximum. */
+const MAX_COMPLETION_VALUES = 100;
+
+function startsWithIgnoringCase(value: string, prefix: string): boolean {
+  return value.toLowerCase().startsWith(prefix.toLowerCase());
+}
+
+/**
+ * Entries of the directory named by the typed value up to its last slash,
+ * whose names start with the rest. Directories end with a slash, so the
+ * client can continue completing inside them.
+ */
+async function completePath(config: Config, access: PathAccessPolicy, value: string): Promise<string[]> {
+  const dir = value.slice(0, value.lastIndexOf("/") + 1);
+  const partial = value.slice(dir.length);
+
+  let items;
+  try {
+    const resolved = await resolveVaultPathSafe(config.vaultPath, dir || ".", access, "list");
+    items = await readdir(resolved, { withFileTypes: true });
+  } catch {
+    return []; // Outside the vault, not visible or not a directory
+  }
+
+  const matches: string[] = [];
+  for (const item of items) {
+    if (isHiddenDirectory(item.name) || !startsWithIgnoringCase(item.name, partial)) continue;
+    const relPath = dir + item.name;
+    if (!access.can(relPath, item.isDirectory() ? "list" : "read")) continue;
+    if (!(await isInsideVault(path.join(config.vaultPath, relPath), config.vaultPath))) continue;
+    matches.push(item.isDirectory() ? `${relPath}/` : relPath);
+  }
+  return matches.sort((a, b) => a.localeCompare(b));
+}
+
+/** Tags (without `#`) starting with the typed value, most used first. */
+async function completeTag(config: Config, access: PathAccessPolicy, value: string, context: ScanContext): Promise<string[]> {
+  const tagCounts = new Map<string, number>();
+  await countVaultTags(config.vaultPath, access, tagCounts, context);
+  const prefix = value.replace(/^#/, "");
+  return [...tagCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([tag]) => tag.slice(1))
+    .filter((tag) => startsWithIgnoringCase(tag, prefix));
+}
+
+async function completeNoteType(config: Config, value: string): Promise<string[]> {
+  return (await loadNoteTypes(config.promptsDir)).filter((type) => startsWithIgnoringCase(type, value));
+}
+
+/**
+ * Answer `completion/complete` for prompt arguments and resource template
+ * variables: vault paths for `vault://{path}`, tags for `vault://tags/{tag}`
+ * and the note types of the `obsidian-create-note` prompt.
+ *
+ * Registered directly on the protocol server instead of through the SDK's
+ * `completable()` and template callbacks, because those do not receive the
+ * request and so cannot apply the caller's path ACL.
+ */
+export function registerCompletions(server: McpServer, config: Config): void {
+  server.server.registerCapabilities({ completions: {} });
+  server.server.setRequestHandler(CompleteRequestSchema, async (request, extra): Promise<CompleteResult> => {
+    if (checkScope(extra, VAULT_READ_SCOPE)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Insufficient scope: completions require the "${VAULT_READ_SCOPE}" scope`);
+    }
+    const { ref, argument } = request.params;
+    const access = getPathAccess(config, extra);
+
+    let values: string[] = [];
+    if (ref.type === "ref/prompt") {
+      if (ref.name === "obsidian-create-note" && argument.name === "note_type") {
+        values = await completeNoteType(config, argument.value);
+      }
+    } else if (ref.uri === NOTE_URI_TEMPLATE && argument.name === "path") {
+      values = await completePath(config, access, argument.value);
+    } else if (ref.uri === TAG_URI_TEMPLATE && argument.name === "tag") {
+      values = await completeTag(config, access, argument.value, extra);
+    }
+
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETION_VALUES),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETION_VALUES,
+      },
+    };
+  });
+}
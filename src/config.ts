@@ -1,10 +1,46 @@
 import path from "node:path";
+import { loadAccessControlFile } from "./utils/accessControl.js";
+import type { AccessControlRules } from "./utils/accessControl.js";
+import { loadConfirmationPolicyFile } from "./utils/confirmation.js";
+import type { ConfirmationRule } from "./utils/confirmation.js";
+import { ACCESS_TOKEN_ALGORITHMS } from "./oauth/signingKeys.js";
+import type { AccessTokenAlgorithm } from "./oauth/signingKeys.js";
 
 function containsControlCharacters(value: string): boolean {
   return /[\x00-\x1f\x7f]/.test(value);
 }
 
+export type AuthProviderName = "github" | "oidc";
+
+/**
+ * How vault changes reach git: "sync" clones or pulls the repository and
+ * pushes every commit, "local" commits to the vault's own repository without
+ * a remote, "off" does not use git at all.
+ */
+export type GitMode = "sync" | "local" | "off";
+
+export const GIT_MODES: readonly GitMode[] = ["sync", "local", "off"];
+
+/** How `/mcp` keeps MCP sessions: in process memory, or not at all (any replica serves any request). */
+export type SessionMode = "stateful" | "stateless";
+
+export const SESSION_MODES: readonly SessionMode[] = ["stateful", "stateless"];
+
+/** Generic OpenID Connect identity provider (AUTH_PROVIDER=oidc). */
+export interface OidcConfig {
+  /** Issuer URL without trailing slash; the discovery document is fetched below it. */
+  issuer: string;
+  clientId: string;
+  /** Empty for public clients, which authenticate with PKCE only. */
+  clientSecret: string;
+  scopes: string[];
+  /** ID token (or userinfo) claim whose value is checked against the allowlist. */
+  usernameClaim: string;
+}
+
 export interface Config {
+  gitMode: GitMode;
+  /** Empty unless GIT_MODE=sync. */
   gitRepoUrl: string;
   gitBranch: string;
   gitSyncIntervalSeconds: number;
@@ -16,21 +52,270 @@ export interface Config {
   logLevel: string;
   // OAuth 2.1
   jwtSecret: string;
+  /** HS256 signs with jwtSecret; RS256/ES256 sign with rotating keys in jwtKeysDir. */
+  jwtSigningAlgorithm: AccessTokenAlgorithm;
+  /** Directory of RS256/ES256 signing keys. Empty for HS256. */
+  jwtKeysDir: string;
+  /** Rotate the signing key automatically after this many days. 0 = manual rotation only. */
+  jwtKeyRotationDays: number;
   serverUrl: string;
   accessTokenExpirySeconds: number;
   refreshTokenExpirySeconds: number;
-  // GitHub OAuth
+  /** Identity provider users log in with. */
+  authProvider: AuthProviderName;
+  // GitHub OAuth (empty unless AUTH_PROVIDER=github)
   githubClientId: string;
   githubClientSecret: string;
-  allowedGithubUsers: string[];
+  /** Null unless AUTH_PROVIDER=oidc. */
+  oidc: OidcConfig | null;
+  /** Lowercase usernames allowed to log in (GitHub login or OIDC username claim). */
+  allowedUsers: string[];
+  /** Lowercase GitHub organizations whose active members may log in (AUTH_PROVIDER=github only). */
+  allowedGithubOrgs: string[];
+  /** Lowercase "org/team-slug" GitHub teams whose active members may log in (AUTH_PROVIDER=github only). */
+  allowedGithubTeams: string[];
+  /** Lowercase usernames allowed to use the admin dashboard. Empty = dashboard disabled. */
+  adminUsers: string[];
+  /** Show a consent page before issuing an authorization code to a client the user has not approved yet. */
+  oauthConsent: boolean;
+  /** Accept HTTPS URLs as client_id, resolved from their Client ID Metadata Documents. */
+  clientIdMetadataDocuments: boolean;
   trustProxy: boolean;
+  /** "stateless" handles every POST /mcp with a fresh server, without session IDs or SSE streams. */
+  sessionMode: SessionMode;
+  /** Ignored in stateless mode. */
   maxSessions: number;
   promptsDir: string;
+  /** Directory for persistent server state (OAuth stores). Empty = in-memory only. */
+  dataDir: string;
+  /** JSONL audit log of vault-modifying tool calls. Empty = not logged. */
+  auditLogFile: string;
+  /** Per-user path ACLs from ACCESS_CONTROL_FILE. Null = every allowed user has full access. */
+  accessControl: AccessControlRules | null;
+  /** Tools and paths whose changes the user must approve, from CONFIRMATION_POLICY_FILE. Null = never ask. */
+  confirmationRules: ConfirmationRule[] | null;
+}
+
+/** The OAuth settings, read by `loadAuthConfig`. */
+type AuthConfig = Pick<
+  Config,
+  | "authProvider"
+  | "githubClientId"
+  | "githubClientSecret"
+  | "oidc"
+  | "allowedUsers"
+  | "allowedGithubOrgs"
+  | "allowedGithubTeams"
+  | "jwtSecret"
+  | "jwtSigningAlgorithm"
+  | "jwtKeysDir"
+  | "jwtKeyRotationDays"
+  | "serverUrl"
+  | "accessTokenExpirySeconds"
+  | "refreshTokenExpirySeconds"
+>;
+
+/** In stdio mode the local user talks to the server directly; nobody logs in. */
+const STDIO_AUTH_CONFIG: AuthConfig = {
+  authProvider: "github",
+  githubClientId: "",
+  githubClientSecret: "",
+  oidc: null,
+  allowedUsers: [],
+  allowedGithubOrgs: [],
+  allowedGithubTeams: [],
+  jwtSecret: "",
+  jwtSigningAlgorithm: "HS256",
+  jwtKeysDir: "",
+  jwtKeyRotationDays: 0,
+  serverUrl: "",
+  accessTokenExpirySeconds: 3600,
+  refreshTokenExpirySeconds: 604800,
+};
+
+/** Split a comma-separated variable into trimmed, lowercase, non-empty entries. */
+function parseList(raw: string | undefined): string[] {
+  return (raw ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry.length > 0);
+}
+
+function loadOidcConfig(): OidcConfig {
+  const issuerRaw = process.env.OIDC_ISSUER;
+  if (!issuerRaw) {
+    throw new Error("OIDC_ISSUER environment variable is required when AUTH_PROVIDER=oidc");
+  }
+  let issuerUrl: URL;
+  try {
+    issuerUrl = new URL(issuerRaw);
+  } catch {
+    throw new Error("OIDC_ISSUER must be a valid URL");
+  }
+  if (issuerUrl.protocol !== "https:" && issuerUrl.protocol !== "http:") {
+    throw new Error("OIDC_ISSUER must be an http(s) URL");
+  }
+
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!clientId) {
+    throw new Error("OIDC_CLIENT_ID environment variable is required when AUTH_PROVIDER=oidc");
+  }
+
+  const scopes = (process.env.OIDC_SCOPES ?? "openid profile email").split(/[\s,]+/).filter((s) => s.length > 0);
+  if (!scopes.includes("openid")) {
+    throw new Error("OIDC_SCOPES must include \"openid\"");
+  }
+
+  return {
+    issuer: issuerRaw.replace(/\/$/, ""),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET ?? "",
+    scopes,
+    usernameClaim: process.env.OIDC_USERNAME_CLAIM || "preferred_username",
+  };
+}
+
+/**
+ * Settings of the HTTP server's OAuth layer: identity provider, allowlists,
+ * access token signing and lifetimes.
+ */
+function loadAuthConfig(dataDir: string): AuthConfig {
+  // Identity provider
+  const authProvider = process.env.AUTH_PROVIDER ?? "github";
+  if (authProvider !== "github" && authProvider !== "oidc") {
+    throw new Error("AUTH_PROVIDER must be \"github\" or \"oidc\"");
+  }
+
+  let githubClientId = "";
+  let githubClientSecret = "";
+  let oidc: OidcConfig | null = null;
+  if (authProvider === "github") {
+    githubClientId = process.env.GITHUB_CLIENT_ID ?? "";
+    if (!githubClientId) {
+      throw new Error("GITHUB_CLIENT_ID environment variable is required");
+    }
+
+    githubClientSecret = process.env.GITHUB_CLIENT_SECRET ?? "";
+    if (!githubClientSecret) {
+      throw new Error("GITHUB_CLIENT_SECRET environment variable is required");
+    }
+  } else {
+    oidc = loadOidcConfig();
+  }
+
+  // GitHub organization and team allowlists
+  const allowedGithubOrgs = parseList(process.env.ALLOWED_GITHUB_ORGS);
+  for (const org of allowedGithubOrgs) {
+    if (!/^[a-z0-9-]+$/.test(org)) {
+      throw new Error(`ALLOWED_GITHUB_ORGS contains an invalid organization name: "${org}"`);
+    }
+  }
+  const allowedGithubTeams = parseList(process.env.ALLOWED_GITHUB_TEAMS);
+  for (const team of allowedGithubTeams) {
+    if (!/^[a-z0-9-]+\/[a-z0-9_-]+$/.test(team)) {
+      throw new Error(`ALLOWED_GITHUB_TEAMS entries must be "org/team-slug", got "${team}"`);
+    }
+  }
+  const hasMembershipRules = allowedGithubOrgs.length > 0 || allowedGithubTeams.length > 0;
+  if (hasMembershipRules && authProvider !== "github") {
+    throw new Error("ALLOWED_GITHUB_ORGS and ALLOWED_GITHUB_TEAMS require AUTH_PROVIDER=github");
+  }
+
+  // ALLOWED_GITHUB_USERS is the name from before other providers existed.
+  // Optional when an organization or team allowlist is configured.
+  const allowedUsersVar = process.env.ALLOWED_USERS !== undefined ? "ALLOWED_USERS" : "ALLOWED_GITHUB_USERS";
+  const allowedUsersRaw = process.env[allowedUsersVar];
+  if ((!allowedUsersRaw || allowedUsersRaw.trim() === "") && !hasMembershipRules) {
+    throw new Error("ALLOWED_USERS environment variable is required (comma-separated usernames)");
+  }
+  const allowedUsers = parseList(allowedUsersRaw);
+  if (allowedUsers.length === 0 && !hasMembershipRules) {
+    throw new Error(`${allowedUsersVar} must contain at least one username`);
+  }
+
+  // OAuth 2.1
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error("JWT_SECRET environment variable is required");
+  }
+  if (jwtSecret.length < 32) {
+    throw new Error("JWT_SECRET must be at least 32 characters");
+  }
+
+  const jwtSigningAlgorithm = (process.env.JWT_SIGNING_ALG ?? "HS256").toUpperCase() as AccessTokenAlgorithm;
+  if (!ACCESS_TOKEN_ALGORITHMS.includes(jwtSigningAlgorithm)) {
+    throw new Error(`JWT_SIGNING_ALG must be one of ${ACCESS_TOKEN_ALGORITHMS.join(", ")}`);
+  }
+
+  let jwtKeysDir = "";
+  if (jwtSigningAlgorithm !== "HS256") {
+    jwtKeysDir = process.env.JWT_KEYS_DIR ?? (dataDir ? path.join(dataDir, "jwt-keys") : "");
+    if (!jwtKeysDir) {
+      throw new Error(`JWT_KEYS_DIR or DATA_DIR is required when JWT_SIGNING_ALG=${jwtSigningAlgorithm}`);
+    }
+  }
+
+  const jwtKeyRotationDays = parseInt(process.env.JWT_KEY_ROTATION_DAYS ?? "0", 10);
+  if (isNaN(jwtKeyRotationDays) || jwtKeyRotationDays < 0) {
+    throw new Error("JWT_KEY_ROTATION_DAYS must be a non-negative integer");
+  }
+
+  const serverUrl = process.env.SERVER_URL;
+  if (!serverUrl) {
+    throw new Error("SERVER_URL environment variable is required");
+  }
+
+  const accessTokenExpiry = parseInt(
+    process.env.ACCESS_TOKEN_EXPIRY_SECONDS ?? "3600",
+    10,
+  );
+  if (isNaN(accessTokenExpiry) || accessTokenExpiry < 1) {
+    throw new Error("ACCESS_TOKEN_EXPIRY_SECONDS must be a positive number");
+  }
+
+  const refreshTokenExpiry = parseInt(
+    process.env.REFRESH_TOKEN_EXPIRY_SECONDS ?? "604800",
+    10,
+  );
+  if (isNaN(refreshTokenExpiry) || refreshTokenExpiry < 1) {
+    throw new Error("REFRESH_TOKEN_EXPIRY_SECONDS must be a positive number");
+  }
+
+  return {
+    authProvider,
+    githubClientId,
+    githubClientSecret,
+    oidc,
+    allowedUsers,
+    allowedGithubOrgs,
+    allowedGithubTeams,
+    jwtSecret,
+    jwtSigningAlgorithm,
+    jwtKeysDir,
+    jwtKeyRotationDays,
+    serverUrl: serverUrl.replace(/\/$/, ""), // strip trailing slash
+    accessTokenExpirySeconds: accessTokenExpiry,
+    refreshTokenExpirySeconds: refreshTokenExpiry,
+  };
 }
 
-export function loadConfig(): Config {
-  const gitRepoUrl = process.env.GIT_REPO_URL;
-  if (!gitRepoUrl) {
+export interface LoadConfigOptions {
+  /**
+   * Serving over stdio (`--stdio`): there is no HTTP server, so the OAuth
+   * settings are neither required nor read.
+   */
+  stdio?: boolean;
+}
+
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+  const gitMode = (process.env.GIT_MODE ?? "sync").toLowerCase() as GitMode;
+  if (!GIT_MODES.includes(gitMode)) {
+    throw new Error(`GIT_MODE must be one of ${GIT_MODES.join(", ")}`);
+  }
+
+  // Only "sync" has a remote to clone from and push to
+  const gitRepoUrl = gitMode === "sync" ? process.env.GIT_REPO_URL ?? "" : "";
+  if (gitMode === "sync" && !gitRepoUrl) {
     throw new Error("GIT_REPO_URL environment variable is required");
   }
   if (containsControlCharacters(gitRepoUrl)) {
@@ -82,85 +367,63 @@ export function loadConfig(): Config {
     throw new Error("PORT must be a valid port number (1-65535)");
   }
 
-  // GitHub OAuth
-  const githubClientId = process.env.GITHUB_CLIENT_ID;
-  if (!githubClientId) {
-    throw new Error("GITHUB_CLIENT_ID environment variable is required");
-  }
+  const dataDir = process.env.DATA_DIR ?? "";
+  const auth = options.stdio ? STDIO_AUTH_CONFIG : loadAuthConfig(dataDir);
 
-  const githubClientSecret = process.env.GITHUB_CLIENT_SECRET;
-  if (!githubClientSecret) {
-    throw new Error("GITHUB_CLIENT_SECRET environment variable is required");
-  }
+  const trustProxy = (process.env.TRUST_PROXY ?? "false").toLowerCase() === "true";
+  const oauthConsent = (process.env.OAUTH_CONSENT ?? "true").toLowerCase() !== "false";
+  const clientIdMetadataDocuments = (process.env.CLIENT_ID_METADATA_DOCUMENTS ?? "true").toLowerCase() !== "false";
 
-  const allowedGithubUsersRaw = process.env.ALLOWED_GITHUB_USERS;
-  if (!allowedGithubUsersRaw || allowedGithubUsersRaw.trim() === "") {
-    throw new Error("ALLOWED_GITHUB_USERS environment variable is required (comma-separated GitHub usernames)");
-  }
-  const allowedGithubUsers = allowedGithubUsersRaw
-    .split(",")
-    .map((u) => u.trim().toLowerCase())
-    .filter((u) => u.length > 0);
-  if (allowedGithubUsers.length === 0) {
-    throw new Error("ALLOWED_GITHUB_USERS must contain at least one username");
+  const sessionMode = (process.env.SESSION_MODE ?? "stateful").toLowerCase() as SessionMode;
+  if (!SESSION_MODES.includes(sessionMode)) {
+    throw new Error(`SESSION_MODE must be one of ${SESSION_MODES.join(", ")}`);
   }
 
-  // OAuth 2.1
-  const jwtSecret = process.env.JWT_SECRET;
-  if (!jwtSecret) {
-    throw new Error("JWT_SECRET environment variable is required");
-  }
-  if (jwtSecret.length < 32) {
-    throw new Error("JWT_SECRET must be at least 32 characters");
-  }
-
-  const serverUrl = process.env.SERVER_URL;
-  if (!serverUrl) {
-    throw new Error("SERVER_URL environment variable is required");
+  const maxSessions = parseInt(process.env.MAX_SESSIONS ?? "100", 10);
+  if (isNaN(maxSessions) || maxSessions < 1) {
+    throw new Error("MAX_SESSIONS must be a positive number");
   }
 
-  const accessTokenExpiry = parseInt(
-    process.env.ACCESS_TOKEN_EXPIRY_SECONDS ?? "3600",
-    10,
-  );
-  if (isNaN(accessTokenExpiry) || accessTokenExpiry < 1) {
-    throw new Error("ACCESS_TOKEN_EXPIRY_SECONDS must be a positive number");
-  }
+  const vaultPath = process.env.VAULT_PATH ?? "/vault";
 
-  const refreshTokenExpiry = parseInt(
-    process.env.REFRESH_TOKEN_EXPIRY_SECONDS ?? "604800",
-    10,
-  );
-  if (isNaN(refreshTokenExpiry) || refreshTokenExpiry < 1) {
-    throw new Error("REFRESH_TOKEN_EXPIRY_SECONDS must be a positive number");
+  // The audit log must not end up in the vault, where it would be committed
+  // and could be edited by the tools it audits
+  const auditLogFile = process.env.AUDIT_LOG_FILE ?? (dataDir ? path.join(dataDir, "audit.jsonl") : "");
+  if (auditLogFile) {
+    const relative = path.relative(path.resolve(vaultPath), path.resolve(auditLogFile));
+    if (!relative.startsWith("..") && !path.isAbsolute(relative)) {
+      throw new Error("AUDIT_LOG_FILE must be outside VAULT_PATH");
+    }
   }
 
-  const trustProxy = (process.env.TRUST_PROXY ?? "false").toLowerCase() === "true";
+  const accessControlFile = process.env.ACCESS_CONTROL_FILE;
+  const accessControl = accessControlFile ? loadAccessControlFile(accessControlFile) : null;
 
-  const maxSessions = parseInt(process.env.MAX_SESSIONS ?? "100", 10);
-  if (isNaN(maxSessions) || maxSessions < 1) {
-    throw new Error("MAX_SESSIONS must be a positive number");
-  }
+  const confirmationPolicyFile = process.env.CONFIRMATION_POLICY_FILE;
+  const confirmationRules = confirmationPolicyFile ? loadConfirmationPolicyFile(confirmationPolicyFile) : null;
 
   return {
+    gitMode,
     gitRepoUrl,
     gitBranch,
     gitSyncIntervalSeconds: syncInterval,
     gitDebounceSyncDelaySeconds: debounceSyncDelay,
     gitUserName,
     gitUserEmail,
-    vaultPath: process.env.VAULT_PATH ?? "/vault",
+    vaultPath,
     port,
     logLevel: process.env.LOG_LEVEL ?? "info",
-    jwtSecret,
-    serverUrl: serverUrl.replace(/\/$/, ""), // strip trailing slash
-    accessTokenExpirySeconds: accessTokenExpiry,
-    refreshTokenExpirySeconds: refreshTokenExpiry,
-    githubClientId,
-    githubClientSecret,
-    allowedGithubUsers,
+    ...auth,
+    adminUsers: parseList(process.env.ADMIN_USERS),
+    oauthConsent,
+    clientIdMetadataDocuments,
     trustProxy,
+    sessionMode,
     maxSessions,
     promptsDir: process.env.PROMPTS_DIR ?? path.join(process.cwd(), "prompts"),
+    dataDir,
+    auditLogFile,
+    accessControl,
+    confirmationRules,
   };
 }
@@ -1,6 +1,8 @@
 import type { Config } from "../config.js";
 import { stageCommitAndPush } from "./gitSync.js";
+import type { CommitAuthor } from "./gitSync.js";
 import { logger } from "../utils/logger.js";
+import { getCurrentAuditCallId, recordAuditCommit } from "../utils/auditLog.js";
 import { getErrorMessage } from "../utils/toolResponse.js";
 
 /**
@@ -10,12 +12,33 @@ import { getErrorMessage } from "../utils/toolResponse.js";
  */
 const MAX_WAIT_MULTIPLIER = 3;
 
-/** Cap on accumulated descriptions to prevent unbounded memory growth. */
+/**
+ * Cap on accumulated descriptions to prevent unbounded memory growth.
+ * Changes past the cap still have their users and paths committed.
+ */
 const MAX_PENDING_DESCRIPTIONS = 1000;
 
+/** GitHub logins are alphanumeric with single hyphens; anything else is not used as an author. */
+const GITHUB_LOGIN_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,38})$/i;
+
+interface PendingChange {
+  description: string;
+  /** Audit log ID of the tool call, linked to the commit once it is pushed. */
+  auditCallId: string | undefined;
+}
+
+/** Everything to commit in the next sync. */
+interface PendingBatch {
+  changes: PendingChange[];
+  /** Usernames of the users whose tool calls caused the changes, if known. */
+  users: Set<string>;
+  /** Vault-relative paths the changes touched; null stages the whole working copy. */
+  paths: Set<string> | null;
+}
+
 let syncConfig: Config | null = null;
 let debounceTimer: ReturnType<typeof setTimeout> | null = null;
-let pendingDescriptions: string[] = [];
+let pending: PendingBatch = emptyBatch();
 let firstPendingTimestamp: number | null = null;
 let syncInProgress = false;
 let activeSyncPromise: Promise<void> | null = null;
@@ -37,15 +60,32 @@ export function initDebouncedSync(config: Config): void {
  *
  * A maximum wait time (3x the debounce delay) ensures that continuous
  * writes cannot indefinitely prevent syncing.
+ *
+ * `user` is the username of the caller. With AUTH_PROVIDER=github it becomes
+ * the commit author; otherwise, or when several users' changes are batched,
+ * it is named in the message.
+ * `paths` are the vault-relative paths the change wrote, deleted or moved
+ * (both sides of a move). Only they are committed, so changes other
+ * processes sharing the working copy have not committed yet are left to
+ * them; without `paths` the whole working copy is staged.
  */
-export function scheduleSync(description: string): void {
+export function scheduleSync(description: string, user?: string, paths?: string[]): void {
   if (syncConfig === null) {
     logger.error("scheduleSync called before initDebouncedSync");
     return;
   }
+  if (syncConfig.gitMode === "off") {
+    return;
+  }
 
-  if (pendingDescriptions.length < MAX_PENDING_DESCRIPTIONS) {
-    pendingDescriptions.push(description);
+  if (pending.changes.length < MAX_PENDING_DESCRIPTIONS) {
+    pending.changes.push({ description, auditCallId: getCurrentAuditCallId() });
+  }
+  if (user) pending.users.add(user);
+  if (!paths) {
+    pending.paths = null;
+  } else if (pending.paths) {
+    for (const p of paths) pending.paths.add(p);
   }
 
   if (firstPendingTimestamp === null) {
@@ -68,8 +108,9 @@ export function scheduleSync(description: string): void {
 
   logger.debug("Debounced sync scheduled", {
     description,
+    user,
     effectiveDelayMs: effectiveDelay,
-    pendingCount: pendingDescriptions.length,
+    pendingCount: pending.changes.length,
   });
 }
 
@@ -98,21 +139,29 @@ async function executePendingSync(): Promise<void> {
 
   syncInProgress = true;
   try {
-    while (pendingDescriptions.length > 0) {
-      const descriptions = pendingDescriptions.splice(0);
+    while (pending.changes.length > 0) {
+      const batch = pending;
+      pending = emptyBatch();
       firstPendingTimestamp = null;
-      const message = buildCommitMessage(descriptions);
+      const { changes } = batch;
+      const users = [...batch.users];
+      const author = users.length === 1 ? commitAuthor(syncConfig, users[0]) : undefined;
+      const message = buildCommitMessage(changes.map((c) => c.description), author ? [] : users);
 
       try {
-        await stageCommitAndPush(syncConfig, message);
+        const sha = await stageCommitAndPush(syncConfig, message, author, batch.paths ? [...batch.paths] : undefined);
+        if (sha) {
+          recordAuditCommit(sha, changes.flatMap((c) => (c.auditCallId ? [c.auditCallId] : [])));
+        }
         logger.info("Debounced sync completed", {
-          operationCount: descriptions.length,
+          operationCount: changes.length,
           message,
+          users,
         });
       } catch (error) {
         logger.error("Debounced sync failed", {
           error: getErrorMessage(error),
-          operationCount: descriptions.length,
+          operationCount: changes.length,
         });
       }
     }
@@ -121,12 +170,29 @@ async function executePendingSync(): Promise<void> {
   }
 }
 
-function buildCommitMessage(descriptions: string[]): string {
+function emptyBatch(): PendingBatch {
+  return { changes: [], users: new Set(), paths: new Set() };
+}
+
+/**
+ * The commit author for a user. Only GitHub logins map to an address, GitHub's
+ * noreply one; users of another identity provider (OIDC) could share a name
+ * with an unrelated GitHub account, so their commits keep the default author.
+ */
+function commitAuthor(config: Config, user: string): CommitAuthor | undefined {
+  if (config.authProvider !== "github" || !GITHUB_LOGIN_PATTERN.test(user)) return undefined;
+  return { name: user, email: `${user}@users.noreply.github.com` };
+}
+
+/** `users` are the users not recorded as the commit author, named in the message instead. */
+function buildCommitMessage(descriptions: string[], users: string[]): string {
+  // In a batch the users come before the descriptions, so the attribution
+  // survives commit message truncation
+  const byline = users.length > 0 ? ` by ${users.join(", ")}` : "";
   if (descriptions.length === 1) {
-    return descriptions[0];
+    return `${descriptions[0]}${byline}`;
   }
-  const summary = descriptions.join(", ");
-  return `MCP: ${descriptions.length} operations - ${summary}`;
+  return `MCP: ${descriptions.length} operations${byline} - ${descriptions.join(", ")}`;
 }
 
 /**
@@ -146,7 +212,7 @@ export async function flushDebouncedSync(): Promise<void> {
     await activeSyncPromise;
   }
 
-  if (pendingDescriptions.length > 0) {
+  if (pending.changes.length > 0) {
     await executePendingSync();
   }
 }
@@ -162,7 +228,7 @@ export function stopDebouncedSync(): void {
     clearTimeout(debounceTimer);
     debounceTimer = null;
   }
-  pendingDescriptions = [];
+  pending = emptyBatch();
   firstPendingTimestamp = null;
   syncInProgress = false;
   activeSyncPromise = null;
@@ -171,7 +237,7 @@ export function stopDebouncedSync(): void {
 
 /** Visible for testing: returns number of pending (not yet synced) descriptions. */
 export function getPendingSyncCount(): number {
-  return pendingDescriptions.length;
+  return pending.changes.length;
 }
 
 /** Visible for testing: returns whether a sync is currently in progress. */
@@ -1,13 +1,18 @@
 import { execFile } from "node:child_process";
-import { access } from "node:fs/promises";
+import { access, lstat, rename, stat } from "node:fs/promises";
 import path from "node:path";
 import type { Config } from "../config.js";
 import { logger } from "../utils/logger.js";
 import { getErrorMessage } from "../utils/toolResponse.js";
+import { withWorkingCopyLock } from "./workingCopyLock.js";
+import { publishVaultChanges } from "./vaultChanges.js";
+import type { VaultChanges } from "./vaultChanges.js";
 
 const GIT_TIMEOUT_MS = 30_000;
 const GIT_MAX_BUFFER = 2 * 1024 * 1024; // 2 MiB
 const MAX_COMMIT_MESSAGE_LENGTH = 200;
+/** Git's empty tree object, the base of a diff in a repository without commits. */
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
 
 let lastSyncTimestamp: Date | null = null;
 let syncIntervalHandle: ReturnType<typeof setInterval> | null = null;
@@ -39,6 +44,11 @@ export const SECRETS_TO_STRIP = [
   "GITHUB_CLIENT_ID",
   "GITHUB_CLIENT_SECRET",
   "ALLOWED_GITHUB_USERS",
+  "ALLOWED_USERS",
+  "ALLOWED_GITHUB_ORGS",
+  "ALLOWED_GITHUB_TEAMS",
+  "OIDC_CLIENT_ID",
+  "OIDC_CLIENT_SECRET",
   "GIT_REPO_URL",
 ] as const;
 
@@ -90,12 +100,25 @@ export class GitSyncError extends Error {
 }
 
 /**
- * Initialize the vault by cloning or pulling the repo.
+ * Initialize the vault by cloning or pulling the repo. With GIT_MODE=local
+ * the vault directory must exist and gets a repository if it has none; with
+ * GIT_MODE=off it only has to exist.
  */
 export async function initializeVault(config: Config): Promise<void> {
   const vaultPath = config.vaultPath;
   const gitDir = path.join(vaultPath, ".git");
 
+  if (config.gitMode !== "sync") {
+    const vaultStat = await stat(vaultPath).catch(() => null);
+    if (!vaultStat?.isDirectory()) {
+      throw new Error(`Vault directory does not exist: ${vaultPath}`);
+    }
+  }
+  if (config.gitMode === "off") {
+    logger.info("Git disabled, serving the vault directory as is", { vaultPath });
+    return;
+  }
+
   let isRepo = false;
   try {
     await access(gitDir);
@@ -104,6 +127,23 @@ export async function initializeVault(config: Config): Promise<void> {
     // not a git repo yet
   }
 
+  if (config.gitMode === "local") {
+    if (!isRepo) {
+      logger.info("Creating a local git repository in the vault", { vaultPath });
+      await git(["init", `--initial-branch=${config.gitBranch}`], vaultPath);
+    }
+    await git(
+      ["config", "user.name", config.gitUserName],
+      vaultPath,
+    );
+    await git(
+      ["config", "user.email", config.gitUserEmail],
+      vaultPath,
+    );
+    logger.info("Vault initialized, committing locally without a remote");
+    return;
+  }
+
   if (isRepo) {
     logger.info("Vault directory exists, pulling latest changes", {
       vaultPath,
@@ -152,8 +192,15 @@ export async function initializeVault(config: Config): Promise<void> {
  */
 export async function pullVault(config: Config): Promise<void> {
   logger.debug("Pulling vault changes");
+  const cwd = config.vaultPath;
+  let before: string | null;
+  let after: string | null;
   try {
-    await git(["pull", "--rebase", "origin", "--", config.gitBranch], config.vaultPath);
+    [before, after] = await withWorkingCopyLock(cwd, async () => {
+      const head = await headCommit(cwd);
+      await pullRebase(config);
+      return [head, await headCommit(cwd)];
+    });
     lastSyncTimestamp = new Date();
     logger.debug("Pull completed successfully");
   } catch (error) {
@@ -162,45 +209,209 @@ export async function pullVault(config: Config): Promise<void> {
     });
     throw error;
   }
+  await publishChangesBetween(cwd, before, after);
 }
 
 /**
- * Stage all changes, commit with the given message, rebase-pull, and push.
- * Shared implementation for single and batch commits.
+ * Rebase onto the remote branch. Changes other processes have not committed
+ * yet, and files a path-limited commit left out, stay in the working tree:
+ * `--autostash` sets them aside for the rebase, since git refuses to rebase
+ * with unstaged changes.
  */
-export async function stageCommitAndPush(config: Config, message: string): Promise<void> {
-  const cwd = config.vaultPath;
+async function pullRebase(config: Config): Promise<void> {
+  await git(["pull", "--rebase", "--autostash", "origin", "--", config.gitBranch], config.vaultPath);
+}
 
-  await git(["add", "."], cwd);
+/** The commit checked out, or null in a repository without commits. */
+async function headCommit(cwd: string): Promise<string | null> {
+  try {
+    const { stdout } = await git(["rev-parse", "--verify", "HEAD"], cwd);
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Paths changed between two commits, from `git diff --name-only`. Renames
+ * count as a removal and an addition. A null `from` diffs against the empty
+ * tree, so every path of `to` is added.
+ */
+export async function diffVaultChanges(cwd: string, from: string | null, to: string): Promise<VaultChanges> {
+  const names = async (...filter: string[]): Promise<string[]> => {
+    const { stdout } = await git(["diff", "--name-only", "-z", "--no-renames", ...filter, from ?? EMPTY_TREE, to, "--"], cwd);
+    return stdout.split("\0").filter(Boolean);
+  };
+  return {
+    changed: await names(),
+    added: await names("--diff-filter=A"),
+    removed: await names("--diff-filter=D"),
+  };
+}
 
+/**
+ * Tell subscribers which paths moved the working copy from `before` to
+ * `after`. Failures are logged only: the pull or commit itself succeeded.
+ */
+async function publishChangesBetween(cwd: string, before: string | null, after: string | null): Promise<void> {
+  if (after === null || before === after) return;
   try {
-    const { stdout } = await git(["status", "--porcelain"], cwd);
-    if (!stdout.trim()) {
+    publishVaultChanges(await diffVaultChanges(cwd, before, after));
+  } catch (error) {
+    logger.warn("Could not determine the changed vault paths", { error: getErrorMessage(error) });
+  }
+}
+
+/** Git author recorded on a commit; the committer stays the configured GIT_USER_NAME. */
+export interface CommitAuthor {
+  name: string;
+  email: string;
+}
+
+/**
+ * Stage changes, commit with the given message, rebase-pull, and push.
+ * Shared implementation for single and batch commits. When `author` is
+ * given, the commit is attributed to that user. When `paths` (relative to
+ * the vault) are given, only changes to them are staged and committed;
+ * otherwise all changes are. Returns the SHA of the pushed commit (after the
+ * rebase), or null when there was nothing to commit.
+ * With GIT_MODE=local the commit stays local: no pull, no push.
+ * Holds the working copy lock throughout, so commits from other processes
+ * sharing the vault cannot interleave. Afterwards the paths changed by the
+ * commit and the rebase-pull are published to resource subscribers.
+ */
+export async function stageCommitAndPush(
+  config: Config,
+  message: string,
+  author?: CommitAuthor,
+  paths?: string[],
+): Promise<string | null> {
+  const cwd = config.vaultPath;
+  const { before, sha } = await withWorkingCopyLock(cwd, async () => {
+    const head = await headCommit(cwd);
+    return { before: head, sha: await stageCommitAndPushLocked(config, message, author, paths) };
+  });
+  await publishChangesBetween(cwd, before, sha);
+  return sha;
+}
+
+/** Pathspec matching `p` literally, so vault paths with `*` or a leading `:` are not read as patterns. */
+function literalPathspec(p: string): string {
+  return `:(literal)${p}`;
+}
+
+/**
+ * Stage `paths` and return the files among them that differ from HEAD
+ * (both sides of renames). Paths that no longer exist or are ignored are not
+ * added, since git rejects them; a deletion is found by the status.
+ */
+async function stagePaths(cwd: string, vaultPaths: string[]): Promise<string[]> {
+  const paths = vaultPaths.map((p) => path.relative(cwd, path.resolve(cwd, p)));
+  const existing: string[] = [];
+  for (const p of paths) {
+    try {
+      await lstat(path.join(cwd, p));
+      existing.push(p);
+    } catch {
+      // Deleted or moved away
+    }
+  }
+  let ignored = new Set<string>();
+  if (existing.length > 0) {
+    try {
+      // Without quotePath, non-ASCII paths are printed as they were given
+      const { stdout } = await git(["-c", "core.quotePath=false", "check-ignore", "--", ...existing], cwd);
+      ignored = new Set(stdout.split("\n"));
+    } catch {
+      // Exit status 1: none of them is ignored
+    }
+  }
+  const toAdd = existing.filter((p) => !ignored.has(p));
+  if (toAdd.length > 0) {
+    await git(["add", "-A", "--", ...toAdd.map(literalPathspec)], cwd);
+  }
+  const { stdout } = await git(["status", "--porcelain", "-z", "--no-renames", "--untracked-files=no", "--", ...paths.map(literalPathspec)], cwd);
+  return stdout.split("\0").filter(Boolean).map((entry) => entry.slice(3));
+}
+
+async function stageCommitAndPushLocked(
+  config: Config,
+  message: string,
+  author?: CommitAuthor,
+  paths?: string[],
+): Promise<string | null> {
+  const cwd = config.vaultPath;
+
+  // Only the given files are committed, whatever else other processes have staged
+  let files: string[] = [];
+  if (paths) {
+    files = await stagePaths(cwd, paths);
+    if (files.length === 0) {
       logger.debug("No changes to commit");
-      return;
+      return null;
     }
-  } catch {
-    // proceed with commit attempt
+  } else {
+    await git(["add", "."], cwd);
+    try {
+      const { stdout } = await git(["status", "--porcelain"], cwd);
+      if (!stdout.trim()) {
+        logger.debug("No changes to commit");
+        return null;
+      }
+    } catch {
+      // proceed with commit attempt
+    }
+  }
+
+  const commitArgs = ["commit", "-m", sanitizeCommitMessage(message)];
+  if (author) {
+    commitArgs.push(`--author=${author.name} <${author.email}>`);
+  }
+  if (paths) {
+    commitArgs.push("--", ...files.map(literalPathspec));
   }
+  await git(commitArgs, cwd);
 
-  await git(["commit", "-m", sanitizeCommitMessage(message)], cwd);
+  if (config.gitMode === "local") {
+    const { stdout: sha } = await git(["rev-parse", "HEAD"], cwd);
+    return sha.trim();
+  }
 
   try {
-    await git(["pull", "--rebase", "origin", "--", config.gitBranch], cwd);
+    await pullRebase(config);
   } catch (error) {
     logger.error("Pre-push pull failed, attempting push anyway", {
       error: getErrorMessage(error),
     });
   }
 
+  const { stdout: sha } = await git(["rev-parse", "HEAD"], cwd);
   await git(["push", "origin", "--", config.gitBranch], cwd);
   lastSyncTimestamp = new Date();
+  return sha.trim();
+}
+
+/**
+ * Move a file or directory inside the vault (paths relative to its root)
+ * with `git mv`, so history follows the file, or with a plain rename when
+ * git is off.
+ */
+export async function moveVaultPath(config: Config, relOld: string, relNew: string): Promise<void> {
+  if (config.gitMode === "off") {
+    await rename(path.join(config.vaultPath, relOld), path.join(config.vaultPath, relNew));
+    return;
+  }
+  await withWorkingCopyLock(config.vaultPath, () => git(["mv", "--", relOld, relNew], config.vaultPath));
 }
 
 /**
  * Start periodic sync interval.
  */
 export function startPeriodicSync(config: Config): void {
+  if (config.gitMode !== "sync") {
+    logger.info("Periodic sync disabled (no remote)", { gitMode: config.gitMode });
+    return;
+  }
   if (config.gitSyncIntervalSeconds <= 0) {
     logger.info("Periodic sync disabled (interval is 0)");
     return;
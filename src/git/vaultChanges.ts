@@ -0,0 +1,41 @@
+import { logger } from "../utils/logger.js";
+import { getErrorMessage } from "../utils/toolResponse.js";
+
+/** Vault paths (relative to its root) changed between two commits. */
+export interface VaultChanges {
+  /** Every added, modified or removed path. */
+  changed: string[];
+  /** Paths that did not exist before. */
+  added: string[];
+  /** Paths that no longer exist. */
+  removed: string[];
+}
+
+export type VaultChangeListener = (changes: VaultChanges) => void;
+
+const listeners = new Set<VaultChangeListener>();
+
+/**
+ * Register a listener for changes git brought into the working copy (pulls)
+ * or committed from it (debounced writes). Returns a function removing it.
+ */
+export function onVaultChanges(listener: VaultChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Notify all listeners. A failing listener does not keep the others from running. */
+export function publishVaultChanges(changes: VaultChanges): void {
+  if (changes.changed.length === 0) return;
+  logger.debug("Vault changed", { changed: changes.changed.length, added: changes.added.length, removed: changes.removed.length });
+  for (const listener of listeners) {
+    try {
+      listener(changes);
+    } catch (error) {
+      logger.error("Vault change listener failed", { error: getErrorMessage(error) });
+    }
+  }
+}
+
@@ -0,0 +1,119 @@
+import { open, readFile, stat, unlink, utimes } from "node:fs/promises";
+import crypto from "node:crypto";
+import os from "node:os";
+import path from "node:path";
+import { logger } from "../utils/logger.js";
+
+/** Lock file inside `.git`, so it is shared by every process using the working copy and never committed. */
+const LOCK_FILE_NAME = "mcp-working-copy.lock";
+const RETRY_DELAY_MS = 100;
+const ACQUIRE_TIMEOUT_MS = 5 * 60 * 1000;
+/** The holder touches the lock file this often... */
+const HEARTBEAT_INTERVAL_MS = 10_000;
+/** ...so a lock file untouched for this long was left behind by a crashed process. */
+const STALE_LOCK_MS = 60_000;
+
+/** Per-lock-file queue of this process, so local callers wait without polling the file. */
+const localQueues = new Map<string, Promise<void>>();
+
+/**
+ * Run `fn` while holding the lock on the vault's git working copy.
+ *
+ * Several processes can serve the same vault from a shared volume (stateless
+ * replicas behind a load balancer), and git operations from two of them must
+ * not interleave: concurrent pulls and commits fail on git's own
+ * `index.lock`. Tool writes happen outside the lock, so a commit stages
+ * only the paths its own process wrote (see `stageCommitAndPush`), never
+ * another replica's half written files. The lock is a file created
+ * exclusively in `.git`; callers in this process are queued first and only
+ * the head of the queue polls it.
+ */
+export async function withWorkingCopyLock<T>(vaultPath: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = path.join(vaultPath, ".git", LOCK_FILE_NAME);
+
+  const previous = localQueues.get(lockPath) ?? Promise.resolve();
+  let releaseLocal!: () => void;
+  const current = new Promise<void>((resolve) => {
+    releaseLocal = resolve;
+  });
+  const queued = previous.then(() => current);
+  localQueues.set(lockPath, queued);
+
+  try {
+    await previous;
+    const token = await acquireLockFile(lockPath);
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      utimes(lockPath, now, now).catch(() => {});
+    }, HEARTBEAT_INTERVAL_MS);
+    try {
+      return await fn();
+    } finally {
+      clearInterval(heartbeat);
+      await releaseLockFile(lockPath, token);
+    }
+  } finally {
+    releaseLocal();
+    if (localQueues.get(lockPath) === queued) {
+      localQueues.delete(lockPath);
+    }
+  }
+}
+
+/** Create the lock file, waiting for other holders. Returns the token written to it. */
+async function acquireLockFile(lockPath: string): Promise<string> {
+  const token = `${os.hostname()} ${process.pid} ${crypto.randomUUID()}`;
+  const deadline = Date.now() + ACQUIRE_TIMEOUT_MS;
+  let waiting = false;
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, "wx", 0o600);
+      await handle.writeFile(token);
+      await handle.close();
+      if (waiting) logger.debug("Acquired git working copy lock", { lockPath });
+      return token;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    if (await removeIfStale(lockPath)) continue;
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the git working copy lock (${lockPath})`);
+    }
+    if (!waiting) {
+      logger.debug("Waiting for git working copy lock held by another process", { lockPath });
+      waiting = true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+  }
+}
+
+/** Remove a lock file whose holder stopped refreshing it. Returns true if the lock is gone. */
+async function removeIfStale(lockPath: string): Promise<boolean> {
+  try {
+    const { mtimeMs } = await stat(lockPath);
+    if (Date.now() - mtimeMs <= STALE_LOCK_MS) return false;
+    const holder = await readFile(lockPath, "utf-8");
+    logger.warn("Removing stale git working copy lock", { lockPath, holder });
+    await unlink(lockPath);
+    return true;
+  } catch (error) {
+    // Released between the checks
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return true;
+    throw error;
+  }
+}
+
+/** Remove the lock file unless another process has taken it over as stale in the meantime. */
+async function releaseLockFile(lockPath: string, token: string): Promise<void> {
+  try {
+    if ((await readFile(lockPath, "utf-8")) === token) {
+      await unlink(lockPath);
+    } else {
+      logger.warn("Git working copy lock was taken over while held", { lockPath });
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+}
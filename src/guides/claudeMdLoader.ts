@@ -1,6 +1,7 @@
 import path from "node:path";
 import { resolveVaultPathSafe } from "../utils/pathValidation.js";
 import { readCachedFileOptional } from "../utils/fileCache.js";
+import type { PathAccessPolicy } from "../utils/accessControl.js";
 
 const CLAUDE_MD_FILENAME = "CLAUDE.md";
 
@@ -16,9 +17,10 @@ export async function loadRootClaudeMd(vaultPath: string): Promise<string | null
 export async function collectClaudeMdFiles(
   vaultPath: string,
   targetPath: string,
+  access?: PathAccessPolicy,
 ): Promise<ClaudeMdEntry[]> {
   // Validate the target path with symlink resolution (rejects traversal + symlink escape)
-  await resolveVaultPathSafe(vaultPath, targetPath);
+  await resolveVaultPathSafe(vaultPath, targetPath, access, "list");
 
   const normalizedTarget = path.normalize(targetPath);
   // Root is excluded — delivered via get_obsidian_guide tool
@@ -31,6 +33,7 @@ export async function collectClaudeMdFiles(
 
   for (let i = 0; i < segments.length; i++) {
     const relativeDirPath = segments.slice(0, i + 1).join(path.sep);
+    if (access && !access.can(path.join(relativeDirPath, CLAUDE_MD_FILENAME), "read")) continue;
     const absoluteClaudeMdPath = path.join(vaultPath, relativeDirPath, CLAUDE_MD_FILENAME);
     const content = await readCachedFileOptional(absoluteClaudeMdPath);
     if (content !== null) {
@@ -16,22 +16,35 @@ export async function loadGuide(promptsDir: string, topic: string): Promise<stri
   }
 }
 
+/** Heading that starts each template in obsidian-create-note.md. */
+const NOTE_TYPE_HEADING = /^## type: (\S+)[ \t]*$/gm;
+
+function findNoteTypeHeadings(raw: string): RegExpMatchArray[] {
+  return [...raw.matchAll(NOTE_TYPE_HEADING)];
+}
+
+/** The note types defined in obsidian-create-note.md, in file order. */
+export async function loadNoteTypes(promptsDir: string): Promise<string[]> {
+  const raw = await readGuideFile(promptsDir, "obsidian-create-note.md");
+  return findNoteTypeHeadings(raw).map((heading) => heading[1]);
+}
+
 export async function loadNoteTemplate(promptsDir: string, noteType: string, topic: string): Promise<string> {
   const raw = await readGuideFile(promptsDir, "obsidian-create-note.md");
 
   // Parse the template for the given note type
-  const marker = `## type: ${noteType}`;
-  const startIdx = raw.indexOf(marker);
-  if (startIdx === -1) {
-    throw new Error(`Unknown note type: ${noteType}. Available: zettel, meeting, daily, project, literature`);
+  const headings = findNoteTypeHeadings(raw);
+  const heading = headings.find((h) => h[1] === noteType);
+  if (!heading) {
+    throw new Error(`Unknown note type: ${noteType}. Available: ${headings.map((h) => h[1]).join(", ")}`);
   }
 
   // Find the end of this template (next ## type: or end of file)
-  const afterMarker = startIdx + marker.length;
-  const nextMarker = raw.indexOf("\n## type: ", afterMarker);
-  const templateRaw = nextMarker === -1
+  const afterMarker = heading.index! + heading[0].length;
+  const next = headings.find((h) => h.index! > heading.index!);
+  const templateRaw = next === undefined
     ? raw.slice(afterMarker)
-    : raw.slice(afterMarker, nextMarker);
+    : raw.slice(afterMarker, next.index);
 
   // Replace template variables (use callback to prevent $ special sequences in topic)
   const today = new Date().toISOString().split("T")[0];
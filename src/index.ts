@@ -1,21 +1,35 @@
 import { loadConfig } from "./config.js";
-import { setLogLevel, logger } from "./utils/logger.js";
+import { setLogLevel, setLogToStderr, logger } from "./utils/logger.js";
 import { initializeVault, startPeriodicSync, stopPeriodicSync } from "./git/gitSync.js";
 import { initDebouncedSync, flushDebouncedSync } from "./git/debouncedSync.js";
 import { createMcpServer } from "./server.js";
 import { startHttpServer } from "./transport.js";
+import { startStdioServer } from "./stdioTransport.js";
 import { getErrorMessage } from "./utils/toolResponse.js";
+import { initAuditLog } from "./utils/auditLog.js";
+import { runApiKeyCommand } from "./cli/apiKeyCommand.js";
+import { runJwtKeyCommand } from "./cli/jwtKeyCommand.js";
 
-async function main(): Promise<void> {
-  const config = loadConfig();
+async function main(stdio: boolean): Promise<void> {
+  // stdout carries the protocol in stdio mode
+  setLogToStderr(stdio);
+  const config = loadConfig({ stdio });
   setLogLevel(config.logLevel);
 
   logger.info("Starting Obsidian Vault MCP Server", {
-    port: config.port,
+    transport: stdio ? "stdio" : "http",
+    ...(!stdio && { port: config.port, authProvider: config.authProvider }),
     vaultPath: config.vaultPath,
+    gitMode: config.gitMode,
     gitBranch: config.gitBranch,
     syncInterval: config.gitSyncIntervalSeconds,
   });
+  if (config.accessControl) {
+    logger.info("Per-user access control enabled", {
+      users: Object.keys(config.accessControl.users),
+      hasDefault: config.accessControl.default !== undefined,
+    });
+  }
 
   // Initialize vault (clone or pull)
   await initializeVault(config);
@@ -23,24 +37,37 @@ async function main(): Promise<void> {
   // Start periodic git sync and debounced write sync
   startPeriodicSync(config);
   initDebouncedSync(config);
-
-  // Start HTTP transport (factory creates a fresh McpServer per session)
-  const httpServer = await startHttpServer(async () => createMcpServer(config), config);
+  initAuditLog(config);
 
   // Graceful shutdown
   const shutdown = async () => {
     logger.info("Shutting down...");
     stopPeriodicSync();
     await flushDebouncedSync();
-    await httpServer.close();
+    await server.close();
     process.exit(0);
   };
 
+  // Start the transport: stdio serves the one client that started this
+  // process; HTTP creates a fresh McpServer per session
+  const server = stdio
+    ? await startStdioServer(async () => createMcpServer(config), () => void shutdown())
+    : await startHttpServer(async () => createMcpServer(config), config);
+
   process.on("SIGTERM", shutdown);
   process.on("SIGINT", shutdown);
 }
 
-main().catch((error) => {
+// `node dist/index.js api-key ...` manages API keys instead of starting the server
+if (process.argv[2] === "api-key") {
+  process.exit(runApiKeyCommand(process.argv.slice(3), process.env.DATA_DIR ?? ""));
+}
+// `node dist/index.js jwt-key ...` lists or rotates the access token signing keys
+if (process.argv[2] === "jwt-key") {
+  process.exit(runJwtKeyCommand(process.argv.slice(3), process.env));
+}
+
+main(process.argv.slice(2).includes("--stdio")).catch((error) => {
   logger.error("Fatal error", { error: getErrorMessage(error) });
   process.exit(1);
 });
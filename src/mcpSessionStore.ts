@@ -0,0 +1,93 @@
+import type { InitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { MemoryStorageBackend } from "./utils/storageBackend.js";
+import type { StorageBackend } from "./utils/storageBackend.js";
+import { hashSecret } from "./oauth/secretHash.js";
+
+/** What is needed to rebuild a Streamable HTTP session after a restart. */
+export interface PersistedMcpSession {
+  /** Identity of the request that initialized the session; later requests must match it. */
+  clientId: string | undefined;
+  user: string | undefined;
+  createdAt: number;
+  lastActivity: number;
+  /** Params of the client's initialize request, replayed to restore the session. */
+  initializeParams: InitializeRequest["params"];
+}
+
+/** Persisted snapshot, keyed by the SHA-256 hash of each session ID. */
+export type McpSessionSnapshot = Array<[string, PersistedMcpSession]>;
+
+/**
+ * Metadata of the MCP sessions in `transport.ts`, kept so that clients can go
+ * on using their `mcp-session-id` after the server restarts. Activity updates
+ * are frequent, so they are only written by `flush()`; creating and deleting
+ * a session is written immediately.
+ */
+export class McpSessionStore {
+  private sessions = new Map<string, PersistedMcpSession>();
+  private dirty = false;
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly backend: StorageBackend<McpSessionSnapshot> = new MemoryStorageBackend(),
+  ) {
+    const snapshot = backend.load();
+    if (snapshot) {
+      this.sessions = new Map(snapshot);
+      this.cleanup();
+    }
+  }
+
+  private persist(): void {
+    this.backend.save([...this.sessions.entries()]);
+    this.dirty = false;
+  }
+
+  save(sessionId: string, session: PersistedMcpSession): void {
+    this.sessions.set(hashSecret(sessionId), session);
+    this.persist();
+  }
+
+  /** Returns null if the session is unknown or has been idle for longer than the TTL. */
+  get(sessionId: string): PersistedMcpSession | null {
+    const session = this.sessions.get(hashSecret(sessionId));
+    if (!session || Date.now() - session.lastActivity > this.ttlMs) return null;
+    return session;
+  }
+
+  touch(sessionId: string, lastActivity: number): void {
+    const session = this.sessions.get(hashSecret(sessionId));
+    if (session) {
+      session.lastActivity = lastActivity;
+      this.dirty = true;
+    }
+  }
+
+  delete(sessionId: string): void {
+    if (this.sessions.delete(hashSecret(sessionId))) {
+      this.persist();
+    }
+  }
+
+  /** Write pending activity updates. */
+  flush(): void {
+    if (this.dirty) this.persist();
+  }
+
+  /** Remove sessions idle for longer than the TTL. */
+  cleanup(): void {
+    const now = Date.now();
+    for (const [key, session] of this.sessions) {
+      if (now - session.lastActivity > this.ttlMs) {
+        this.sessions.delete(key);
+        this.dirty = true;
+      }
+    }
+    this.flush();
+  }
+
+  /** For testing: number of persisted sessions. */
+  size(): number {
+    return this.sessions.size;
+  }
+}
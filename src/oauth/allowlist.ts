@@ -1,6 +1,7 @@
 /**
- * Check whether a GitHub username is in the allowlist.
- * Comparison is case-insensitive (GitHub usernames are case-insensitive).
+ * Check whether a username is in the allowlist.
+ * Comparison is case-insensitive (GitHub usernames are case-insensitive,
+ * and OIDC usernames are normalized the same way).
  */
 export function isAllowedUser(
   username: string,
@@ -0,0 +1,147 @@
+import crypto from "node:crypto";
+import { logger } from "../utils/logger.js";
+import { MemoryStorageBackend } from "../utils/storageBackend.js";
+import type { StorageBackend } from "../utils/storageBackend.js";
+import { hashSecret, matchesSecretHash } from "./secretHash.js";
+
+/** Prefix that tells API keys apart from JWT access tokens. */
+export const API_KEY_PREFIX = "ovk_";
+/** `ovk_<12 hex id>_<64 hex secret>` */
+const API_KEY_PATTERN = /^ovk_([0-9a-f]{12})_([0-9a-f]{64})$/;
+
+const MAX_API_KEYS = 1000;
+/** How often the server picks up keys created or revoked by the CLI. */
+const API_KEY_RELOAD_INTERVAL_MS = 5_000;
+
+/** An API key as shown to operators. The key itself is never stored. */
+export interface ApiKey {
+  /** Public identifier, part of the key and used to revoke it. */
+  id: string;
+  /** Operator-chosen label, unique among keys. */
+  name: string;
+  /** Lowercase username the key acts as. */
+  subject: string;
+  scopes: string[];
+  /** Vault path globs the key is limited to (ACL allow-rule syntax). Null = no restriction. */
+  paths: string[] | null;
+  createdAt: number;
+  /** Null for keys that never expire. */
+  expiresAt: number | null;
+}
+
+interface StoredApiKey extends ApiKey {
+  /** SHA-256 hash of the key's secret part. */
+  secretHash: string;
+}
+
+export interface ApiKeyParams {
+  name: string;
+  subject: string;
+  scopes: string[];
+  paths: string[] | null;
+  /** Omit for a key that never expires. */
+  expiresInSeconds?: number;
+}
+
+/** Snapshot persisted through the storage backend. */
+export interface ApiKeyStoreSnapshot {
+  keys: StoredApiKey[];
+}
+
+function toPublic(key: StoredApiKey): ApiKey {
+  const { secretHash: _secretHash, ...rest } = key;
+  return rest;
+}
+
+/**
+ * Long-lived API keys for non-interactive clients (cron jobs, CI), accepted
+ * by `jwtAuth` as Bearer tokens. A key has the form `ovk_<id>_<secret>`; only
+ * the hash of the secret is stored, so a key is shown once at creation.
+ *
+ * Keys are managed by the `api-key` CLI subcommand, which writes the same
+ * storage file the server reads. The server never writes it and reloads it
+ * at most every few seconds, so keys created or revoked by the CLI take
+ * effect without a restart.
+ */
+export class ApiKeyStore {
+  private keys = new Map<string, StoredApiKey>();
+  private loadedAt = 0;
+
+  constructor(
+    private readonly backend: StorageBackend<ApiKeyStoreSnapshot> = new MemoryStorageBackend(),
+    private readonly reloadIntervalMs = API_KEY_RELOAD_INTERVAL_MS,
+  ) {
+    this.load();
+  }
+
+  private load(): void {
+    const snapshot = this.backend.load();
+    this.keys = new Map((snapshot?.keys ?? []).map((key) => [key.id, key]));
+    this.loadedAt = Date.now();
+  }
+
+  private persist(): void {
+    this.backend.save({ keys: [...this.keys.values()] });
+  }
+
+  /** Create a key. Returns the plaintext key, which cannot be recovered later. */
+  create(params: ApiKeyParams): { key: string; apiKey: ApiKey } {
+    this.load();
+    if ([...this.keys.values()].some((k) => k.name === params.name)) {
+      throw new Error(`An API key named "${params.name}" already exists`);
+    }
+    if (this.keys.size >= MAX_API_KEYS) {
+      throw new Error(`Cannot create more than ${MAX_API_KEYS} API keys`);
+    }
+
+    const id = crypto.randomBytes(6).toString("hex");
+    const secret = crypto.randomBytes(32).toString("hex");
+    const now = Date.now();
+    const stored: StoredApiKey = {
+      id,
+      name: params.name,
+      subject: params.subject.toLowerCase(),
+      scopes: params.scopes,
+      paths: params.paths,
+      createdAt: now,
+      expiresAt: params.expiresInSeconds !== undefined ? now + params.expiresInSeconds * 1000 : null,
+      secretHash: hashSecret(secret),
+    };
+    this.keys.set(id, stored);
+    this.persist();
+    return { key: `${API_KEY_PREFIX}${id}_${secret}`, apiKey: toPublic(stored) };
+  }
+
+  /** All keys, including expired ones, oldest first. */
+  list(): ApiKey[] {
+    this.load();
+    return [...this.keys.values()].map(toPublic);
+  }
+
+  /** Delete a key by id or name. Returns the deleted key, or null if none matched. */
+  revoke(idOrName: string): ApiKey | null {
+    this.load();
+    const key = this.keys.get(idOrName) ?? [...this.keys.values()].find((k) => k.name === idOrName);
+    if (!key) return null;
+    this.keys.delete(key.id);
+    this.persist();
+    return toPublic(key);
+  }
+
+  /** Return the key a presented Bearer token belongs to, or null if it is unknown, revoked or expired. */
+  verify(token: string): ApiKey | null {
+    const match = API_KEY_PATTERN.exec(token);
+    if (!match) return null;
+    if (Date.now() - this.loadedAt >= this.reloadIntervalMs) {
+      this.load();
+    }
+
+    const key = this.keys.get(match[1]);
+    if (!key || !matchesSecretHash(match[2], key.secretHash)) return null;
+    if (key.expiresAt !== null && Date.now() > key.expiresAt) {
+      logger.debug("Expired API key presented", { keyId: key.id });
+      return null;
+    }
+    return toPublic(key);
+  }
+}
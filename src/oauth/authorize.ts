@@ -1,17 +1,30 @@
+import crypto from "node:crypto";
 import type { Request, Response } from "express";
-import type { Config } from "../config.js";
 import type { OAuthStore } from "./store.js";
-import type { OAuthSessionStore } from "./sessionStore.js";
+import type { OAuthSessionStore, OAuthSession, ConsentManagementSession } from "./sessionStore.js";
+import type { IdentityProvider } from "./identityProvider.js";
+import type { RegisteredClient } from "./store.js";
+import { isClientIdUrl } from "./clientMetadata.js";
+import type { ClientMetadataResolver } from "./clientMetadata.js";
 import { logger } from "../utils/logger.js";
+import { getErrorMessage } from "../utils/toolResponse.js";
+import { parseScope } from "./scopes.js";
 
 /**
  * GET /oauth/authorize
  *
  * Instead of showing a login page, saves the Claude session parameters
- * and redirects the user to GitHub for authentication.
+ * and redirects the user to the identity provider for authentication.
+ * A URL `client_id` is looked up through its Client ID Metadata Document
+ * when `clientMetadata` is given.
  */
-export function handleAuthorizeGet(config: Config, store: OAuthStore, sessionStore: OAuthSessionStore) {
-  return (req: Request, res: Response): void => {
+export function handleAuthorizeGet(
+  provider: IdentityProvider,
+  store: OAuthStore,
+  sessionStore: OAuthSessionStore,
+  clientMetadata?: ClientMetadataResolver,
+) {
+  return async (req: Request, res: Response): Promise<void> => {
     const q = (key: string): string | undefined => {
       const v = req.query[key];
       return typeof v === "string" ? v : undefined;
@@ -22,6 +35,7 @@ export function handleAuthorizeGet(config: Config, store: OAuthStore, sessionSto
     const code_challenge = q("code_challenge");
     const code_challenge_method = q("code_challenge_method");
     const response_type = q("response_type");
+    const scope = q("scope");
 
     // Validate required params
     if (response_type !== "code") {
@@ -33,7 +47,18 @@ export function handleAuthorizeGet(config: Config, store: OAuthStore, sessionSto
       return;
     }
 
-    const client = store.getClient(client_id);
+    let client: RegisteredClient | undefined;
+    if (clientMetadata && isClientIdUrl(client_id)) {
+      try {
+        client = await clientMetadata.resolve(client_id);
+      } catch (err) {
+        logger.warn("Client metadata document rejected", { clientId: client_id, error: getErrorMessage(err) });
+        res.status(400).json({ error: "invalid_request", error_description: `Invalid client metadata document: ${getErrorMessage(err)}` });
+        return;
+      }
+    } else {
+      client = store.getClient(client_id);
+    }
     if (!client) {
       res.status(400).json({ error: "invalid_request", error_description: "Unknown client_id." });
       return;
@@ -43,28 +68,66 @@ export function handleAuthorizeGet(config: Config, store: OAuthStore, sessionSto
       return;
     }
 
-    // Save session data and redirect to GitHub
-    const sessionKey = sessionStore.create({
+    const scopeResult = parseScope(scope);
+    if ("error" in scopeResult) {
+      res.status(400).json({ error: "invalid_scope", error_description: scopeResult.error });
+      return;
+    }
+
+    // Save session data and redirect to the identity provider
+    const redirected = await redirectToProvider(res, provider, sessionStore, {
       clientId: client_id,
       redirectUri: redirect_uri,
       state,
       codeChallenge: code_challenge,
       codeChallengeMethod: code_challenge_method,
+      scopes: scopeResult.scopes,
     });
-
-    if (!sessionKey) {
-      res.status(503).json({ error: "server_error", error_description: "Too many pending authorization sessions" });
-      return;
+    if (redirected) {
+      logger.info("OAuth session created, redirecting to identity provider", {
+        clientId: client_id,
+        provider: provider.name,
+        scopes: scopeResult.scopes,
+      });
     }
+  };
+}
+
+/**
+ * Start a login at the identity provider: store the session with a fresh
+ * PKCE verifier and nonce for the provider request, and redirect to the
+ * provider with the session key as its `state`. Answers with an error and
+ * returns false when no session can be created or the provider is down.
+ */
+export async function redirectToProvider(
+  res: Response,
+  provider: IdentityProvider,
+  sessionStore: OAuthSessionStore,
+  data: Omit<OAuthSession, "providerCodeVerifier" | "providerNonce" | "createdAt"> | Pick<ConsentManagementSession, "purpose">,
+): Promise<boolean> {
+  const providerCodeVerifier = crypto.randomBytes(32).toString("base64url");
+  const providerNonce = crypto.randomBytes(16).toString("hex");
+  const sessionKey = sessionStore.create({ ...data, providerCodeVerifier, providerNonce });
 
-    logger.info("OAuth session created, redirecting to GitHub", { clientId: client_id });
+  if (!sessionKey) {
+    res.status(503).json({ error: "server_error", error_description: "Too many pending authorization sessions" });
+    return false;
+  }
 
-    const githubUrl = new URL("https://github.com/login/oauth/authorize");
-    githubUrl.searchParams.set("client_id", config.githubClientId);
-    githubUrl.searchParams.set("redirect_uri", `${config.serverUrl}/oauth/github/callback`);
-    githubUrl.searchParams.set("scope", "read:user");
-    githubUrl.searchParams.set("state", sessionKey);
+  let providerUrl: string;
+  try {
+    providerUrl = await provider.getAuthorizationUrl({
+      state: sessionKey,
+      codeChallenge: crypto.createHash("sha256").update(providerCodeVerifier).digest("base64url"),
+      nonce: providerNonce,
+    });
+  } catch (err) {
+    sessionStore.consume(sessionKey);
+    logger.error("Identity provider unavailable", { provider: provider.name, error: getErrorMessage(err) });
+    res.status(502).json({ error: "server_error", error_description: `Failed to reach ${provider.displayName}.` });
+    return false;
+  }
 
-    res.redirect(githubUrl.toString());
-  };
+  res.redirect(providerUrl);
+  return true;
 }
@@ -0,0 +1,121 @@
+import type { Request, Response } from "express";
+import type { Config } from "../config.js";
+import type { OAuthSessionStore } from "./sessionStore.js";
+import type { OAuthStore } from "./store.js";
+import type { IdentityProvider } from "./identityProvider.js";
+import { isAllowedUser } from "./allowlist.js";
+import { sealSecret } from "./secretBox.js";
+import { completeAuthorization, denyAuthorization, renderConsentPage, renderConsentsPage } from "./consent.js";
+import type { AccessTokenKeys } from "./signingKeys.js";
+import { renderAdminSignIn } from "../admin/dashboard.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * GET <provider.callbackPath> (e.g. /oauth/github/callback)
+ *
+ * Handles the redirect back from the identity provider after the user
+ * authenticates. Validates the session, checks the allowlist (ALLOWED_USERS,
+ * then provider membership rules), and redirects to Claude with an
+ * authorization code — or first shows the consent page when OAUTH_CONSENT
+ * is on and the user has not approved this client for these scopes yet.
+ * Logins started from /oauth/consents render the consent management page,
+ * and those started from /admin/login the admin dashboard.
+ */
+export function handleProviderCallback(
+  config: Config,
+  provider: IdentityProvider,
+  sessionStore: OAuthSessionStore,
+  store: OAuthStore,
+  keys: AccessTokenKeys,
+) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const q = (key: string): string | undefined => {
+      const v = req.query[key];
+      return typeof v === "string" ? v : undefined;
+    };
+    const code = q("code");
+    const state = q("state");
+    const providerError = q("error");
+
+    // The provider may redirect with an error (e.g. user denied access)
+    if (providerError) {
+      logger.warn("Identity provider authorization error", { provider: provider.name, error: providerError });
+      res.status(400).json({ error: "access_denied", error_description: `${provider.displayName} authorization was denied.` });
+      return;
+    }
+
+    if (!code || !state) {
+      res.status(400).json({ error: "invalid_request", error_description: `Missing code or state from ${provider.displayName}.` });
+      return;
+    }
+
+    // Look up the session (one-time use)
+    const session = sessionStore.consume(state);
+    // Sessions with a username are form tickets of a rendered page, not logins
+    if (!session || session.username) {
+      logger.warn("Invalid or expired OAuth session", { provider: provider.name, state: state.slice(0, 8) + "..." });
+      res.status(400).json({ error: "invalid_request", error_description: "Invalid or expired session. Please try again." });
+      return;
+    }
+
+    try {
+      const identity = await provider.authenticate({
+        code,
+        codeVerifier: session.providerCodeVerifier,
+        nonce: session.providerNonce,
+      });
+      const username = identity.username;
+
+      logger.info("User authenticated", { provider: provider.name, username });
+
+      if ("purpose" in session && session.purpose === "admin_login") {
+        renderAdminSignIn(res, config, keys, username.toLowerCase());
+        return;
+      }
+      if ("purpose" in session) {
+        const ticket = sessionStore.create({ ...session, username: username.toLowerCase() });
+        if (!ticket) {
+          res.status(503).json({ error: "server_error", error_description: "Too many pending authorization sessions" });
+          return;
+        }
+        renderConsentsPage(res, store, username.toLowerCase(), ticket);
+        return;
+      }
+
+      // Allowlist check (case-insensitive), then organization/team membership.
+      // Members keep their provider token (encrypted) with the grant so the
+      // membership can be rechecked when the refresh token is used.
+      let providerToken: string | undefined;
+      if (!isAllowedUser(username, config.allowedUsers)) {
+        if (!(await provider.checkMembership(identity))) {
+          logger.warn("User not in allowlist", { provider: provider.name, username });
+          denyAuthorization(res, session, "User not authorized");
+          return;
+        }
+        logger.info("User admitted by membership", { provider: provider.name, username });
+        providerToken = identity.accessToken && sealSecret(identity.accessToken, config.jwtSecret);
+      }
+
+      // Ask before a client gets access for the first time, or to more scopes
+      const subject = username.toLowerCase();
+      if (config.oauthConsent && !store.hasConsent(subject, session.clientId, session.scopes)) {
+        const consentKey = sessionStore.create({ ...session, username: subject, providerToken });
+        if (!consentKey) {
+          res.status(503).json({ error: "server_error", error_description: "Too many pending authorization sessions" });
+          return;
+        }
+        logger.info("Asking user for consent", { clientId: session.clientId, username: subject });
+        renderConsentPage(res, store, session, subject, consentKey);
+        return;
+      }
+
+      // Generate authorization code for Claude, bound to the user's identity
+      // so the issued tokens carry the user as their subject
+      completeAuthorization(res, store, session, subject, providerToken);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error("Identity provider callback failed", { provider: provider.name, error: message });
+      res.status(502).json({ error: "server_error", error_description: `Failed to authenticate with ${provider.displayName}.` });
+    }
+  };
+}
@@ -0,0 +1,326 @@
+import dns from "node:dns/promises";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+import type { LookupFunction } from "node:net";
+import type { OAuthStore, RegisteredClient } from "./store.js";
+import { verifyClientCredentials } from "./store.js";
+import {
+  validateRedirectUri,
+  validateSupportedValues,
+  SUPPORTED_GRANT_TYPES,
+  SUPPORTED_RESPONSE_TYPES,
+} from "./registration.js";
+import { logger } from "../utils/logger.js";
+import { getErrorMessage } from "../utils/toolResponse.js";
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_DOCUMENT_BYTES = 5 * 1024;
+const MAX_CLIENT_ID_LENGTH = 2048;
+const MAX_CACHE_ENTRIES = 200;
+const DEFAULT_CACHE_SECONDS = 60 * 60;
+const MIN_CACHE_SECONDS = 60;
+const MAX_CACHE_SECONDS = 24 * 60 * 60;
+const FAILURE_CACHE_MS = 30 * 1000; // don't refetch a broken document on every request
+
+/**
+ * Addresses a metadata document may not be fetched from: private, loopback,
+ * link-local (cloud metadata services), CGNAT, documentation, multicast and
+ * reserved ranges. IPv4-mapped and NAT64 IPv6 addresses are blocked as a
+ * whole rather than unpacked.
+ */
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8],
+  ["169.254.0.0", 16], ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24],
+  ["192.168.0.0", 16], ["198.18.0.0", 15], ["198.51.100.0", 24], ["203.0.113.0", 24],
+  ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["100::", 64],
+  ["2001:db8::", 32], ["fc00::", 7], ["fe80::", 10], ["fec0::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isLoopbackAddress(address: string): boolean {
+  return address === "::1" || (net.isIPv4(address) && address.startsWith("127."));
+}
+
+/**
+ * Whether a client_id is the URL of a Client ID Metadata Document rather
+ * than an ID issued by Dynamic Client Registration (which are hex strings).
+ */
+export function isClientIdUrl(clientId: string): boolean {
+  return clientId.startsWith("https://") || clientId.startsWith("http://");
+}
+
+export interface ClientMetadataResolverOptions {
+  /**
+   * Accept `http://` client IDs on loopback addresses and skip the address
+   * check for them. Only for tests, which serve documents from 127.0.0.1.
+   */
+  allowLoopback?: boolean;
+}
+
+interface CacheEntry {
+  client: Promise<RegisteredClient>;
+  /** Infinity while the fetch is pending. */
+  expiresAt: number;
+}
+
+interface FetchedDocument {
+  body: string;
+  /** Seconds from Cache-Control, clamped; undefined when absent. */
+  maxAge: number | undefined;
+}
+
+/**
+ * Resolves URL-form client IDs (OAuth Client ID Metadata Documents, as used
+ * by MCP clients) to clients. The client_id is an HTTPS URL serving a JSON
+ * document with the client's metadata; nothing is stored in `OAuthStore`.
+ *
+ * Fetching a URL chosen by an unauthenticated caller is an SSRF vector, so
+ * the host must resolve to public addresses only, the connection is pinned
+ * to the checked address (no second DNS lookup to rebind), redirects are not
+ * followed, and the response is limited in size and time. Documents are
+ * cached per Cache-Control max-age within bounds; failures are cached
+ * briefly so a broken document is not fetched on every request.
+ */
+export class ClientMetadataResolver {
+  private cache = new Map<string, CacheEntry>();
+  private allowLoopback: boolean;
+
+  constructor(options: ClientMetadataResolverOptions = {}) {
+    this.allowLoopback = options.allowLoopback ?? false;
+  }
+
+  /** The client described by the document at `clientId`. Throws with a reason when unusable. */
+  resolve(clientId: string): Promise<RegisteredClient> {
+    const now = Date.now();
+    const cached = this.cache.get(clientId);
+    if (cached && now < cached.expiresAt) {
+      // Move to the end of the map, which is kept in least recently used order
+      this.cache.delete(clientId);
+      this.cache.set(clientId, cached);
+      return cached.client;
+    }
+
+    const fetched = this.fetchClient(clientId);
+    const entry: CacheEntry = { client: fetched.then(({ client }) => client), expiresAt: Infinity };
+    fetched.then(
+      ({ maxAge }) => { entry.expiresAt = Date.now() + (maxAge ?? DEFAULT_CACHE_SECONDS) * 1000; },
+      () => { entry.expiresAt = Date.now() + FAILURE_CACHE_MS; },
+    );
+    this.cache.delete(clientId);
+    this.cache.set(clientId, entry);
+    while (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return entry.client;
+  }
+
+  private async fetchClient(clientId: string): Promise<{ client: RegisteredClient; maxAge: number | undefined }> {
+    const url = this.parseClientId(clientId);
+    const document = await this.fetchDocument(url);
+    const client = parseClientMetadata(clientId, url, document.body);
+    logger.info("Client metadata document fetched", { clientId, clientName: client.clientName });
+    return { client, maxAge: document.maxAge };
+  }
+
+  private parseClientId(clientId: string): URL {
+    if (clientId.length > MAX_CLIENT_ID_LENGTH) {
+      throw new Error("client_id URL is too long");
+    }
+    let url: URL;
+    try {
+      url = new URL(clientId);
+    } catch {
+      throw new Error("client_id is not a valid URL");
+    }
+    const loopback = this.allowLoopback && url.protocol === "http:" && isLoopbackAddress(url.hostname.replace(/^\[|\]$/g, ""));
+    if (url.protocol !== "https:" && !loopback) {
+      throw new Error("client_id URL must use HTTPS");
+    }
+    if (url.username || url.password || url.hash) {
+      throw new Error("client_id URL must not contain credentials or a fragment");
+    }
+    if (url.pathname === "/") {
+      throw new Error("client_id URL must have a path");
+    }
+    // Rejects dot segments and other forms the URL parser would rewrite
+    if (url.href !== clientId) {
+      throw new Error("client_id URL is not in normalized form");
+    }
+    return url;
+  }
+
+  /** Resolve the host and return an address that may be connected to. */
+  private async checkedAddress(hostname: string): Promise<{ address: string; family: number }> {
+    const literal = hostname.replace(/^\[|\]$/g, "");
+    const addresses = net.isIP(literal)
+      ? [{ address: literal, family: net.isIP(literal) }]
+      : await dns.lookup(hostname, { all: true, verbatim: true });
+    if (addresses.length === 0) {
+      throw new Error(`client_id host ${hostname} did not resolve`);
+    }
+    for (const { address, family } of addresses) {
+      if (this.allowLoopback && isLoopbackAddress(address)) continue;
+      if (BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")) {
+        throw new Error(`client_id host ${hostname} resolves to a non-public address`);
+      }
+    }
+    return addresses[0];
+  }
+
+  private async fetchDocument(url: URL): Promise<FetchedDocument> {
+    const { address, family } = await this.checkedAddress(url.hostname);
+    // Connect to the checked address; TLS still verifies the certificate for the hostname
+    const lookup: LookupFunction = (_hostname, options, callback) => {
+      if (options.all) {
+        callback(null, [{ address, family }]);
+      } else {
+        callback(null, address, family);
+      }
+    };
+    const transport = url.protocol === "https:" ? https : http;
+
+    return new Promise<FetchedDocument>((resolve, reject) => {
+      const req = transport.request(url, { headers: { Accept: "application/json" }, lookup, agent: false }, (res) => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          const reason = res.statusCode && res.statusCode >= 300 && res.statusCode < 400
+            ? `redirected (${res.statusCode}); redirects are not followed`
+            : `returned HTTP ${res.statusCode}`;
+          reject(new Error(`Client metadata document ${reason}`));
+          return;
+        }
+        const contentType = res.headers["content-type"] ?? "";
+        if (!/^application\/([\w.+-]+\+)?json\s*(;|$)/i.test(contentType)) {
+          res.resume();
+          reject(new Error("Client metadata document is not served as application/json"));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        res.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_DOCUMENT_BYTES) {
+            reject(new Error(`Client metadata document exceeds ${MAX_DOCUMENT_BYTES} bytes`));
+            req.destroy();
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on("end", () => {
+          resolve({ body: Buffer.concat(chunks).toString("utf-8"), maxAge: parseMaxAge(res.headers["cache-control"]) });
+        });
+        res.on("error", reject);
+      });
+      // A deadline for the whole exchange, so a slowly trickling response cannot hold it open
+      const timer = setTimeout(() => {
+        reject(new Error("Client metadata document request timed out"));
+        req.destroy();
+      }, FETCH_TIMEOUT_MS);
+      req.on("close", () => clearTimeout(timer));
+      req.on("error", reject);
+      req.end();
+    });
+  }
+}
+
+/** Cache lifetime from a Cache-Control header, clamped to the allowed range. */
+function parseMaxAge(header: string | undefined): number | undefined {
+  if (!header) return undefined;
+  if (/\b(no-store|no-cache)\b/i.test(header)) return MIN_CACHE_SECONDS;
+  const match = header.match(/\bmax-age=(\d+)/i);
+  if (!match) return undefined;
+  return Math.min(Math.max(parseInt(match[1], 10), MIN_CACHE_SECONDS), MAX_CACHE_SECONDS);
+}
+
+/**
+ * Validate a metadata document and map it to a client. Only public clients
+ * are supported, and the redirect URIs must pass the same checks as in
+ * Dynamic Client Registration.
+ */
+function parseClientMetadata(clientId: string, url: URL, body: string): RegisteredClient {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new Error("Client metadata document is not valid JSON");
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("Client metadata document is not a JSON object");
+  }
+  const metadata = data as Record<string, unknown>;
+
+  if (metadata.client_id !== clientId) {
+    throw new Error("client_id in the metadata document does not match its URL");
+  }
+  if ("client_secret" in metadata || "client_secret_expires_at" in metadata) {
+    throw new Error("Client metadata document must not contain a client_secret");
+  }
+  const authMethod = metadata.token_endpoint_auth_method ?? "none";
+  if (authMethod !== "none") {
+    throw new Error(`Unsupported token_endpoint_auth_method: ${String(authMethod)}`);
+  }
+
+  const redirectUris = metadata.redirect_uris;
+  if (!Array.isArray(redirectUris) || redirectUris.length === 0) {
+    throw new Error("redirect_uris is required and must be a non-empty array");
+  }
+  if (redirectUris.length > 10) {
+    throw new Error("Too many redirect_uris (max 10)");
+  }
+  for (const uri of redirectUris) {
+    const error = typeof uri === "string" ? validateRedirectUri(uri) : "redirect_uris must be strings";
+    if (error) throw new Error(error);
+  }
+
+  const grantTypes = validateSupportedValues(metadata.grant_types, ["authorization_code", "refresh_token"], SUPPORTED_GRANT_TYPES, "grant_type");
+  if ("error" in grantTypes) throw new Error(grantTypes.error);
+  const responseTypes = validateSupportedValues(metadata.response_types, ["code"], SUPPORTED_RESPONSE_TYPES, "response_type");
+  if ("error" in responseTypes) throw new Error(responseTypes.error);
+
+  const clientName = metadata.client_name;
+  if (clientName !== undefined && (typeof clientName !== "string" || clientName.length > 256)) {
+    throw new Error("client_name must be a string of at most 256 characters");
+  }
+
+  return {
+    clientId,
+    clientSecretHash: undefined,
+    clientName: clientName || url.host,
+    redirectUris: redirectUris as string[],
+    grantTypes: grantTypes.values,
+    responseTypes: responseTypes.values,
+    tokenEndpointAuthMethod: "none",
+    registeredAt: Date.now(),
+  };
+}
+
+/**
+ * Verify the credentials of a registered client, or of a URL client
+ * described by its metadata document (public, so no secret). URL clients are
+ * rejected when the server does not resolve them (`resolver` undefined).
+ */
+export async function authenticateClient(
+  store: OAuthStore,
+  resolver: ClientMetadataResolver | undefined,
+  clientId: string,
+  clientSecret: string | undefined,
+): Promise<boolean> {
+  if (!resolver || !isClientIdUrl(clientId)) {
+    return store.authenticateClient(clientId, clientSecret);
+  }
+  try {
+    return verifyClientCredentials(await resolver.resolve(clientId), clientSecret);
+  } catch (err) {
+    logger.warn("Client metadata document rejected", { clientId, error: getErrorMessage(err) });
+    return false;
+  }
+}
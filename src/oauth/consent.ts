@@ -0,0 +1,232 @@
+import type { Request, Response } from "express";
+import type { OAuthStore } from "./store.js";
+import type { OAuthSession, OAuthSessionStore } from "./sessionStore.js";
+import type { IdentityProvider } from "./identityProvider.js";
+import { redirectToProvider } from "./authorize.js";
+import { SCOPE_DESCRIPTIONS } from "./scopes.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * The pages cannot be framed (clickjacking) and post their forms to this
+ * server only. Browsers apply `form-action` to the redirect that follows a
+ * form submission too, so the consent page also allows the client's
+ * redirect URI.
+ */
+function pageCsp(formTarget = ""): string {
+  return `default-src 'none'; style-src 'unsafe-inline'; form-action 'self'${formTarget}; frame-ancestors 'none'`;
+}
+
+/** CSP source matching a redirect URI: its origin, or its scheme for custom schemes. */
+function cspSource(uri: string): string {
+  const url = new URL(uri);
+  return url.protocol === "http:" || url.protocol === "https:" ? url.origin : url.protocol;
+}
+
+const PAGE_STYLE = `
+  body { font-family: system-ui, sans-serif; max-width: 40rem; margin: 3rem auto; padding: 0 1rem; color: #222; }
+  h1 { font-size: 1.4rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #ddd; vertical-align: top; }
+  code { font-size: 0.85rem; word-break: break-all; }
+  button { font-size: 1rem; margin-right: 0.5rem; }
+  .empty { color: #777; }`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function sendPage(res: Response, csp: string, title: string, body: string): void {
+  res.set("Content-Security-Policy", csp);
+  res.set("Cache-Control", "no-store");
+  res.type("html").send(`<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLE}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`);
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toISOString().replace("T", " ").slice(0, 16) + " UTC";
+}
+
+/**
+ * Issue an authorization code for a logged-in user and redirect back to
+ * the client with it. Called by the provider callback when no consent is
+ * needed, and by the consent form once the user approved.
+ */
+export function completeAuthorization(
+  res: Response,
+  store: OAuthStore,
+  session: OAuthSession,
+  username: string,
+  providerToken: string | undefined,
+): void {
+  const authCode = store.createAuthCode(
+    session.clientId,
+    session.redirectUri,
+    session.codeChallenge,
+    username,
+    session.scopes,
+    providerToken,
+  );
+  logger.info("OAuth authorization code issued", { clientId: session.clientId, username });
+
+  const redirectUrl = new URL(session.redirectUri);
+  redirectUrl.searchParams.set("code", authCode);
+  redirectUrl.searchParams.set("state", session.state);
+  res.redirect(redirectUrl.toString());
+}
+
+/** Redirect back to the client with `error=access_denied`. */
+export function denyAuthorization(res: Response, session: OAuthSession, description: string): void {
+  const redirectUrl = new URL(session.redirectUri);
+  redirectUrl.searchParams.set("error", "access_denied");
+  redirectUrl.searchParams.set("error_description", description);
+  redirectUrl.searchParams.set("state", session.state);
+  res.redirect(redirectUrl.toString());
+}
+
+/**
+ * Show the consent page for a logged-in user. `sessionKey` is the one-time
+ * key of the session holding the authorization request, posted back by the
+ * form to POST /oauth/consent.
+ */
+export function renderConsentPage(res: Response, store: OAuthStore, session: OAuthSession, username: string, sessionKey: string): void {
+  const client = store.getClient(session.clientId);
+  const clientName = client?.clientName ?? session.clientId;
+  const redirectHost = new URL(session.redirectUri).host;
+  const scopes = session.scopes
+    .map((scope) => `<li><code>${escapeHtml(scope)}</code> — ${escapeHtml(SCOPE_DESCRIPTIONS[scope] ?? scope)}</li>`)
+    .join("\n");
+
+  sendPage(res, pageCsp(` ${cspSource(session.redirectUri)}`), "Authorize access to your vault", `<h1>Authorize ${escapeHtml(clientName)}?</h1>
+<p>Signed in as <strong>${escapeHtml(username)}</strong>.</p>
+<p><strong>${escapeHtml(clientName)}</strong> wants access to your Obsidian vault:</p>
+<ul>
+${scopes}
+</ul>
+<p>After approval you will be sent to <strong>${escapeHtml(redirectHost)}</strong>:<br><code>${escapeHtml(session.redirectUri)}</code></p>
+<p>Only approve if you started this connection yourself and recognize this address. The client name is chosen by the client and may not be genuine.</p>
+<form method="post" action="/oauth/consent">
+  <input type="hidden" name="session" value="${escapeHtml(sessionKey)}">
+  <button type="submit" name="decision" value="approve">Approve</button>
+  <button type="submit" name="decision" value="deny">Deny</button>
+</form>
+<p><small>Client ID <code>${escapeHtml(session.clientId)}</code>. You can revoke access later at <a href="/oauth/consents">/oauth/consents</a>.</small></p>`);
+}
+
+/**
+ * POST /oauth/consent
+ *
+ * The consent page's form. Approving remembers the consent for this user
+ * and client, then issues the authorization code; denying redirects back
+ * to the client with `access_denied`.
+ */
+export function handleConsent(store: OAuthStore, sessionStore: OAuthSessionStore) {
+  return (req: Request, res: Response): void => {
+    const sessionKey = typeof req.body?.session === "string" ? req.body.session : undefined;
+    const decision = req.body?.decision;
+    const session = sessionKey ? sessionStore.consume(sessionKey) : null;
+    if (!session || "purpose" in session || !session.username) {
+      res.status(400).json({ error: "invalid_request", error_description: "Invalid or expired session. Please try again." });
+      return;
+    }
+
+    if (decision !== "approve") {
+      logger.info("User denied consent", { clientId: session.clientId, username: session.username });
+      denyAuthorization(res, session, "User denied access");
+      return;
+    }
+
+    store.grantConsent(session.username, session.clientId, session.scopes);
+    logger.info("User granted consent", { clientId: session.clientId, username: session.username, scopes: session.scopes });
+    completeAuthorization(res, store, session, session.username, session.providerToken);
+  };
+}
+
+/**
+ * GET /oauth/consents
+ *
+ * Entry point of the consent management page: the user logs in at the
+ * identity provider, whose callback then renders the page.
+ */
+export function handleConsentsGet(provider: IdentityProvider, sessionStore: OAuthSessionStore) {
+  return async (_req: Request, res: Response): Promise<void> => {
+    await redirectToProvider(res, provider, sessionStore, { purpose: "manage_consents" });
+  };
+}
+
+/**
+ * Show the clients a logged-in user has approved, each with a revoke button.
+ * `ticket` is the one-time session key the forms post back.
+ */
+export function renderConsentsPage(res: Response, store: OAuthStore, username: string, ticket: string, notice?: string): void {
+  const consents = store.listConsents(username);
+  const rows = consents.length === 0
+    ? `<tr><td colspan="4" class="empty">You have not approved any clients.</td></tr>`
+    : consents.map((consent) => {
+      const client = store.getClient(consent.clientId);
+      return `<tr>
+  <td>${escapeHtml(client?.clientName ?? consent.clientId)}<br><code>${escapeHtml(client?.redirectUris.join(" ") ?? "")}</code></td>
+  <td>${consent.scopes.map((scope) => `<code>${escapeHtml(scope)}</code>`).join(" ")}</td>
+  <td>${formatTime(consent.grantedAt)}</td>
+  <td><form method="post" action="/oauth/consents">
+    <input type="hidden" name="ticket" value="${escapeHtml(ticket)}">
+    <input type="hidden" name="client_id" value="${escapeHtml(consent.clientId)}">
+    <button type="submit">Revoke</button>
+  </form></td>
+</tr>`;
+    }).join("\n");
+
+  sendPage(res, pageCsp(), "Approved clients", `<h1>Clients with access to your vault</h1>
+<p>Signed in as <strong>${escapeHtml(username)}</strong>.</p>
+${notice ? `<p>${escapeHtml(notice)}</p>` : ""}
+<p>Revoking a client deletes its refresh tokens, so it has to ask for your approval again. Access tokens it already holds stay valid until they expire.</p>
+<table>
+<tr><th>Client</th><th>Scopes</th><th>Approved</th><th></th></tr>
+${rows}
+</table>`);
+}
+
+/**
+ * POST /oauth/consents
+ *
+ * Revoke button of the consent management page. Renders the page again
+ * with a new ticket.
+ */
+export function handleRevokeConsent(store: OAuthStore, sessionStore: OAuthSessionStore) {
+  return (req: Request, res: Response): void => {
+    const ticket = typeof req.body?.ticket === "string" ? req.body.ticket : undefined;
+    const clientId = typeof req.body?.client_id === "string" ? req.body.client_id : undefined;
+    const session = ticket ? sessionStore.consume(ticket) : null;
+    if (!session || !("purpose" in session) || session.purpose !== "manage_consents" || !session.username || !clientId) {
+      res.status(400).json({ error: "invalid_request", error_description: "Invalid or expired page. Please reload /oauth/consents." });
+      return;
+    }
+
+    const username = session.username;
+    const revoked = store.revokeConsent(username, clientId);
+    if (revoked) logger.info("User revoked consent", { clientId, username });
+
+    const nextTicket = sessionStore.create({ ...session, username });
+    if (!nextTicket) {
+      res.status(503).json({ error: "server_error", error_description: "Too many pending authorization sessions" });
+      return;
+    }
+    renderConsentsPage(res, store, username, nextTicket, revoked ? "Access revoked." : "This client had no approval to revoke.");
+  };
+}
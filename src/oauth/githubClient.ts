@@ -55,7 +55,6 @@ export async function exchangeGitHubCode(
 
 /**
  * Fetch the authenticated GitHub user's profile.
- * The token is used once and then discarded by the caller.
  */
 export async function fetchGitHubUser(
   accessToken: string,
@@ -80,3 +79,58 @@ export async function fetchGitHubUser(
 
   return (await res.json()) as GitHubUser;
 }
+
+/**
+ * Result of a GitHub membership lookup. A 404 (or 403 for an org that
+ * restricts OAuth App access, or 401 once the user revoked the token) means
+ * "not a member"; any other non-200 status is an error, so a GitHub outage
+ * is not mistaken for a lost membership.
+ */
+async function fetchGitHubMembership(url: string, accessToken: string): Promise<boolean> {
+  const res = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/vnd.github+json",
+      "User-Agent": "obsidian-vault-mcp-server",
+    },
+    signal: AbortSignal.timeout(10_000),
+  });
+
+  if (res.status === 404 || res.status === 403 || res.status === 401) {
+    return false;
+  }
+  if (!res.ok) {
+    logger.error("GitHub membership request failed", { url, status: res.status });
+    throw new Error(`GitHub membership request failed: ${res.status}`);
+  }
+
+  const data = (await res.json()) as { state?: string };
+  return data.state === "active";
+}
+
+/**
+ * Check whether the token's user is an active member of `org`.
+ * Requires the `read:org` scope to see private memberships.
+ */
+export async function isGitHubOrgMember(accessToken: string, org: string): Promise<boolean> {
+  return fetchGitHubMembership(
+    `https://api.github.com/user/memberships/orgs/${encodeURIComponent(org)}`,
+    accessToken,
+  );
+}
+
+/**
+ * Check whether `username` is an active member of the team `org/teamSlug`.
+ * Uses the user's own token, so the team must be visible to them.
+ */
+export async function isGitHubTeamMember(
+  accessToken: string,
+  org: string,
+  teamSlug: string,
+  username: string,
+): Promise<boolean> {
+  return fetchGitHubMembership(
+    `https://api.github.com/orgs/${encodeURIComponent(org)}/teams/${encodeURIComponent(teamSlug)}/memberships/${encodeURIComponent(username)}`,
+    accessToken,
+  );
+}
@@ -0,0 +1,56 @@
+import type { Config } from "../config.js";
+import type { IdentityProvider, ProviderAuthorizationRequest, ProviderCallback, ProviderIdentity } from "./identityProvider.js";
+import { exchangeGitHubCode, fetchGitHubUser, isGitHubOrgMember, isGitHubTeamMember } from "./githubClient.js";
+
+/**
+ * GitHub OAuth App login. The username is the GitHub login. GitHub issues no
+ * ID token, so the nonce and PKCE parameters of the session are not used.
+ *
+ * With ALLOWED_GITHUB_ORGS or ALLOWED_GITHUB_TEAMS set, the `read:org` scope
+ * is requested as well, so memberships can be checked with the user's token.
+ */
+export class GitHubProvider implements IdentityProvider {
+  readonly name = "github";
+  readonly displayName = "GitHub";
+  readonly callbackPath = "/oauth/github/callback";
+
+  constructor(private readonly config: Config) {}
+
+  private get hasMembershipRules(): boolean {
+    return this.config.allowedGithubOrgs.length > 0 || this.config.allowedGithubTeams.length > 0;
+  }
+
+  async getAuthorizationUrl(request: ProviderAuthorizationRequest): Promise<string> {
+    const githubUrl = new URL("https://github.com/login/oauth/authorize");
+    githubUrl.searchParams.set("client_id", this.config.githubClientId);
+    githubUrl.searchParams.set("redirect_uri", `${this.config.serverUrl}${this.callbackPath}`);
+    githubUrl.searchParams.set("scope", this.hasMembershipRules ? "read:user read:org" : "read:user");
+    githubUrl.searchParams.set("state", request.state);
+    return githubUrl.toString();
+  }
+
+  async authenticate(callback: ProviderCallback): Promise<ProviderIdentity> {
+    const tokenData = await exchangeGitHubCode(
+      callback.code,
+      this.config.githubClientId,
+      this.config.githubClientSecret,
+    );
+    // The GitHub access token is only stored (encrypted) for users admitted
+    // through organization or team membership, otherwise it is discarded
+    const githubUser = await fetchGitHubUser(tokenData.access_token);
+    return { username: githubUser.login, accessToken: tokenData.access_token };
+  }
+
+  async checkMembership(identity: ProviderIdentity): Promise<boolean> {
+    if (!this.hasMembershipRules || !identity.accessToken) return false;
+
+    for (const org of this.config.allowedGithubOrgs) {
+      if (await isGitHubOrgMember(identity.accessToken, org)) return true;
+    }
+    for (const team of this.config.allowedGithubTeams) {
+      const [org, teamSlug] = team.split("/");
+      if (await isGitHubTeamMember(identity.accessToken, org, teamSlug, identity.username)) return true;
+    }
+    return false;
+  }
+}
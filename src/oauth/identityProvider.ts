@@ -0,0 +1,61 @@
+import type { Config } from "../config.js";
+import { GitHubProvider } from "./githubProvider.js";
+import { OidcProvider } from "./oidcProvider.js";
+
+/** Parameters for the redirect from `/oauth/authorize` to the provider. */
+export interface ProviderAuthorizationRequest {
+  /** Session key, round-tripped through the provider as `state`. */
+  state: string;
+  /** S256 challenge of the code verifier stored with the session. */
+  codeChallenge: string;
+  /** Random value the provider must echo in the ID token. */
+  nonce: string;
+}
+
+/** Parameters the callback handler passes to `authenticate`. */
+export interface ProviderCallback {
+  code: string;
+  codeVerifier: string;
+  nonce: string;
+}
+
+/** The user a successful `authenticate()` resolved to. */
+export interface ProviderIdentity {
+  /** Not yet normalized username. */
+  username: string;
+  /** Provider access token, for membership checks. Absent if the provider issued none. */
+  accessToken?: string;
+}
+
+/**
+ * An upstream identity provider that authenticates users on behalf of the
+ * authorization server. The server redirects to `getAuthorizationUrl()`, the
+ * provider redirects back to `callbackPath`, and `authenticate()` turns the
+ * returned code into the username that is checked against ALLOWED_USERS.
+ * Users not listed there may still be admitted by `checkMembership()`.
+ */
+export interface IdentityProvider {
+  /** Short name for logs ("github", "oidc"). */
+  readonly name: string;
+  /** Human-readable name for error messages. */
+  readonly displayName: string;
+  /** Path of the redirect URI registered at the provider. */
+  readonly callbackPath: string;
+  getAuthorizationUrl(request: ProviderAuthorizationRequest): Promise<string>;
+  /** Exchange the code and return the user's identity. Throws on any failure. */
+  authenticate(callback: ProviderCallback): Promise<ProviderIdentity>;
+  /**
+   * Whether provider-side membership rules (GitHub organizations or teams)
+   * admit the user. Called at login and again on every refresh for users
+   * admitted this way. Throws when membership cannot be determined.
+   */
+  checkMembership(identity: ProviderIdentity): Promise<boolean>;
+}
+
+/** Create the provider selected by AUTH_PROVIDER. */
+export function createIdentityProvider(config: Config): IdentityProvider {
+  if (config.authProvider === "oidc" && config.oidc) {
+    return new OidcProvider(config, config.oidc);
+  }
+  return new GitHubProvider(config);
+}
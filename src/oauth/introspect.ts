@@ -0,0 +1,78 @@
+import type { Request, Response } from "express";
+import type { OAuthStore } from "./store.js";
+import type { AccessTokenKeys } from "./signingKeys.js";
+import { verifyAccessToken } from "./jwt.js";
+import { normalizeClientSecret } from "./token.js";
+import { authenticateClient } from "./clientMetadata.js";
+import type { ClientMetadataResolver } from "./clientMetadata.js";
+import { scopesFromClaim, formatScope, DEFAULT_SCOPES } from "./scopes.js";
+import type { RateLimiter } from "../utils/rateLimiter.js";
+
+/**
+ * Token introspection endpoint (RFC 7662). A client may introspect its own
+ * access and refresh tokens; expired, revoked, unknown and foreign tokens all
+ * yield `{ "active": false }` so the response reveals nothing about them.
+ */
+export function handleIntrospect(keys: AccessTokenKeys, store: OAuthStore, rateLimiter: RateLimiter, clientMetadata?: ClientMetadataResolver) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const ip = req.ip ?? "unknown";
+    if (!rateLimiter.check(ip)) {
+      res.status(429).json({ error: "too_many_requests" });
+      return;
+    }
+
+    const { token, client_id, client_secret } = req.body;
+
+    if (!token || !client_id) {
+      res.status(400).json({ error: "invalid_request", error_description: "Missing required parameters" });
+      return;
+    }
+
+    // Authenticate client (secret required for confidential, forbidden for public)
+    if (!(await authenticateClient(store, clientMetadata, client_id, normalizeClientSecret(client_secret)))) {
+      res.status(401).json({ error: "invalid_client" });
+      return;
+    }
+
+    res.set("Cache-Control", "no-store");
+    res.set("Pragma", "no-cache");
+
+    const payload = verifyAccessToken(token, keys);
+    if (payload) {
+      const revoked = payload.jti !== undefined && store.isAccessTokenRevoked(payload.jti);
+      if (revoked || payload.client_id !== client_id) {
+        res.json({ active: false });
+        return;
+      }
+      res.json({
+        active: true,
+        token_type: "Bearer",
+        scope: formatScope(scopesFromClaim(payload.scope)),
+        client_id: payload.client_id,
+        username: payload.sub,
+        sub: payload.sub,
+        aud: payload.aud,
+        iss: payload.iss,
+        iat: payload.iat,
+        exp: payload.exp,
+        jti: payload.jti,
+      });
+      return;
+    }
+
+    const entry = store.getRefreshToken(token);
+    if (!entry || entry.clientId !== client_id) {
+      res.json({ active: false });
+      return;
+    }
+    res.json({
+      active: true,
+      token_type: "refresh_token",
+      scope: formatScope(entry.scopes ?? DEFAULT_SCOPES),
+      client_id: entry.clientId,
+      username: entry.subject,
+      sub: entry.subject,
+      exp: Math.floor(entry.expiresAt / 1000),
+    });
+  };
+}
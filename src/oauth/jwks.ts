@@ -0,0 +1,16 @@
+import type { Request, Response } from "express";
+import type { AccessTokenKeys } from "./signingKeys.js";
+
+/**
+ * GET /.well-known/jwks.json
+ *
+ * Public keys that verify our access tokens (RFC 7517), including retired
+ * keys whose tokens have not expired yet. Empty with HS256, whose secret
+ * cannot be published.
+ */
+export function handleJwks(keys: AccessTokenKeys) {
+  return (_req: Request, res: Response): void => {
+    res.set("Cache-Control", "public, max-age=300");
+    res.json(keys.getJwks());
+  };
+}
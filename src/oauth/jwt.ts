@@ -1,39 +1,65 @@
+import crypto from "node:crypto";
 import jwt from "jsonwebtoken";
+import { formatScope } from "./scopes.js";
+import type { AccessTokenKeys } from "./signingKeys.js";
 
 export interface AccessTokenPayload {
   sub: string;
   client_id: string;
+  /** Space-delimited granted scopes. Absent on tokens issued before scopes existed. */
+  scope?: string;
+  /** Unique token ID, the key of the revocation list. Absent on tokens issued before revocation existed. */
+  jti?: string;
   aud: string;
   iss: string;
   iat: number;
   exp: number;
 }
 
+/**
+ * Sign an access token for `subject` — the lowercase GitHub login of the
+ * user who authorized `clientId` — limited to the granted `scopes`.
+ */
 export function createAccessToken(
   clientId: string,
-  jwtSecret: string,
+  subject: string,
+  scopes: readonly string[],
+  keys: AccessTokenKeys,
   expirySeconds: number,
   audience?: string,
 ): string {
+  const signingKey = keys.getSigningKey();
   return jwt.sign(
-    { sub: "vault-user", client_id: clientId },
-    jwtSecret,
+    { sub: subject, client_id: clientId, scope: formatScope(scopes) },
+    signingKey.key,
     {
-      algorithm: "HS256",
+      algorithm: signingKey.algorithm,
+      ...(signingKey.kid !== undefined && { keyid: signingKey.kid }),
       expiresIn: expirySeconds,
+      jwtid: crypto.randomUUID(),
       audience: audience ?? "obsidian-vault-mcp",
       issuer: "obsidian-vault-mcp",
     },
   );
 }
 
+/**
+ * Verify an access token against the key named by its header. The header
+ * only selects the key; the algorithm is pinned to that key's, so a token
+ * cannot pick a weaker one.
+ */
 export function verifyAccessToken(
   token: string,
-  jwtSecret: string,
+  keys: AccessTokenKeys,
 ): AccessTokenPayload | null {
   try {
-    const payload = jwt.verify(token, jwtSecret, {
-      algorithms: ["HS256"],
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === "string") return null;
+    const verificationKey = keys.getVerificationKey(decoded.header, decoded.payload.iat);
+    if (!verificationKey) return null;
+
+    const payload = jwt.verify(token, verificationKey.key, {
+      algorithms: [verificationKey.algorithm],
       audience: "obsidian-vault-mcp",
       issuer: "obsidian-vault-mcp",
     }) as AccessTokenPayload;
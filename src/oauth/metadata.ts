@@ -1,5 +1,6 @@
 import type { Request, Response } from "express";
 import type { Config } from "../config.js";
+import { SUPPORTED_SCOPES } from "./scopes.js";
 
 export function handleMetadata(config: Config) {
   return (_req: Request, res: Response): void => {
@@ -8,10 +9,17 @@ export function handleMetadata(config: Config) {
       authorization_endpoint: `${config.serverUrl}/oauth/authorize`,
       token_endpoint: `${config.serverUrl}/oauth/token`,
       registration_endpoint: `${config.serverUrl}/oauth/register`,
+      revocation_endpoint: `${config.serverUrl}/oauth/revoke`,
+      introspection_endpoint: `${config.serverUrl}/oauth/introspect`,
+      ...(config.jwtSigningAlgorithm !== "HS256" && { jwks_uri: `${config.serverUrl}/.well-known/jwks.json` }),
       response_types_supported: ["code"],
       grant_types_supported: ["authorization_code", "refresh_token"],
       token_endpoint_auth_methods_supported: ["client_secret_post", "none"],
+      revocation_endpoint_auth_methods_supported: ["client_secret_post", "none"],
+      introspection_endpoint_auth_methods_supported: ["client_secret_post", "none"],
       code_challenge_methods_supported: ["S256"],
+      scopes_supported: SUPPORTED_SCOPES,
+      client_id_metadata_document_supported: config.clientIdMetadataDocuments,
     });
   };
 }
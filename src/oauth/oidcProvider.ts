@@ -0,0 +1,264 @@
+import crypto from "node:crypto";
+import jwt from "jsonwebtoken";
+import type { Algorithm, JwtPayload } from "jsonwebtoken";
+import type { Config, OidcConfig } from "../config.js";
+import type { IdentityProvider, ProviderAuthorizationRequest, ProviderCallback, ProviderIdentity } from "./identityProvider.js";
+import { logger } from "../utils/logger.js";
+
+const FETCH_TIMEOUT_MS = 10_000;
+const DISCOVERY_TTL_MS = 60 * 60 * 1000; // 1 hour
+const JWKS_REFRESH_MIN_INTERVAL_MS = 60 * 1000; // refetch on unknown kid at most once a minute
+const ID_TOKEN_CLOCK_TOLERANCE_SECONDS = 60;
+
+/** Asymmetric algorithms accepted for ID tokens. HS* and "none" are never accepted. */
+const ID_TOKEN_ALGORITHMS: readonly Algorithm[] = ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512", "ES256", "ES384", "ES512"];
+
+/** The fields of an OpenID Provider Metadata document (OIDC Discovery §3) the server uses. */
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface JsonWebKeyWithId extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+async function fetchJson(url: string, init: RequestInit = {}): Promise<unknown> {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!res.ok) {
+    const body = await res.text().catch(() => "<unreadable>");
+    logger.error("OIDC provider request failed", { url, status: res.status, body: body.slice(0, 500) });
+    throw new Error(`OIDC request to ${new URL(url).pathname} failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Generic OpenID Connect login (Authorization Code flow with PKCE), for
+ * providers such as Keycloak, Gitea/Forgejo, Authentik or Google.
+ *
+ * Endpoints come from the issuer's discovery document, and ID tokens are
+ * verified against the issuer's JWKS. Both are cached. The username checked
+ * against the allowlist is the configured claim, read from the ID token or,
+ * when the ID token lacks it, from the userinfo endpoint.
+ */
+export class OidcProvider implements IdentityProvider {
+  readonly name = "oidc";
+  readonly displayName: string;
+  readonly callbackPath = "/oauth/oidc/callback";
+
+  private discovery: { document: DiscoveryDocument; fetchedAt: number } | null = null;
+  private jwks = new Map<string, JsonWebKeyWithId>();
+  private jwksFetchedAt = 0;
+
+  constructor(
+    private readonly config: Config,
+    private readonly oidc: OidcConfig,
+  ) {
+    this.displayName = new URL(oidc.issuer).host;
+  }
+
+  private get redirectUri(): string {
+    return `${this.config.serverUrl}${this.callbackPath}`;
+  }
+
+  async getAuthorizationUrl(request: ProviderAuthorizationRequest): Promise<string> {
+    const discovery = await this.getDiscoveryDocument();
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", this.oidc.clientId);
+    url.searchParams.set("redirect_uri", this.redirectUri);
+    url.searchParams.set("scope", this.oidc.scopes.join(" "));
+    url.searchParams.set("state", request.state);
+    url.searchParams.set("nonce", request.nonce);
+    url.searchParams.set("code_challenge", request.codeChallenge);
+    url.searchParams.set("code_challenge_method", "S256");
+    return url.toString();
+  }
+
+  async authenticate(callback: ProviderCallback): Promise<ProviderIdentity> {
+    const discovery = await this.getDiscoveryDocument();
+    const tokens = await this.exchangeCode(discovery, callback);
+    const claims = await this.verifyIdToken(discovery, tokens.idToken, callback.nonce);
+
+    const username = claims[this.oidc.usernameClaim];
+    if (typeof username === "string" && username.length > 0) {
+      return { username, accessToken: tokens.accessToken };
+    }
+    return {
+      username: await this.fetchUsernameFromUserInfo(discovery, tokens.accessToken, claims.sub),
+      accessToken: tokens.accessToken,
+    };
+  }
+
+  /** OIDC logins are admitted through ALLOWED_USERS only. */
+  async checkMembership(): Promise<boolean> {
+    return false;
+  }
+
+  // --- Discovery ---
+
+  private async getDiscoveryDocument(): Promise<DiscoveryDocument> {
+    if (this.discovery && Date.now() - this.discovery.fetchedAt < DISCOVERY_TTL_MS) {
+      return this.discovery.document;
+    }
+
+    const data = await fetchJson(`${this.oidc.issuer}/.well-known/openid-configuration`);
+    if (!isRecord(data)) {
+      throw new Error("OIDC discovery document is not a JSON object");
+    }
+    for (const field of ["issuer", "authorization_endpoint", "token_endpoint", "jwks_uri"]) {
+      if (typeof data[field] !== "string") {
+        throw new Error(`OIDC discovery document is missing "${field}"`);
+      }
+    }
+    // OIDC Discovery §4.3: the issuer in the document must match the one it was fetched for
+    if ((data.issuer as string).replace(/\/$/, "") !== this.oidc.issuer) {
+      throw new Error(`OIDC discovery issuer mismatch: expected ${this.oidc.issuer}, got ${data.issuer as string}`);
+    }
+
+    const document = data as unknown as DiscoveryDocument;
+    this.discovery = { document, fetchedAt: Date.now() };
+    logger.info("OIDC discovery document loaded", { issuer: document.issuer });
+    return document;
+  }
+
+  // --- Token exchange ---
+
+  private async exchangeCode(
+    discovery: DiscoveryDocument,
+    callback: ProviderCallback,
+  ): Promise<{ idToken: string; accessToken: string | undefined }> {
+    const body = new URLSearchParams({
+      grant_type: "authorization_code",
+      code: callback.code,
+      redirect_uri: this.redirectUri,
+      client_id: this.oidc.clientId,
+      code_verifier: callback.codeVerifier,
+    });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+
+    if (this.oidc.clientSecret) {
+      // client_secret_basic is the OIDC default; use client_secret_post only
+      // when the provider does not support basic
+      const methods = discovery.token_endpoint_auth_methods_supported ?? ["client_secret_basic"];
+      if (!methods.includes("client_secret_basic") && methods.includes("client_secret_post")) {
+        body.set("client_secret", this.oidc.clientSecret);
+      } else {
+        const credentials = `${encodeURIComponent(this.oidc.clientId)}:${encodeURIComponent(this.oidc.clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+      }
+    }
+
+    const data = await fetchJson(discovery.token_endpoint, { method: "POST", headers, body: body.toString() });
+    if (!isRecord(data) || typeof data.id_token !== "string") {
+      throw new Error("OIDC token response contains no id_token");
+    }
+    return {
+      idToken: data.id_token,
+      accessToken: typeof data.access_token === "string" ? data.access_token : undefined,
+    };
+  }
+
+  // --- ID token validation (OIDC Core §3.1.3.7) ---
+
+  private async verifyIdToken(discovery: DiscoveryDocument, idToken: string, nonce: string): Promise<JwtPayload & { sub: string }> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === "string") {
+      throw new Error("ID token is not a valid JWT");
+    }
+    const alg = decoded.header.alg as Algorithm;
+    if (!ID_TOKEN_ALGORITHMS.includes(alg)) {
+      throw new Error(`Unsupported ID token algorithm: ${alg}`);
+    }
+
+    const key = await this.getSigningKey(discovery, decoded.header.kid);
+    const claims = jwt.verify(idToken, key, {
+      algorithms: [alg],
+      issuer: discovery.issuer,
+      audience: this.oidc.clientId,
+      clockTolerance: ID_TOKEN_CLOCK_TOLERANCE_SECONDS,
+    }) as JwtPayload;
+
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== this.oidc.clientId) {
+      throw new Error("ID token azp does not match the client ID");
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error("ID token nonce mismatch");
+    }
+    if (typeof claims.sub !== "string" || claims.sub.length === 0) {
+      throw new Error("ID token has no sub claim");
+    }
+    return claims as JwtPayload & { sub: string };
+  }
+
+  private async getSigningKey(discovery: DiscoveryDocument, kid: string | undefined): Promise<crypto.KeyObject> {
+    let jwk = this.findKey(kid);
+    // Unknown kid: the provider may have rotated its keys
+    if (!jwk && Date.now() - this.jwksFetchedAt >= JWKS_REFRESH_MIN_INTERVAL_MS) {
+      await this.refreshJwks(discovery);
+      jwk = this.findKey(kid);
+    }
+    if (!jwk) {
+      throw new Error(`No signing key found in JWKS for kid ${kid ?? "(none)"}`);
+    }
+    return crypto.createPublicKey({ key: jwk, format: "jwk" });
+  }
+
+  private findKey(kid: string | undefined): JsonWebKeyWithId | undefined {
+    if (kid !== undefined) return this.jwks.get(kid);
+    // Without a kid the key set must be unambiguous
+    return this.jwks.size === 1 ? [...this.jwks.values()][0] : undefined;
+  }
+
+  private async refreshJwks(discovery: DiscoveryDocument): Promise<void> {
+    this.jwksFetchedAt = Date.now();
+    const data = await fetchJson(discovery.jwks_uri);
+    if (!isRecord(data) || !Array.isArray(data.keys)) {
+      throw new Error("OIDC JWKS document has no keys array");
+    }
+    this.jwks.clear();
+    for (const [index, key] of (data.keys as JsonWebKeyWithId[]).entries()) {
+      if (!isRecord(key) || (key.use !== undefined && key.use !== "sig")) continue;
+      this.jwks.set(key.kid ?? `#${index}`, key);
+    }
+    logger.debug("OIDC JWKS loaded", { keys: this.jwks.size });
+  }
+
+  // --- Userinfo fallback ---
+
+  private async fetchUsernameFromUserInfo(
+    discovery: DiscoveryDocument,
+    accessToken: string | undefined,
+    subject: string,
+  ): Promise<string> {
+    const claim = this.oidc.usernameClaim;
+    if (!discovery.userinfo_endpoint || !accessToken) {
+      throw new Error(`ID token has no "${claim}" claim`);
+    }
+    const data = await fetchJson(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: "application/json" },
+    });
+    // OIDC Core §5.3.2: the userinfo sub must match the ID token sub
+    if (!isRecord(data) || data.sub !== subject) {
+      throw new Error("OIDC userinfo subject does not match the ID token");
+    }
+    const username = data[claim];
+    if (typeof username !== "string" || username.length === 0) {
+      throw new Error(`Neither the ID token nor userinfo has a "${claim}" claim`);
+    }
+    return username;
+  }
+}
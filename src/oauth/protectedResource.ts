@@ -1,5 +1,6 @@
 import type { Request, Response } from "express";
 import type { Config } from "../config.js";
+import { SUPPORTED_SCOPES } from "./scopes.js";
 
 /**
  * GET /.well-known/oauth-protected-resource
@@ -12,6 +13,7 @@ export function handleProtectedResource(config: Config) {
     res.json({
       resource: config.serverUrl,
       authorization_servers: [config.serverUrl],
+      scopes_supported: SUPPORTED_SCOPES,
     });
   };
 }
@@ -11,13 +11,40 @@ const ALLOWED_REDIRECT_HOSTS = [
 
 const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "::1"];
 
-const SUPPORTED_GRANT_TYPES = ["authorization_code", "refresh_token"];
-const SUPPORTED_RESPONSE_TYPES = ["code"];
+export const SUPPORTED_GRANT_TYPES = ["authorization_code", "refresh_token"];
+export const SUPPORTED_RESPONSE_TYPES = ["code"];
 const SUPPORTED_AUTH_METHODS: readonly TokenEndpointAuthMethod[] = ["client_secret_post", "none"];
 const MAX_CLIENTS = 500;
 
+/**
+ * Check a redirect URI against the allowed hosts. Loopback redirects may use
+ * HTTP (RFC 8252). Returns an error description, or null when allowed.
+ * Also applied to the redirect URIs of Client ID Metadata Documents.
+ */
+export function validateRedirectUri(uri: unknown): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(uri as string);
+  } catch {
+    return `Invalid redirect URI: ${uri}`;
+  }
+  if (LOOPBACK_HOSTS.includes(parsed.hostname)) {
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return "Loopback redirect_uris must use HTTP or HTTPS";
+    }
+    return null;
+  }
+  if (parsed.protocol !== "https:") {
+    return "redirect_uris must use HTTPS";
+  }
+  if (!ALLOWED_REDIRECT_HOSTS.some((h) => parsed.hostname === h)) {
+    return `Redirect host not allowed: ${parsed.hostname}`;
+  }
+  return null;
+}
+
 /** Validate an array field against a set of supported values. */
-function validateSupportedValues(
+export function validateSupportedValues(
   field: unknown,
   defaults: string[],
   supported: string[],
@@ -73,29 +100,10 @@ export function handleRegistration(store: OAuthStore, rateLimiter: RateLimiter)
       return;
     }
 
-    // Validate redirect URIs (RFC 8252: loopback redirects may use HTTP)
     for (const uri of redirect_uris) {
-      try {
-        const parsed = new URL(uri);
-        const isLoopback = LOOPBACK_HOSTS.includes(parsed.hostname);
-
-        if (isLoopback) {
-          if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
-            res.status(400).json({ error: "invalid_request", error_description: "Loopback redirect_uris must use HTTP or HTTPS" });
-            return;
-          }
-        } else {
-          if (parsed.protocol !== "https:") {
-            res.status(400).json({ error: "invalid_request", error_description: "redirect_uris must use HTTPS" });
-            return;
-          }
-          if (!ALLOWED_REDIRECT_HOSTS.some((h) => parsed.hostname === h)) {
-            res.status(400).json({ error: "invalid_request", error_description: `Redirect host not allowed: ${parsed.hostname}` });
-            return;
-          }
-        }
-      } catch {
-        res.status(400).json({ error: "invalid_request", error_description: `Invalid redirect URI: ${uri}` });
+      const error = validateRedirectUri(uri);
+      if (error) {
+        res.status(400).json({ error: "invalid_request", error_description: error });
         return;
       }
     }
@@ -0,0 +1,57 @@
+import type { Request, Response } from "express";
+import type { OAuthStore } from "./store.js";
+import type { AccessTokenKeys } from "./signingKeys.js";
+import { verifyAccessToken } from "./jwt.js";
+import { normalizeClientSecret } from "./token.js";
+import { authenticateClient } from "./clientMetadata.js";
+import type { ClientMetadataResolver } from "./clientMetadata.js";
+import type { RateLimiter } from "../utils/rateLimiter.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Token revocation endpoint (RFC 7009). Accepts refresh tokens and access
+ * tokens of the authenticated client. Revoked refresh tokens are deleted;
+ * revoked access tokens go on the store's revocation list, which `jwtAuth`
+ * checks, until they expire.
+ *
+ * Per RFC 7009 §2.2 the response is 200 whether or not the token was valid,
+ * so the endpoint cannot be used to probe for tokens. Tokens issued to other
+ * clients are ignored.
+ */
+export function handleRevoke(keys: AccessTokenKeys, store: OAuthStore, rateLimiter: RateLimiter, clientMetadata?: ClientMetadataResolver) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const ip = req.ip ?? "unknown";
+    if (!rateLimiter.check(ip)) {
+      res.status(429).json({ error: "too_many_requests" });
+      return;
+    }
+
+    const { token, client_id, client_secret } = req.body;
+
+    if (!token || !client_id) {
+      res.status(400).json({ error: "invalid_request", error_description: "Missing required parameters" });
+      return;
+    }
+
+    // Authenticate client (secret required for confidential, forbidden for public)
+    if (!(await authenticateClient(store, clientMetadata, client_id, normalizeClientSecret(client_secret)))) {
+      res.status(401).json({ error: "invalid_client" });
+      return;
+    }
+
+    // Access tokens are JWTs and refresh tokens are opaque, so the format
+    // decides the type and token_type_hint is not needed
+    const payload = verifyAccessToken(token, keys);
+    if (payload) {
+      if (payload.client_id === client_id && payload.jti) {
+        store.revokeAccessToken(payload.jti, payload.exp * 1000);
+        logger.info("OAuth access token revoked", { clientId: client_id, user: payload.sub });
+      }
+    } else if (store.revokeRefreshToken(token, client_id)) {
+      logger.info("OAuth refresh token revoked", { clientId: client_id });
+    }
+
+    res.set("Cache-Control", "no-store");
+    res.status(200).end();
+  };
+}
@@ -0,0 +1,66 @@
+export const VAULT_READ_SCOPE = "vault:read";
+export const VAULT_WRITE_SCOPE = "vault:write";
+export const VAULT_HISTORY_SCOPE = "vault:history";
+/** Access to /admin/api; only honoured for users in ADMIN_USERS, and never granted by default. */
+export const ADMIN_SCOPE = "vault:admin";
+
+export const SUPPORTED_SCOPES: readonly string[] = [VAULT_READ_SCOPE, VAULT_WRITE_SCOPE, VAULT_HISTORY_SCOPE, ADMIN_SCOPE];
+
+/** What each scope allows, as shown on the consent page. */
+export const SCOPE_DESCRIPTIONS: Readonly<Record<string, string>> = {
+  [VAULT_READ_SCOPE]: "Read and search your notes",
+  [VAULT_WRITE_SCOPE]: "Create, edit, move and delete notes",
+  [VAULT_HISTORY_SCOPE]: "Read the vault's git history and diffs",
+  [ADMIN_SCOPE]: "Manage clients, sessions and tokens of all users and read the audit log (admins only)",
+};
+
+/**
+ * Granted when a client does not request any scope, and assumed for refresh
+ * tokens and access tokens issued before scopes existed — both had full
+ * vault access, so existing clients keep working unchanged. The admin scope
+ * has to be requested explicitly.
+ */
+export const DEFAULT_SCOPES: readonly string[] = [VAULT_READ_SCOPE, VAULT_WRITE_SCOPE, VAULT_HISTORY_SCOPE];
+
+/**
+ * Parse a space-delimited OAuth `scope` parameter (RFC 6749 §3.3).
+ * Returns the default scopes when the parameter is absent, empty or only
+ * spaces, rather than a grant no tool accepts.
+ * `vault:write` implies `vault:read`, since editing needs to read the file.
+ * The result is deduplicated and in canonical order.
+ */
+export function parseScope(scope: unknown): { scopes: string[] } | { error: string } {
+  if (scope === undefined) {
+    return { scopes: [...DEFAULT_SCOPES] };
+  }
+  if (typeof scope !== "string") {
+    return { error: "scope must be a space-delimited string" };
+  }
+  const requested = scope.split(" ").filter((s) => s.length > 0);
+  if (requested.length === 0) {
+    return { scopes: [...DEFAULT_SCOPES] };
+  }
+  for (const s of requested) {
+    if (!SUPPORTED_SCOPES.includes(s)) {
+      return { error: `Unsupported scope: ${s}` };
+    }
+  }
+  if (requested.includes(VAULT_WRITE_SCOPE)) {
+    requested.push(VAULT_READ_SCOPE);
+  }
+  return { scopes: SUPPORTED_SCOPES.filter((s) => requested.includes(s)) };
+}
+
+/**
+ * Scopes of an issued token from its `scope` JWT claim. Tokens issued before
+ * scopes existed have no claim and get the defaults; an empty claim grants
+ * nothing.
+ */
+export function scopesFromClaim(scope: string | undefined): string[] {
+  return scope === undefined ? [...DEFAULT_SCOPES] : scope.split(" ").filter((s) => s.length > 0);
+}
+
+/** Serialize scopes for the `scope` token response field and JWT claim. */
+export function formatScope(scopes: readonly string[]): string {
+  return scopes.join(" ");
+}
@@ -0,0 +1,37 @@
+import crypto from "node:crypto";
+
+const KEY_INFO = "obsidian-vault-mcp provider token";
+
+function deriveKey(jwtSecret: string): Buffer {
+  return Buffer.from(crypto.hkdfSync("sha256", jwtSecret, Buffer.alloc(0), KEY_INFO, 32));
+}
+
+/**
+ * Encrypt a secret that must be usable later (unlike the hashed secrets in
+ * secretHash.ts), such as a provider access token kept for membership
+ * rechecks. AES-256-GCM with a key derived from JWT_SECRET; the result is
+ * `iv.tag.ciphertext` in base64url.
+ */
+export function sealSecret(plaintext: string, jwtSecret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", deriveKey(jwtSecret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64url")).join(".");
+}
+
+/**
+ * Decrypt a value produced by `sealSecret`. Returns null if it is malformed
+ * or was sealed under a different JWT_SECRET.
+ */
+export function openSecret(sealed: string, jwtSecret: string): string | null {
+  const parts = sealed.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    const [iv, tag, ciphertext] = parts.map((part) => Buffer.from(part, "base64url"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", deriveKey(jwtSecret), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf-8");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,18 @@
+import crypto from "node:crypto";
+
+/**
+ * Hash a high-entropy secret (client secret, auth code, refresh token,
+ * session key) for storage at rest. All such secrets are 256-bit random
+ * values, so a single unsalted SHA-256 is sufficient — there is nothing
+ * to brute-force.
+ */
+export function hashSecret(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+/** Timing-safe comparison of a plaintext secret against a stored hash. */
+export function matchesSecretHash(value: string, expectedHash: string): boolean {
+  const a = Buffer.from(hashSecret(value));
+  const b = Buffer.from(expectedHash);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -1,56 +1,124 @@
 import crypto from "node:crypto";
+import { MemoryStorageBackend } from "../utils/storageBackend.js";
+import type { StorageBackend } from "../utils/storageBackend.js";
+import { hashSecret } from "./secretHash.js";
 
+/** An authorization request from /oauth/authorize, waiting for the identity provider callback. */
 export interface OAuthSession {
   clientId: string;
   redirectUri: string;
   state: string;
   codeChallenge: string;
   codeChallengeMethod: string;
+  /** Scopes requested by the client (already validated). */
+  scopes: string[];
+  /** PKCE code verifier for the server's own request to the identity provider. */
+  providerCodeVerifier: string;
+  /** Nonce the identity provider must echo in the ID token. */
+  providerNonce: string;
+  /** Set once the user has logged in and is shown the consent page. */
+  username?: string;
+  /** See `AuthorizationCode.providerToken`; kept until the user consents. */
+  providerToken?: string;
   createdAt: number;
 }
 
+/**
+ * A visit to the consent management page at /oauth/consents: first the
+ * provider login, then (with `username` set) the form ticket of the page.
+ * Sign-ins to the admin dashboard (`admin_login`) only use the first step.
+ */
+export interface ConsentManagementSession {
+  purpose: "manage_consents" | "admin_login";
+  providerCodeVerifier: string;
+  providerNonce: string;
+  username?: string;
+  createdAt: number;
+}
+
+export type PendingSession = OAuthSession | ConsentManagementSession;
+
+/** Persisted snapshot, keyed by the SHA-256 hash of each session key. */
+export type OAuthSessionSnapshot = Array<[string, PendingSession]>;
+
 const SESSION_TTL_MS = 10 * 60 * 1000; // 10 minutes
 const MAX_SESSIONS = 1000;
 
+/**
+ * Pending authorization and consent page sessions. Like `OAuthStore`, every
+ * change is applied to the latest stored state, so replicas sharing DATA_DIR
+ * can each serve a different step of the same login.
+ */
 export class OAuthSessionStore {
-  private sessions = new Map<string, OAuthSession>();
+  private sessions = new Map<string, PendingSession>();
+
+  constructor(private readonly backend: StorageBackend<OAuthSessionSnapshot> = new MemoryStorageBackend()) {
+    this.sessions = new Map(backend.load() ?? []);
+  }
+
+  /** Apply `fn` to the latest stored sessions and store the result. */
+  private mutate<R>(fn: () => R): R {
+    let result!: R;
+    this.backend.update((current) => {
+      this.sessions = new Map(current ?? []);
+      result = fn();
+      return [...this.sessions.entries()];
+    });
+    return result;
+  }
 
   /**
    * Create a new session to bridge between the Claude authorize request
-   * and the GitHub OAuth callback. Returns the session key, or null if
-   * the session limit has been reached.
+   * and the identity provider callback, or between a page and its form
+   * submission. Returns the session key, or null if the session limit has
+   * been reached.
    */
-  create(data: Omit<OAuthSession, "createdAt">): string | null {
-    this.cleanup();
-    if (this.sessions.size >= MAX_SESSIONS) {
-      return null;
-    }
+  create(data: Omit<OAuthSession, "createdAt"> | Omit<ConsentManagementSession, "createdAt">): string | null {
     const key = crypto.randomBytes(32).toString("hex");
-    this.sessions.set(key, { ...data, createdAt: Date.now() });
-    return key;
+    return this.mutate(() => {
+      this.removeExpired();
+      if (this.sessions.size >= MAX_SESSIONS) {
+        return null;
+      }
+      this.sessions.set(hashSecret(key), { ...data, createdAt: Date.now() });
+      return key;
+    });
   }
 
   /**
    * Consume a session by key (one-time use). Returns null if
    * not found or expired.
    */
-  consume(key: string): OAuthSession | null {
-    const session = this.sessions.get(key);
-    if (!session) return null;
-    // Always delete (one-time use)
-    this.sessions.delete(key);
-    if (Date.now() - session.createdAt > SESSION_TTL_MS) return null;
+  consume(key: string): PendingSession | null {
+    const hashedKey = hashSecret(key);
+    const session = this.mutate(() => {
+      const found = this.sessions.get(hashedKey);
+      // Always delete (one-time use)
+      this.sessions.delete(hashedKey);
+      return found;
+    });
+    if (!session || Date.now() - session.createdAt > SESSION_TTL_MS) return null;
     return session;
   }
 
-  /** Remove expired sessions. */
+  /** Remove expired sessions. The file is only written when some expired. */
   cleanup(): void {
+    this.sessions = new Map(this.backend.load() ?? []);
+    if (this.removeExpired()) {
+      this.mutate(() => this.removeExpired());
+    }
+  }
+
+  private removeExpired(): boolean {
     const now = Date.now();
+    let changed = false;
     for (const [key, session] of this.sessions) {
       if (now - session.createdAt > SESSION_TTL_MS) {
         this.sessions.delete(key);
+        changed = true;
       }
     }
+    return changed;
   }
 
   /** For testing: number of active sessions. */
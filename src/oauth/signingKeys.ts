@@ -0,0 +1,268 @@
+import crypto from "node:crypto";
+import { readdirSync, readFileSync, writeFileSync, renameSync, mkdirSync, rmSync } from "node:fs";
+import path from "node:path";
+import type { Algorithm, JwtHeader } from "jsonwebtoken";
+import type { Config } from "../config.js";
+import { logger } from "../utils/logger.js";
+import { getErrorMessage } from "../utils/toolResponse.js";
+
+export type AccessTokenAlgorithm = "HS256" | "RS256" | "ES256";
+
+export const ACCESS_TOKEN_ALGORITHMS: readonly AccessTokenAlgorithm[] = ["HS256", "RS256", "ES256"];
+
+/** How often the server picks up keys rotated by the CLI. */
+const KEY_RELOAD_INTERVAL_MS = 5_000;
+
+export interface SigningKey {
+  key: crypto.KeyObject | string;
+  algorithm: Algorithm;
+  /** Set for asymmetric keys; written to the JWT header. */
+  kid?: string;
+}
+
+/** A public key as published at /.well-known/jwks.json. */
+export interface PublicJwk extends crypto.JsonWebKey {
+  kid: string;
+  alg: string;
+  use: "sig";
+}
+
+/**
+ * Keys for signing and verifying access tokens. `SharedSecretKeys` (HS256
+ * with JWT_SECRET) is the default; `KeyDirectory` holds RS256/ES256 keys on
+ * disk, published as a JWKS and rotated without logging anyone out.
+ */
+export interface AccessTokenKeys {
+  readonly algorithm: AccessTokenAlgorithm;
+  /** Key used for new access tokens. */
+  getSigningKey(): SigningKey;
+  /**
+   * Key that verifies a token with this header, or null when the token was
+   * not signed by a key that is still valid. `issuedAt` is the unverified
+   * `iat` claim, used only to accept pre-migration HS256 tokens.
+   */
+  getVerificationKey(header: JwtHeader, issuedAt: number | undefined): SigningKey | null;
+  /** Public keys that verify currently valid tokens. Empty for HS256. */
+  getJwks(): { keys: PublicJwk[] };
+}
+
+/** HS256 with the shared JWT_SECRET. Tokens cannot be verified by other services. */
+export class SharedSecretKeys implements AccessTokenKeys {
+  readonly algorithm = "HS256";
+
+  constructor(private readonly jwtSecret: string) {}
+
+  getSigningKey(): SigningKey {
+    return { key: this.jwtSecret, algorithm: "HS256" };
+  }
+
+  getVerificationKey(header: JwtHeader): SigningKey | null {
+    return header.alg === "HS256" ? this.getSigningKey() : null;
+  }
+
+  getJwks(): { keys: PublicJwk[] } {
+    return { keys: [] };
+  }
+}
+
+/** One key file (`<kid>.json`, mode 0600) in the key directory. */
+export interface StoredSigningKey {
+  kid: string;
+  alg: "RS256" | "ES256";
+  createdAt: number;
+  /** When a newer key took over signing. Null for the active key. */
+  retiredAt: number | null;
+  /** PKCS#8 PEM. */
+  privateKey: string;
+}
+
+/** A key as shown by the CLI, without its private part. */
+export type SigningKeyInfo = Omit<StoredSigningKey, "privateKey">;
+
+interface LoadedKey extends StoredSigningKey {
+  key: crypto.KeyObject;
+}
+
+function generateKeyPem(alg: "RS256" | "ES256"): string {
+  const { privateKey } = alg === "RS256"
+    ? crypto.generateKeyPairSync("rsa", { modulusLength: 2048 })
+    : crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+  return privateKey.export({ type: "pkcs8", format: "pem" }) as string;
+}
+
+/**
+ * RS256/ES256 signing keys kept as files in a directory.
+ *
+ * The newest non-retired key signs; `rotate()` adds a new key and retires the
+ * previous one. A retired key still verifies (and stays in the JWKS) for
+ * `tokenLifetimeSeconds` after retirement — the longest any token it signed
+ * can live — and is deleted by `prune()` after that.
+ *
+ * HS256 tokens signed with JWT_SECRET before the first key was created stay
+ * valid until they expire, so switching from HS256 logs nobody out.
+ *
+ * The `jwt-key` CLI subcommand writes the same directory; the server rereads
+ * it at most every few seconds.
+ */
+export class KeyDirectory implements AccessTokenKeys {
+  private keys: LoadedKey[] = [];
+  private loadedAt = 0;
+
+  constructor(
+    private readonly dir: string,
+    readonly algorithm: "RS256" | "ES256",
+    private readonly jwtSecret: string,
+    private readonly tokenLifetimeSeconds: number,
+    private readonly reloadIntervalMs = KEY_RELOAD_INTERVAL_MS,
+  ) {
+    this.load();
+  }
+
+  private load(): void {
+    let files: string[];
+    try {
+      files = readdirSync(this.dir).filter((f) => f.endsWith(".json"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      files = [];
+    }
+
+    const keys: LoadedKey[] = [];
+    for (const file of files) {
+      try {
+        const stored = JSON.parse(readFileSync(path.join(this.dir, file), "utf-8")) as StoredSigningKey;
+        keys.push({ ...stored, key: crypto.createPrivateKey(stored.privateKey) });
+      } catch (error) {
+        logger.error("Ignoring unreadable signing key file", { file, error: getErrorMessage(error) });
+      }
+    }
+    this.keys = keys.sort((a, b) => a.createdAt - b.createdAt);
+    this.loadedAt = Date.now();
+  }
+
+  private reloadIfStale(): void {
+    if (Date.now() - this.loadedAt >= this.reloadIntervalMs) {
+      this.load();
+    }
+  }
+
+  private save(key: StoredSigningKey): void {
+    mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    const filePath = path.join(this.dir, `${key.kid}.json`);
+    const tmpPath = `${filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(key), { encoding: "utf-8", mode: 0o600 });
+    renameSync(tmpPath, filePath);
+  }
+
+  private get activeKey(): LoadedKey | undefined {
+    return this.keys.filter((k) => k.retiredAt === null).at(-1);
+  }
+
+  private isValid(key: StoredSigningKey, now: number): boolean {
+    return key.retiredAt === null || now < key.retiredAt + this.tokenLifetimeSeconds * 1000;
+  }
+
+  /**
+   * Make sure a key of the configured algorithm signs. Creates the first key,
+   * or rotates when the algorithm was changed. Called at startup.
+   */
+  ensureActiveKey(): void {
+    this.load();
+    if (this.activeKey?.alg !== this.algorithm) {
+      this.rotate();
+    }
+  }
+
+  /** Add a new signing key and retire the current one. Returns the new key's kid. */
+  rotate(): string {
+    this.load();
+    const now = Date.now();
+    for (const key of this.keys.filter((k) => k.retiredAt === null)) {
+      key.retiredAt = now;
+      const { key: _keyObject, ...stored } = key;
+      this.save(stored);
+    }
+
+    const stored: StoredSigningKey = {
+      kid: crypto.randomBytes(8).toString("hex"),
+      alg: this.algorithm,
+      createdAt: now,
+      retiredAt: null,
+      privateKey: generateKeyPem(this.algorithm),
+    };
+    this.save(stored);
+    this.load();
+    logger.info("Access token signing key rotated", { kid: stored.kid, alg: stored.alg });
+    return stored.kid;
+  }
+
+  /** Rotate when the active key is older than `maxAgeMs`. Returns whether it rotated. */
+  rotateIfOlderThan(maxAgeMs: number): boolean {
+    this.reloadIfStale();
+    const active = this.activeKey;
+    if (active && Date.now() - active.createdAt < maxAgeMs) return false;
+    this.rotate();
+    return true;
+  }
+
+  /** Delete retired keys whose tokens have all expired. */
+  prune(): void {
+    this.load();
+    const now = Date.now();
+    for (const key of this.keys.filter((k) => !this.isValid(k, now))) {
+      rmSync(path.join(this.dir, `${key.kid}.json`), { force: true });
+      logger.info("Expired signing key deleted", { kid: key.kid });
+    }
+    this.load();
+  }
+
+  /** All keys on disk, oldest first (for the CLI). */
+  list(): SigningKeyInfo[] {
+    this.load();
+    return this.keys.map(({ key: _keyObject, privateKey: _privateKey, ...info }) => info);
+  }
+
+  getSigningKey(): SigningKey {
+    this.reloadIfStale();
+    const active = this.activeKey;
+    if (!active) {
+      throw new Error(`No active signing key in ${this.dir}`);
+    }
+    return { key: active.key, algorithm: active.alg, kid: active.kid };
+  }
+
+  getVerificationKey(header: JwtHeader, issuedAt: number | undefined): SigningKey | null {
+    this.reloadIfStale();
+
+    // Token from before the switch to asymmetric keys
+    if (header.alg === "HS256" && header.kid === undefined) {
+      const firstKey = this.keys[0];
+      const issuedBeforeFirstKey = issuedAt !== undefined && firstKey !== undefined && issuedAt * 1000 < firstKey.createdAt;
+      return issuedBeforeFirstKey ? { key: this.jwtSecret, algorithm: "HS256" } : null;
+    }
+
+    const key = this.keys.find((k) => k.kid === header.kid);
+    if (!key || key.alg !== header.alg || !this.isValid(key, Date.now())) return null;
+    return { key: crypto.createPublicKey(key.key), algorithm: key.alg, kid: key.kid };
+  }
+
+  getJwks(): { keys: PublicJwk[] } {
+    this.reloadIfStale();
+    const now = Date.now();
+    return {
+      keys: this.keys
+        .filter((k) => this.isValid(k, now))
+        .map((k) => ({ ...crypto.createPublicKey(k.key).export({ format: "jwk" }), kid: k.kid, alg: k.alg, use: "sig" as const })),
+    };
+  }
+}
+
+/** Create the access token keys selected by JWT_SIGNING_ALG. */
+export function createAccessTokenKeys(config: Config): AccessTokenKeys {
+  if (config.jwtSigningAlgorithm === "HS256") {
+    return new SharedSecretKeys(config.jwtSecret);
+  }
+  const keys = new KeyDirectory(config.jwtKeysDir, config.jwtSigningAlgorithm, config.jwtSecret, config.accessTokenExpirySeconds);
+  keys.ensureActiveKey();
+  return keys;
+}
@@ -1,11 +1,18 @@
 import crypto from "node:crypto";
 import { logger } from "../utils/logger.js";
+import { MemoryStorageBackend } from "../utils/storageBackend.js";
+import type { StorageBackend } from "../utils/storageBackend.js";
+import { hashSecret, matchesSecretHash } from "./secretHash.js";
+import { isClientIdUrl } from "./clientMetadata.js";
 
 const MAX_AUTH_CODES = 1000;
 const MAX_REFRESH_TOKENS = 2000;
+const MAX_REVOKED_ACCESS_TOKENS = 5000;
 const AUTH_CODE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 const CLIENT_STALENESS_MS = 24 * 60 * 60 * 1000; // 24 hours
 const CLIENT_CLEANUP_THRESHOLD = 0.9; // evict stale clients when at 90% capacity
+/** How often reads pick up what other replicas sharing DATA_DIR wrote. */
+const STORE_RELOAD_INTERVAL_MS = 5_000;
 
 export type TokenEndpointAuthMethod = "client_secret_post" | "none";
 
@@ -17,31 +24,95 @@ export interface ClientRegistrationParams {
   tokenEndpointAuthMethod: TokenEndpointAuthMethod;
 }
 
+/** A client as kept by the store. The secret is only stored as a hash. */
 export interface RegisteredClient {
   clientId: string;
-  clientSecret: string | undefined;
+  clientSecretHash: string | undefined;
   clientName: string;
   redirectUris: string[];
   grantTypes: string[];
   responseTypes: string[];
   tokenEndpointAuthMethod: TokenEndpointAuthMethod;
   registeredAt: number;
+  /** When tokens were last issued to the client. Absent until then, and on clients persisted before it was tracked. */
+  lastUsedAt?: number;
+  /** User the tokens were last issued for. */
+  lastUser?: string;
+}
+
+/**
+ * Returned once from `registerClient`: the stored client plus the plaintext
+ * secret, which is never retrievable again.
+ */
+export interface NewlyRegisteredClient extends RegisteredClient {
+  clientSecret: string | undefined;
 }
 
 export interface AuthorizationCode {
-  code: string;
   clientId: string;
+  /** Lowercase GitHub login of the user who approved the authorization. */
+  subject: string;
   redirectUri: string;
   codeChallenge: string;
+  scopes: string[];
+  /** See `RefreshTokenEntry.providerToken`. */
+  providerToken?: string;
   expiresAt: number;
 }
 
 export interface RefreshTokenEntry {
-  token: string;
   clientId: string;
+  subject: string;
+  /** Absent on refresh tokens persisted before scopes existed. */
+  scopes?: string[];
+  /**
+   * Provider access token sealed with `sealSecret`. Only set for users
+   * admitted through GitHub organization or team membership, so that the
+   * membership can be rechecked on every refresh.
+   */
+  providerToken?: string;
+  /** Absent on refresh tokens persisted before it was tracked. */
+  issuedAt?: number;
   expiresAt: number;
 }
 
+/** A refresh token as listed on the admin dashboard. `id` is the token's hash. */
+export interface RefreshTokenInfo {
+  id: string;
+  clientId: string;
+  subject: string;
+  scopes?: string[];
+  issuedAt?: number;
+  expiresAt: number;
+}
+
+/** A user's approval of a client on the consent page. */
+export interface ConsentEntry {
+  /** Lowercase username. */
+  user: string;
+  clientId: string;
+  /** Scopes the user approved. Requests for other scopes show the consent page again. */
+  scopes: string[];
+  grantedAt: number;
+}
+
+/**
+ * Snapshot persisted through the storage backend. Auth codes and refresh
+ * tokens are keyed by their SHA-256 hash; arrays preserve insertion order so
+ * capacity eviction stays oldest-first across restarts.
+ */
+export interface OAuthStoreSnapshot {
+  clients: RegisteredClient[];
+  authCodes: Array<[string, AuthorizationCode]>;
+  refreshTokens: Array<[string, RefreshTokenEntry]>;
+  /** `[jti, expiresAt]` of revoked access tokens. Absent in snapshots written before revocation existed. */
+  revokedAccessTokens?: Array<[string, number]>;
+  /** `[clientId, expiresAt]` of deleted clients whose access tokens are still rejected. Absent in older snapshots. */
+  revokedClients?: Array<[string, number]>;
+  /** Absent in snapshots written before the consent page existed. */
+  consents?: ConsentEntry[];
+}
+
 /**
  * Verifies client credentials based on the registered auth method.
  * Pure function — no side effects, no lookups.
@@ -54,24 +125,94 @@ export function verifyClientCredentials(
     return clientSecret === undefined;
   }
 
-  if (!client.clientSecret || !clientSecret) return false;
-  const a = Buffer.from(client.clientSecret);
-  const b = Buffer.from(clientSecret);
-  return a.length === b.length && crypto.timingSafeEqual(a, b);
+  if (!client.clientSecretHash || !clientSecret) return false;
+  return matchesSecretHash(clientSecret, client.clientSecretHash);
 }
 
+function consentKey(user: string, clientId: string): string {
+  return `${user}\n${clientId}`;
+}
+
+/**
+ * OAuth clients, codes, tokens and consents. Replicas sharing DATA_DIR share
+ * the storage file: every mutation is applied to the latest stored state
+ * under the backend's lock (`StorageBackend.update`), so one replica never
+ * overwrites what another wrote, and reads reload the file at most every few
+ * seconds, so revocations on one replica take effect on all.
+ */
 export class OAuthStore {
   private clients = new Map<string, RegisteredClient>();
   private authCodes = new Map<string, AuthorizationCode>();
   private refreshTokens = new Map<string, RefreshTokenEntry>();
+  /** jti → expiry (ms). Kept until the token would have expired anyway. */
+  private revokedAccessTokens = new Map<string, number>();
+  /** clientId → when its last access token expires. */
+  private revokedClients = new Map<string, number>();
+  /** `${user}\n${clientId}` → consent. */
+  private consents = new Map<string, ConsentEntry>();
+  private loadedAt = 0;
+
+  constructor(
+    private readonly backend: StorageBackend<OAuthStoreSnapshot> = new MemoryStorageBackend(),
+    private readonly reloadIntervalMs = STORE_RELOAD_INTERVAL_MS,
+  ) {
+    const snapshot = backend.load();
+    this.restore(snapshot);
+    if (snapshot) {
+      logger.info("OAuth store restored", {
+        clients: this.clients.size,
+        refreshTokens: this.refreshTokens.size,
+      });
+    }
+  }
+
+  private restore(snapshot: OAuthStoreSnapshot | null): void {
+    this.clients = new Map((snapshot?.clients ?? []).map((client) => [client.clientId, client]));
+    this.authCodes = new Map(snapshot?.authCodes ?? []);
+    this.refreshTokens = new Map(snapshot?.refreshTokens ?? []);
+    this.revokedAccessTokens = new Map(snapshot?.revokedAccessTokens ?? []);
+    this.revokedClients = new Map(snapshot?.revokedClients ?? []);
+    this.consents = new Map((snapshot?.consents ?? []).map((consent) => [consentKey(consent.user, consent.clientId), consent]));
+    this.loadedAt = Date.now();
+  }
+
+  private snapshot(): OAuthStoreSnapshot {
+    return {
+      clients: [...this.clients.values()],
+      authCodes: [...this.authCodes.entries()],
+      refreshTokens: [...this.refreshTokens.entries()],
+      revokedAccessTokens: [...this.revokedAccessTokens.entries()],
+      revokedClients: [...this.revokedClients.entries()],
+      consents: [...this.consents.values()],
+    };
+  }
+
+  /** Reload the stored state if it was last read more than `reloadIntervalMs` ago. */
+  private refresh(): void {
+    if (Date.now() - this.loadedAt >= this.reloadIntervalMs) {
+      this.restore(this.backend.load());
+    }
+  }
+
+  /** Apply `fn` to the latest stored state and store the result. */
+  private mutate<R>(fn: () => R): R {
+    let result!: R;
+    this.backend.update((current) => {
+      this.restore(current);
+      result = fn();
+      return this.snapshot();
+    });
+    return result;
+  }
 
   // --- Client Registration ---
 
-  registerClient(params: ClientRegistrationParams): RegisteredClient {
+  registerClient(params: ClientRegistrationParams): NewlyRegisteredClient {
     const isPublicClient = params.tokenEndpointAuthMethod === "none";
+    const clientSecret = isPublicClient ? undefined : crypto.randomBytes(32).toString("hex");
     const client: RegisteredClient = {
       clientId: crypto.randomUUID(),
-      clientSecret: isPublicClient ? undefined : crypto.randomBytes(32).toString("hex"),
+      clientSecretHash: clientSecret === undefined ? undefined : hashSecret(clientSecret),
       clientName: params.clientName,
       redirectUris: params.redirectUris,
       grantTypes: params.grantTypes,
@@ -79,23 +220,59 @@ export class OAuthStore {
       tokenEndpointAuthMethod: params.tokenEndpointAuthMethod,
       registeredAt: Date.now(),
     };
-    this.clients.set(client.clientId, client);
-    return client;
+    this.mutate(() => this.clients.set(client.clientId, client));
+    return { ...client, clientSecret };
   }
 
   clientCount(): number {
+    this.refresh();
     return this.clients.size;
   }
 
   getClient(clientId: string): RegisteredClient | undefined {
+    this.refresh();
     return this.clients.get(clientId);
   }
 
+  /** All clients, oldest registration first. */
+  listClients(): RegisteredClient[] {
+    this.refresh();
+    return [...this.clients.values()];
+  }
+
+  /**
+   * Delete a client with its authorization codes and refresh tokens. Access
+   * tokens already issued to it are rejected by `jwtAuth` for another
+   * `accessTokenExpirySeconds`, after which they have expired anyway.
+   */
+  deleteClient(clientId: string, accessTokenExpirySeconds: number): boolean {
+    return this.mutate(() => {
+      if (!this.clients.delete(clientId)) return false;
+      for (const [key, entry] of this.authCodes) {
+        if (entry.clientId === clientId) this.authCodes.delete(key);
+      }
+      for (const [key, entry] of this.refreshTokens) {
+        if (entry.clientId === clientId) this.refreshTokens.delete(key);
+      }
+      for (const [key, consent] of this.consents) {
+        if (consent.clientId === clientId) this.consents.delete(key);
+      }
+      this.revokedClients.set(clientId, Date.now() + accessTokenExpirySeconds * 1000);
+      return true;
+    });
+  }
+
+  isClientRevoked(clientId: string): boolean {
+    this.refresh();
+    return this.revokedClients.has(clientId);
+  }
+
   /**
    * Looks up a client and verifies credentials.
    * Delegates to the pure `verifyClientCredentials` function.
    */
   authenticateClient(clientId: string, clientSecret: string | undefined): boolean {
+    this.refresh();
     const client = this.clients.get(clientId);
     if (!client) return false;
     return verifyClientCredentials(client, clientSecret);
@@ -107,82 +284,274 @@ export class OAuthStore {
     clientId: string,
     redirectUri: string,
     codeChallenge: string,
+    subject: string,
+    scopes: string[],
+    providerToken?: string,
   ): string {
-    // Evict oldest entry if at capacity
-    if (this.authCodes.size >= MAX_AUTH_CODES) {
-      const oldestKey = this.authCodes.keys().next().value;
-      if (oldestKey) {
-        this.authCodes.delete(oldestKey);
-        logger.debug("Auth code evicted due to capacity", { maxAuthCodes: MAX_AUTH_CODES });
-      }
-    }
     const code = crypto.randomBytes(32).toString("hex");
-    this.authCodes.set(code, {
-      code,
-      clientId,
-      redirectUri,
-      codeChallenge,
-      expiresAt: Date.now() + AUTH_CODE_TTL_MS,
+    this.mutate(() => {
+      // Evict oldest entry if at capacity
+      if (this.authCodes.size >= MAX_AUTH_CODES) {
+        const oldestKey = this.authCodes.keys().next().value;
+        if (oldestKey) {
+          this.authCodes.delete(oldestKey);
+          logger.debug("Auth code evicted due to capacity", { maxAuthCodes: MAX_AUTH_CODES });
+        }
+      }
+      this.authCodes.set(hashSecret(code), {
+        clientId,
+        subject,
+        redirectUri,
+        codeChallenge,
+        scopes,
+        providerToken,
+        expiresAt: Date.now() + AUTH_CODE_TTL_MS,
+      });
     });
     return code;
   }
 
   consumeAuthCode(code: string): AuthorizationCode | null {
-    const entry = this.authCodes.get(code);
-    if (!entry) return null;
-    // Always delete (one-time use)
-    this.authCodes.delete(code);
-    if (Date.now() > entry.expiresAt) return null;
+    const key = hashSecret(code);
+    // Looked up in the latest stored state, so a code is redeemed on one replica only
+    const entry = this.mutate(() => {
+      const found = this.authCodes.get(key);
+      // Always delete (one-time use)
+      this.authCodes.delete(key);
+      return found;
+    });
+    if (!entry || Date.now() > entry.expiresAt) return null;
     return entry;
   }
 
   // --- Refresh Tokens ---
 
-  createRefreshToken(clientId: string, expirySeconds: number): string {
-    // Evict oldest entry if at capacity
-    if (this.refreshTokens.size >= MAX_REFRESH_TOKENS) {
-      const oldestKey = this.refreshTokens.keys().next().value;
-      if (oldestKey) {
-        this.refreshTokens.delete(oldestKey);
-        logger.debug("Refresh token evicted due to capacity", { maxRefreshTokens: MAX_REFRESH_TOKENS });
-      }
-    }
+  createRefreshToken(
+    clientId: string,
+    subject: string,
+    scopes: string[],
+    expirySeconds: number,
+    providerToken?: string,
+  ): string {
     const token = crypto.randomBytes(32).toString("hex");
-    this.refreshTokens.set(token, {
-      token,
-      clientId,
-      expiresAt: Date.now() + expirySeconds * 1000,
+    this.mutate(() => {
+      // Evict oldest entry if at capacity
+      if (this.refreshTokens.size >= MAX_REFRESH_TOKENS) {
+        const oldestKey = this.refreshTokens.keys().next().value;
+        if (oldestKey) {
+          this.refreshTokens.delete(oldestKey);
+          logger.debug("Refresh token evicted due to capacity", { maxRefreshTokens: MAX_REFRESH_TOKENS });
+        }
+      }
+      const now = Date.now();
+      this.refreshTokens.set(hashSecret(token), {
+        clientId,
+        subject,
+        scopes,
+        providerToken,
+        issuedAt: now,
+        expiresAt: now + expirySeconds * 1000,
+      });
+      // Every token response issues a refresh token, so this tracks client activity
+      const client = this.clients.get(clientId);
+      if (client) {
+        client.lastUsedAt = now;
+        client.lastUser = subject;
+      }
     });
     return token;
   }
 
   consumeRefreshToken(token: string): RefreshTokenEntry | null {
-    const entry = this.refreshTokens.get(token);
-    if (!entry) return null;
-    // Rotation: always delete old token
-    this.refreshTokens.delete(token);
-    if (Date.now() > entry.expiresAt) return null;
+    const key = hashSecret(token);
+    // Looked up in the latest stored state, so a rotated token cannot be used again on another replica
+    const entry = this.mutate(() => {
+      const found = this.refreshTokens.get(key);
+      // Rotation: always delete old token
+      this.refreshTokens.delete(key);
+      return found;
+    });
+    if (!entry || Date.now() > entry.expiresAt) return null;
     return entry;
   }
 
+  /** Look up a refresh token without consuming it (introspection). */
+  getRefreshToken(token: string): RefreshTokenEntry | null {
+    this.refresh();
+    const entry = this.refreshTokens.get(hashSecret(token));
+    if (!entry || Date.now() > entry.expiresAt) return null;
+    return entry;
+  }
+
+  /**
+   * Delete a refresh token if it was issued to `clientId`. Returns false for
+   * unknown tokens and tokens of other clients, which are left untouched.
+   */
+  revokeRefreshToken(token: string, clientId: string): boolean {
+    const key = hashSecret(token);
+    return this.mutate(() => {
+      const entry = this.refreshTokens.get(key);
+      if (!entry || entry.clientId !== clientId) return false;
+      this.refreshTokens.delete(key);
+      return true;
+    });
+  }
+
+  /** Unexpired refresh tokens, oldest first. */
+  listRefreshTokens(): RefreshTokenInfo[] {
+    this.refresh();
+    const now = Date.now();
+    return [...this.refreshTokens.entries()]
+      .filter(([, entry]) => now <= entry.expiresAt)
+      .map(([id, { clientId, subject, scopes, issuedAt, expiresAt }]) => ({ id, clientId, subject, scopes, issuedAt, expiresAt }));
+  }
+
+  /** Delete a refresh token by its id from `listRefreshTokens`. Returns the deleted entry, or null if none matched. */
+  revokeRefreshTokenById(id: string): RefreshTokenEntry | null {
+    return this.mutate(() => {
+      const entry = this.refreshTokens.get(id);
+      if (!entry) return null;
+      this.refreshTokens.delete(id);
+      return entry;
+    });
+  }
+
+  // --- Consent ---
+
+  /** True if `user` has approved `clientId` for all of `scopes`. */
+  hasConsent(user: string, clientId: string, scopes: string[]): boolean {
+    this.refresh();
+    const consent = this.consents.get(consentKey(user, clientId));
+    return consent !== undefined && scopes.every((scope) => consent.scopes.includes(scope));
+  }
+
+  /** Remember that `user` approved `clientId`, adding `scopes` to any earlier approval. */
+  grantConsent(user: string, clientId: string, scopes: string[]): void {
+    const key = consentKey(user, clientId);
+    this.mutate(() => {
+      const approved = new Set([...(this.consents.get(key)?.scopes ?? []), ...scopes]);
+      this.consents.set(key, { user, clientId, scopes: [...approved], grantedAt: Date.now() });
+    });
+  }
+
+  /** Consents of `user`, or of all users, oldest first. */
+  listConsents(user?: string): ConsentEntry[] {
+    this.refresh();
+    return [...this.consents.values()].filter((consent) => user === undefined || consent.user === user);
+  }
+
+  /**
+   * Forget a consent and delete the authorization codes and refresh tokens
+   * the client holds for the user, so it has to ask again. Access tokens
+   * already issued stay valid until they expire.
+   */
+  revokeConsent(user: string, clientId: string): boolean {
+    return this.mutate(() => {
+      if (!this.consents.delete(consentKey(user, clientId))) return false;
+      for (const [key, entry] of this.authCodes) {
+        if (entry.clientId === clientId && entry.subject === user) this.authCodes.delete(key);
+      }
+      for (const [key, entry] of this.refreshTokens) {
+        if (entry.clientId === clientId && entry.subject === user) this.refreshTokens.delete(key);
+      }
+      return true;
+    });
+  }
+
+  // --- Access Token Revocation ---
+
+  /**
+   * Add an access token to the revocation list. `expiresAt` is the token's
+   * `exp` in milliseconds; the entry is dropped by `cleanup()` after that,
+   * since the token is rejected as expired from then on.
+   */
+  revokeAccessToken(jti: string, expiresAt: number): void {
+    this.mutate(() => {
+      if (this.revokedAccessTokens.has(jti)) return;
+      // Evict the entry closest to expiry if at capacity: its token is the
+      // first that would be rejected as expired anyway
+      if (this.revokedAccessTokens.size >= MAX_REVOKED_ACCESS_TOKENS) {
+        let soonestKey: string | undefined;
+        let soonestExpiry = Infinity;
+        for (const [key, entryExpiresAt] of this.revokedAccessTokens) {
+          if (entryExpiresAt < soonestExpiry) {
+            soonestKey = key;
+            soonestExpiry = entryExpiresAt;
+          }
+        }
+        if (soonestKey) {
+          this.revokedAccessTokens.delete(soonestKey);
+          logger.warn("Revoked access token evicted due to capacity", { maxRevokedAccessTokens: MAX_REVOKED_ACCESS_TOKENS });
+        }
+      }
+      this.revokedAccessTokens.set(jti, expiresAt);
+    });
+  }
+
+  /** Whether a token is on the revocation list, including revocations by other replicas (see `refresh`). */
+  isAccessTokenRevoked(jti: string): boolean {
+    this.refresh();
+    return this.revokedAccessTokens.has(jti);
+  }
+
   // --- Cleanup ---
 
+  /**
+   * Drop expired entries, and stale clients when nearing capacity. The file
+   * is only written when something expired, since every replica runs this.
+   */
   cleanup(maxClients = 500): void {
+    this.restore(this.backend.load());
+    if (this.removeExpired(maxClients)) {
+      this.mutate(() => this.removeExpired(maxClients));
+    }
+  }
+
+  /** Remove expired entries from the in-memory state. Returns whether anything was removed. */
+  private removeExpired(maxClients: number): boolean {
     const now = Date.now();
-    for (const [code, entry] of this.authCodes) {
-      if (now > entry.expiresAt) this.authCodes.delete(code);
+    let changed = false;
+    for (const [key, entry] of this.authCodes) {
+      if (now > entry.expiresAt) {
+        this.authCodes.delete(key);
+        changed = true;
+      }
     }
-    for (const [token, entry] of this.refreshTokens) {
-      if (now > entry.expiresAt) this.refreshTokens.delete(token);
+    for (const [key, entry] of this.refreshTokens) {
+      if (now > entry.expiresAt) {
+        this.refreshTokens.delete(key);
+        changed = true;
+      }
+    }
+    for (const [jti, expiresAt] of this.revokedAccessTokens) {
+      if (now > expiresAt) {
+        this.revokedAccessTokens.delete(jti);
+        changed = true;
+      }
+    }
+    for (const [clientId, expiresAt] of this.revokedClients) {
+      if (now > expiresAt) {
+        this.revokedClients.delete(clientId);
+        changed = true;
+      }
     }
     // Evict stale clients when nearing capacity to free registration slots
     if (this.clients.size >= maxClients * CLIENT_CLEANUP_THRESHOLD) {
       for (const [id, client] of this.clients) {
         if (now - client.registeredAt > CLIENT_STALENESS_MS) {
           this.clients.delete(id);
+          changed = true;
           logger.debug("Stale client evicted during cleanup", { clientId: id });
         }
       }
     }
+    // URL clients are described by their metadata documents, not stored here
+    for (const [key, consent] of this.consents) {
+      if (!this.clients.has(consent.clientId) && !isClientIdUrl(consent.clientId)) {
+        this.consents.delete(key);
+        changed = true;
+      }
+    }
+    return changed;
   }
 }
@@ -1,10 +1,17 @@
 import crypto from "node:crypto";
 import type { Request, Response } from "express";
 import type { Config } from "../config.js";
-import type { OAuthStore } from "./store.js";
+import type { OAuthStore, RefreshTokenEntry } from "./store.js";
+import type { IdentityProvider } from "./identityProvider.js";
+import type { AccessTokenKeys } from "./signingKeys.js";
 import { createAccessToken } from "./jwt.js";
+import { isAllowedUser } from "./allowlist.js";
+import { openSecret } from "./secretBox.js";
 import type { RateLimiter } from "../utils/rateLimiter.js";
 import { logger } from "../utils/logger.js";
+import { parseScope, formatScope, DEFAULT_SCOPES } from "./scopes.js";
+import { authenticateClient } from "./clientMetadata.js";
+import type { ClientMetadataResolver } from "./clientMetadata.js";
 
 function verifyPkce(codeVerifier: string, codeChallenge: string): boolean {
   const hash = crypto.createHash("sha256").update(codeVerifier).digest();
@@ -20,21 +27,31 @@ function verifyPkce(codeVerifier: string, codeChallenge: string): boolean {
  * Form-urlencoded sends empty fields as "", which we normalize to undefined
  * so that `authenticateClient` receives a clean signal.
  */
-function normalizeClientSecret(value: string | undefined): string | undefined {
+export function normalizeClientSecret(value: string | undefined): string | undefined {
   return value === "" || value === undefined ? undefined : value;
 }
 
 function issueTokenResponse(
   res: Response,
   clientId: string,
+  subject: string,
+  scopes: string[],
+  providerToken: string | undefined,
   config: Config,
   store: OAuthStore,
+  keys: AccessTokenKeys,
   logMessage: string,
 ): void {
-  const accessToken = createAccessToken(clientId, config.jwtSecret, config.accessTokenExpirySeconds);
-  const refreshToken = store.createRefreshToken(clientId, config.refreshTokenExpirySeconds);
+  const accessToken = createAccessToken(clientId, subject, scopes, keys, config.accessTokenExpirySeconds);
+  const refreshToken = store.createRefreshToken(
+    clientId,
+    subject,
+    scopes,
+    config.refreshTokenExpirySeconds,
+    providerToken,
+  );
 
-  logger.info(logMessage, { clientId });
+  logger.info(logMessage, { clientId, user: subject, scopes });
 
   res.set("Cache-Control", "no-store");
   res.set("Pragma", "no-cache");
@@ -43,11 +60,19 @@ function issueTokenResponse(
     token_type: "Bearer",
     expires_in: config.accessTokenExpirySeconds,
     refresh_token: refreshToken,
+    scope: formatScope(scopes),
   });
 }
 
-export function handleToken(config: Config, store: OAuthStore, rateLimiter: RateLimiter) {
-  return (req: Request, res: Response): void => {
+export function handleToken(
+  config: Config,
+  store: OAuthStore,
+  rateLimiter: RateLimiter,
+  provider: IdentityProvider,
+  keys: AccessTokenKeys,
+  clientMetadata?: ClientMetadataResolver,
+) {
+  return async (req: Request, res: Response): Promise<void> => {
     const ip = req.ip ?? "unknown";
     if (!rateLimiter.check(ip)) {
       res.status(429).json({ error: "too_many_requests" });
@@ -57,16 +82,23 @@ export function handleToken(config: Config, store: OAuthStore, rateLimiter: Rate
     const { grant_type } = req.body;
 
     if (grant_type === "authorization_code") {
-      handleAuthorizationCodeGrant(req, res, config, store);
+      await handleAuthorizationCodeGrant(req, res, config, store, keys, clientMetadata);
     } else if (grant_type === "refresh_token") {
-      handleRefreshTokenGrant(req, res, config, store);
+      await handleRefreshTokenGrant(req, res, config, store, provider, keys, clientMetadata);
     } else {
       res.status(400).json({ error: "unsupported_grant_type" });
     }
   };
 }
 
-function handleAuthorizationCodeGrant(req: Request, res: Response, config: Config, store: OAuthStore): void {
+async function handleAuthorizationCodeGrant(
+  req: Request,
+  res: Response,
+  config: Config,
+  store: OAuthStore,
+  keys: AccessTokenKeys,
+  clientMetadata: ClientMetadataResolver | undefined,
+): Promise<void> {
   const { code, redirect_uri, client_id, client_secret, code_verifier } = req.body;
 
   if (!code || !redirect_uri || !client_id || !code_verifier) {
@@ -75,7 +107,7 @@ function handleAuthorizationCodeGrant(req: Request, res: Response, config: Confi
   }
 
   // Authenticate client (secret required for confidential, forbidden for public)
-  if (!store.authenticateClient(client_id, normalizeClientSecret(client_secret))) {
+  if (!(await authenticateClient(store, clientMetadata, client_id, normalizeClientSecret(client_secret)))) {
     res.status(401).json({ error: "invalid_client" });
     return;
   }
@@ -105,11 +137,49 @@ function handleAuthorizationCodeGrant(req: Request, res: Response, config: Confi
     return;
   }
 
-  issueTokenResponse(res, client_id, config, store, "OAuth tokens issued via authorization_code");
+  issueTokenResponse(res, client_id, authCode.subject, authCode.scopes, authCode.providerToken, config, store, keys, "OAuth tokens issued via authorization_code");
 }
 
-function handleRefreshTokenGrant(req: Request, res: Response, config: Config, store: OAuthStore): void {
-  const { refresh_token, client_id, client_secret } = req.body;
+/**
+ * Recheck the organization/team membership of a user who was admitted by
+ * membership rather than ALLOWED_USERS. Returns "error" when the provider
+ * could not be reached, so the refresh token is kept for a retry.
+ */
+async function recheckMembership(
+  entry: RefreshTokenEntry,
+  config: Config,
+  provider: IdentityProvider,
+): Promise<"allowed" | "denied" | "error"> {
+  // Not admitted by membership, or since added to ALLOWED_USERS
+  if (!entry.providerToken || isAllowedUser(entry.subject, config.allowedUsers)) {
+    return "allowed";
+  }
+  // Undecryptable after a JWT_SECRET change: the user has to log in again
+  const accessToken = openSecret(entry.providerToken, config.jwtSecret);
+  if (!accessToken) return "denied";
+
+  try {
+    return (await provider.checkMembership({ username: entry.subject, accessToken })) ? "allowed" : "denied";
+  } catch (err) {
+    logger.error("Membership recheck failed", {
+      provider: provider.name,
+      user: entry.subject,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return "error";
+  }
+}
+
+async function handleRefreshTokenGrant(
+  req: Request,
+  res: Response,
+  config: Config,
+  store: OAuthStore,
+  provider: IdentityProvider,
+  keys: AccessTokenKeys,
+  clientMetadata: ClientMetadataResolver | undefined,
+): Promise<void> {
+  const { refresh_token, client_id, client_secret, scope } = req.body;
 
   if (!refresh_token || !client_id) {
     res.status(400).json({ error: "invalid_request", error_description: "Missing required parameters" });
@@ -117,13 +187,13 @@ function handleRefreshTokenGrant(req: Request, res: Response, config: Config, st
   }
 
   // Authenticate client (secret required for confidential, forbidden for public)
-  if (!store.authenticateClient(client_id, normalizeClientSecret(client_secret))) {
+  if (!(await authenticateClient(store, clientMetadata, client_id, normalizeClientSecret(client_secret)))) {
     res.status(401).json({ error: "invalid_client" });
     return;
   }
 
-  // Consume refresh token (rotation — old token is invalidated)
-  const entry = store.consumeRefreshToken(refresh_token);
+  // Validate before consuming, so a failed membership lookup leaves the token usable
+  const entry = store.getRefreshToken(refresh_token);
   if (!entry) {
     res.status(400).json({ error: "invalid_grant", error_description: "Invalid or expired refresh token" });
     return;
@@ -135,5 +205,45 @@ function handleRefreshTokenGrant(req: Request, res: Response, config: Config, st
     return;
   }
 
-  issueTokenResponse(res, client_id, config, store, "OAuth tokens refreshed");
+  // An optional scope parameter may narrow, but never widen, the original grant (RFC 6749 §6);
+  // an empty or blank one counts as absent
+  const grantedScopes = entry.scopes ?? [...DEFAULT_SCOPES];
+  let scopes = grantedScopes;
+  if (typeof scope === "string" ? scope.trim() !== "" : scope !== undefined) {
+    const scopeResult = parseScope(scope);
+    if ("error" in scopeResult) {
+      res.status(400).json({ error: "invalid_scope", error_description: scopeResult.error });
+      return;
+    }
+    if (!scopeResult.scopes.every((s) => grantedScopes.includes(s))) {
+      res.status(400).json({ error: "invalid_scope", error_description: "Requested scope exceeds the original grant" });
+      return;
+    }
+    scopes = scopeResult.scopes;
+  }
+
+  // Users admitted by organization or team membership lose access when they leave
+  const membership = await recheckMembership(entry, config, provider);
+  if (membership === "error") {
+    res.status(503).json({
+      error: "temporarily_unavailable",
+      error_description: `Could not verify membership with ${provider.displayName}. Try again later.`,
+    });
+    return;
+  }
+  if (membership === "denied") {
+    store.revokeRefreshToken(refresh_token, client_id);
+    logger.warn("Refresh denied: membership no longer valid", { clientId: client_id, user: entry.subject });
+    res.status(400).json({ error: "invalid_grant", error_description: "User is no longer authorized" });
+    return;
+  }
+
+  // Consume refresh token (rotation — old token is invalidated). A concurrent
+  // request may have consumed it while the membership was being checked.
+  if (!store.consumeRefreshToken(refresh_token)) {
+    res.status(400).json({ error: "invalid_grant", error_description: "Invalid or expired refresh token" });
+    return;
+  }
+
+  issueTokenResponse(res, client_id, entry.subject, scopes, entry.providerToken, config, store, keys, "OAuth tokens refreshed");
 }
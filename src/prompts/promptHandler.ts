@@ -33,7 +33,9 @@ export function registerPrompts(server: McpServer, config: Config): void {
       description: "Template for a new note",
       argsSchema: {
         topic: z.string().describe("Topic of the note"),
-        note_type: z.enum(["daily", "meeting", "project", "zettel", "literature"])
+        // The types are defined by the templates in obsidian-create-note.md;
+        // clients can complete them with completion/complete
+        note_type: z.string()
           .optional()
           .describe("Type of note (default: zettel)"),
       },
@@ -0,0 +1,315 @@
+import path from "node:path";
+import fg from "fast-glob";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ReadResourceResult, Resource } from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "../config.js";
+import { readValidatedContent } from "../tools/fileOperations.js";
+import { extractTags } from "../tools/vaultOperations.js";
+import { checkScope } from "../utils/requestContext.js";
+import type { RequestContext } from "../utils/requestContext.js";
+import { VAULT_READ_SCOPE } from "../oauth/scopes.js";
+import { getPathAccess } from "../utils/accessControl.js";
+import type { PathAccessPolicy } from "../utils/accessControl.js";
+import { getErrorMessage } from "../utils/toolResponse.js";
+import { HIDDEN_DIRECTORY_GLOBS } from "../utils/constants.js";
+import { logger } from "../utils/logger.js";
+import { onVaultChanges } from "../git/vaultChanges.js";
+import type { VaultChanges } from "../git/vaultChanges.js";
+
+/** Notes per `resources/list` page. */
+const RESOURCE_PAGE_SIZE = 100;
+/** Notes listed by a tag resource. */
+const MAX_TAGGED_NOTES = 500;
+
+export const NOTE_URI_TEMPLATE = "vault://{path}";
+export const DAILY_NOTE_URI_TEMPLATE = "vault://daily/{date}";
+export const TAG_URI_TEMPLATE = "vault://tags/{tag}";
+
+const NOTE_TEMPLATE = new ResourceTemplate(NOTE_URI_TEMPLATE, { list: undefined });
+const DAILY_NOTE_TEMPLATE = new ResourceTemplate(DAILY_NOTE_URI_TEMPLATE, { list: undefined });
+const TAG_TEMPLATE = new ResourceTemplate(TAG_URI_TEMPLATE, { list: undefined });
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+/** Folders the conventions guide names for daily notes; preferred when a date matches several notes. */
+const DAILY_NOTE_FOLDERS = ["daily", "journal"];
+
+const MIME_TYPES: Record<string, string> = {
+  ".md": "text/markdown",
+  ".canvas": "application/json",
+  ".json": "application/json",
+  ".csv": "text/csv",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".js": "text/javascript",
+  ".svg": "image/svg+xml",
+  ".xml": "application/xml",
+};
+
+export function getMimeType(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? "text/plain";
+}
+
+/**
+ * URI of a vault file. The path is a single template variable, so its
+ * slashes are percent-encoded like every other reserved character.
+ */
+export function noteUri(relPath: string): string {
+  return NOTE_TEMPLATE.uriTemplate.expand({ path: relPath });
+}
+
+function templateVariable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/** A daily note template date as YYYY-MM-DD, with 'today' resolved. */
+function resolveDate(value: string): string {
+  const day = value === "today" ? new Date().toISOString().split("T")[0] : value;
+  if (!DATE_PATTERN.test(day)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid date: ${day} (expected YYYY-MM-DD or 'today')`);
+  }
+  return day;
+}
+
+function requireReadScope(extra: RequestContext): void {
+  if (checkScope(extra, VAULT_READ_SCOPE)) {
+    throw new McpError(ErrorCode.InvalidRequest, `Insufficient scope: reading resources requires the "${VAULT_READ_SCOPE}" scope`);
+  }
+}
+
+/** Markdown files the caller may read, sorted by path. */
+async function listReadableNotes(config: Config, access: PathAccessPolicy): Promise<string[]> {
+  const files = await fg("**/*.md", {
+    cwd: config.vaultPath,
+    dot: false,
+    ignore: HIDDEN_DIRECTORY_GLOBS,
+    followSymbolicLinks: false,
+  });
+  return files.filter((file) => access.can(file, "read")).sort();
+}
+
+async function readNote(config: Config, relPath: string, access: PathAccessPolicy): Promise<ReadResourceResult> {
+  let result: Awaited<ReturnType<typeof readValidatedContent>>;
+  try {
+    result = await readValidatedContent(config.vaultPath, relPath, access);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Cannot read ${relPath}: ${getErrorMessage(error)}`);
+  }
+  if ("error" in result) {
+    throw new McpError(ErrorCode.InvalidParams, `Cannot read ${relPath}: ${result.error}`);
+  }
+  return { contents: [{ uri: noteUri(relPath), mimeType: getMimeType(relPath), text: result.content }] };
+}
+
+function encodeCursor(lastPath: string): string {
+  return Buffer.from(lastPath, "utf-8").toString("base64url");
+}
+
+function decodeCursor(cursor: string): string {
+  const lastPath = Buffer.from(cursor, "base64url").toString("utf-8");
+  if (!lastPath || encodeCursor(lastPath) !== cursor) {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+  return lastPath;
+}
+
+/**
+ * Expose the vault's notes as MCP resources: a paginated `resources/list`
+ * of all readable markdown files, `vault://{path}` for any text file, and
+ * templates resolving a daily note by date and listing the notes with a tag.
+ * Reads apply the same scope, ACL and size checks as `read_file`.
+ */
+export function registerVaultResources(server: McpServer, config: Config): void {
+  server.registerResource(
+    "note",
+    NOTE_TEMPLATE,
+    {
+      title: "Vault file",
+      description: "A note or other text file in the vault, by path relative to the vault root (percent-encoded, including slashes)",
+    },
+    async (_uri, { path: relPath }, extra) => {
+      requireReadScope(extra);
+      return readNote(config, templateVariable(relPath), getPathAccess(config, extra));
+    },
+  );
+
+  server.registerResource(
+    "daily-note",
+    DAILY_NOTE_TEMPLATE,
+    {
+      title: "Daily note",
+      description: "The daily note of a date (YYYY-MM-DD or 'today'), e.g. daily/2024-01-31.md",
+      mimeType: "text/markdown",
+    },
+    async (_uri, { date }, extra) => {
+      requireReadScope(extra);
+      const access = getPathAccess(config, extra);
+      const day = resolveDate(templateVariable(date));
+
+      const candidates = (await listReadableNotes(config, access)).filter((file) => path.posix.basename(file) === `${day}.md`);
+      if (candidates.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, `No daily note for ${day}`);
+      }
+      const inDailyFolder = candidates.find((file) =>
+        file.split("/").slice(0, -1).some((dir) => DAILY_NOTE_FOLDERS.includes(dir.toLowerCase())),
+      );
+      return readNote(config, inDailyFolder ?? candidates[0], access);
+    },
+  );
+
+  server.registerResource(
+    "tag",
+    TAG_TEMPLATE,
+    {
+      title: "Notes by tag",
+      description: "Links to the notes with a tag (inline #tag or frontmatter), including nested tags such as #tag/sub",
+      mimeType: "text/markdown",
+    },
+    async (uri, { tag }, extra) => {
+      requireReadScope(extra);
+      const access = getPathAccess(config, extra);
+      const wanted = `#${templateVariable(tag).replace(/^#/, "")}`.toLowerCase();
+
+      const matches: string[] = [];
+      for (const file of await listReadableNotes(config, access)) {
+        if (matches.length >= MAX_TAGGED_NOTES) break;
+        // Same checks as reading the note: size, binary content, symlinks out of the vault or the ACL
+        let result: Awaited<ReturnType<typeof readValidatedContent>>;
+        try {
+          result = await readValidatedContent(config.vaultPath, file, access);
+        } catch {
+          continue; // Skip unreadable files
+        }
+        if ("error" in result) continue;
+        const tags = new Map<string, number>();
+        extractTags(result.content, tags);
+        const lowerTags = [...tags.keys()].map((t) => t.toLowerCase());
+        if (lowerTags.some((t) => t === wanted || t.startsWith(`${wanted}/`))) {
+          matches.push(file);
+        }
+      }
+
+      const lines = matches.map((file) => `- [[${file.replace(/\.md$/, "")}]] (${noteUri(file)})`);
+      const body = matches.length > 0 ? lines.join("\n") : "No notes with this tag.";
+      return { contents: [{ uri: uri.href, mimeType: "text/markdown", text: `# ${wanted} (${matches.length} notes)\n\n${body}` }] };
+    },
+  );
+
+  // The SDK's handler lists everything at once; a vault can have thousands
+  // of notes, so the notes are listed in pages keyed by the last path
+  server.server.removeRequestHandler("resources/list");
+  server.server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    requireReadScope(extra);
+    const notes = await listReadableNotes(config, getPathAccess(config, extra));
+    const cursor = request.params?.cursor;
+    const start = cursor ? notes.findIndex((file) => file > decodeCursor(cursor)) : 0;
+    const page = start === -1 ? [] : notes.slice(start, start + RESOURCE_PAGE_SIZE);
+
+    const resources: Resource[] = page.map((file) => ({
+      uri: noteUri(file),
+      name: file,
+      title: path.posix.basename(file, ".md"),
+      mimeType: "text/markdown",
+    }));
+    const hasMore = start !== -1 && start + RESOURCE_PAGE_SIZE < notes.length;
+    return hasMore ? { resources, nextCursor: encodeCursor(page[page.length - 1]) } : { resources };
+  });
+
+  // A stateless server lives for one request and cannot send notifications
+  // later, so it does not offer subscriptions or list changes
+  if (config.sessionMode === "stateless") {
+    server.server.registerCapabilities({ resources: { listChanged: false } });
+  } else {
+    registerSubscriptions(server, config);
+  }
+}
+
+/** Whether a path is one `resources/list` returns (markdown, no dot segments). */
+function isListedNote(relPath: string): boolean {
+  return relPath.endsWith(".md") && !relPath.split("/").some((segment) => segment.startsWith("."));
+}
+
+/** Whether the resource at a subscribed URI is affected by the changed paths. */
+function isAffected(uri: string, changes: VaultChanges): boolean {
+  const daily = DAILY_NOTE_TEMPLATE.uriTemplate.match(uri);
+  if (daily) {
+    const day = resolveDate(templateVariable(daily.date));
+    return changes.changed.some((file) => path.posix.basename(file) === `${day}.md`);
+  }
+  // Any note can gain or lose a tag
+  if (TAG_TEMPLATE.uriTemplate.match(uri)) {
+    return changes.changed.some((file) => file.endsWith(".md"));
+  }
+  const note = NOTE_TEMPLATE.uriTemplate.match(uri);
+  return note !== null && changes.changed.includes(templateVariable(note.path));
+}
+
+/**
+ * `resources/subscribe` and change notifications. Git pulls and debounced
+ * commits publish the paths they changed (`src/git/vaultChanges.ts`); each
+ * initialized session is told about the subscribed resources among them,
+ * and about added or removed notes with `list_changed`. Changes written
+ * with GIT_MODE=off are not detected.
+ */
+function registerSubscriptions(server: McpServer, config: Config): void {
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    requireReadScope(extra);
+    const uri = request.params.uri;
+    const note = NOTE_TEMPLATE.uriTemplate.match(uri);
+    const daily = DAILY_NOTE_TEMPLATE.uriTemplate.match(uri);
+    if (note) {
+      const relPath = templateVariable(note.path);
+      if (!getPathAccess(config, extra).can(relPath, "read")) {
+        throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to ${relPath}: access denied`);
+      }
+    } else if (daily) {
+      resolveDate(templateVariable(daily.date));
+    } else if (!TAG_TEMPLATE.uriTemplate.match(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    subscriptions.add(uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notify = (changes: VaultChanges): void => {
+    const send = (notification: Promise<void>): void => {
+      notification.catch((error) => logger.debug("Resource notification not delivered", { error: getErrorMessage(error) }));
+    };
+    for (const uri of subscriptions) {
+      if (isAffected(uri, changes)) {
+        send(server.server.sendResourceUpdated({ uri }));
+      }
+    }
+    if ([...changes.added, ...changes.removed].some(isListedNote)) {
+      send(server.server.sendResourceListChanged());
+    }
+  };
+
+  // Listen only while a client is connected, so servers never connected do
+  // not pile up listeners
+  let stopListening: (() => void) | undefined;
+  server.server.oninitialized = () => {
+    stopListening ??= onVaultChanges(notify);
+  };
+  server.server.onclose = () => {
+    stopListening?.();
+    stopListening = undefined;
+  };
+}
@@ -2,12 +2,15 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { Config } from "./config.js";
 import { registerFileOperations } from "./tools/fileOperations.js";
 import { registerDirectoryOps } from "./tools/directoryOps.js";
+import { registerNoteOperations } from "./tools/noteOperations.js";
 import { registerSearchOperations } from "./tools/searchOperations.js";
 import { registerVaultOperations } from "./tools/vaultOperations.js";
 import { registerGuideOperations } from "./tools/guideOperations.js";
 import { registerHistoryOperations } from "./tools/historyOperations.js";
 import { registerClaudeContextOperations } from "./tools/claudeContextOperations.js";
 import { registerPrompts } from "./prompts/promptHandler.js";
+import { registerVaultResources } from "./resources/vaultResources.js";
+import { registerCompletions } from "./completions/completionHandler.js";
 
 const INSTRUCTIONS =
   "IMPORTANT: At the start of every conversation, before performing any vault operations, " +
@@ -16,17 +19,21 @@ const INSTRUCTIONS =
   "with that directory path to discover additional CLAUDE.md instructions that may apply to that area.\n\n" +
   "CHANGE PREVIEW REQUIREMENT: It is strongly recommended that you present all planned changes " +
   "to the user in a clear, readable format BEFORE calling any tool that modifies the vault " +
-  "(write_file, edit_file, delete_file, rename_file, move_file, move_directory, create_directory). " +
+  "(write_file, edit_file, edit_section, append_to_note, prepend_to_note, set_properties, delete_file, rename_file, move_file, move_directory, create_directory). " +
   "The user must be able to understand what will change and have the opportunity to review it.\n\n" +
-  "For write_file and edit_file: Output the resulting content directly in the chat as rendered, formatted text — " +
+  "For write_file, edit_file and edit_section: Output the resulting content directly in the chat as rendered, formatted text — " +
   "NOT as raw Markdown source inside a code block. Users read rendered prose far more easily than Markdown syntax. " +
   "For small files, show the complete content. For large files, show a relevant excerpt that includes the changes. " +
   "The preview must clearly indicate which file is being created or modified.\n\n" +
+  "For append_to_note and prepend_to_note: Show the text that will be added, naming the note and, if given, the heading.\n\n" +
+  "For set_properties: Name each note and the properties that will be renamed, set, appended to or removed, with their new values.\n\n" +
   "For delete_file: State the full path of the file that will be deleted and briefly describe its content or purpose.\n\n" +
   "For rename_file, move_file, and move_directory: Show both the current path and the new path side by side.\n\n" +
   "For create_directory: State the full directory path that will be created.\n\n" +
   "This is NOT optional boilerplate — skipping the preview degrades the user experience significantly. " +
-  "The server cannot enforce this, but clients that omit previews are not meeting the expected standard of transparency.";
+  "The server does not enforce this, but clients that omit previews are not meeting the expected standard of transparency.\n\n" +
+  "The server may additionally ask the user to approve a change through a confirmation request. " +
+  "If the user declines, the change was not applied: do not retry it unless the user asks you to.";
 
 export async function createMcpServer(config: Config): Promise<McpServer> {
   const server = new McpServer(
@@ -36,12 +43,18 @@ export async function createMcpServer(config: Config): Promise<McpServer> {
 
   registerFileOperations(server, config);
   registerDirectoryOps(server, config);
+  registerNoteOperations(server, config);
   registerSearchOperations(server, config);
   registerVaultOperations(server, config);
   registerGuideOperations(server, config);
-  registerHistoryOperations(server, config);
+  // The history tools read the git log
+  if (config.gitMode !== "off") {
+    registerHistoryOperations(server, config);
+  }
   registerClaudeContextOperations(server, config);
   registerPrompts(server, config);
+  registerVaultResources(server, config);
+  registerCompletions(server, config);
 
   return server;
 }
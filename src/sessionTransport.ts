@@ -0,0 +1,50 @@
+import type { Request, Response } from "express";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+
+/**
+ * Streamable HTTP transport of a stateful MCP session: the SDK's
+ * web-standard transport, fed with Express requests. Unlike the SDK's Node
+ * transport it still takes web-standard requests through `handleRequest`,
+ * which is how `transport.ts` replays a client's initialize request when it
+ * restores a session after a restart.
+ */
+export class SessionTransport extends WebStandardStreamableHTTPServerTransport {
+  /**
+   * Handle an Express request and stream the response back. `parsedBody` is
+   * the JSON body of a POST, already read by `express.json()`. When the
+   * client disconnects, the request is aborted and an open SSE stream ends.
+   */
+  async handleExpressRequest(req: Request, res: Response, parsedBody?: unknown): Promise<void> {
+    const abort = new AbortController();
+    res.on("close", () => abort.abort());
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+        headers.append(name, item);
+      }
+    }
+    const request = new globalThis.Request(new URL(req.originalUrl, "http://localhost"), {
+      method: req.method,
+      headers,
+      signal: abort.signal,
+    });
+
+    const response = await this.handleRequest(request, { authInfo: req.auth, parsedBody });
+    res.status(response.status);
+    response.headers.forEach((value, name) => res.setHeader(name, value));
+    if (!response.body) {
+      res.end();
+      return;
+    }
+    res.flushHeaders();
+    try {
+      await pipeline(Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>), res);
+    } catch {
+      // The client went away before the stream ended
+    }
+  }
+}
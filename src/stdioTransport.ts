@@ -0,0 +1,36 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { logger } from "./utils/logger.js";
+
+export interface StdioServerHandle {
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve one MCP server over stdin/stdout, for a local client that starts
+ * this process itself (`--stdio`). There is no HTTP server and no OAuth:
+ * whoever can start the process can read the vault directory anyway.
+ *
+ * `onClientGone` is called when the client closes stdin, which is how stdio
+ * clients end the session.
+ */
+export async function startStdioServer(
+  createMcpServer: () => Promise<McpServer>,
+  onClientGone: () => void,
+): Promise<StdioServerHandle> {
+  const server = await createMcpServer();
+  const transport = new StdioServerTransport();
+  transport.onerror = (error) => {
+    logger.error("Stdio transport error", { error: error.message });
+  };
+  await server.connect(transport);
+  process.stdin.once("end", onClientGone);
+  logger.info("MCP server listening on stdio");
+
+  return {
+    close: async () => {
+      process.stdin.off("end", onClientGone);
+      await server.close();
+    },
+  };
+}
@@ -3,6 +3,9 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { Config } from "../config.js";
 import { collectClaudeMdFiles } from "../guides/claudeMdLoader.js";
 import { toolError, toolSuccess, getErrorMessage } from "../utils/toolResponse.js";
+import { checkScope } from "../utils/requestContext.js";
+import { VAULT_READ_SCOPE } from "../oauth/scopes.js";
+import { getPathAccess } from "../utils/accessControl.js";
 
 export function registerClaudeContextOperations(server: McpServer, config: Config): void {
   server.registerTool(
@@ -16,20 +19,29 @@ export function registerClaudeContextOperations(server: McpServer, config: Confi
       inputSchema: {
         path: z.string().describe("Vault-relative directory path to get context for (e.g. 'projects/webapp')"),
       },
+      outputSchema: {
+        files: z.array(z.object({
+          directory: z.string().describe("Directory of the CLAUDE.md; it applies there and in all subdirectories"),
+          content: z.string(),
+        })).describe("From the outermost directory to the target"),
+      },
     },
-    async ({ path: targetPath }) => {
+    async ({ path: targetPath }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
       try {
-        const entries = await collectClaudeMdFiles(config.vaultPath, targetPath);
+        const entries = await collectClaudeMdFiles(config.vaultPath, targetPath, getPathAccess(config, extra));
 
+        const structured = { files: entries.map((entry) => ({ directory: entry.path, content: entry.content })) };
         if (entries.length === 0) {
-          return toolSuccess("No CLAUDE.md files found along this path.");
+          return toolSuccess("No CLAUDE.md files found along this path.", structured);
         }
 
         const output = entries
           .map((entry) => `--- CLAUDE.md from ${entry.path}/ (applies to ${entry.path}/ and all its subdirectories) ---\n${entry.content}`)
           .join("\n\n");
 
-        return toolSuccess(output);
+        return toolSuccess(output, structured);
       } catch (error) {
         return toolError(getErrorMessage(error));
       }
@@ -5,11 +5,23 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { Config } from "../config.js";
 import { resolveVaultPathSafe, isInsideVault } from "../utils/pathValidation.js";
 import { scheduleSync } from "../git/debouncedSync.js";
-import { git } from "../git/gitSync.js";
-import { validateBatchSize, formatBatchResults, MAX_BATCH_SIZE } from "../utils/batchUtils.js";
+import { moveVaultPath } from "../git/gitSync.js";
+import {
+  validateBatchSize,
+  formatBatchResults,
+  batchOutputSchema,
+  structuredBatchResults,
+  MAX_BATCH_SIZE,
+} from "../utils/batchUtils.js";
 import type { BatchResult } from "../utils/batchUtils.js";
 import { toolError, toolSuccess, getErrorMessage } from "../utils/toolResponse.js";
 import { logger } from "../utils/logger.js";
+import { withAuditLog } from "../utils/auditLog.js";
+import { confirmChanges } from "../utils/confirmation.js";
+import { getRequestUser, checkScope } from "../utils/requestContext.js";
+import { VAULT_READ_SCOPE, VAULT_WRITE_SCOPE } from "../oauth/scopes.js";
+import { getPathAccess } from "../utils/accessControl.js";
+import type { PathAccessPolicy } from "../utils/accessControl.js";
 import { isHiddenDirectory } from "../utils/constants.js";
 
 interface DirEntry {
@@ -22,6 +34,7 @@ async function listRecursive(
   vaultPath: string,
   currentDepth: number,
   maxDepth: number,
+  access: PathAccessPolicy,
 ): Promise<DirEntry[]> {
   const entries: DirEntry[] = [];
   const items = await readdir(dirPath, { withFileTypes: true });
@@ -32,6 +45,10 @@ async function listRecursive(
     const fullPath = path.join(dirPath, item.name);
     const relativePath = path.relative(vaultPath, fullPath);
 
+    if (!access.can(relativePath, item.isDirectory() ? "list" : "read")) {
+      continue;
+    }
+
     if (!(await isInsideVault(fullPath, vaultPath))) {
       continue;
     }
@@ -44,6 +61,7 @@ async function listRecursive(
           vaultPath,
           currentDepth + 1,
           maxDepth,
+          access,
         );
         entries.push(...children);
       }
@@ -60,9 +78,10 @@ async function listDirectoryEntries(
   vaultPath: string,
   recursive: boolean,
   maxDepth: number,
+  access: PathAccessPolicy,
 ): Promise<DirEntry[]> {
   if (recursive) {
-    return listRecursive(resolved, vaultPath, 1, maxDepth);
+    return listRecursive(resolved, vaultPath, 1, maxDepth, access);
   }
 
   const items = await readdir(resolved, { withFileTypes: true });
@@ -70,6 +89,7 @@ async function listDirectoryEntries(
   for (const item of items) {
     if (isHiddenDirectory(item.name)) continue;
     const fullPath = path.join(resolved, item.name);
+    if (!access.can(path.relative(vaultPath, fullPath), item.isDirectory() ? "list" : "read")) continue;
     if (!(await isInsideVault(fullPath, vaultPath))) continue;
     if (item.isDirectory()) {
       entries.push({
@@ -92,6 +112,10 @@ function formatEntries(entries: readonly DirEntry[]): string {
     .join("\n");
 }
 
+function structuredEntries(entries: readonly DirEntry[]): Array<{ path: string; type: DirEntry["type"] }> {
+  return entries.map((e) => ({ path: e.name.replace(/\/$/, ""), type: e.type }));
+}
+
 export function registerDirectoryOps(server: McpServer, config: Config): void {
   // list_directory
   server.registerTool(
@@ -105,8 +129,17 @@ export function registerDirectoryOps(server: McpServer, config: Config): void {
         recursive: z.boolean().default(false).describe("List recursively"),
         max_depth: z.number().int().min(1).default(5).describe("Maximum depth for recursive listing"),
       },
+      outputSchema: batchOutputSchema({
+        entries: z.array(z.object({
+          path: z.string().describe("Path relative to vault root"),
+          type: z.enum(["file", "directory"]),
+        })).optional(),
+      }),
     },
-    async ({ path: singlePath, paths, recursive, max_depth }) => {
+    async ({ path: singlePath, paths, recursive, max_depth }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
+      const access = getPathAccess(config, extra);
       const dirPaths = paths ?? [singlePath ?? "."];
 
       const sizeError = validateBatchSize(dirPaths.length);
@@ -116,15 +149,17 @@ export function registerDirectoryOps(server: McpServer, config: Config): void {
       if (dirPaths.length === 1) {
         const dirPath = dirPaths[0];
         try {
-          const resolved = await resolveVaultPathSafe(config.vaultPath, dirPath);
+          const resolved = await resolveVaultPathSafe(config.vaultPath, dirPath, access, "list");
           const s = await stat(resolved);
           if (!s.isDirectory()) {
             return toolError(`Not a directory: ${dirPath}`);
           }
 
-          const entries = await listDirectoryEntries(resolved, config.vaultPath, recursive, max_depth);
+          const entries = await listDirectoryEntries(resolved, config.vaultPath, recursive, max_depth, access);
           const formatted = formatEntries(entries);
-          return toolSuccess(formatted || "(empty directory)");
+          return toolSuccess(formatted || "(empty directory)", {
+            results: [{ path: dirPath, success: true, entries: structuredEntries(entries) }],
+          });
         } catch (error) {
           const msg = getErrorMessage(error);
           logger.error("list_directory failed", { path: dirPath, error: msg });
@@ -136,22 +171,28 @@ export function registerDirectoryOps(server: McpServer, config: Config): void {
       const results = await Promise.all(
         dirPaths.map(async (dirPath, index): Promise<BatchResult> => {
           try {
-            const resolved = await resolveVaultPathSafe(config.vaultPath, dirPath);
+            const resolved = await resolveVaultPathSafe(config.vaultPath, dirPath, access, "list");
             const s = await stat(resolved);
             if (!s.isDirectory()) {
               return { index, path: dirPath, success: false, content: `Not a directory: ${dirPath}` };
             }
 
-            const entries = await listDirectoryEntries(resolved, config.vaultPath, recursive, max_depth);
+            const entries = await listDirectoryEntries(resolved, config.vaultPath, recursive, max_depth, access);
             const formatted = formatEntries(entries);
-            return { index, path: dirPath, success: true, content: formatted || "(empty directory)" };
+            return {
+              index,
+              path: dirPath,
+              success: true,
+              content: formatted || "(empty directory)",
+              data: { entries: structuredEntries(entries) },
+            };
           } catch (error) {
             return { index, path: dirPath, success: false, content: getErrorMessage(error) };
           }
         }),
       );
 
-      return toolSuccess(formatBatchResults(results));
+      return toolSuccess(formatBatchResults(results), structuredBatchResults(results));
     },
   );
 
@@ -166,18 +207,25 @@ export function registerDirectoryOps(server: McpServer, config: Config): void {
       inputSchema: {
         path: z.string().describe("Path relative to vault root"),
       },
+      outputSchema: { path: z.string().describe("The created directory") },
     },
-    async ({ path: dirPath }) => {
+    withAuditLog("create_directory", async ({ path: dirPath }, extra) => {
+      const scopeError = checkScope(extra, VAULT_WRITE_SCOPE);
+      if (scopeError) return scopeError;
       try {
-        const resolved = await resolveVaultPathSafe(config.vaultPath, dirPath);
+        const resolved = await resolveVaultPathSafe(config.vaultPath, dirPath, getPathAccess(config, extra), "write");
+        const confirmError = await confirmChanges(server, config, extra, "create_directory", [
+          { paths: [dirPath], summary: `Create directory ${dirPath}` },
+        ]);
+        if (confirmError) return confirmError;
         await mkdir(resolved, { recursive: true });
-        return toolSuccess(`Directory created: ${dirPath}`);
+        return toolSuccess(`Directory created: ${dirPath}`, { path: dirPath });
       } catch (error) {
         const msg = getErrorMessage(error);
         logger.error("create_directory failed", { path: dirPath, error: msg });
         return toolError(`Failed to create directory: ${msg}`);
       }
-    },
+    }),
   );
 
   // is_directory
@@ -189,18 +237,25 @@ export function registerDirectoryOps(server: McpServer, config: Config): void {
       inputSchema: {
         path: z.string().describe("Path relative to vault root"),
       },
+      outputSchema: {
+        path: z.string(),
+        exists: z.boolean(),
+        is_directory: z.boolean(),
+      },
     },
-    async ({ path: dirPath }) => {
+    async ({ path: dirPath }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
       try {
-        const resolved = await resolveVaultPathSafe(config.vaultPath, dirPath);
+        const resolved = await resolveVaultPathSafe(config.vaultPath, dirPath, getPathAccess(config, extra), "list");
         const fileStat = await stat(resolved);
         if (fileStat.isDirectory()) {
-          return toolSuccess(`Directory exists: ${dirPath}`);
+          return toolSuccess(`Directory exists: ${dirPath}`, { path: dirPath, exists: true, is_directory: true });
         }
-        return toolSuccess(`Path exists but is not a directory: ${dirPath}`);
+        return toolSuccess(`Path exists but is not a directory: ${dirPath}`, { path: dirPath, exists: true, is_directory: false });
       } catch (error) {
         if (error instanceof Error && "code" in error && (error as NodeJS.ErrnoException).code === "ENOENT") {
-          return toolSuccess(`Directory does not exist: ${dirPath}`);
+          return toolSuccess(`Directory does not exist: ${dirPath}`, { path: dirPath, exists: false, is_directory: false });
         }
         const msg = getErrorMessage(error);
         logger.error("is_directory failed", { path: dirPath, error: msg });
@@ -223,17 +278,25 @@ export function registerDirectoryOps(server: McpServer, config: Config): void {
         old_path: z.string().describe("Current directory path relative to vault root"),
         new_path: z.string().describe("New directory path relative to vault root"),
       },
+      outputSchema: { old_path: z.string(), new_path: z.string() },
     },
-    async ({ old_path, new_path }) => {
+    withAuditLog("move_directory", async ({ old_path, new_path }, extra) => {
+      const scopeError = checkScope(extra, VAULT_WRITE_SCOPE);
+      if (scopeError) return scopeError;
+      const user = getRequestUser(extra);
+      const access = getPathAccess(config, extra);
       try {
-        const resolvedOld = await resolveVaultPathSafe(config.vaultPath, old_path);
-        const resolvedNew = await resolveVaultPathSafe(config.vaultPath, new_path);
+        const resolvedOld = await resolveVaultPathSafe(config.vaultPath, old_path, access, "write");
+        const resolvedNew = await resolveVaultPathSafe(config.vaultPath, new_path, access, "write");
 
         // Verify source exists and is a directory
         const srcStat = await stat(resolvedOld);
         if (!srcStat.isDirectory()) {
           return toolError(`Source is not a directory: ${old_path}. Use move_file for files.`);
         }
+        if (!access.canWriteTree(path.relative(config.vaultPath, resolvedOld))) {
+          return toolError(`Access denied: "${old_path}" contains paths that are restricted for this user`);
+        }
 
         // Verify target parent directory exists
         const targetParent = path.dirname(resolvedNew);
@@ -248,14 +311,18 @@ export function registerDirectoryOps(server: McpServer, config: Config): void {
 
         const relOld = path.relative(config.vaultPath, resolvedOld);
         const relNew = path.relative(config.vaultPath, resolvedNew);
-        await git(["mv", "--", relOld, relNew], config.vaultPath);
-        scheduleSync(`MCP: move directory ${old_path} -> ${new_path}`);
-        return toolSuccess(`Directory moved: ${old_path} -> ${new_path}`);
+        const confirmError = await confirmChanges(server, config, extra, "move_directory", [
+          { paths: [old_path, new_path], summary: `Move directory ${old_path} -> ${new_path}` },
+        ]);
+        if (confirmError) return confirmError;
+        await moveVaultPath(config, relOld, relNew);
+        scheduleSync(`MCP: move directory ${old_path} -> ${new_path}`, user, [old_path, new_path]);
+        return toolSuccess(`Directory moved: ${old_path} -> ${new_path}`, { old_path, new_path });
       } catch (error) {
         const msg = getErrorMessage(error);
-        logger.error("move_directory failed", { old_path, new_path, error: msg });
+        logger.error("move_directory failed", { old_path, new_path, user, error: msg });
         return toolError(`Failed to move directory: ${msg}`);
       }
-    },
+    }),
   );
 }
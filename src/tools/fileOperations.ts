@@ -5,18 +5,33 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { Config } from "../config.js";
 import { resolveVaultPathSafe } from "../utils/pathValidation.js";
 import { scheduleSync } from "../git/debouncedSync.js";
-import { git } from "../git/gitSync.js";
-import { validateBatchSize, formatBatchResults, MAX_BATCH_SIZE } from "../utils/batchUtils.js";
+import { moveVaultPath } from "../git/gitSync.js";
+import {
+  validateBatchSize,
+  formatBatchResults,
+  batchOutputSchema,
+  structuredBatchResults,
+  MAX_BATCH_SIZE,
+} from "../utils/batchUtils.js";
 import type { BatchResult } from "../utils/batchUtils.js";
 import { toolError, toolSuccess, getErrorMessage } from "../utils/toolResponse.js";
 import { logger } from "../utils/logger.js";
+import { withAuditLog } from "../utils/auditLog.js";
+import { confirmChanges } from "../utils/confirmation.js";
+import { getRequestUser, checkScope } from "../utils/requestContext.js";
+import { VAULT_READ_SCOPE, VAULT_WRITE_SCOPE } from "../oauth/scopes.js";
+import { getPathAccess } from "../utils/accessControl.js";
+import type { PathAccessPolicy, AccessMode } from "../utils/accessControl.js";
 import { MAX_FILE_SIZE, MAX_LINES_PER_PARTIAL_READ } from "../utils/constants.js";
 
-async function readValidatedContent(
+/** Read a text file for a tool or resource, within MAX_FILE_SIZE and rejecting binary content. */
+export async function readValidatedContent(
   vaultPath: string,
   filePath: string,
+  access: PathAccessPolicy,
+  mode: AccessMode = "read",
 ): Promise<{ content: string; resolvedPath: string } | { error: string }> {
-  const resolvedPath = await resolveVaultPathSafe(vaultPath, filePath);
+  const resolvedPath = await resolveVaultPathSafe(vaultPath, filePath, access, mode);
   const fileStat = await stat(resolvedPath);
   if (fileStat.size > MAX_FILE_SIZE) {
     return { error: `File too large (${fileStat.size} bytes, max ${MAX_FILE_SIZE})` };
@@ -28,26 +43,58 @@ async function readValidatedContent(
   return { content, resolvedPath };
 }
 
-async function readSingleFile(vaultPath: string, filePath: string): Promise<BatchResult> {
+/** Current content of a file about to be changed, for the confirmation diff; empty if it cannot be read. */
+async function currentContent(vaultPath: string, filePath: string, access: PathAccessPolicy): Promise<string> {
   try {
-    const result = await readValidatedContent(vaultPath, filePath);
+    const result = await readValidatedContent(vaultPath, filePath, access, "write");
+    return "error" in result ? "" : result.content;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Check that a path may be written before the user is asked to confirm the
+ * change. Returns the reason it may not, or null.
+ */
+async function writeAccessError(vaultPath: string, filePath: string, access: PathAccessPolicy): Promise<string | null> {
+  try {
+    await resolveVaultPathSafe(vaultPath, filePath, access, "write");
+    return null;
+  } catch (error) {
+    return getErrorMessage(error);
+  }
+}
+
+async function readSingleFile(vaultPath: string, filePath: string, access: PathAccessPolicy): Promise<BatchResult> {
+  try {
+    const result = await readValidatedContent(vaultPath, filePath, access);
     if ("error" in result) {
       return { index: 0, path: filePath, success: false, content: result.error };
     }
-    return { index: 0, path: filePath, success: true, content: result.content };
+    return { index: 0, path: filePath, success: true, content: result.content, data: { content: result.content } };
   } catch (error) {
     return { index: 0, path: filePath, success: false, content: getErrorMessage(error) };
   }
 }
 
+interface LineRange {
+  path: string;
+  start_line: number;
+  end_line: number;
+  total_lines: number;
+  lines: Array<{ line: number; text: string }>;
+}
+
 async function readLineRange(
   vaultPath: string,
   filePath: string,
   startLine: number,
   endLine: number | undefined,
-): Promise<{ success: boolean; content: string }> {
+  access: PathAccessPolicy,
+): Promise<{ success: true; content: string; range: LineRange } | { success: false; content: string }> {
   try {
-    const result = await readValidatedContent(vaultPath, filePath);
+    const result = await readValidatedContent(vaultPath, filePath, access);
     if ("error" in result) {
       return { success: false, content: result.error };
     }
@@ -72,7 +119,17 @@ async function readLineRange(
     const selectedLines = lines.slice(resolvedStart - 1, resolvedEnd);
     const numbered = selectedLines.map((line, i) => `${resolvedStart + i}: ${line}`).join("\n");
     const header = `Lines ${resolvedStart}-${resolvedEnd} of ${totalLines} total lines in ${filePath}:`;
-    return { success: true, content: `${header}\n${numbered}` };
+    return {
+      success: true,
+      content: `${header}\n${numbered}`,
+      range: {
+        path: filePath,
+        start_line: resolvedStart,
+        end_line: resolvedEnd,
+        total_lines: totalLines,
+        lines: selectedLines.map((text, i) => ({ line: resolvedStart + i, text })),
+      },
+    };
   } catch (error) {
     return { success: false, content: getErrorMessage(error) };
   }
@@ -82,12 +139,13 @@ async function writeSingleFile(
   vaultPath: string,
   filePath: string,
   content: string,
+  access: PathAccessPolicy,
 ): Promise<BatchResult> {
   try {
     if (content.length > MAX_FILE_SIZE) {
       return { index: 0, path: filePath, success: false, content: `Content too large (${content.length} bytes, max ${MAX_FILE_SIZE})` };
     }
-    const resolved = await resolveVaultPathSafe(vaultPath, filePath);
+    const resolved = await resolveVaultPathSafe(vaultPath, filePath, access, "write");
     await mkdir(path.dirname(resolved), { recursive: true });
     await writeFile(resolved, content, "utf-8");
     return { index: 0, path: filePath, success: true, content: `File written: ${filePath}` };
@@ -101,9 +159,10 @@ async function editSingleFile(
   filePath: string,
   oldText: string,
   newText: string,
+  access: PathAccessPolicy,
 ): Promise<BatchResult> {
   try {
-    const result = await readValidatedContent(vaultPath, filePath);
+    const result = await readValidatedContent(vaultPath, filePath, access, "write");
     if ("error" in result) {
       return { index: 0, path: filePath, success: false, content: result.error };
     }
@@ -135,29 +194,33 @@ export function registerFileOperations(server: McpServer, config: Config): void
         path: z.string().optional().describe("Path relative to vault root (single file)"),
         paths: z.array(z.string()).max(MAX_BATCH_SIZE).optional().describe("Multiple paths for batch read (max 10)"),
       },
+      outputSchema: batchOutputSchema({ content: z.string().optional().describe("File content") }),
     },
-    async ({ path: singlePath, paths }) => {
+    async ({ path: singlePath, paths }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
+      const access = getPathAccess(config, extra);
       const filePaths = paths ?? (singlePath ? [singlePath] : []);
 
       const sizeError = validateBatchSize(filePaths.length);
       if (sizeError) return toolError(sizeError);
 
       if (filePaths.length === 1) {
-        const result = await readSingleFile(config.vaultPath, filePaths[0]);
+        const result = await readSingleFile(config.vaultPath, filePaths[0], access);
         if (!result.success) {
           logger.error("read_file failed", { path: filePaths[0], error: result.content });
           return toolError(`Failed to read file: ${result.content}`);
         }
-        return toolSuccess(result.content);
+        return toolSuccess(result.content, structuredBatchResults([result]));
       }
 
       const results = await Promise.all(
         filePaths.map(async (filePath, index) => {
-          const result = await readSingleFile(config.vaultPath, filePath);
+          const result = await readSingleFile(config.vaultPath, filePath, access);
           return { ...result, index };
         }),
       );
-      return toolSuccess(formatBatchResults(results));
+      return toolSuccess(formatBatchResults(results), structuredBatchResults(results));
     },
   );
 
@@ -176,20 +239,29 @@ export function registerFileOperations(server: McpServer, config: Config): void
         end_line: z.number().int().min(1).optional()
           .describe("Last line (1-based, inclusive). Omit to read to end of file"),
       },
+      outputSchema: {
+        path: z.string(),
+        start_line: z.number().int().describe("First line returned (1-based, negative start_line resolved)"),
+        end_line: z.number().int(),
+        total_lines: z.number().int(),
+        lines: z.array(z.object({ line: z.number().int(), text: z.string() })),
+      },
     },
-    async ({ path: filePath, start_line, end_line }) => {
+    async ({ path: filePath, start_line, end_line }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
       if (start_line > 0 && end_line !== undefined && end_line < start_line) {
         return toolError("end_line must be >= start_line");
       }
       if (start_line < 0 && end_line !== undefined) {
         return toolError("end_line cannot be used with negative start_line");
       }
-      const result = await readLineRange(config.vaultPath, filePath, start_line, end_line);
+      const result = await readLineRange(config.vaultPath, filePath, start_line, end_line, getPathAccess(config, extra));
       if (!result.success) {
         logger.error("read_file_lines failed", { path: filePath, error: result.content });
         return toolError(`Failed to read file lines: ${result.content}`);
       }
-      return toolSuccess(result.content);
+      return toolSuccess(result.content, { ...result.range });
     },
   );
 
@@ -211,8 +283,13 @@ export function registerFileOperations(server: McpServer, config: Config): void
           content: z.string(),
         })).max(MAX_BATCH_SIZE).optional().describe("Multiple files for batch write (max 10)"),
       },
+      outputSchema: batchOutputSchema(),
     },
-    async ({ path: singlePath, content: singleContent, files }) => {
+    withAuditLog("write_file", async ({ path: singlePath, content: singleContent, files }, extra) => {
+      const scopeError = checkScope(extra, VAULT_WRITE_SCOPE);
+      if (scopeError) return scopeError;
+      const user = getRequestUser(extra);
+      const access = getPathAccess(config, extra);
       const fileEntries = files ?? (singlePath && singleContent !== undefined
         ? [{ path: singlePath, content: singleContent }]
         : []);
@@ -220,15 +297,30 @@ export function registerFileOperations(server: McpServer, config: Config): void
       const sizeError = validateBatchSize(fileEntries.length);
       if (sizeError) return toolError(sizeError);
 
+      const accessErrors = await Promise.all(fileEntries.map(({ path: filePath }) => writeAccessError(config.vaultPath, filePath, access)));
+      if (fileEntries.length === 1 && accessErrors[0]) {
+        logger.error("write_file failed", { path: fileEntries[0].path, user, error: accessErrors[0] });
+        return toolError(`Failed to write file: ${accessErrors[0]}`);
+      }
+
+      const confirmError = await confirmChanges(server, config, extra, "write_file", fileEntries
+        .filter((_, index) => !accessErrors[index])
+        .map(({ path: filePath, content }) => ({
+          paths: [filePath],
+          summary: `Write ${filePath}`,
+          content: async () => ({ before: await currentContent(config.vaultPath, filePath, access), after: content }),
+        })));
+      if (confirmError) return confirmError;
+
       if (fileEntries.length === 1) {
         const { path: filePath, content } = fileEntries[0];
-        const result = await writeSingleFile(config.vaultPath, filePath, content);
+        const result = await writeSingleFile(config.vaultPath, filePath, content, access);
         if (!result.success) {
-          logger.error("write_file failed", { path: filePath, error: result.content });
+          logger.error("write_file failed", { path: filePath, user, error: result.content });
           return toolError(`Failed to write file: ${result.content}`);
         }
-        scheduleSync(`MCP: write ${filePath}`);
-        return toolSuccess(result.content);
+        scheduleSync(`MCP: write ${filePath}`, user, [filePath]);
+        return toolSuccess(result.content, structuredBatchResults([result]));
       }
 
       const results: BatchResult[] = [];
@@ -236,17 +328,20 @@ export function registerFileOperations(server: McpServer, config: Config): void
 
       for (let index = 0; index < fileEntries.length; index++) {
         const { path: filePath, content } = fileEntries[index];
-        const result = await writeSingleFile(config.vaultPath, filePath, content);
+        const accessError = accessErrors[index];
+        const result = accessError
+          ? { index, path: filePath, success: false, content: accessError }
+          : await writeSingleFile(config.vaultPath, filePath, content, access);
         results.push({ ...result, index });
         if (result.success) writtenPaths.push(filePath);
       }
 
       if (writtenPaths.length > 0) {
-        scheduleSync(`MCP: batch write ${writtenPaths.length} files`);
+        scheduleSync(`MCP: batch write ${writtenPaths.length} files`, user, writtenPaths);
       }
 
-      return toolSuccess(formatBatchResults(results));
-    },
+      return toolSuccess(formatBatchResults(results), structuredBatchResults(results));
+    }),
   );
 
   // edit_file
@@ -269,8 +364,13 @@ export function registerFileOperations(server: McpServer, config: Config): void
           new_text: z.string(),
         })).max(MAX_BATCH_SIZE).optional().describe("Multiple edits for batch (max 10)"),
       },
+      outputSchema: batchOutputSchema(),
     },
-    async ({ path: singlePath, old_text, new_text, edits }) => {
+    withAuditLog("edit_file", async ({ path: singlePath, old_text, new_text, edits }, extra) => {
+      const scopeError = checkScope(extra, VAULT_WRITE_SCOPE);
+      if (scopeError) return scopeError;
+      const user = getRequestUser(extra);
+      const access = getPathAccess(config, extra);
       const editEntries = edits ?? (singlePath && old_text !== undefined && new_text !== undefined
         ? [{ path: singlePath, old_text, new_text }]
         : []);
@@ -278,15 +378,35 @@ export function registerFileOperations(server: McpServer, config: Config): void
       const sizeError = validateBatchSize(editEntries.length);
       if (sizeError) return toolError(sizeError);
 
+      const accessErrors = await Promise.all(editEntries.map((edit) => writeAccessError(config.vaultPath, edit.path, access)));
+      if (editEntries.length === 1 && accessErrors[0]) {
+        logger.error("edit_file failed", { path: editEntries[0].path, user, error: accessErrors[0] });
+        return toolError(`Failed to edit file: ${accessErrors[0]}`);
+      }
+
+      const confirmError = await confirmChanges(server, config, extra, "edit_file", editEntries
+        .filter((_, index) => !accessErrors[index])
+        .map((edit) => ({
+          paths: [edit.path],
+          summary: `Edit ${edit.path}`,
+          content: async () => {
+            const before = await currentContent(config.vaultPath, edit.path, access);
+            return before.includes(edit.old_text)
+              ? { before, after: before.replace(edit.old_text, () => edit.new_text) }
+              : { before: edit.old_text, after: edit.new_text };
+          },
+        })));
+      if (confirmError) return confirmError;
+
       if (editEntries.length === 1) {
         const { path: filePath, old_text: oldText, new_text: newText } = editEntries[0];
-        const result = await editSingleFile(config.vaultPath, filePath, oldText, newText);
+        const result = await editSingleFile(config.vaultPath, filePath, oldText, newText, access);
         if (!result.success) {
-          logger.error("edit_file failed", { path: filePath, error: result.content });
+          logger.error("edit_file failed", { path: filePath, user, error: result.content });
           return toolError(`Failed to edit file: ${result.content}`);
         }
-        scheduleSync(`MCP: edit ${filePath}`);
-        return toolSuccess(result.content);
+        scheduleSync(`MCP: edit ${filePath}`, user, [filePath]);
+        return toolSuccess(result.content, structuredBatchResults([result]));
       }
 
       const results: BatchResult[] = [];
@@ -294,17 +414,20 @@ export function registerFileOperations(server: McpServer, config: Config): void
 
       for (let index = 0; index < editEntries.length; index++) {
         const { path: filePath, old_text: oldText, new_text: newText } = editEntries[index];
-        const result = await editSingleFile(config.vaultPath, filePath, oldText, newText);
+        const accessError = accessErrors[index];
+        const result = accessError
+          ? { index, path: filePath, success: false, content: accessError }
+          : await editSingleFile(config.vaultPath, filePath, oldText, newText, access);
         results.push({ ...result, index });
         if (result.success) editedPaths.push(filePath);
       }
 
       if (editedPaths.length > 0) {
-        scheduleSync(`MCP: batch edit ${editedPaths.length} files`);
+        scheduleSync(`MCP: batch edit ${editedPaths.length} files`, user, editedPaths);
       }
 
-      return toolSuccess(formatBatchResults(results));
-    },
+      return toolSuccess(formatBatchResults(results), structuredBatchResults(results));
+    }),
   );
 
   // delete_file
@@ -318,19 +441,30 @@ export function registerFileOperations(server: McpServer, config: Config): void
       inputSchema: {
         path: z.string().describe("Path relative to vault root"),
       },
+      outputSchema: { path: z.string().describe("The deleted file") },
     },
-    async ({ path: filePath }) => {
+    withAuditLog("delete_file", async ({ path: filePath }, extra) => {
+      const scopeError = checkScope(extra, VAULT_WRITE_SCOPE);
+      if (scopeError) return scopeError;
+      const user = getRequestUser(extra);
+      const access = getPathAccess(config, extra);
       try {
-        const resolved = await resolveVaultPathSafe(config.vaultPath, filePath);
+        const resolved = await resolveVaultPathSafe(config.vaultPath, filePath, access, "write");
+        const confirmError = await confirmChanges(server, config, extra, "delete_file", [{
+          paths: [filePath],
+          summary: `Delete ${filePath}`,
+          content: async () => ({ before: await currentContent(config.vaultPath, filePath, access), after: "" }),
+        }]);
+        if (confirmError) return confirmError;
         await unlink(resolved);
-        scheduleSync(`MCP: delete ${filePath}`);
-        return toolSuccess(`File deleted: ${filePath}`);
+        scheduleSync(`MCP: delete ${filePath}`, user, [filePath]);
+        return toolSuccess(`File deleted: ${filePath}`, { path: filePath });
       } catch (error) {
         const msg = getErrorMessage(error);
-        logger.error("delete_file failed", { path: filePath, error: msg });
+        logger.error("delete_file failed", { path: filePath, user, error: msg });
         return toolError(`Failed to delete file: ${msg}`);
       }
-    },
+    }),
   );
 
   // rename_file
@@ -347,11 +481,16 @@ export function registerFileOperations(server: McpServer, config: Config): void
         old_path: z.string().describe("Current path relative to vault root"),
         new_path: z.string().describe("New path relative to vault root"),
       },
+      outputSchema: { old_path: z.string(), new_path: z.string() },
     },
-    async ({ old_path, new_path }) => {
+    withAuditLog("rename_file", async ({ old_path, new_path }, extra) => {
+      const scopeError = checkScope(extra, VAULT_WRITE_SCOPE);
+      if (scopeError) return scopeError;
+      const user = getRequestUser(extra);
+      const access = getPathAccess(config, extra);
       try {
-        const resolvedOld = await resolveVaultPathSafe(config.vaultPath, old_path);
-        const resolvedNew = await resolveVaultPathSafe(config.vaultPath, new_path);
+        const resolvedOld = await resolveVaultPathSafe(config.vaultPath, old_path, access, "write");
+        const resolvedNew = await resolveVaultPathSafe(config.vaultPath, new_path, access, "write");
 
         // Verify target parent directory exists
         const targetDir = path.dirname(resolvedNew);
@@ -366,15 +505,19 @@ export function registerFileOperations(server: McpServer, config: Config): void
 
         const relOld = path.relative(config.vaultPath, resolvedOld);
         const relNew = path.relative(config.vaultPath, resolvedNew);
-        await git(["mv", "--", relOld, relNew], config.vaultPath);
-        scheduleSync(`MCP: rename ${old_path} -> ${new_path}`);
-        return toolSuccess(`File renamed: ${old_path} -> ${new_path}`);
+        const confirmError = await confirmChanges(server, config, extra, "rename_file", [
+          { paths: [old_path, new_path], summary: `Rename ${old_path} -> ${new_path}` },
+        ]);
+        if (confirmError) return confirmError;
+        await moveVaultPath(config, relOld, relNew);
+        scheduleSync(`MCP: rename ${old_path} -> ${new_path}`, user, [old_path, new_path]);
+        return toolSuccess(`File renamed: ${old_path} -> ${new_path}`, { old_path, new_path });
       } catch (error) {
         const msg = getErrorMessage(error);
-        logger.error("rename_file failed", { old_path, new_path, error: msg });
+        logger.error("rename_file failed", { old_path, new_path, user, error: msg });
         return toolError(`Failed to rename file: ${msg}`);
       }
-    },
+    }),
   );
 
   // move_file
@@ -391,11 +534,16 @@ export function registerFileOperations(server: McpServer, config: Config): void
         old_path: z.string().describe("Current file path relative to vault root"),
         new_path: z.string().describe("New file path relative to vault root"),
       },
+      outputSchema: { old_path: z.string(), new_path: z.string() },
     },
-    async ({ old_path, new_path }) => {
+    withAuditLog("move_file", async ({ old_path, new_path }, extra) => {
+      const scopeError = checkScope(extra, VAULT_WRITE_SCOPE);
+      if (scopeError) return scopeError;
+      const user = getRequestUser(extra);
+      const access = getPathAccess(config, extra);
       try {
-        const resolvedOld = await resolveVaultPathSafe(config.vaultPath, old_path);
-        const resolvedNew = await resolveVaultPathSafe(config.vaultPath, new_path);
+        const resolvedOld = await resolveVaultPathSafe(config.vaultPath, old_path, access, "write");
+        const resolvedNew = await resolveVaultPathSafe(config.vaultPath, new_path, access, "write");
 
         // Verify source exists and is a file
         const srcStat = await stat(resolvedOld);
@@ -416,14 +564,18 @@ export function registerFileOperations(server: McpServer, config: Config): void
 
         const relOld = path.relative(config.vaultPath, resolvedOld);
         const relNew = path.relative(config.vaultPath, resolvedNew);
-        await git(["mv", "--", relOld, relNew], config.vaultPath);
-        scheduleSync(`MCP: move ${old_path} -> ${new_path}`);
-        return toolSuccess(`File moved: ${old_path} -> ${new_path}`);
+        const confirmError = await confirmChanges(server, config, extra, "move_file", [
+          { paths: [old_path, new_path], summary: `Move ${old_path} -> ${new_path}` },
+        ]);
+        if (confirmError) return confirmError;
+        await moveVaultPath(config, relOld, relNew);
+        scheduleSync(`MCP: move ${old_path} -> ${new_path}`, user, [old_path, new_path]);
+        return toolSuccess(`File moved: ${old_path} -> ${new_path}`, { old_path, new_path });
       } catch (error) {
         const msg = getErrorMessage(error);
-        logger.error("move_file failed", { old_path, new_path, error: msg });
+        logger.error("move_file failed", { old_path, new_path, user, error: msg });
         return toolError(`Failed to move file: ${msg}`);
       }
-    },
+    }),
   );
 }
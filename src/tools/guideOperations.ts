@@ -4,6 +4,8 @@ import type { Config } from "../config.js";
 import { loadGuide, loadNoteTemplate, loadAllGuides } from "../guides/guideLoader.js";
 import { loadRootClaudeMd } from "../guides/claudeMdLoader.js";
 import { toolError, toolSuccess, getErrorMessage } from "../utils/toolResponse.js";
+import { checkScope } from "../utils/requestContext.js";
+import { VAULT_READ_SCOPE } from "../oauth/scopes.js";
 
 export function registerGuideOperations(server: McpServer, config: Config): void {
   server.registerTool(
@@ -16,12 +18,18 @@ export function registerGuideOperations(server: McpServer, config: Config): void
       inputSchema: {
         topic: z.enum(["conventions", "create-note", "search-strategy", "all"])
           .describe("Which guide to retrieve. Use 'conventions' at session start. Use 'all' to get everything at once."),
-        note_type: z.enum(["daily", "meeting", "project", "zettel", "literature"])
+        note_type: z.string()
           .optional()
-          .describe("Only for topic 'create-note': which template to return."),
+          .describe("Only for topic 'create-note': which template to return, e.g. daily, meeting, project, zettel or literature (default: zettel)."),
+      },
+      outputSchema: {
+        topic: z.string(),
+        content: z.string().describe("The guide as markdown, with the root CLAUDE.md first for 'conventions' and 'all'"),
       },
     },
-    async ({ topic, note_type }) => {
+    async ({ topic, note_type }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
       try {
         let content: string;
 
@@ -46,7 +54,7 @@ export function registerGuideOperations(server: McpServer, config: Config): void
           }
         }
 
-        return toolSuccess(content);
+        return toolSuccess(content, { topic, content });
       } catch (error) {
         const msg = getErrorMessage(error);
         return toolError(`Error loading guide: ${msg}`);
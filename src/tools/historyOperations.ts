@@ -3,7 +3,11 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { Config } from "../config.js";
 import { git } from "../git/gitSync.js";
 import { toolError, toolSuccess, getErrorMessage } from "../utils/toolResponse.js";
+import { checkScope } from "../utils/requestContext.js";
+import { VAULT_HISTORY_SCOPE } from "../oauth/scopes.js";
 import { logger } from "../utils/logger.js";
+import { getPathAccess } from "../utils/accessControl.js";
+import type { PathAccessPolicy } from "../utils/accessControl.js";
 
 const MAX_CHANGES = 20;
 const MAX_DIFF_LINES_PER_FILE = 80;
@@ -13,6 +17,8 @@ type FileStatus = "added" | "modified" | "deleted" | "renamed" | "copied";
 
 interface FileDiff {
   filename: string;
+  /** Source path of a renamed or copied file */
+  oldFilename?: string;
   status: FileStatus;
   lines: string[];
 }
@@ -27,9 +33,33 @@ function classifyDiffHeader(line: string): FileStatus | null {
   if (line.startsWith("new file")) return "added";
   if (line.startsWith("deleted file")) return "deleted";
   if (line.startsWith("rename from")) return "renamed";
+  if (line.startsWith("copy from")) return "copied";
   return null;
 }
 
+const C_ESCAPES: Record<string, string> = { a: "\x07", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v" };
+
+/** Undo git's C-style quoting of a path with special characters. */
+function unquotePath(raw: string): string {
+  if (!raw.startsWith('"') || !raw.endsWith('"')) return raw;
+  const bytes: number[] = [];
+  const body = raw.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== "\\") {
+      bytes.push(...Buffer.from(body[i]));
+      continue;
+    }
+    const next = body[++i];
+    if (/[0-7]/.test(next)) {
+      bytes.push(parseInt(body.slice(i, i + 3), 8));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(C_ESCAPES[next] ?? next));
+    }
+  }
+  return Buffer.from(bytes).toString("utf8");
+}
+
 function parseCommitDiff(raw: string): ParsedCommit | null {
   const lines = raw.split("\n");
   if (lines.length === 0) return null;
@@ -63,6 +93,9 @@ function parseCommitDiff(raw: string): ParsedCommit | null {
 
     if (!currentFile) continue;
 
+    const source = line.match(/^(?:rename|copy) from (.+)$/);
+    if (source) currentFile.oldFilename = unquotePath(source[1]);
+
     // Detect file status from diff metadata lines
     const statusFromHeader = classifyDiffHeader(line);
     if (statusFromHeader) {
@@ -100,6 +133,21 @@ function parseCommitDiff(raw: string): ParsedCommit | null {
   return { date, message, diffs };
 }
 
+/**
+ * Remove diffs of files the caller may not read. A renamed or copied file
+ * needs read access to its source path too, since the diff shows the old
+ * contents. Commits that only touched such files are dropped; mixed commits
+ * keep their readable diffs but hide the message, which may name the
+ * restricted paths.
+ */
+function restrictCommit(commit: ParsedCommit, access: PathAccessPolicy): ParsedCommit | null {
+  const diffs = commit.diffs.filter((d) =>
+    access.can(d.filename, "read") && (d.oldFilename === undefined || access.can(d.oldFilename, "read")));
+  if (diffs.length === commit.diffs.length) return commit;
+  if (diffs.length === 0) return null;
+  return { ...commit, message: "(message hidden: commit also touches restricted paths)", diffs };
+}
+
 function formatCommit(commit: ParsedCommit, index: number): string {
   const header = `${index + 1}. ${commit.date}`;
   const msg = `   ${commit.message}`;
@@ -132,8 +180,21 @@ export function registerHistoryOperations(server: McpServer, config: Config): vo
           .default(10)
           .describe("Number of recent changes to retrieve (1–20)"),
       },
+      outputSchema: {
+        commits: z.array(z.object({
+          date: z.string().describe("Commit date (YYYY-MM-DD HH:MM:SS, server time zone)"),
+          message: z.string(),
+          files: z.array(z.object({
+            path: z.string(),
+            status: z.enum(["added", "modified", "deleted", "renamed", "copied"]),
+            diff: z.array(z.string()).describe("Diff lines (+, - or context), truncated per file"),
+          })),
+        })).describe("Newest first"),
+      },
     },
-    async ({ count }) => {
+    async ({ count }, extra) => {
+      const scopeError = checkScope(extra, VAULT_HISTORY_SCOPE);
+      if (scopeError) return scopeError;
       try {
         const { stdout } = await git(
           [
@@ -148,7 +209,7 @@ export function registerHistoryOperations(server: McpServer, config: Config): vo
         );
 
         if (!stdout.trim()) {
-          return toolSuccess("No changes found in vault history.");
+          return toolSuccess("No changes found in vault history.", { commits: [] });
         }
 
         // Remove timezone offset for cleaner dates
@@ -158,16 +219,24 @@ export function registerHistoryOperations(server: McpServer, config: Config): vo
         );
 
         const sections = cleaned.split(COMMIT_SEPARATOR).filter((s) => s.trim());
+        const access = getPathAccess(config, extra);
         const commits = sections
           .map(parseCommitDiff)
+          .map((c) => c && restrictCommit(c, access))
           .filter((c): c is ParsedCommit => c !== null);
 
         if (commits.length === 0) {
-          return toolSuccess("No changes found in vault history.");
+          return toolSuccess("No changes found in vault history.", { commits: [] });
         }
 
         const output = commits.map((c, i) => formatCommit(c, i)).join("\n\n");
-        return toolSuccess(output);
+        return toolSuccess(output, {
+          commits: commits.map((c) => ({
+            date: c.date,
+            message: c.message,
+            files: c.diffs.map((d) => ({ path: d.filename, status: d.status, diff: d.lines.map((line) => line.slice(2)) })),
+          })),
+        });
       } catch (error) {
         const msg = getErrorMessage(error);
         logger.error("get_recent_changes failed", { error: msg });
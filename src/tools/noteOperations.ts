@@ -0,0 +1,436 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { stringify } from "yaml";
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "../config.js";
+import { scheduleSync } from "../git/debouncedSync.js";
+import { readValidatedContent } from "./fileOperations.js";
+import { loadNoteTemplate } from "../guides/guideLoader.js";
+import {
+  validateBatchSize,
+  formatBatchResults,
+  batchOutputSchema,
+  structuredBatchResults,
+  MAX_BATCH_SIZE,
+} from "../utils/batchUtils.js";
+import type { BatchResult } from "../utils/batchUtils.js";
+import { toolError, toolSuccess, getErrorMessage } from "../utils/toolResponse.js";
+import { logger } from "../utils/logger.js";
+import { withAuditLog } from "../utils/auditLog.js";
+import { confirmChanges } from "../utils/confirmation.js";
+import { getRequestUser, checkScope } from "../utils/requestContext.js";
+import { VAULT_READ_SCOPE, VAULT_WRITE_SCOPE } from "../oauth/scopes.js";
+import { getPathAccess } from "../utils/accessControl.js";
+import type { PathAccessPolicy } from "../utils/accessControl.js";
+import { resolveVaultPathSafe } from "../utils/pathValidation.js";
+import { editSection, insertIntoNote, parseHeadingPath, SECTION_OPERATIONS } from "../utils/markdownSections.js";
+import { parseFrontmatter, updateFrontmatter } from "../utils/frontmatter.js";
+import type { PropertyUpdate } from "../utils/frontmatter.js";
+import { MAX_FILE_SIZE } from "../utils/constants.js";
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type CapturePosition = "append" | "prepend";
+
+interface Capture {
+  path: string;
+  content: string;
+  heading?: string;
+  template?: string;
+}
+
+/** A note as it will be written once all changes of a call are applied. */
+interface PendingNote {
+  path: string;
+  resolvedPath: string;
+  /** Content on disk, null when the note is created. */
+  before: string | null;
+  after: string;
+}
+
+/** Result of planning one change, with the resolved path of the pending note it went into. */
+type PlannedResult = BatchResult & { resolvedPath?: string };
+
+const captureSchema = {
+  path: z.string().describe("Path of the note, relative to vault root"),
+  content: z.string().describe("Text to add"),
+  heading: z.string().optional().describe("Heading path of the section to add to, e.g. 'Inbox' or 'Work > Todo'. A missing single heading is created"),
+  template: z.string().optional().describe("Note type from the create-note guide (e.g. daily) to create a missing note from; empty note otherwise"),
+};
+
+/**
+ * Apply one capture to the pending state of its note, reading the note (or
+ * its template, when it does not exist) on first use. Captures of one call
+ * to the same note build on each other.
+ */
+async function planCapture(
+  config: Config,
+  access: PathAccessPolicy,
+  position: CapturePosition,
+  capture: Capture,
+  pending: Map<string, PendingNote>,
+): Promise<PlannedResult> {
+  const verb = position === "append" ? "Appended to" : "Prepended to";
+  try {
+    const resolvedPath = await resolveVaultPathSafe(config.vaultPath, capture.path, access, "write");
+    let note = pending.get(resolvedPath);
+    if (!note) {
+      let before: string | null = null;
+      try {
+        const result = await readValidatedContent(config.vaultPath, capture.path, access, "write");
+        if ("error" in result) return { index: 0, path: capture.path, success: false, content: result.error };
+        before = result.content;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+      const initial = before ?? (capture.template
+        ? `${await loadNoteTemplate(config.promptsDir, capture.template, path.basename(capture.path, path.extname(capture.path)))}\n`
+        : "");
+      note = { path: capture.path, resolvedPath, before, after: initial };
+    }
+
+    const after = insertIntoNote(note.after, position, capture.content, capture.heading ? parseHeadingPath(capture.heading) : undefined);
+    if (after.length > MAX_FILE_SIZE) {
+      return { index: 0, path: capture.path, success: false, content: `Content too large (${after.length} bytes, max ${MAX_FILE_SIZE})` };
+    }
+    pending.set(resolvedPath, { ...note, after });
+    const created = note.before === null;
+    return { index: 0, path: capture.path, success: true, content: `${verb} ${capture.path}${created ? " (created)" : ""}`, data: { created }, resolvedPath };
+  } catch (error) {
+    return { index: 0, path: capture.path, success: false, content: getErrorMessage(error) };
+  }
+}
+
+/**
+ * Ask for confirmation of and write the notes a call planned, each once.
+ * Returns the results with failed writes marked, or the tool error when the
+ * user did not approve.
+ */
+async function writePendingNotes(
+  server: McpServer,
+  config: Config,
+  extra: ToolExtra,
+  tool: string,
+  pending: Map<string, PendingNote>,
+  results: PlannedResult[],
+): Promise<BatchResult[] | ReturnType<typeof toolError>> {
+  const confirmError = await confirmChanges(server, config, extra, tool, [...pending.values()].map((note) => ({
+    paths: [note.path],
+    summary: `${note.before === null ? "Create" : "Update"} ${note.path}`,
+    content: async () => ({ before: note.before ?? "", after: note.after }),
+  })));
+  if (confirmError) return confirmError;
+
+  // A note whose write fails reports it for all its changes, however they named it
+  const writeErrors = new Map<string, string>();
+  for (const note of pending.values()) {
+    try {
+      await mkdir(path.dirname(note.resolvedPath), { recursive: true });
+      await writeFile(note.resolvedPath, note.after, "utf-8");
+    } catch (error) {
+      writeErrors.set(note.resolvedPath, getErrorMessage(error));
+    }
+  }
+  return results.map(({ resolvedPath, ...result }) => {
+    const writeError = resolvedPath === undefined ? undefined : writeErrors.get(resolvedPath);
+    return writeError === undefined ? result : { ...result, success: false, content: writeError, data: undefined };
+  });
+}
+
+/** Handler of append_to_note and prepend_to_note. */
+function captureHandler(server: McpServer, config: Config, tool: string, position: CapturePosition) {
+  return withAuditLog(tool, async (
+    { path: singlePath, content, heading, template, notes }: Partial<Capture> & { notes?: Capture[] },
+    extra: ToolExtra,
+  ) => {
+    const scopeError = checkScope(extra, VAULT_WRITE_SCOPE);
+    if (scopeError) return scopeError;
+    const user = getRequestUser(extra);
+    const access = getPathAccess(config, extra);
+    const captures = notes ?? (singlePath && content !== undefined ? [{ path: singlePath, content, heading, template }] : []);
+
+    const sizeError = validateBatchSize(captures.length);
+    if (sizeError) return toolError(sizeError);
+
+    const pending = new Map<string, PendingNote>();
+    const results: PlannedResult[] = [];
+    for (let index = 0; index < captures.length; index++) {
+      results.push({ ...(await planCapture(config, access, position, captures[index], pending)), index });
+    }
+
+    const final = await writePendingNotes(server, config, extra, tool, pending, results);
+    if (!Array.isArray(final)) return final;
+
+    const written = final.filter((result) => result.success);
+    if (written.length > 0) {
+      scheduleSync(
+        captures.length === 1 ? `MCP: ${position} to ${captures[0].path}` : `MCP: batch ${position} to ${new Set(written.map((r) => r.path)).size} notes`,
+        user,
+        [...pending.values()].map((note) => note.path),
+      );
+    }
+
+    if (captures.length === 1) {
+      if (!final[0].success) {
+        logger.error(`${tool} failed`, { path: final[0].path, user, error: final[0].content });
+        return toolError(`Failed to ${position} to note: ${final[0].content}`);
+      }
+      return toolSuccess(final[0].content, structuredBatchResults(final));
+    }
+    return toolSuccess(formatBatchResults(final), structuredBatchResults(final));
+  });
+}
+
+async function readProperties(config: Config, access: PathAccessPolicy, filePath: string): Promise<BatchResult> {
+  try {
+    const result = await readValidatedContent(config.vaultPath, filePath, access);
+    if ("error" in result) return { index: 0, path: filePath, success: false, content: result.error };
+    const properties = parseFrontmatter(result.content);
+    const text = Object.keys(properties).length === 0 ? "No properties" : stringify(properties, { lineWidth: 0 }).trimEnd();
+    return { index: 0, path: filePath, success: true, content: text, data: { properties } };
+  } catch (error) {
+    return { index: 0, path: filePath, success: false, content: getErrorMessage(error) };
+  }
+}
+
+/** Apply one property update to the pending state of its note. */
+async function planPropertyUpdate(
+  config: Config,
+  access: PathAccessPolicy,
+  filePath: string,
+  update: PropertyUpdate,
+  pending: Map<string, PendingNote>,
+): Promise<PlannedResult> {
+  if (!update.set && !update.unset && !update.append && !update.rename) {
+    return { index: 0, path: filePath, success: false, content: "Nothing to change: give set, unset, append or rename" };
+  }
+  try {
+    const resolvedPath = await resolveVaultPathSafe(config.vaultPath, filePath, access, "write");
+    let note = pending.get(resolvedPath);
+    if (!note) {
+      const result = await readValidatedContent(config.vaultPath, filePath, access, "write");
+      if ("error" in result) return { index: 0, path: filePath, success: false, content: result.error };
+      note = { path: filePath, resolvedPath, before: result.content, after: result.content };
+    }
+
+    const after = updateFrontmatter(note.after, update);
+    if (after.length > MAX_FILE_SIZE) {
+      return { index: 0, path: filePath, success: false, content: `Content too large (${after.length} bytes, max ${MAX_FILE_SIZE})` };
+    }
+    pending.set(resolvedPath, { ...note, after });
+    return { index: 0, path: filePath, success: true, content: `Properties updated: ${filePath}`, data: { properties: parseFrontmatter(after) }, resolvedPath };
+  } catch (error) {
+    return { index: 0, path: filePath, success: false, content: getErrorMessage(error) };
+  }
+}
+
+export function registerNoteOperations(server: McpServer, config: Config): void {
+  // edit_section
+  server.registerTool(
+    "edit_section",
+    {
+      description:
+        "Edit one section of a markdown note, addressed by its heading path (e.g. 'Projects > Webapp > Open questions'), " +
+        "without having to match its text exactly. Operations: replace, append to or prepend to the section's body, " +
+        "delete the section with its heading, or insert a new sibling or child heading at the end of the section. " +
+        "A section's body includes its subsections. " +
+        "IMPORTANT — Before calling this tool, show the user how the section will look after the edit, rendered as formatted text directly in the conversation (not as raw Markdown source in a code block). " +
+        "Clearly indicate which note and section are being changed. Do not skip this preview step.",
+      annotations: { destructiveHint: true },
+      inputSchema: {
+        path: z.string().describe("Path of the note, relative to vault root"),
+        heading_path: z.string().describe("Headings from the outermost to the section, separated by '>'. The first may be at any level"),
+        operation: z.enum(SECTION_OPERATIONS).describe("What to do with the section"),
+        content: z.string().optional().describe("Text to replace, append or prepend with; body of an inserted heading"),
+        heading: z.string().optional().describe("Text of the new heading (insert_sibling and insert_child), without '#'"),
+      },
+      outputSchema: {
+        path: z.string(),
+        heading_path: z.string(),
+        operation: z.enum(SECTION_OPERATIONS),
+      },
+    },
+    withAuditLog("edit_section", async ({ path: filePath, heading_path, operation, content, heading }, extra) => {
+      const scopeError = checkScope(extra, VAULT_WRITE_SCOPE);
+      if (scopeError) return scopeError;
+      if ((operation === "append" || operation === "prepend") && !content) {
+        return toolError(`${operation} requires content`);
+      }
+      if (operation === "replace" && content === undefined) {
+        return toolError("replace requires content (an empty string clears the section)");
+      }
+      const user = getRequestUser(extra);
+      const access = getPathAccess(config, extra);
+      try {
+        const result = await readValidatedContent(config.vaultPath, filePath, access, "write");
+        if ("error" in result) return toolError(`Failed to edit section: ${result.error}`);
+
+        const updated = editSection(result.content, parseHeadingPath(heading_path), operation, content, heading);
+        const confirmError = await confirmChanges(server, config, extra, "edit_section", [{
+          paths: [filePath],
+          summary: `Edit section ${heading_path} (${operation}) of ${filePath}`,
+          content: async () => ({ before: result.content, after: updated }),
+        }]);
+        if (confirmError) return confirmError;
+
+        await writeFile(result.resolvedPath, updated, "utf-8");
+        scheduleSync(`MCP: edit section of ${filePath}`, user, [filePath]);
+        return toolSuccess(`Section edited (${operation}): ${filePath} > ${heading_path}`, { path: filePath, heading_path, operation });
+      } catch (error) {
+        const msg = getErrorMessage(error);
+        logger.error("edit_section failed", { path: filePath, heading_path, user, error: msg });
+        return toolError(`Failed to edit section: ${msg}`);
+      }
+    }),
+  );
+
+  const captureInput = {
+    path: captureSchema.path.optional(),
+    content: captureSchema.content.optional(),
+    heading: captureSchema.heading,
+    template: captureSchema.template,
+    notes: z.array(z.object(captureSchema)).max(MAX_BATCH_SIZE).optional()
+      .describe("Several captures at once (max 10), written with a single git commit"),
+  };
+  const captureOutput = batchOutputSchema({ created: z.boolean().optional().describe("Whether the note was created") });
+
+  // append_to_note
+  server.registerTool(
+    "append_to_note",
+    {
+      description:
+        "Add text to the end of a note, or to the end of a section when 'heading' is given — e.g. a todo to the inbox — without reading the note first. " +
+        "Creates a missing note, from a note template if 'template' is given. Supports batch captures via 'notes' array (max 10, single git commit). " +
+        "IMPORTANT — Before calling this tool, show the user the text that will be added and to which note and section. Do not skip this preview step.",
+      annotations: { destructiveHint: true },
+      inputSchema: captureInput,
+      outputSchema: captureOutput,
+    },
+    captureHandler(server, config, "append_to_note", "append"),
+  );
+
+  // prepend_to_note
+  server.registerTool(
+    "prepend_to_note",
+    {
+      description:
+        "Add text to the start of a note, right after its frontmatter, or right below a section's heading when 'heading' is given. " +
+        "Creates a missing note, from a note template if 'template' is given. Supports batch captures via 'notes' array (max 10, single git commit). " +
+        "IMPORTANT — Before calling this tool, show the user the text that will be added and to which note and section. Do not skip this preview step.",
+      annotations: { destructiveHint: true },
+      inputSchema: captureInput,
+      outputSchema: captureOutput,
+    },
+    captureHandler(server, config, "prepend_to_note", "prepend"),
+  );
+
+  const propertiesOutput = batchOutputSchema({
+    properties: z.record(z.unknown()).optional().describe("Frontmatter properties (after the update for set_properties)"),
+  });
+
+  // get_properties
+  server.registerTool(
+    "get_properties",
+    {
+      description:
+        "Read the YAML frontmatter properties of a note (tags, aliases, dates, status, ...) as structured data. " +
+        "Supports batch reads via 'paths' array (max 10).",
+      annotations: { readOnlyHint: true },
+      inputSchema: {
+        path: z.string().optional().describe("Path relative to vault root (single note)"),
+        paths: z.array(z.string()).max(MAX_BATCH_SIZE).optional().describe("Multiple paths for batch read (max 10)"),
+      },
+      outputSchema: propertiesOutput,
+    },
+    async ({ path: singlePath, paths }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
+      const access = getPathAccess(config, extra);
+      const filePaths = paths ?? (singlePath ? [singlePath] : []);
+
+      const sizeError = validateBatchSize(filePaths.length);
+      if (sizeError) return toolError(sizeError);
+
+      const results = await Promise.all(
+        filePaths.map(async (filePath, index) => ({ ...(await readProperties(config, access, filePath)), index })),
+      );
+      if (filePaths.length === 1) {
+        if (!results[0].success) {
+          logger.error("get_properties failed", { path: filePaths[0], error: results[0].content });
+          return toolError(`Failed to get properties: ${results[0].content}`);
+        }
+        return toolSuccess(results[0].content, structuredBatchResults(results));
+      }
+      return toolSuccess(formatBatchResults(results), structuredBatchResults(results));
+    },
+  );
+
+  const propertyUpdateSchema = {
+    rename: z.record(z.string()).optional().describe("Old key to new key; the property keeps its position"),
+    set: z.record(z.unknown()).optional().describe("Key to value; replaces existing values in place, adds new keys at the end"),
+    append: z.record(z.unknown()).optional()
+      .describe("Key to a value or list of values added to a list property (e.g. tags), skipping values it already has"),
+    unset: z.array(z.string()).optional().describe("Keys to remove"),
+  };
+
+  // set_properties
+  server.registerTool(
+    "set_properties",
+    {
+      description:
+        "Change the YAML frontmatter properties of a note without touching its body: rename, set, append to list values and unset, " +
+        "applied in that order. Other properties keep their order and comments. Creates the frontmatter if the note has none. " +
+        "Supports batch updates via 'files' array (max 10, single git commit). " +
+        "IMPORTANT — Before calling this tool, show the user which properties of which notes will change and their new values. Do not skip this preview step.",
+      annotations: { destructiveHint: true },
+      inputSchema: {
+        path: z.string().optional().describe("Path relative to vault root (single note)"),
+        ...propertyUpdateSchema,
+        files: z.array(z.object({ path: z.string(), ...propertyUpdateSchema })).max(MAX_BATCH_SIZE).optional()
+          .describe("Updates of several notes (max 10)"),
+      },
+      outputSchema: propertiesOutput,
+    },
+    withAuditLog("set_properties", async ({ path: singlePath, rename, set, append, unset, files }, extra) => {
+      const scopeError = checkScope(extra, VAULT_WRITE_SCOPE);
+      if (scopeError) return scopeError;
+      const user = getRequestUser(extra);
+      const access = getPathAccess(config, extra);
+      const updates = files ?? (singlePath ? [{ path: singlePath, rename, set, append, unset }] : []);
+
+      const sizeError = validateBatchSize(updates.length);
+      if (sizeError) return toolError(sizeError);
+
+      const pending = new Map<string, PendingNote>();
+      const results: PlannedResult[] = [];
+      for (let index = 0; index < updates.length; index++) {
+        const { path: filePath, ...update } = updates[index];
+        results.push({ ...(await planPropertyUpdate(config, access, filePath, update, pending)), index });
+      }
+
+      const final = await writePendingNotes(server, config, extra, "set_properties", pending, results);
+      if (!Array.isArray(final)) return final;
+
+      const written = final.filter((result) => result.success);
+      if (written.length > 0) {
+        scheduleSync(
+          updates.length === 1 ? `MCP: set properties of ${updates[0].path}` : `MCP: batch set properties of ${new Set(written.map((r) => r.path)).size} notes`,
+          user,
+          [...pending.values()].map((note) => note.path),
+        );
+      }
+
+      if (updates.length === 1) {
+        if (!final[0].success) {
+          logger.error("set_properties failed", { path: final[0].path, user, error: final[0].content });
+          return toolError(`Failed to set properties: ${final[0].content}`);
+        }
+        return toolSuccess(final[0].content, structuredBatchResults(final));
+      }
+      return toolSuccess(formatBatchResults(final), structuredBatchResults(final));
+    }),
+  );
+}
@@ -6,10 +6,21 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { Config } from "../config.js";
 import { resolveVaultPath } from "../utils/pathValidation.js";
 import { toolError, toolSuccess, getErrorMessage } from "../utils/toolResponse.js";
+import { checkScope } from "../utils/requestContext.js";
+import { VAULT_READ_SCOPE } from "../oauth/scopes.js";
 import { logger } from "../utils/logger.js";
 import { MAX_FILE_SIZE, HIDDEN_DIRECTORY_GLOBS } from "../utils/constants.js";
-import { validateBatchSize, formatBatchResults, MAX_BATCH_SIZE } from "../utils/batchUtils.js";
+import {
+  validateBatchSize,
+  formatBatchResults,
+  batchOutputSchema,
+  structuredBatchResults,
+  MAX_BATCH_SIZE,
+} from "../utils/batchUtils.js";
 import type { BatchResult } from "../utils/batchUtils.js";
+import { getPathAccess } from "../utils/accessControl.js";
+import type { PathAccessPolicy } from "../utils/accessControl.js";
+import { ScanCancelledError, ScanProgress } from "../utils/progress.js";
 const MAX_REGEX_LENGTH = 500;
 const MAX_GREP_RESULTS = 500;
 const MAX_FIND_RESULTS = 500;
@@ -31,6 +42,22 @@ function validateGlobPattern(pattern: string): string | null {
   return null;
 }
 
+/**
+ * Drop glob matches (relative to `searchRoot`) the caller may not read, so
+ * restricted files never show up in search results.
+ */
+function filterReadable<T>(
+  entries: T[],
+  toRelative: (entry: T) => string,
+  searchRoot: string,
+  vaultPath: string,
+  access: PathAccessPolicy,
+): T[] {
+  return entries.filter((entry) =>
+    access.can(path.relative(vaultPath, path.join(searchRoot, toRelative(entry))), "read"),
+  );
+}
+
 export function registerSearchOperations(server: McpServer, config: Config): void {
   // search_files
   server.registerTool(
@@ -46,8 +73,15 @@ export function registerSearchOperations(server: McpServer, config: Config): voi
           path: z.string().default("."),
         })).max(MAX_BATCH_SIZE).optional().describe("Multiple searches for batch (max 10)"),
       },
+      outputSchema: batchOutputSchema({
+        pattern: z.string().optional(),
+        matches: z.array(z.string()).optional().describe("Matching paths relative to vault root"),
+      }),
     },
-    async ({ pattern: singlePattern, path: singlePath, searches }) => {
+    async ({ pattern: singlePattern, path: singlePath, searches }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
+      const access = getPathAccess(config, extra);
       const searchEntries = searches ?? (singlePattern
         ? [{ pattern: singlePattern, path: singlePath ?? "." }]
         : []);
@@ -61,24 +95,24 @@ export function registerSearchOperations(server: McpServer, config: Config): voi
         try {
           const patternError = validateGlobPattern(pattern);
           if (patternError) return toolError(patternError);
-          const resolved = resolveVaultPath(config.vaultPath, searchPath);
-          const matches = await fg(pattern, {
+          const resolved = resolveVaultPath(config.vaultPath, searchPath, access, "list");
+          const matches = filterReadable(await fg(pattern, {
             cwd: resolved,
             dot: false,
             ignore: HIDDEN_DIRECTORY_GLOBS,
             followSymbolicLinks: false,
-          });
-          if (matches.length === 0) {
-            return toolSuccess("No files matched the pattern");
-          }
-
+          }), (m) => m, resolved, config.vaultPath, access);
           const relativeBase = path.relative(config.vaultPath, resolved);
           const results = matches.map((m) =>
             relativeBase && relativeBase !== "."
               ? path.join(relativeBase, m)
               : m,
           );
-          return toolSuccess(results.join("\n"));
+          const structured = { results: [{ path: searchPath, success: true, pattern, matches: results }] };
+          if (results.length === 0) {
+            return toolSuccess("No files matched the pattern", structured);
+          }
+          return toolSuccess(results.join("\n"), structured);
         } catch (error) {
           const msg = getErrorMessage(error);
           logger.error("search_files failed", { pattern, error: msg });
@@ -91,32 +125,33 @@ export function registerSearchOperations(server: McpServer, config: Config): voi
         searchEntries.map(async ({ pattern, path: searchPath }, index): Promise<BatchResult> => {
           try {
             const patternError = validateGlobPattern(pattern);
-            if (patternError) return { index, path: searchPath, success: false, content: patternError };
-            const resolved = resolveVaultPath(config.vaultPath, searchPath);
-            const matches = await fg(pattern, {
+            if (patternError) return { index, path: searchPath, success: false, content: patternError, data: { pattern } };
+            const resolved = resolveVaultPath(config.vaultPath, searchPath, access, "list");
+            const matches = filterReadable(await fg(pattern, {
               cwd: resolved,
               dot: false,
               ignore: HIDDEN_DIRECTORY_GLOBS,
               followSymbolicLinks: false,
-            });
-            if (matches.length === 0) {
-              return { index, path: `${pattern} in ${searchPath}`, success: true, content: "No files matched the pattern" };
-            }
-
+            }), (m) => m, resolved, config.vaultPath, access);
             const relativeBase = path.relative(config.vaultPath, resolved);
             const matchResults = matches.map((m) =>
               relativeBase && relativeBase !== "."
                 ? path.join(relativeBase, m)
                 : m,
             );
-            return { index, path: `${pattern} in ${searchPath}`, success: true, content: matchResults.join("\n") };
+            // The text header names the pattern too; the structured entry has it separately
+            const data = { path: searchPath, pattern, matches: matchResults };
+            if (matchResults.length === 0) {
+              return { index, path: `${pattern} in ${searchPath}`, success: true, content: "No files matched the pattern", data };
+            }
+            return { index, path: `${pattern} in ${searchPath}`, success: true, content: matchResults.join("\n"), data };
           } catch (error) {
-            return { index, path: `${pattern} in ${searchPath}`, success: false, content: getErrorMessage(error) };
+            return { index, path: `${pattern} in ${searchPath}`, success: false, content: getErrorMessage(error), data: { path: searchPath, pattern } };
           }
         }),
       );
 
-      return toolSuccess(formatBatchResults(results));
+      return toolSuccess(formatBatchResults(results), structuredBatchResults(results));
     },
   );
 
@@ -133,22 +168,33 @@ export function registerSearchOperations(server: McpServer, config: Config): voi
         case_sensitive: z.boolean().default(true).describe("Case sensitive search"),
         include_pattern: z.string().optional().describe("Glob pattern to filter which files to search (e.g. *.md)"),
       },
+      outputSchema: {
+        matches: z.array(z.object({
+          path: z.string().describe("Path relative to vault root"),
+          line: z.number().int().describe("Line number (1-based)"),
+          text: z.string().describe("The matching line"),
+        })),
+        truncated: z.boolean().describe(`Whether the search stopped at ${MAX_GREP_RESULTS} matches`),
+      },
     },
-    async ({ query, path: searchPath, is_regex, case_sensitive, include_pattern }) => {
+    async ({ query, path: searchPath, is_regex, case_sensitive, include_pattern }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
       try {
-        const resolved = resolveVaultPath(config.vaultPath, searchPath);
+        const access = getPathAccess(config, extra);
+        const resolved = resolveVaultPath(config.vaultPath, searchPath, access, "list");
 
         // Find files to search
         const globPattern = include_pattern ?? "**/*";
         const globError = validateGlobPattern(globPattern);
         if (globError) return toolError(globError);
-        const files = await fg(globPattern, {
+        const files = filterReadable(await fg(globPattern, {
           cwd: resolved,
           dot: false,
           ignore: HIDDEN_DIRECTORY_GLOBS,
           onlyFiles: true,
           followSymbolicLinks: false,
-        });
+        }), (f) => f, resolved, config.vaultPath, access);
 
         // Validate regex length to mitigate ReDoS
         if (is_regex && query.length > MAX_REGEX_LENGTH) {
@@ -163,10 +209,12 @@ export function registerSearchOperations(server: McpServer, config: Config): voi
           return toolError(`Invalid regex pattern: ${query}`);
         }
 
-        const results: string[] = [];
+        const results: GrepMatch[] = [];
+        const progress = new ScanProgress(extra, files.length);
 
         for (const file of files) {
           if (results.length >= MAX_GREP_RESULTS) break;
+          progress.advance();
 
           const filePath = path.join(resolved, file);
 
@@ -185,8 +233,7 @@ export function registerSearchOperations(server: McpServer, config: Config): voi
             for (let i = 0; i < lines.length; i++) {
               if (results.length >= MAX_GREP_RESULTS) break;
               if (regex.test(lines[i])) {
-                const relPath = path.relative(config.vaultPath, filePath);
-                results.push(`${relPath}:${i + 1}: ${lines[i]}`);
+                results.push({ path: path.relative(config.vaultPath, filePath), line: i + 1, text: lines[i] });
               }
             }
           } catch {
@@ -194,16 +241,18 @@ export function registerSearchOperations(server: McpServer, config: Config): voi
           }
         }
 
+        const truncated = results.length >= MAX_GREP_RESULTS;
         if (results.length === 0) {
-          return toolSuccess("No matches found");
+          return toolSuccess("No matches found", { matches: results, truncated });
         }
 
-        let output = results.join("\n");
-        if (results.length >= MAX_GREP_RESULTS) {
+        let output = results.map((m) => `${m.path}:${m.line}: ${m.text}`).join("\n");
+        if (truncated) {
           output += `\n\n(Results truncated at ${MAX_GREP_RESULTS} matches)`;
         }
-        return toolSuccess(output);
+        return toolSuccess(output, { matches: results, truncated });
       } catch (error) {
+        if (error instanceof ScanCancelledError) return toolError(error.message);
         const msg = getErrorMessage(error);
         logger.error("grep failed", { query, error: msg });
         return toolError(`Grep failed: ${msg}`);
@@ -233,8 +282,19 @@ export function registerSearchOperations(server: McpServer, config: Config): voi
           size_max: z.number().optional(),
         })).max(MAX_BATCH_SIZE).optional().describe("Multiple queries for batch find (max 10)"),
       },
+      outputSchema: batchOutputSchema({
+        files: z.array(z.object({
+          path: z.string().describe("Path relative to vault root"),
+          size: z.number().int().describe("Size in bytes"),
+          mtime: z.string().describe("Last modification time (ISO 8601)"),
+        })).optional(),
+        truncated: z.boolean().optional().describe(`Whether the query stopped at ${MAX_FIND_RESULTS} files`),
+      }),
     },
-    async ({ path: singlePath, name, modified_after, modified_before, size_min, size_max, queries }) => {
+    async ({ path: singlePath, name, modified_after, modified_before, size_min, size_max, queries }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
+      const access = getPathAccess(config, extra);
       const queryEntries = queries ?? [{
         path: singlePath ?? ".",
         name,
@@ -249,51 +309,12 @@ export function registerSearchOperations(server: McpServer, config: Config): voi
 
       // Single query: original behavior
       if (queryEntries.length === 1) {
-        const q = queryEntries[0];
         try {
-          const resolved = resolveVaultPath(config.vaultPath, q.path);
-          const globPattern = q.name ?? "**/*";
-          const globError = validateGlobPattern(globPattern);
-          if (globError) return toolError(globError);
-          const files = await fg(globPattern, {
-            cwd: resolved,
-            dot: false,
-            ignore: HIDDEN_DIRECTORY_GLOBS,
-            onlyFiles: true,
-            stats: true,
-            followSymbolicLinks: false,
+          const found = await findFiles(config, queryEntries[0], access);
+          if ("error" in found) return toolError(found.error);
+          return toolSuccess(formatFoundFiles(found), {
+            results: [{ path: queryEntries[0].path, success: true, ...found }],
           });
-
-          const afterDate = q.modified_after ? new Date(q.modified_after) : null;
-          const beforeDate = q.modified_before ? new Date(q.modified_before) : null;
-
-          const results: string[] = [];
-
-          for (const entry of files) {
-            if (results.length >= MAX_FIND_RESULTS) break;
-
-            const filePath = path.join(resolved, entry.path);
-            const fileStat = await stat(filePath);
-
-            if (afterDate && fileStat.mtime < afterDate) continue;
-            if (beforeDate && fileStat.mtime > beforeDate) continue;
-            if (q.size_min !== undefined && fileStat.size < q.size_min) continue;
-            if (q.size_max !== undefined && fileStat.size > q.size_max) continue;
-
-            const relPath = path.relative(config.vaultPath, filePath);
-            results.push(
-              `${relPath}  (${fileStat.size} bytes, modified: ${fileStat.mtime.toISOString()})`,
-            );
-          }
-
-          if (results.length === 0) {
-            return toolSuccess("No files found matching criteria");
-          }
-          let output = results.join("\n");
-          if (results.length >= MAX_FIND_RESULTS) {
-            output += `\n\n(Results truncated at ${MAX_FIND_RESULTS} files)`;
-          }
-          return toolSuccess(output);
         } catch (error) {
           const msg = getErrorMessage(error);
           logger.error("find_files failed", { error: msg });
@@ -305,60 +326,92 @@ export function registerSearchOperations(server: McpServer, config: Config): voi
       const batchResults = await Promise.all(
         queryEntries.map(async (q, index): Promise<BatchResult> => {
           try {
-            const resolved = resolveVaultPath(config.vaultPath, q.path);
-            const globPattern = q.name ?? "**/*";
-            const globError = validateGlobPattern(globPattern);
-            if (globError) return { index, path: q.path, success: false, content: globError };
-            const files = await fg(globPattern, {
-              cwd: resolved,
-              dot: false,
-              ignore: HIDDEN_DIRECTORY_GLOBS,
-              onlyFiles: true,
-              stats: true,
-              followSymbolicLinks: false,
-            });
-
-            const afterDate = q.modified_after ? new Date(q.modified_after) : null;
-            const beforeDate = q.modified_before ? new Date(q.modified_before) : null;
-
-            const results: string[] = [];
-
-            for (const entry of files) {
-              if (results.length >= MAX_FIND_RESULTS) break;
-
-              const filePath = path.join(resolved, entry.path);
-              const fileStat = await stat(filePath);
-
-              if (afterDate && fileStat.mtime < afterDate) continue;
-              if (beforeDate && fileStat.mtime > beforeDate) continue;
-              if (q.size_min !== undefined && fileStat.size < q.size_min) continue;
-              if (q.size_max !== undefined && fileStat.size > q.size_max) continue;
-
-              const relPath = path.relative(config.vaultPath, filePath);
-              results.push(
-                `${relPath}  (${fileStat.size} bytes, modified: ${fileStat.mtime.toISOString()})`,
-              );
-            }
-
-            if (results.length === 0) {
-              return { index, path: q.path, success: true, content: "No files found matching criteria" };
-            }
-            let output = results.join("\n");
-            if (results.length >= MAX_FIND_RESULTS) {
-              output += `\n\n(Results truncated at ${MAX_FIND_RESULTS} files)`;
-            }
-            return { index, path: q.path, success: true, content: output };
+            const found = await findFiles(config, q, access);
+            if ("error" in found) return { index, path: q.path, success: false, content: found.error };
+            return { index, path: q.path, success: true, content: formatFoundFiles(found), data: { ...found } };
           } catch (error) {
             return { index, path: q.path, success: false, content: getErrorMessage(error) };
           }
         }),
       );
 
-      return toolSuccess(formatBatchResults(batchResults));
+      return toolSuccess(formatBatchResults(batchResults), structuredBatchResults(batchResults));
     },
   );
 }
 
+interface GrepMatch {
+  path: string;
+  line: number;
+  text: string;
+}
+
+interface FindQuery {
+  path: string;
+  name?: string;
+  modified_after?: string;
+  modified_before?: string;
+  size_min?: number;
+  size_max?: number;
+}
+
+interface FoundFiles {
+  files: Array<{ path: string; size: number; mtime: string }>;
+  truncated: boolean;
+}
+
+/** Run one find_files query. Invalid name patterns are returned as `error`, other failures throw. */
+async function findFiles(config: Config, q: FindQuery, access: PathAccessPolicy): Promise<FoundFiles | { error: string }> {
+  const resolved = resolveVaultPath(config.vaultPath, q.path, access, "list");
+  const globPattern = q.name ?? "**/*";
+  const globError = validateGlobPattern(globPattern);
+  if (globError) return { error: globError };
+  const entries = filterReadable(await fg(globPattern, {
+    cwd: resolved,
+    dot: false,
+    ignore: HIDDEN_DIRECTORY_GLOBS,
+    onlyFiles: true,
+    stats: true,
+    followSymbolicLinks: false,
+  }), (entry) => entry.path, resolved, config.vaultPath, access);
+
+  const afterDate = q.modified_after ? new Date(q.modified_after) : null;
+  const beforeDate = q.modified_before ? new Date(q.modified_before) : null;
+
+  const files: FoundFiles["files"] = [];
+
+  for (const entry of entries) {
+    if (files.length >= MAX_FIND_RESULTS) break;
+
+    const filePath = path.join(resolved, entry.path);
+    const fileStat = await stat(filePath);
+
+    if (afterDate && fileStat.mtime < afterDate) continue;
+    if (beforeDate && fileStat.mtime > beforeDate) continue;
+    if (q.size_min !== undefined && fileStat.size < q.size_min) continue;
+    if (q.size_max !== undefined && fileStat.size > q.size_max) continue;
+
+    files.push({
+      path: path.relative(config.vaultPath, filePath),
+      size: fileStat.size,
+      mtime: fileStat.mtime.toISOString(),
+    });
+  }
+
+  return { files, truncated: files.length >= MAX_FIND_RESULTS };
+}
+
+function formatFoundFiles({ files, truncated }: FoundFiles): string {
+  if (files.length === 0) {
+    return "No files found matching criteria";
+  }
+  let output = files.map((f) => `${f.path}  (${f.size} bytes, modified: ${f.mtime})`).join("\n");
+  if (truncated) {
+    output += `\n\n(Results truncated at ${MAX_FIND_RESULTS} files)`;
+  }
+  return output;
+}
+
 function escapeRegExp(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
@@ -7,27 +7,41 @@ import type { Config } from "../config.js";
 import { resolveVaultPath } from "../utils/pathValidation.js";
 import { getLastSyncTimestamp } from "../git/gitSync.js";
 import { toolError, toolSuccess, getErrorMessage } from "../utils/toolResponse.js";
+import { checkScope } from "../utils/requestContext.js";
+import { VAULT_READ_SCOPE } from "../oauth/scopes.js";
 import { logger } from "../utils/logger.js";
 import { isHiddenDirectory, HIDDEN_DIRECTORY_GLOBS } from "../utils/constants.js";
+import { getPathAccess } from "../utils/accessControl.js";
+import type { PathAccessPolicy } from "../utils/accessControl.js";
+import { ScanCancelledError, ScanProgress } from "../utils/progress.js";
+import type { ScanContext } from "../utils/progress.js";
+import { frontmatterTags, parseFrontmatter } from "../utils/frontmatter.js";
 
 async function countFiles(
   dirPath: string,
+  vaultPath: string,
+  access: PathAccessPolicy,
+  progress: ScanProgress,
 ): Promise<{ total: number; markdown: number; folders: number }> {
   let total = 0;
   let markdown = 0;
   let folders = 0;
 
+  progress.throwIfCancelled();
   const items = await readdir(dirPath, { withFileTypes: true });
   for (const item of items) {
     if (isHiddenDirectory(item.name)) continue;
+    const relativePath = path.relative(vaultPath, path.join(dirPath, item.name));
+    if (!access.can(relativePath, item.isDirectory() ? "list" : "read")) continue;
 
     if (item.isDirectory()) {
       folders++;
-      const sub = await countFiles(path.join(dirPath, item.name));
+      const sub = await countFiles(path.join(dirPath, item.name), vaultPath, access, progress);
       total += sub.total;
       markdown += sub.markdown;
       folders += sub.folders;
     } else {
+      progress.advance();
       total++;
       if (item.name.endsWith(".md")) {
         markdown++;
@@ -38,10 +52,10 @@ async function countFiles(
   return { total, markdown, folders };
 }
 
-async function getTopLevelFolders(dirPath: string): Promise<string[]> {
+async function getTopLevelFolders(dirPath: string, access: PathAccessPolicy): Promise<string[]> {
   const items = await readdir(dirPath, { withFileTypes: true });
   return items
-    .filter((item) => item.isDirectory() && !isHiddenDirectory(item.name))
+    .filter((item) => item.isDirectory() && !isHiddenDirectory(item.name) && access.can(item.name, "list"))
     .map((item) => item.name);
 }
 
@@ -52,11 +66,21 @@ export function registerVaultOperations(server: McpServer, config: Config): void
     {
       description: "Return vault statistics: total files, markdown files, folder structure, last sync time",
       annotations: { readOnlyHint: true },
+      outputSchema: {
+        total_files: z.number().int(),
+        markdown_files: z.number().int(),
+        total_folders: z.number().int(),
+        top_level_folders: z.array(z.string()),
+        last_sync: z.string().nullable().describe("Time of the last git pull or push (ISO 8601), null if never"),
+      },
     },
-    async () => {
+    async (extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
       try {
-        const counts = await countFiles(config.vaultPath);
-        const topFolders = await getTopLevelFolders(config.vaultPath);
+        const access = getPathAccess(config, extra);
+        const counts = await countFiles(config.vaultPath, config.vaultPath, access, new ScanProgress(extra));
+        const topFolders = await getTopLevelFolders(config.vaultPath, access);
         const lastSync = getLastSyncTimestamp();
 
         const info = [
@@ -67,8 +91,15 @@ export function registerVaultOperations(server: McpServer, config: Config): void
           `Last sync: ${lastSync ? lastSync.toISOString() : "never"}`,
         ].join("\n");
 
-        return toolSuccess(info);
+        return toolSuccess(info, {
+          total_files: counts.total,
+          markdown_files: counts.markdown,
+          total_folders: counts.folders,
+          top_level_folders: topFolders,
+          last_sync: lastSync ? lastSync.toISOString() : null,
+        });
       } catch (error) {
+        if (error instanceof ScanCancelledError) return toolError(error.message);
         const msg = getErrorMessage(error);
         logger.error("get_vault_info failed", { error: msg });
         return toolError(`Failed to get vault info: ${msg}`);
@@ -85,11 +116,21 @@ export function registerVaultOperations(server: McpServer, config: Config): void
       inputSchema: {
         path: z.string().describe("Path of the target note, relative to vault root"),
       },
+      outputSchema: {
+        target: z.string().describe("Note name the wikilinks were matched against"),
+        backlinks: z.array(z.object({
+          path: z.string().describe("Linking note, relative to vault root"),
+          links: z.number().int().describe("Number of links to the target in that note"),
+        })),
+      },
     },
-    async ({ path: notePath }) => {
+    async ({ path: notePath }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
       try {
         // Validate the path
-        resolveVaultPath(config.vaultPath, notePath);
+        const access = getPathAccess(config, extra);
+        resolveVaultPath(config.vaultPath, notePath, access);
 
         // Get the filename without extension for wikilink matching
         const basename = path.basename(notePath, path.extname(notePath));
@@ -99,39 +140,42 @@ export function registerVaultOperations(server: McpServer, config: Config): void
         const regex = new RegExp(`\\[\\[${escapedName}(\\|[^\\]]*)?\\]\\]`, "g");
 
         // Find all markdown files
-        const files = await fg("**/*.md", {
+        const files = (await fg("**/*.md", {
           cwd: config.vaultPath,
           dot: false,
           ignore: HIDDEN_DIRECTORY_GLOBS,
           followSymbolicLinks: false,
-        });
+        })).filter((file) => file !== notePath && access.can(file, "read")); // Skip the target itself and unreadable notes
 
-        const backlinks: string[] = [];
+        const backlinks: Array<{ path: string; links: number }> = [];
+        const progress = new ScanProgress(extra, files.length);
 
         for (const file of files) {
-          // Skip the target file itself
-          if (file === notePath) continue;
-
+          progress.advance();
           const filePath = path.join(config.vaultPath, file);
           try {
             const content = await readFile(filePath, "utf-8");
             const matches = content.match(regex);
             if (matches) {
-              backlinks.push(`${file} (${matches.length} link${matches.length > 1 ? "s" : ""})`);
+              backlinks.push({ path: file, links: matches.length });
             }
           } catch {
             // Skip unreadable files
           }
         }
 
+        const structured = { target: basename, backlinks };
         if (backlinks.length === 0) {
-          return toolSuccess(`No backlinks found for "${basename}"`);
+          return toolSuccess(`No backlinks found for "${basename}"`, structured);
         }
 
+        const lines = backlinks.map((b) => `${b.path} (${b.links} link${b.links > 1 ? "s" : ""})`);
         return toolSuccess(
-          `Backlinks to "${basename}" (${backlinks.length} files):\n${backlinks.join("\n")}`,
+          `Backlinks to "${basename}" (${backlinks.length} files):\n${lines.join("\n")}`,
+          structured,
         );
       } catch (error) {
+        if (error instanceof ScanCancelledError) return toolError(error.message);
         const msg = getErrorMessage(error);
         logger.error("get_backlinks failed", { path: notePath, error: msg });
         return toolError(`Failed to get backlinks: ${msg}`);
@@ -148,46 +192,39 @@ export function registerVaultOperations(server: McpServer, config: Config): void
       inputSchema: {
         path: z.string().optional().describe("Specific file path (relative to vault root). If omitted, scans entire vault."),
       },
+      outputSchema: {
+        tags: z.array(z.object({
+          tag: z.string().describe("Tag including the leading #"),
+          count: z.number().int().describe("Occurrences"),
+        })).describe("Most used first"),
+      },
     },
-    async ({ path: filePath }) => {
+    async ({ path: filePath }, extra) => {
+      const scopeError = checkScope(extra, VAULT_READ_SCOPE);
+      if (scopeError) return scopeError;
       try {
+        const access = getPathAccess(config, extra);
         const tagCounts = new Map<string, number>();
 
         if (filePath) {
-          const resolved = resolveVaultPath(config.vaultPath, filePath);
+          const resolved = resolveVaultPath(config.vaultPath, filePath, access);
           const content = await readFile(resolved, "utf-8");
           extractTags(content, tagCounts);
         } else {
-          // Scan all markdown files
-          const files = await fg("**/*.md", {
-            cwd: config.vaultPath,
-            dot: false,
-            ignore: HIDDEN_DIRECTORY_GLOBS,
-            followSymbolicLinks: false,
-          });
-
-          for (const file of files) {
-            try {
-              const content = await readFile(
-                path.join(config.vaultPath, file),
-                "utf-8",
-              );
-              extractTags(content, tagCounts);
-            } catch {
-              // Skip unreadable files
-            }
-          }
+          await countVaultTags(config.vaultPath, access, tagCounts, extra);
         }
 
+        // Sort by count descending
+        const sorted = [...tagCounts.entries()].sort((a, b) => b[1] - a[1]);
+        const structured = { tags: sorted.map(([tag, count]) => ({ tag, count })) };
         if (tagCounts.size === 0) {
-          return toolSuccess("No tags found");
+          return toolSuccess("No tags found", structured);
         }
 
-        // Sort by count descending
-        const sorted = [...tagCounts.entries()].sort((a, b) => b[1] - a[1]);
         const output = sorted.map(([tag, count]) => `${tag} (${count})`).join("\n");
-        return toolSuccess(`Tags found (${tagCounts.size} unique):\n${output}`);
+        return toolSuccess(`Tags found (${tagCounts.size} unique):\n${output}`, structured);
       } catch (error) {
+        if (error instanceof ScanCancelledError) return toolError(error.message);
         const msg = getErrorMessage(error);
         logger.error("get_tags failed", { path: filePath, error: msg });
         return toolError(`Failed to get tags: ${msg}`);
@@ -196,7 +233,38 @@ export function registerVaultOperations(server: McpServer, config: Config): void
   );
 }
 
-function extractTags(content: string, tagCounts: Map<string, number>): void {
+/**
+ * Count the tags of all markdown files readable under `access` into
+ * `tagCounts`, reporting progress to and stopping on cancellation of the
+ * request in `context`.
+ */
+export async function countVaultTags(
+  vaultPath: string,
+  access: PathAccessPolicy,
+  tagCounts: Map<string, number>,
+  context?: ScanContext,
+): Promise<void> {
+  const files = (await fg("**/*.md", {
+    cwd: vaultPath,
+    dot: false,
+    ignore: HIDDEN_DIRECTORY_GLOBS,
+    followSymbolicLinks: false,
+  })).filter((file) => access.can(file, "read"));
+
+  const progress = new ScanProgress(context, files.length);
+  for (const file of files) {
+    progress.advance();
+    try {
+      const content = await readFile(path.join(vaultPath, file), "utf-8");
+      extractTags(content, tagCounts);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+}
+
+/** Count the inline #tags and frontmatter tags of a note into `tagCounts`. */
+export function extractTags(content: string, tagCounts: Map<string, number>): void {
   // Extract inline #tags (but not inside code blocks or URLs)
   const inlineTagRegex = /(?:^|\s)#([a-zA-Z][a-zA-Z0-9_/-]*)/g;
   let match: RegExpExecArray | null;
@@ -205,44 +273,15 @@ function extractTags(content: string, tagCounts: Map<string, number>): void {
     tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
   }
 
-  // Extract YAML frontmatter tags
-  const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-  if (frontmatterMatch) {
-    const frontmatter = frontmatterMatch[1];
-    // Match "tags:" followed by a list or inline values
-    const tagsLineMatch = frontmatter.match(/^tags:\s*(.*)$/m);
-    if (tagsLineMatch) {
-      const inlineValue = tagsLineMatch[1].trim();
-      if (inlineValue.startsWith("[")) {
-        // Inline array: tags: [tag1, tag2]
-        const inner = inlineValue.slice(1, -1);
-        for (const t of inner.split(",")) {
-          const tag = `#${t.trim()}`;
-          if (tag.length > 1) {
-            tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
-          }
-        }
-      } else if (inlineValue) {
-        // Single inline value: tags: tag1
-        const tag = `#${inlineValue}`;
-        tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
-      } else {
-        // YAML list format:
-        // tags:
-        //   - tag1
-        //   - tag2
-        const listRegex = /^\s+-\s+(.+)$/gm;
-        // Re-extract the section after "tags:"
-        const tagsIdx = frontmatter.indexOf("tags:");
-        const afterTags = frontmatter.slice(tagsIdx + 5);
-        let listMatch: RegExpExecArray | null;
-        while ((listMatch = listRegex.exec(afterTags)) !== null) {
-          const tag = `#${listMatch[1].trim()}`;
-          if (tag.length > 1) {
-            tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
-          }
-        }
-      }
-    }
+  // Frontmatter tags; a note with invalid YAML has none
+  let properties: Record<string, unknown>;
+  try {
+    properties = parseFrontmatter(content);
+  } catch {
+    return;
+  }
+  for (const t of frontmatterTags(properties)) {
+    const tag = `#${t}`;
+    tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
   }
 }
@@ -3,17 +3,51 @@ import type { Request, Response, NextFunction } from "express";
 import crypto from "node:crypto";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { InitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { jwtAuth } from "./auth.js";
 import { handleProtectedResource } from "./oauth/protectedResource.js";
 import { handleMetadata } from "./oauth/metadata.js";
 import { handleRegistration } from "./oauth/registration.js";
 import { handleAuthorizeGet } from "./oauth/authorize.js";
-import { handleGitHubCallback } from "./oauth/githubCallback.js";
+import { handleProviderCallback } from "./oauth/callback.js";
+import { handleConsent, handleConsentsGet, handleRevokeConsent } from "./oauth/consent.js";
+import { createIdentityProvider } from "./oauth/identityProvider.js";
 import { handleToken } from "./oauth/token.js";
+import { handleRevoke } from "./oauth/revoke.js";
+import { handleIntrospect } from "./oauth/introspect.js";
+import { handleJwks } from "./oauth/jwks.js";
+import { createAccessTokenKeys, KeyDirectory } from "./oauth/signingKeys.js";
 import { OAuthStore } from "./oauth/store.js";
 import { OAuthSessionStore } from "./oauth/sessionStore.js";
+import { ApiKeyStore } from "./oauth/apiKeyStore.js";
+import { ClientMetadataResolver } from "./oauth/clientMetadata.js";
+import type { OAuthStoreSnapshot } from "./oauth/store.js";
+import type { OAuthSessionSnapshot } from "./oauth/sessionStore.js";
+import type { ApiKeyStoreSnapshot } from "./oauth/apiKeyStore.js";
+import {
+  requireAdmin,
+  handleListClients,
+  handleDeleteClient,
+  handleListSessions,
+  handleTerminateSession,
+  handleListTokens,
+  handleRevokeToken,
+  handleListConsents,
+  handleDeleteConsent,
+  handleQueryAuditLog,
+} from "./admin/adminApi.js";
+import type { McpSessionControl } from "./admin/adminApi.js";
+import { handleAdminDashboard, handleAdminLogin } from "./admin/dashboard.js";
+import { McpSessionStore } from "./mcpSessionStore.js";
+import { SessionTransport } from "./sessionTransport.js";
+import type { McpSessionSnapshot, PersistedMcpSession } from "./mcpSessionStore.js";
+import { createStorageBackend } from "./utils/storageBackend.js";
+import { BoundedEventStore } from "./utils/eventStore.js";
 import { RateLimiter } from "./utils/rateLimiter.js";
 import { logger } from "./utils/logger.js";
+import { getRequestUser } from "./utils/requestContext.js";
+import { getErrorMessage } from "./utils/toolResponse.js";
 import type { Config } from "./config.js";
 
 function rateLimitMiddleware(limiter: RateLimiter) {
@@ -29,11 +63,78 @@ function rateLimitMiddleware(limiter: RateLimiter) {
 const SESSION_TTL_MS = 30 * 60 * 1000; // 30 minutes
 
 interface SessionEntry {
-  transport: StreamableHTTPServerTransport;
+  transport: SessionTransport;
   server: McpServer;
+  /** Identity of the request that initialized the session, for the admin dashboard. */
+  clientId: string | undefined;
+  user: string | undefined;
+  createdAt: number;
   lastActivity: number;
 }
 
+/** The params of the initialize request in a POST body (single message or batch). */
+function findInitializeParams(body: unknown): InitializeRequest["params"] | undefined {
+  const messages: unknown[] = Array.isArray(body) ? body : [body];
+  return messages.find(isInitializeRequest)?.params;
+}
+
+/**
+ * Initialize a fresh transport and its server with a client's earlier
+ * initialize request and `notifications/initialized`, so that a session
+ * restored after a restart knows the client's capabilities, accepts its
+ * session ID and runs the server's `oninitialized` hooks (e.g. the resource
+ * change listener). The responses were already delivered before the
+ * restart and are dropped.
+ */
+async function replayInitialize(transport: SessionTransport, params: InitializeRequest["params"]): Promise<void> {
+  const replay = async (message: { method: string; id?: string; params?: object }, sessionId?: string): Promise<void> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json", Accept: "application/json, text/event-stream" };
+    if (sessionId) headers["mcp-session-id"] = sessionId;
+    const response = await transport.handleRequest(new Request("http://localhost/mcp", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jsonrpc: "2.0", ...message }),
+    }));
+    await response.text();
+    if (!response.ok) {
+      throw new Error(`Replayed ${message.method} failed with status ${response.status}`);
+    }
+  };
+  await replay({ id: "restore", method: "initialize", params });
+  await replay({ method: "notifications/initialized" }, transport.sessionId);
+}
+
+/** Whether the request comes from the user and client that initialized a persisted session. */
+function isSessionOwner(session: PersistedMcpSession, req: Request): boolean {
+  return session.user === getRequestUser({ authInfo: req.auth }) && session.clientId === req.auth?.clientId;
+}
+
+/**
+ * SESSION_MODE=stateless: every POST /mcp gets a fresh McpServer and a
+ * transport without session IDs, closed when the response ends, so any
+ * replica behind a load balancer can serve any request. There are no
+ * server-initiated SSE streams to open or sessions to end.
+ */
+function registerStatelessRoutes(app: express.Express, createMcpServer: () => Promise<McpServer>): void {
+  app.post("/mcp", express.json(), async (req, res) => {
+    const mcpServer = await createMcpServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on("close", () => {
+      transport.close().catch(() => {});
+      mcpServer.close().catch(() => {});
+    });
+    await mcpServer.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  const methodNotAllowed = (_req: Request, res: Response): void => {
+    res.set("Allow", "POST");
+    res.status(405).json({ error: "Method not allowed in stateless mode" });
+  };
+  app.get("/mcp", methodNotAllowed);
+  app.delete("/mcp", methodNotAllowed);
+}
+
 export interface HttpServerHandle {
   close: () => Promise<void>;
 }
@@ -55,7 +156,7 @@ export async function startHttpServer(
   const CORS_HEADERS: Record<string, string> = {
     "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID",
     "Access-Control-Expose-Headers": "Mcp-Session-Id",
   };
   app.use((_req, res, next) => {
@@ -69,24 +170,39 @@ export async function startHttpServer(
   });
 
   // Create OAuth stores and rate limiters (injected into handlers)
-  const oauthStore = new OAuthStore();
-  const oauthSessionStore = new OAuthSessionStore();
+  // File-backed when DATA_DIR is set so logins survive restarts
+  const oauthStore = new OAuthStore(createStorageBackend<OAuthStoreSnapshot>(config.dataDir, "oauth-store"));
+  const oauthSessionStore = new OAuthSessionStore(createStorageBackend<OAuthSessionSnapshot>(config.dataDir, "oauth-sessions"));
+  // Written by the `api-key` CLI subcommand; only read here
+  const apiKeyStore = new ApiKeyStore(createStorageBackend<ApiKeyStoreSnapshot>(config.dataDir, "api-keys"));
   const registrationRateLimiter = new RateLimiter(10, 60_000);
   const tokenRateLimiter = new RateLimiter(20, 60_000);
   const mcpRateLimiter = new RateLimiter(100, 60_000);
+  const adminRateLimiter = new RateLimiter(60, 60_000);
+  const identityProvider = createIdentityProvider(config);
+  // RS256/ES256 keys live in JWT_KEYS_DIR, shared with the `jwt-key` CLI subcommand
+  const accessTokenKeys = createAccessTokenKeys(config);
+  // URL client IDs are resolved from their metadata documents instead of the store
+  const clientMetadata = config.clientIdMetadataDocuments ? new ClientMetadataResolver() : undefined;
 
   // --- Discovery endpoints (no auth required) ---
   app.get("/.well-known/oauth-protected-resource", handleProtectedResource(config));
   app.get("/.well-known/oauth-authorization-server", handleMetadata(config));
+  app.get("/.well-known/jwks.json", handleJwks(accessTokenKeys));
 
   // --- OAuth 2.1 endpoints (no auth required) ---
   app.post("/oauth/register", express.json(), handleRegistration(oauthStore, registrationRateLimiter));
-  app.get("/oauth/authorize", handleAuthorizeGet(config, oauthStore, oauthSessionStore));
-  app.get("/oauth/github/callback", handleGitHubCallback(config, oauthSessionStore, oauthStore));
-  app.post("/oauth/token", express.urlencoded({ extended: false }), handleToken(config, oauthStore, tokenRateLimiter));
+  app.get("/oauth/authorize", handleAuthorizeGet(identityProvider, oauthStore, oauthSessionStore, clientMetadata));
+  app.get(identityProvider.callbackPath, handleProviderCallback(config, identityProvider, oauthSessionStore, oauthStore, accessTokenKeys));
+  app.post("/oauth/consent", express.urlencoded({ extended: false }), handleConsent(oauthStore, oauthSessionStore));
+  app.get("/oauth/consents", handleConsentsGet(identityProvider, oauthSessionStore));
+  app.post("/oauth/consents", express.urlencoded({ extended: false }), handleRevokeConsent(oauthStore, oauthSessionStore));
+  app.post("/oauth/token", express.urlencoded({ extended: false }), handleToken(config, oauthStore, tokenRateLimiter, identityProvider, accessTokenKeys, clientMetadata));
+  app.post("/oauth/revoke", express.urlencoded({ extended: false }), handleRevoke(accessTokenKeys, oauthStore, tokenRateLimiter, clientMetadata));
+  app.post("/oauth/introspect", express.urlencoded({ extended: false }), handleIntrospect(accessTokenKeys, oauthStore, tokenRateLimiter, clientMetadata));
 
   // Auth + rate limiting middleware for all /mcp routes
-  app.use("/mcp", jwtAuth(config.jwtSecret, config.serverUrl));
+  app.use("/mcp", jwtAuth(accessTokenKeys, config.serverUrl, oauthStore, apiKeyStore, config.allowedUsers));
   app.use("/mcp", rateLimitMiddleware(mcpRateLimiter));
 
   // Health check endpoint (no auth required)
@@ -94,8 +210,47 @@ export async function startHttpServer(
     res.json({ status: "ok" });
   });
 
-  // Track transports by session ID for stateful mode
+  // Track transports by session ID for stateful mode. Their metadata is
+  // persisted so that sessions survive a restart (see findSession).
   const sessions = new Map<string, SessionEntry>();
+  const restoring = new Map<string, Promise<SessionEntry | undefined>>();
+  const mcpSessionStore = new McpSessionStore(SESSION_TTL_MS, createStorageBackend<McpSessionSnapshot>(config.dataDir, "mcp-sessions"));
+  let shuttingDown = false;
+
+  // --- Admin dashboard (only when ADMIN_USERS is set) ---
+  if (config.adminUsers.length > 0) {
+    const sessionControl: McpSessionControl = {
+      list: () => [...sessions].map(([sessionId, entry]) => ({
+        sessionId,
+        clientId: entry.clientId,
+        user: entry.user,
+        createdAt: entry.createdAt,
+        lastActivity: entry.lastActivity,
+      })),
+      terminate: async (sessionId) => {
+        const entry = sessions.get(sessionId);
+        if (!entry) return false;
+        await entry.transport.close();
+        sessions.delete(sessionId);
+        return true;
+      },
+    };
+
+    app.get("/admin", handleAdminDashboard());
+    app.get("/admin/login", handleAdminLogin(identityProvider, oauthSessionStore));
+    app.use("/admin/api", jwtAuth(accessTokenKeys, config.serverUrl, oauthStore, apiKeyStore, config.allowedUsers));
+    app.use("/admin/api", rateLimitMiddleware(adminRateLimiter));
+    app.use("/admin/api", requireAdmin(config));
+    app.get("/admin/api/clients", handleListClients(oauthStore, sessionControl));
+    app.delete("/admin/api/clients/:clientId", handleDeleteClient(config, oauthStore, sessionControl));
+    app.get("/admin/api/sessions", handleListSessions(sessionControl));
+    app.delete("/admin/api/sessions/:sessionId", handleTerminateSession(sessionControl));
+    app.get("/admin/api/tokens", handleListTokens(oauthStore));
+    app.delete("/admin/api/tokens/:tokenId", handleRevokeToken(oauthStore));
+    app.get("/admin/api/consents", handleListConsents(oauthStore));
+    app.delete("/admin/api/consents/:user/:clientId", handleDeleteConsent(oauthStore));
+    app.get("/admin/api/audit", handleQueryAuditLog());
+  }
 
   // Periodically clean up idle sessions + expired OAuth entries
   const cleanupInterval = setInterval(() => {
@@ -108,83 +263,175 @@ export async function startHttpServer(
         logger.info("Expired idle session", { sessionId: sid });
       }
     }
+    mcpSessionStore.cleanup();
     oauthStore.cleanup();
     oauthSessionStore.cleanup();
     registrationRateLimiter.cleanup();
     tokenRateLimiter.cleanup();
     mcpRateLimiter.cleanup();
-  }, 60_000);
-
-  // Handle POST requests to /mcp (main MCP endpoint)
-  app.post("/mcp", express.json(), async (req, res) => {
-    const sessionId = req.headers["mcp-session-id"] as string | undefined;
-
-    // If we have an existing session, route to that transport
-    if (sessionId && sessions.has(sessionId)) {
-      const entry = sessions.get(sessionId)!;
-      entry.lastActivity = Date.now();
-      await entry.transport.handleRequest(req, res, req.body);
-      return;
-    }
-
-    // Enforce session limit
-    if (sessions.size >= config.maxSessions) {
-      logger.warn("Session limit reached", { current: sessions.size, max: config.maxSessions });
-      res.status(503).json({ error: "Too many active sessions" });
-      return;
+    adminRateLimiter.cleanup();
+    if (accessTokenKeys instanceof KeyDirectory) {
+      try {
+        if (config.jwtKeyRotationDays > 0) {
+          accessTokenKeys.rotateIfOlderThan(config.jwtKeyRotationDays * 24 * 60 * 60 * 1000);
+        }
+        accessTokenKeys.prune();
+      } catch (error) {
+        logger.error("Signing key maintenance failed", { error: getErrorMessage(error) });
+      }
     }
+  }, 60_000);
 
-    // New session: create a new transport and a dedicated McpServer
+  /**
+   * Create a transport and a dedicated McpServer. A new session is
+   * initialized by the request the caller passes to `handleExpressRequest`. A
+   * session restored after a restart gets its old ID and is initialized here
+   * by replaying the client's original initialize request.
+   */
+  async function createSession(req: Request, restore?: { sessionId: string; session: PersistedMcpSession }) {
     const mcpServer = await createMcpServer();
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: () => crypto.randomUUID(),
+    const clientId = req.auth?.clientId;
+    const user = getRequestUser({ authInfo: req.auth });
+    const transport = new SessionTransport({
+      sessionIdGenerator: () => restore?.sessionId ?? crypto.randomUUID(),
+      eventStore: new BoundedEventStore(),
       onsessioninitialized: (newSessionId) => {
-        sessions.set(newSessionId, { transport, server: mcpServer, lastActivity: Date.now() });
-        logger.info("New MCP session initialized", {
-          sessionId: newSessionId,
-        });
+        const now = Date.now();
+        const createdAt = restore?.session.createdAt ?? now;
+        sessions.set(newSessionId, { transport, server: mcpServer, clientId, user, createdAt, lastActivity: now });
+        if (restore) {
+          mcpSessionStore.touch(newSessionId, now);
+          logger.info("MCP session restored", { sessionId: newSessionId, user, clientId });
+          return;
+        }
+        const initializeParams = findInitializeParams(req.body);
+        if (initializeParams) {
+          mcpSessionStore.save(newSessionId, { clientId, user, createdAt, lastActivity: now, initializeParams });
+        }
+        logger.info("New MCP session initialized", { sessionId: newSessionId, user, clientId });
       },
     });
 
+    // Closing the server closes the transport again, which calls this again
+    let closed = false;
     transport.onclose = () => {
+      if (closed) return;
+      closed = true;
       const sid = transport.sessionId;
       if (sid) {
         sessions.delete(sid);
+        // On shutdown the session is kept so the client can resume it after the restart
+        if (!shuttingDown) mcpSessionStore.delete(sid);
         logger.info("MCP session closed", { sessionId: sid });
       }
       mcpServer.close().catch(() => {});
     };
 
     await mcpServer.connect(transport);
-    await transport.handleRequest(req, res, req.body);
-  });
+    if (restore) {
+      await replayInitialize(transport, restore.session.initializeParams);
+    }
+    return transport;
+  }
 
-  // Handle GET requests for SSE streams
-  app.get("/mcp", async (req, res) => {
+  /**
+   * Find the live session for the request's `mcp-session-id`, restoring it
+   * from the persisted metadata when the server has restarted since. Only
+   * the user and client that initialized the session may restore it.
+   */
+  async function findSession(req: Request): Promise<SessionEntry | undefined> {
     const sessionId = req.headers["mcp-session-id"] as string | undefined;
-    if (!sessionId || !sessions.has(sessionId)) {
-      res.status(400).json({ error: "Invalid or missing session ID" });
-      return;
+    if (!sessionId) return undefined;
+    const live = sessions.get(sessionId);
+    if (live) return live;
+
+    const pending = restoring.get(sessionId);
+    if (pending) return pending;
+    const persisted = mcpSessionStore.get(sessionId);
+    if (!persisted) return undefined;
+    if (!isSessionOwner(persisted, req)) {
+      logger.warn("Refusing to restore MCP session for a different user or client", { sessionId });
+      return undefined;
     }
+    if (sessions.size >= config.maxSessions) {
+      logger.warn("Session limit reached", { current: sessions.size, max: config.maxSessions });
+      return undefined;
+    }
+
+    const restored = createSession(req, { sessionId, session: persisted })
+      .then(() => sessions.get(sessionId))
+      .catch((error) => {
+        logger.error("Failed to restore MCP session", { sessionId, error: getErrorMessage(error) });
+        return undefined;
+      })
+      .finally(() => restoring.delete(sessionId));
+    restoring.set(sessionId, restored);
+    return restored;
+  }
 
-    const entry = sessions.get(sessionId)!;
+  function markActive(sessionId: string, entry: SessionEntry): void {
     entry.lastActivity = Date.now();
-    await entry.transport.handleRequest(req, res);
-  });
+    mcpSessionStore.touch(sessionId, entry.lastActivity);
+  }
 
-  // Handle DELETE requests for session termination
-  app.delete("/mcp", async (req, res) => {
-    const sessionId = req.headers["mcp-session-id"] as string | undefined;
-    if (!sessionId || !sessions.has(sessionId)) {
-      res.status(400).json({ error: "Invalid or missing session ID" });
-      return;
-    }
+  if (config.sessionMode === "stateless") {
+    registerStatelessRoutes(app, createMcpServer);
+  } else {
+    // Handle POST requests to /mcp (main MCP endpoint)
+    app.post("/mcp", express.json(), async (req, res) => {
+      // If we have an existing session, route to that transport
+      const entry = await findSession(req);
+      if (entry) {
+        markActive(req.headers["mcp-session-id"] as string, entry);
+        await entry.transport.handleExpressRequest(req, res, req.body);
+        return;
+      }
 
-    const entry = sessions.get(sessionId)!;
-    await entry.transport.close();
-    sessions.delete(sessionId);
-    res.status(200).json({ status: "session terminated" });
-  });
+      // Enforce session limit
+      if (sessions.size >= config.maxSessions) {
+        logger.warn("Session limit reached", { current: sessions.size, max: config.maxSessions });
+        res.status(503).json({ error: "Too many active sessions" });
+        return;
+      }
+
+      // New session: create a new transport and a dedicated McpServer
+      const transport = await createSession(req);
+      await transport.handleExpressRequest(req, res, req.body);
+    });
+
+    // Handle GET requests for SSE streams, including resumption with Last-Event-ID
+    app.get("/mcp", async (req, res) => {
+      const entry = await findSession(req);
+      if (!entry) {
+        res.status(400).json({ error: "Invalid or missing session ID" });
+        return;
+      }
+
+      markActive(req.headers["mcp-session-id"] as string, entry);
+      await entry.transport.handleExpressRequest(req, res);
+    });
+
+    // Handle DELETE requests for session termination
+    app.delete("/mcp", async (req, res) => {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      const entry = sessionId ? sessions.get(sessionId) : undefined;
+      if (!sessionId || !entry) {
+        // A session persisted before a restart can be ended without restoring it first
+        const persisted = sessionId ? mcpSessionStore.get(sessionId) : undefined;
+        if (sessionId && persisted && isSessionOwner(persisted, req)) {
+          mcpSessionStore.delete(sessionId);
+          res.status(200).json({ status: "session terminated" });
+          return;
+        }
+        res.status(400).json({ error: "Invalid or missing session ID" });
+        return;
+      }
+
+      await entry.transport.close();
+      sessions.delete(sessionId);
+      res.status(200).json({ status: "session terminated" });
+    });
+  }
 
   const server = app.listen(config.port, () => {
     logger.info(`MCP server listening on port ${config.port}`);
@@ -193,7 +440,10 @@ export async function startHttpServer(
   return {
     close: async () => {
       clearInterval(cleanupInterval);
-      // Close all active sessions before shutting down the HTTP server
+      // Close all active sessions before shutting down the HTTP server.
+      // Their persisted metadata stays, so clients can resume after a restart.
+      shuttingDown = true;
+      mcpSessionStore.flush();
       const closePromises = [...sessions.values()].map(async (entry) => {
         await entry.transport.close().catch(() => {});
         await entry.server.close().catch(() => {});
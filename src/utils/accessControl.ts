@@ -0,0 +1,176 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import picomatch from "picomatch";
+import { z } from "zod";
+import type { Config } from "../config.js";
+import { getRequestUser, getRequestPathRestriction } from "./requestContext.js";
+import { getErrorMessage } from "./toolResponse.js";
+import type { RequestContext } from "./requestContext.js";
+
+/**
+ * - `list`: the directory may appear in listings and be used as a search root
+ *   (it is readable itself, or lies on the way to something readable)
+ * - `read`: the file may be read and appear in search results
+ * - `write`: the file may be created, modified, moved or deleted
+ */
+export type AccessMode = "list" | "read" | "write";
+
+const accessRuleSchema = z.object({
+  path: z.string().min(1),
+  access: z.enum(["read", "read-write"]),
+}).strict();
+
+const userAccessRulesSchema = z.object({
+  allow: z.array(accessRuleSchema).default([]),
+  deny: z.array(z.string().min(1)).default([]),
+}).strict();
+
+const accessControlSchema = z.object({
+  default: userAccessRulesSchema.optional(),
+  users: z.record(userAccessRulesSchema).default({}),
+}).strict();
+
+export type UserAccessRules = z.infer<typeof userAccessRulesSchema>;
+
+/** Parsed ACCESS_CONTROL_FILE. User keys are lowercase GitHub logins. */
+export interface AccessControlRules {
+  default?: UserAccessRules;
+  users: Record<string, UserAccessRules>;
+}
+
+/**
+ * Load and validate the access control file. Throws with a descriptive
+ * message on unreadable files, invalid JSON or schema violations so a broken
+ * ACL stops the server at startup instead of silently granting access.
+ */
+export function loadAccessControlFile(filePath: string): AccessControlRules {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new Error(`ACCESS_CONTROL_FILE could not be read as JSON: ${getErrorMessage(error)}`);
+  }
+
+  const result = accessControlSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`ACCESS_CONTROL_FILE is invalid at "${issue.path.join(".")}": ${issue.message}`);
+  }
+
+  const users: Record<string, UserAccessRules> = {};
+  for (const [login, rules] of Object.entries(result.data.users)) {
+    users[login.toLowerCase()] = rules;
+  }
+  return { default: result.data.default, users };
+}
+
+interface CompiledAllowRule {
+  matches: (relPath: string) => boolean;
+  /** Static directory prefix of the glob ("" when the glob starts with a wildcard). */
+  base: string;
+  writable: boolean;
+}
+
+/** Vault-relative path with forward slashes and no leading "./" ("" = vault root). */
+function toPolicyPath(relPath: string): string {
+  const normalized = path.posix.normalize(relPath.split(path.sep).join("/"));
+  return normalized === "." ? "" : normalized.replace(/\/$/, "");
+}
+
+/** "a/b/c" → ["a", "a/b", "a/b/c"] */
+function selfAndAncestors(relPath: string): string[] {
+  const segments = relPath.split("/");
+  return segments.map((_, i) => segments.slice(0, i + 1).join("/"));
+}
+
+function isSameOrInside(child: string, parent: string): boolean {
+  return parent === "" || child === parent || child.startsWith(parent + "/");
+}
+
+/**
+ * Path permissions of a single user. A path is accessible if an allow rule
+ * matches the path or one of its parent directories and no deny glob does —
+ * deny always wins, and the strongest matching allow rule decides between
+ * read and read-write. An optional `restriction` policy (an API key's paths)
+ * must allow the access as well.
+ */
+export class PathAccessPolicy {
+  private readonly allow: CompiledAllowRule[];
+  private readonly deny: Array<(relPath: string) => boolean>;
+  private readonly denyBases: string[];
+
+  /** `null` rules = unrestricted (no ACL configured or trusted local caller). */
+  constructor(
+    private readonly rules: UserAccessRules | null,
+    private readonly restriction: PathAccessPolicy | null = null,
+  ) {
+    this.allow = (rules?.allow ?? []).map((rule) => ({
+      matches: picomatch(rule.path, { dot: true }),
+      base: picomatch.scan(rule.path).base,
+      writable: rule.access === "read-write",
+    }));
+    this.deny = (rules?.deny ?? []).map((glob) => picomatch(glob, { dot: true }));
+    this.denyBases = (rules?.deny ?? []).map((glob) => picomatch.scan(glob).base);
+  }
+
+  /** Check a vault-relative path (either path separator, "." or "" for the root). */
+  can(relPath: string, mode: AccessMode): boolean {
+    if (this.restriction && !this.restriction.can(relPath, mode)) return false;
+    if (this.rules === null) return true;
+
+    const target = toPolicyPath(relPath);
+    const chain = target === "" ? [] : selfAndAncestors(target);
+    if (chain.some((p) => this.deny.some((matches) => matches(p)))) {
+      return false;
+    }
+
+    const granting = this.allow.filter((rule) => chain.some((p) => rule.matches(p)));
+    if (mode === "write") {
+      return granting.some((rule) => rule.writable);
+    }
+    if (granting.length > 0) return true;
+    if (mode === "read") return false;
+
+    // A directory is listable if it lies on the way to an allowed area
+    // ("Family" for "Family/Shared/**") or inside one whose glob only
+    // selects some entries ("Family" for "**/*.md").
+    return this.allow.some((rule) => isSameOrInside(rule.base, target) || isSameOrInside(target, rule.base));
+  }
+
+  /**
+   * Whether a whole directory tree may be written as a unit (moved). Requires
+   * write access to the directory and that no deny glob can match anything
+   * inside it — otherwise moving it would carry restricted files out from
+   * under their deny rule.
+   */
+  canWriteTree(relDir: string): boolean {
+    if (this.restriction && !this.restriction.canWriteTree(relDir)) return false;
+    if (this.rules === null) return true;
+    if (!this.can(relDir, "write")) return false;
+    const target = toPolicyPath(relDir);
+    return !this.denyBases.some((base) => isSameOrInside(base, target) || isSameOrInside(target, base));
+  }
+}
+
+const UNRESTRICTED = new PathAccessPolicy(null);
+
+/**
+ * Resolve the path policy for the caller of a tool. Without ACCESS_CONTROL_FILE,
+ * or when the request carries no authenticated user (no HTTP auth in play),
+ * access is unrestricted. Users without an entry fall back to the `default`
+ * rules and get no access at all when there are none. API keys with paths are
+ * additionally limited to those paths, even without ACCESS_CONTROL_FILE.
+ */
+export function getPathAccess(config: Config, context: RequestContext | undefined): PathAccessPolicy {
+  const user = getRequestUser(context);
+  const keyPaths = getRequestPathRestriction(context);
+  const restriction = keyPaths
+    ? new PathAccessPolicy({ allow: keyPaths.map((glob) => ({ path: glob, access: "read-write" as const })), deny: [] })
+    : null;
+
+  if (!config.accessControl || !user) {
+    return restriction ? new PathAccessPolicy(null, restriction) : UNRESTRICTED;
+  }
+  const rules = config.accessControl.users[user] ?? config.accessControl.default ?? { allow: [], deny: [] };
+  return new PathAccessPolicy(rules, restriction);
+}
@@ -0,0 +1,298 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import crypto from "node:crypto";
+import { appendFileSync, mkdirSync } from "node:fs";
+import { open } from "node:fs/promises";
+import path from "node:path";
+import readline from "node:readline";
+import type { Config } from "../config.js";
+import type { RequestContext } from "./requestContext.js";
+import { getRequestUser } from "./requestContext.js";
+import { logger } from "./logger.js";
+import { getErrorMessage } from "./toolResponse.js";
+
+/**
+ * Argument fields naming vault paths; logged as given. `heading_path` is not
+ * one: it holds heading text and is hashed.
+ */
+const PATH_FIELDS = new Set(["path", "paths", "old_path", "new_path"]);
+/** Other argument fields logged as given. Strings in any other field may be note text and are stored as a hash. */
+const PLAIN_FIELDS = new Set(["operation", "template"]);
+/** Fields keyed by frontmatter property names; every string inside them is hashed. */
+const PROPERTY_FIELDS = new Set(["rename", "set", "append"]);
+/** Plain strings longer than this are truncated. */
+const MAX_ARGUMENT_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 300;
+/** Shorter hashed arguments are left in messages, where they would match unrelated text. */
+const MIN_HIDDEN_LENGTH = 3;
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+/** One vault-modifying tool call. */
+export interface AuditToolCallEntry {
+  type: "tool_call";
+  id: string;
+  /** ISO 8601 time the call started. */
+  timestamp: string;
+  user: string | null;
+  clientId: string | null;
+  sessionId: string | null;
+  tool: string;
+  /** Tool arguments with everything but paths and plain fields hashed, and long strings truncated. */
+  arguments: unknown;
+  /** Vault paths named in the arguments, for querying. */
+  paths: string[];
+  result: "success" | "error";
+  /** First line of the tool's response, truncated. */
+  message: string;
+  durationMs: number;
+}
+
+/**
+ * Written after the debounced sync committed changes. Commits happen after
+ * the tool calls that caused them, so they are linked by call ID instead of
+ * rewriting earlier lines.
+ */
+export interface AuditCommitEntry {
+  type: "commit";
+  timestamp: string;
+  sha: string;
+  callIds: string[];
+}
+
+export type AuditEntry = AuditToolCallEntry | AuditCommitEntry;
+
+/** A tool call as returned by `queryAuditLog`, with its commit resolved. */
+export interface AuditRecord extends Omit<AuditToolCallEntry, "type"> {
+  /** Null until the change is committed, and for calls that changed nothing. */
+  commit: string | null;
+}
+
+export interface AuditQuery {
+  /** Inclusive bounds in milliseconds since the epoch. */
+  from?: number;
+  to?: number;
+  user?: string;
+  /** A file path, or a directory whose contents match too. */
+  path?: string;
+  limit: number;
+}
+
+type AuditedContext = RequestContext & { sessionId?: string };
+
+type ToolResult = { content: Array<{ type: string; text?: string }>; isError?: boolean };
+
+let auditLogFile: string | null = null;
+const currentCall = new AsyncLocalStorage<string>();
+
+/**
+ * Enable the audit log with the application config. No-op when AUDIT_LOG_FILE
+ * resolves to empty (no DATA_DIR), in which case tool calls are not logged.
+ */
+export function initAuditLog(config: Config): void {
+  auditLogFile = config.auditLogFile || null;
+  if (auditLogFile) {
+    mkdirSync(path.dirname(auditLogFile), { recursive: true, mode: 0o700 });
+    logger.info("Audit log enabled", { file: auditLogFile });
+  }
+}
+
+/** Disable the audit log. Used in tests. */
+export function stopAuditLog(): void {
+  auditLogFile = null;
+}
+
+/** Append one entry. Failures are logged and never fail the tool call. */
+function appendEntry(entry: AuditEntry): void {
+  if (auditLogFile === null) return;
+  try {
+    appendFileSync(auditLogFile, JSON.stringify(entry) + "\n", { encoding: "utf-8", mode: 0o600 });
+  } catch (error) {
+    logger.error("Failed to write audit log entry", { error: getErrorMessage(error) });
+  }
+}
+
+function hashContent(value: string): string {
+  return `sha256:${crypto.createHash("sha256").update(value).digest("hex")} (${value.length} chars)`;
+}
+
+/** Copy a value with every string in it hashed. */
+function hashStrings(value: unknown): unknown {
+  if (typeof value === "string") return hashContent(value);
+  if (Array.isArray(value)) return value.map(hashStrings);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, hashStrings(v)]));
+  }
+  return value;
+}
+
+/**
+ * Copy tool arguments for the log: paths and the plain fields kept (long
+ * ones truncated), every other string hashed, so note content, headings and
+ * property values never reach the log in clear text.
+ */
+export function redactArguments(value: unknown, key?: string): unknown {
+  if (key !== undefined && PROPERTY_FIELDS.has(key)) {
+    return hashStrings(value);
+  }
+  if (typeof value === "string") {
+    if (key === undefined || !(PATH_FIELDS.has(key) || PLAIN_FIELDS.has(key))) return hashContent(value);
+    return value.length > MAX_ARGUMENT_LENGTH ? `${value.slice(0, MAX_ARGUMENT_LENGTH)}... (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArguments(item, key));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactArguments(v, k)]));
+  }
+  return value;
+}
+
+/** Collect the values of `path`, `old_path`, `new_path` etc. anywhere in the arguments. */
+function collectPaths(value: unknown, key?: string, paths: string[] = []): string[] {
+  if (typeof value === "string") {
+    if (key !== undefined && PATH_FIELDS.has(key)) paths.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectPaths(item, key, paths);
+  } else if (value !== null && typeof value === "object") {
+    for (const [k, v] of Object.entries(value)) collectPaths(v, k, paths);
+  }
+  return paths;
+}
+
+/** The argument strings `redactArguments` hashed, found by walking both copies side by side. */
+function hashedStrings(original: unknown, redacted: unknown, found: string[] = []): string[] {
+  if (typeof original === "string") {
+    if (typeof redacted === "string" && redacted !== original && redacted.startsWith("sha256:")) found.push(original);
+  } else if (Array.isArray(original) && Array.isArray(redacted)) {
+    original.forEach((item, i) => hashedStrings(item, redacted[i], found));
+  } else if (original !== null && typeof original === "object" && redacted !== null && typeof redacted === "object") {
+    for (const [k, v] of Object.entries(original)) hashedStrings(v, (redacted as Record<string, unknown>)[k], found);
+  }
+  return found;
+}
+
+/**
+ * First line of a tool response or error, truncated. Responses may quote
+ * arguments (`edit_section` echoes its heading path), so hashed argument
+ * strings are cut out as well.
+ */
+function logMessage(text: string, hidden: string[]): string {
+  let firstLine = text.split("\n", 1)[0];
+  for (const value of hidden) {
+    if (value.trim().length >= MIN_HIDDEN_LENGTH) firstLine = firstLine.split(value).join("[redacted]");
+  }
+  return firstLine.length > MAX_MESSAGE_LENGTH ? `${firstLine.slice(0, MAX_MESSAGE_LENGTH)}...` : firstLine;
+}
+
+/**
+ * Wrap a vault-modifying tool handler so every call is written to the audit
+ * log. While the handler runs, `scheduleSync` picks up the call's ID, and
+ * the debounced sync later links it to the commit via `recordAuditCommit`.
+ */
+export function withAuditLog<Args, Extra extends AuditedContext, Result extends ToolResult>(
+  tool: string,
+  handler: (args: Args, extra: Extra) => Promise<Result>,
+): (args: Args, extra: Extra) => Promise<Result> {
+  return async (args, extra) => {
+    if (auditLogFile === null) return handler(args, extra);
+
+    const id = crypto.randomUUID();
+    const startedAt = Date.now();
+    const redacted = redactArguments(args);
+    const hidden = hashedStrings(args, redacted).sort((a, b) => b.length - a.length);
+    const entry = (result: AuditToolCallEntry["result"], message: string): AuditToolCallEntry => ({
+      type: "tool_call",
+      id,
+      timestamp: new Date(startedAt).toISOString(),
+      user: getRequestUser(extra) ?? null,
+      clientId: extra.authInfo?.clientId ?? null,
+      sessionId: extra.sessionId ?? null,
+      tool,
+      arguments: redacted,
+      paths: collectPaths(args),
+      result,
+      message: logMessage(message, hidden),
+      durationMs: Date.now() - startedAt,
+    });
+
+    try {
+      const result = await currentCall.run(id, () => handler(args, extra));
+      appendEntry(entry(result.isError ? "error" : "success", result.content.find((c) => c.type === "text")?.text ?? ""));
+      return result;
+    } catch (error) {
+      appendEntry(entry("error", getErrorMessage(error)));
+      throw error;
+    }
+  };
+}
+
+/** ID of the audited tool call running in this async context, if any. */
+export function getCurrentAuditCallId(): string | undefined {
+  return currentCall.getStore();
+}
+
+/** Record that the changes of these tool calls were committed as `sha`. */
+export function recordAuditCommit(sha: string, callIds: string[]): void {
+  if (callIds.length === 0) return;
+  appendEntry({ type: "commit", timestamp: new Date().toISOString(), sha, callIds });
+}
+
+function matchesQuery(entry: AuditToolCallEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  if (query.from !== undefined && time < query.from) return false;
+  if (query.to !== undefined && time > query.to) return false;
+  if (query.user !== undefined && entry.user !== query.user) return false;
+  if (query.path !== undefined) {
+    const dir = query.path.replace(/\/+$/, "");
+    if (!entry.paths.some((p) => p === dir || p.startsWith(`${dir}/`))) return false;
+  }
+  return true;
+}
+
+/**
+ * Read the audit log and return the newest `limit` tool calls matching the
+ * query, newest first. The file is streamed and only the newest `limit`
+ * matches are held in memory; a commit line, which always follows its calls,
+ * is applied to those of them it names. Returns an empty list when the log
+ * is disabled or missing.
+ */
+export async function queryAuditLog(query: AuditQuery): Promise<AuditRecord[]> {
+  if (auditLogFile === null) return [];
+
+  let file;
+  try {
+    file = await open(auditLogFile, "r");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  // Insertion order is file order, so the first key is the oldest match
+  const matches = new Map<string, AuditRecord>();
+  const lines = readline.createInterface({ input: file.createReadStream({ encoding: "utf-8" }), crlfDelay: Infinity });
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        continue; // a line cut short by a crash
+      }
+      if (entry.type === "commit") {
+        for (const id of entry.callIds) {
+          const match = matches.get(id);
+          if (match) match.commit = entry.sha;
+        }
+      } else if (matchesQuery(entry, query)) {
+        const { type: _type, ...record } = entry;
+        matches.set(entry.id, { ...record, commit: null });
+        if (matches.size > query.limit) matches.delete(matches.keys().next().value!);
+      }
+    }
+  } finally {
+    lines.close();
+    await file.close();
+  }
+
+  return [...matches.values()].reverse();
+}
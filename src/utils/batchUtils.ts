@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 export const MAX_BATCH_SIZE = 10;
 
 export interface BatchResult {
@@ -5,6 +7,8 @@ export interface BatchResult {
   readonly path: string;
   readonly success: boolean;
   readonly content: string;
+  /** Fields of the structured result besides `path` and `success`, e.g. the file content of a read. */
+  readonly data?: Record<string, unknown>;
 }
 
 export function validateBatchSize(count: number): string | null {
@@ -22,3 +26,30 @@ export function formatBatchResults(results: readonly BatchResult[]): string {
     )
     .join("\n\n");
 }
+
+/**
+ * Output schema of the batch-capable tools: one entry per operation, in
+ * request order, also for a single operation. `itemShape` adds the
+ * tool-specific fields; they must be optional, failed entries may lack them.
+ */
+export function batchOutputSchema(itemShape: z.ZodRawShape = {}) {
+  return {
+    results: z.array(z.object({
+      path: z.string(),
+      success: z.boolean(),
+      error: z.string().optional().describe("Why the operation failed"),
+      ...itemShape,
+    })),
+  };
+}
+
+export function structuredBatchResults(results: readonly BatchResult[]): { results: Array<Record<string, unknown>> } {
+  return {
+    results: results.map((r) => ({
+      path: r.path,
+      success: r.success,
+      ...(!r.success && { error: r.content }),
+      ...r.data,
+    })),
+  };
+}
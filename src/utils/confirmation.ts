@@ -0,0 +1,167 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import picomatch from "picomatch";
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "../config.js";
+import { logger } from "./logger.js";
+import { toolError, getErrorMessage } from "./toolResponse.js";
+
+/** Tools that modify the vault and can therefore require confirmation. */
+export const CONFIRMABLE_TOOLS = [
+  "write_file",
+  "edit_file",
+  "edit_section",
+  "append_to_note",
+  "prepend_to_note",
+  "set_properties",
+  "delete_file",
+  "rename_file",
+  "move_file",
+  "create_directory",
+  "move_directory",
+] as const;
+
+/** How long the user has to answer a confirmation request. */
+const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+/** Diff lines shown per change; the rest is summarized. */
+const MAX_DIFF_LINES = 40;
+/** Unchanged lines shown before and after a change. */
+const DIFF_CONTEXT_LINES = 2;
+
+const confirmationRuleSchema = z.object({
+  tools: z.array(z.enum(CONFIRMABLE_TOOLS)).min(1),
+  paths: z.array(z.string().min(1)).min(1).default(["**"]),
+}).strict();
+
+const confirmationPolicySchema = z.object({
+  rules: z.array(confirmationRuleSchema),
+}).strict();
+
+/** One entry of CONFIRMATION_POLICY_FILE: these tools need approval for changes to these paths. */
+export type ConfirmationRule = z.infer<typeof confirmationRuleSchema>;
+
+/**
+ * Load and validate the confirmation policy file. Like the access control
+ * file, a broken policy stops the server at startup instead of silently
+ * applying changes without asking.
+ */
+export function loadConfirmationPolicyFile(filePath: string): ConfirmationRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new Error(`CONFIRMATION_POLICY_FILE could not be read as JSON: ${getErrorMessage(error)}`);
+  }
+
+  const result = confirmationPolicySchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`CONFIRMATION_POLICY_FILE is invalid at "${issue.path.join(".")}": ${issue.message}`);
+  }
+  return result.data.rules;
+}
+
+/** Whether a rule asks for approval before `tool` changes any of `paths` (vault-relative). */
+export function requiresConfirmation(rules: ConfirmationRule[] | null, tool: string, paths: string[]): boolean {
+  if (!rules) return false;
+  const normalized = paths.map((p) => path.posix.normalize(p.split(path.sep).join("/")).replace(/\/$/, ""));
+  return rules.some((rule) =>
+    (rule.tools as readonly string[]).includes(tool) &&
+    normalized.some((p) => picomatch.isMatch(p, rule.paths, { dot: true })),
+  );
+}
+
+/**
+ * Line diff of `before` and `after`: the changed block between their common
+ * leading and trailing lines, with a little context. Good enough to review
+ * a note edit; not a minimal diff of scattered changes.
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  if (start === endA && start === endB) return [];
+
+  const contextStart = Math.max(0, start - DIFF_CONTEXT_LINES);
+  const lines = [
+    ...a.slice(contextStart, start).map((line) => ` ${line}`),
+    ...a.slice(start, endA).map((line) => `-${line}`),
+    ...b.slice(start, endB).map((line) => `+${line}`),
+    ...a.slice(endA, endA + DIFF_CONTEXT_LINES).map((line) => ` ${line}`),
+  ];
+  if (lines.length <= MAX_DIFF_LINES) return lines;
+  return [...lines.slice(0, MAX_DIFF_LINES), `... (${lines.length - MAX_DIFF_LINES} more lines)`];
+}
+
+/** A change a tool is about to make, as shown to the user. */
+export interface PendingChange {
+  /** Vault-relative paths the change touches, matched against the policy globs. */
+  paths: string[];
+  /** One line describing the change, e.g. "Delete notes/old.md". */
+  summary: string;
+  /** Content before and after the change, shown as a diff. Only read when the change needs approval. */
+  content?: () => Promise<{ before: string; after: string }>;
+}
+
+type ConfirmationContext = Pick<RequestHandlerExtra<ServerRequest, ServerNotification>, "requestId" | "signal">;
+
+async function renderChange(change: PendingChange): Promise<string> {
+  if (!change.content) return change.summary;
+  const { before, after } = await change.content();
+  const diff = diffLines(before, after);
+  return diff.length === 0 ? `${change.summary} (no changes)` : `${change.summary}\n\`\`\`diff\n${diff.join("\n")}\n\`\`\``;
+}
+
+/**
+ * Ask the user to approve the changes of a tool call through MCP elicitation
+ * when CONFIRMATION_POLICY_FILE requires it for the tool and any of their
+ * paths. Returns a tool error when approval is needed but not given (or
+ * cannot be asked for), or null when the call may proceed.
+ */
+export async function confirmChanges(
+  server: McpServer,
+  config: Config,
+  extra: ConfirmationContext,
+  tool: string,
+  changes: PendingChange[],
+): Promise<ReturnType<typeof toolError> | null> {
+  const pending = changes.filter((change) => requiresConfirmation(config.confirmationRules, tool, change.paths));
+  if (pending.length === 0) return null;
+
+  const paths = pending.flatMap((change) => change.paths).join(", ");
+  if (!server.server.getClientCapabilities()?.elicitation?.form) {
+    return toolError(
+      `Confirmation required: ${tool} on ${paths} must be approved by the user, but this client does not support ` +
+      `MCP elicitation (form mode). Use a client that supports elicitation, or ask the server administrator to ` +
+      `change CONFIRMATION_POLICY_FILE. Nothing was changed.`,
+    );
+  }
+
+  try {
+    const rendered = await Promise.all(pending.map(renderChange));
+    const result = await server.server.elicitInput(
+      {
+        message: `Approve ${tool}?\n\n${rendered.join("\n\n")}`,
+        requestedSchema: { type: "object", properties: {} },
+      },
+      { relatedRequestId: extra.requestId, signal: extra.signal, timeout: CONFIRMATION_TIMEOUT_MS },
+    );
+    if (result.action === "accept") return null;
+    logger.info("Change not confirmed", { tool, paths, action: result.action });
+    return toolError(`Change not applied: the user ${result.action === "decline" ? "declined" : "dismissed"} the confirmation of ${tool} on ${paths}.`);
+  } catch (error) {
+    const msg = getErrorMessage(error);
+    logger.warn("Confirmation request failed", { tool, paths, error: msg });
+    return toolError(`Change not applied: the confirmation of ${tool} on ${paths} failed: ${msg}`);
+  }
+}
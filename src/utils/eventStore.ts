@@ -0,0 +1,107 @@
+import crypto from "node:crypto";
+import type { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+const DEFAULT_MAX_EVENTS = 1000;
+const DEFAULT_MAX_BYTES = 4 * 1024 * 1024; // 4 MB
+
+/** Event IDs are `<stream id>_<epoch>_<sequence number>`; stream IDs may contain underscores. */
+const EVENT_ID_PATTERN = /^(.+)_([0-9a-f]{8})_(\d+)$/;
+
+interface StoredEvent {
+  streamId: StreamId;
+  sequence: number;
+  message: JSONRPCMessage;
+  size: number;
+}
+
+export interface EventStoreLimits {
+  /** Number of events kept per session, oldest dropped first. */
+  maxEvents?: number;
+  /** Total serialized size of the kept events. */
+  maxBytes?: number;
+}
+
+/**
+ * In-memory event store for one MCP session, so a client whose SSE stream
+ * drops (e.g. a phone switching networks) can reconnect with `Last-Event-ID`
+ * and receive the messages it missed. Only the most recent events are kept.
+ *
+ * Each store has a random epoch in its event IDs: after a restart the session
+ * gets a new store, and IDs the client kept from before are recognized as
+ * unknown instead of matching unrelated new events.
+ */
+export class BoundedEventStore implements EventStore {
+  private readonly epoch = crypto.randomBytes(4).toString("hex");
+  private nextSequence = 0;
+  private events = new Map<EventId, StoredEvent>();
+  private totalBytes = 0;
+  private readonly maxEvents: number;
+  private readonly maxBytes: number;
+
+  constructor(limits: EventStoreLimits = {}) {
+    this.maxEvents = limits.maxEvents ?? DEFAULT_MAX_EVENTS;
+    this.maxBytes = limits.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const sequence = this.nextSequence++;
+    const eventId = `${streamId}_${this.epoch}_${sequence}`;
+    const size = JSON.stringify(message).length;
+    this.events.set(eventId, { streamId, sequence, message, size });
+    this.totalBytes += size;
+    this.evictOldest();
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return EVENT_ID_PATTERN.exec(eventId)?.[1];
+  }
+
+  /**
+   * Send the kept events of the stream that come after `lastEventId`. When
+   * that event is no longer kept, the events between it and the oldest kept
+   * one are lost; the stream is resumed with what is left.
+   */
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const match = EVENT_ID_PATTERN.exec(lastEventId);
+    if (!match) {
+      throw new Error(`Invalid event ID: ${lastEventId}`);
+    }
+    const [, streamId, epoch, sequence] = match;
+    if (epoch !== this.epoch) {
+      logger.info("Resuming stream without replay, events are from before a restart", { streamId });
+      return streamId;
+    }
+    if (!this.events.has(lastEventId)) {
+      logger.warn("Resuming stream after dropped events", { streamId, lastEventId });
+    }
+
+    const after = parseInt(sequence, 10);
+    for (const [eventId, event] of this.events) {
+      if (event.streamId === streamId && event.sequence > after) {
+        await send(eventId, event.message);
+      }
+    }
+    return streamId;
+  }
+
+  /** For testing: number of kept events. */
+  size(): number {
+    return this.events.size;
+  }
+
+  /** Drop the oldest events until both limits hold, always keeping the newest one. */
+  private evictOldest(): void {
+    for (const [eventId, event] of this.events) {
+      if (this.events.size <= 1) break;
+      if (this.events.size <= this.maxEvents && this.totalBytes <= this.maxBytes) break;
+      this.events.delete(eventId);
+      this.totalBytes -= event.size;
+    }
+  }
+}
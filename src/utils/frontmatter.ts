@@ -0,0 +1,113 @@
+import { isMap, isScalar, isSeq, parseDocument, Scalar } from "yaml";
+import type { Document } from "yaml";
+
+/** Number of lines of the YAML frontmatter block at the top of a note (0 without one). */
+export function frontmatterLength(lines: string[]): number {
+  if (lines[0]?.trimEnd() !== "---") return 0;
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trimEnd() === "---") return i + 1;
+  }
+  return 0;
+}
+
+/** A note split into the YAML between its `---` lines (null without frontmatter) and the rest. */
+export function splitFrontmatter(content: string): { yaml: string | null; body: string } {
+  const lines = content.split("\n");
+  const length = frontmatterLength(lines);
+  if (length === 0) return { yaml: null, body: content };
+  return { yaml: lines.slice(1, length - 1).join("\n"), body: lines.slice(length).join("\n") };
+}
+
+function parseYaml(yaml: string): Document.Parsed {
+  const doc = parseDocument(yaml);
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid frontmatter: ${doc.errors[0].message.split("\n")[0]}`);
+  }
+  if (doc.contents !== null && !isMap(doc.contents)) {
+    throw new Error("Invalid frontmatter: expected key: value properties");
+  }
+  return doc;
+}
+
+/** The properties of a note's frontmatter, empty without one. Throws on invalid YAML. */
+export function parseFrontmatter(content: string): Record<string, unknown> {
+  const { yaml } = splitFrontmatter(content);
+  if (yaml === null) return {};
+  return (parseYaml(yaml).toJS() as Record<string, unknown> | null) ?? {};
+}
+
+/** The tags listed in frontmatter properties, without a leading `#`. */
+export function frontmatterTags(properties: Record<string, unknown>): string[] {
+  const tags = properties.tags;
+  const values = Array.isArray(tags) ? tags : tags === null || tags === undefined ? [] : [tags];
+  return values.map((tag) => String(tag).trim().replace(/^#/, "")).filter((tag) => tag !== "");
+}
+
+/** Changes to the frontmatter of one note, applied in the order rename, set, append, unset. */
+export interface PropertyUpdate {
+  /** Old key to new key; the property keeps its position. Missing keys are skipped. */
+  rename?: Record<string, string>;
+  /** Key to value; existing properties are replaced in place, new ones added at the end. */
+  set?: Record<string, unknown>;
+  /** Key to value(s) added to a list property, skipping values it already has. A single value becomes a list. */
+  append?: Record<string, unknown>;
+  /** Keys to remove. Missing keys are skipped. */
+  unset?: string[];
+}
+
+function scalarValue(node: unknown): unknown {
+  return isScalar(node) ? node.value : node;
+}
+
+/**
+ * Apply a property update to the frontmatter of a note and return the new
+ * content. The YAML is edited as a document, so untouched properties keep
+ * their order, formatting and comments; the body is not changed. A note
+ * without frontmatter gets one, and frontmatter left empty is removed.
+ */
+export function updateFrontmatter(content: string, update: PropertyUpdate): string {
+  const { yaml, body } = splitFrontmatter(content);
+  const doc: Document = parseYaml(yaml ?? "");
+  if (doc.contents === null) doc.contents = doc.createNode({});
+  const map = doc.contents;
+  if (!isMap(map)) throw new Error("Invalid frontmatter: expected key: value properties");
+
+  for (const [from, to] of Object.entries(update.rename ?? {})) {
+    const pair = map.items.find((item) => scalarValue(item.key) === from);
+    if (!pair || from === to) continue;
+    if (map.has(to)) throw new Error(`Cannot rename ${from} to ${to}: property already exists`);
+    // Keep the key node, and with it a comment above the property
+    if (isScalar(pair.key)) pair.key.value = to;
+    else pair.key = new Scalar(to);
+  }
+
+  for (const [key, value] of Object.entries(update.set ?? {})) {
+    map.set(key, doc.createNode(value));
+  }
+
+  for (const [key, value] of Object.entries(update.append ?? {})) {
+    const values = Array.isArray(value) ? value : [value];
+    const node = map.get(key, true);
+    if (node === undefined || node === null || (isScalar(node) && node.value === null)) {
+      map.set(key, doc.createNode(values));
+    } else if (isSeq(node)) {
+      const existing = node.items.map(scalarValue);
+      for (const item of values) {
+        if (existing.includes(item)) continue;
+        node.add(doc.createNode(item));
+        existing.push(item);
+      }
+    } else if (isScalar(node)) {
+      map.set(key, doc.createNode([node.value, ...values.filter((item) => item !== node.value)]));
+    } else {
+      throw new Error(`Cannot append to ${key}: not a list`);
+    }
+  }
+
+  for (const key of update.unset ?? []) {
+    map.delete(key);
+  }
+
+  if (map.items.length === 0) return yaml === null ? content : body;
+  return `---\n${doc.toString({ lineWidth: 0, flowCollectionPadding: false })}---\n${body}`;
+}
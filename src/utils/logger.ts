@@ -8,6 +8,7 @@ const LOG_LEVELS: Record<LogLevel, number> = {
 };
 
 let currentLevel: LogLevel = "info";
+let stderrOnly = false;
 
 export function setLogLevel(level: string): void {
   if (level in LOG_LEVELS) {
@@ -15,6 +16,14 @@ export function setLogLevel(level: string): void {
   }
 }
 
+/**
+ * Write every level to stderr. In stdio mode stdout carries the MCP
+ * protocol, so log lines there would corrupt it.
+ */
+export function setLogToStderr(enabled: boolean): void {
+  stderrOnly = enabled;
+}
+
 function shouldLog(level: LogLevel): boolean {
   return LOG_LEVELS[level] >= LOG_LEVELS[currentLevel];
 }
@@ -35,12 +44,12 @@ function formatMessage(
 export const logger = {
   debug(message: string, context?: Record<string, unknown>): void {
     if (shouldLog("debug")) {
-      console.debug(formatMessage("debug", message, context));
+      (stderrOnly ? console.error : console.debug)(formatMessage("debug", message, context));
     }
   },
   info(message: string, context?: Record<string, unknown>): void {
     if (shouldLog("info")) {
-      console.info(formatMessage("info", message, context));
+      (stderrOnly ? console.error : console.info)(formatMessage("info", message, context));
     }
   },
   warn(message: string, context?: Record<string, unknown>): void {
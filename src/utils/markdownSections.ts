@@ -0,0 +1,177 @@
+import { frontmatterLength } from "./frontmatter.js";
+
+/** What `editSection` does with the addressed section. */
+export const SECTION_OPERATIONS = ["replace", "append", "prepend", "delete", "insert_sibling", "insert_child"] as const;
+export type SectionOperation = (typeof SECTION_OPERATIONS)[number];
+
+/** Separator of the headings in a heading path ("Projects > Webapp > Open questions"). */
+export const HEADING_PATH_SEPARATOR = ">";
+
+const ATX_HEADING = /^(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^[ \t]{0,3}(`{3,}|~{3,})/;
+
+/** An ATX heading and the lines of its section. */
+export interface MarkdownSection {
+  level: number;
+  text: string;
+  /** Line of the heading (0-based). */
+  line: number;
+  /** First line after the section: the next heading of the same or a higher level, or the line count. */
+  end: number;
+  /** Index of the enclosing section in the list, null at the top level. */
+  parent: number | null;
+}
+
+/** Sections of a note split into lines. Headings in frontmatter and fenced code blocks are skipped. */
+export function parseSections(lines: string[]): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const open: number[] = [];
+  let fence: string | null = null;
+
+  for (let i = frontmatterLength(lines); i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, "");
+    const fenceMatch = FENCE.exec(line);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) fence = marker;
+      else if (marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const match = ATX_HEADING.exec(line);
+    if (!match) continue;
+    const level = match[1].length;
+    while (open.length > 0 && sections[open[open.length - 1]].level >= level) {
+      sections[open.pop()!].end = i;
+    }
+    sections.push({ level, text: match[2].trim(), line: i, end: lines.length, parent: open.length > 0 ? open[open.length - 1] : null });
+    open.push(sections.length - 1);
+  }
+  return sections;
+}
+
+/** Split "Projects > Webapp > Open questions" into its headings. */
+export function parseHeadingPath(headingPath: string): string[] {
+  return headingPath.split(HEADING_PATH_SEPARATOR).map((heading) => heading.trim().replace(/^#+\s*/, ""));
+}
+
+function outline(sections: MarkdownSection[]): string {
+  return sections.map((s) => `${"#".repeat(s.level)} ${s.text}`).join(", ") || "(none)";
+}
+
+/**
+ * The section a heading path addresses. The first heading may be at any
+ * level; each following one must be a direct subsection of the previous.
+ */
+export function findSection(sections: MarkdownSection[], headingPath: string[]): MarkdownSection {
+  if (headingPath.length === 0 || headingPath.some((heading) => heading === "")) {
+    throw new Error(`Invalid heading path: headings must be non-empty and separated by "${HEADING_PATH_SEPARATOR}"`);
+  }
+
+  let candidates = sections.map((_, i) => i).filter((i) => sections[i].text === headingPath[0]);
+  for (const heading of headingPath.slice(1)) {
+    const parents = new Set(candidates);
+    candidates = sections.map((_, i) => i).filter((i) => sections[i].text === heading && parents.has(sections[i].parent ?? -1));
+  }
+
+  const label = headingPath.join(` ${HEADING_PATH_SEPARATOR} `);
+  if (candidates.length === 0) {
+    throw new Error(`Section not found: ${label}. Headings in the note: ${outline(sections)}`);
+  }
+  if (candidates.length > 1) {
+    throw new Error(`Heading path matches ${candidates.length} sections: ${label}. Add parent headings to tell them apart`);
+  }
+  return sections[candidates[0]];
+}
+
+/** Content lines without the trailing newline, so appended text does not end up after an empty line. */
+function toLines(text: string): string[] {
+  const trimmed = text.replace(/\n+$/, "");
+  return trimmed === "" ? [] : trimmed.split("\n");
+}
+
+function isBlank(line: string | undefined): boolean {
+  return line !== undefined && line.trim() === "";
+}
+
+/**
+ * Apply a section operation to a note and return the new content. The body
+ * of a section includes its subsections; `append` adds after them and
+ * `insert_sibling` / `insert_child` add the new heading at the end of the
+ * section. `delete` removes the heading along with its body.
+ */
+export function editSection(
+  content: string,
+  headingPath: string[],
+  operation: SectionOperation,
+  text = "",
+  newHeading?: string,
+): string {
+  const trailingNewline = content.endsWith("\n");
+  const lines = (trailingNewline ? content.slice(0, -1) : content).split("\n");
+  const section = findSection(parseSections(lines), headingPath);
+  const body = toLines(text);
+  const bodyStart = section.line + 1;
+
+  // Keep a blank line between the inserted lines and a heading following them
+  const separated = (block: string[], at: number): string[] =>
+    block.length > 0 && at < lines.length && !isBlank(lines[at]) ? [...block, ""] : block;
+
+  let result: string[];
+  switch (operation) {
+    case "replace":
+      result = [...lines.slice(0, bodyStart), ...separated(body, section.end), ...lines.slice(section.end)];
+      break;
+    case "prepend":
+      result = [...lines.slice(0, bodyStart), ...body, ...lines.slice(bodyStart)];
+      break;
+    case "append": {
+      // After the last non-blank line of the section, so its spacing to the next heading is kept
+      let at = section.end;
+      while (at > bodyStart && isBlank(lines[at - 1])) at--;
+      result = [...lines.slice(0, at), ...separated(body, at), ...lines.slice(at)];
+      break;
+    }
+    case "delete":
+      result = [...lines.slice(0, section.line), ...lines.slice(section.end)];
+      break;
+    case "insert_sibling":
+    case "insert_child": {
+      const heading = newHeading?.trim();
+      if (!heading) throw new Error(`${operation} requires a heading`);
+      if (heading.includes("\n")) throw new Error("heading must be a single line");
+      const level = operation === "insert_child" ? section.level + 1 : section.level;
+      if (level > 6) throw new Error(`Cannot insert a child of a level 6 heading: ${section.text}`);
+      const block = [`${"#".repeat(level)} ${heading}`, ...body];
+      const at = section.end;
+      result = [...lines.slice(0, at), ...(isBlank(lines[at - 1]) ? [] : [""]), ...separated(block, at), ...lines.slice(at)];
+      break;
+    }
+  }
+  return result.join("\n") + (trailingNewline ? "\n" : "");
+}
+
+/**
+ * Add text at the end of a note or right after its frontmatter. With a
+ * heading path, add it at the end of that section or right below its
+ * heading instead; a single heading the note does not have yet is created
+ * at its end.
+ */
+export function insertIntoNote(content: string, position: "append" | "prepend", text: string, headingPath?: string[]): string {
+  const trailingNewline = content.endsWith("\n");
+  const lines = content === "" ? [] : (trailingNewline ? content.slice(0, -1) : content).split("\n");
+  let block = toLines(text);
+
+  if (headingPath) {
+    const missing = headingPath.length === 1 && !parseSections(lines).some((section) => section.text === headingPath[0]);
+    if (!missing) return editSection(content, headingPath, position, text);
+    block = [`## ${headingPath[0]}`, ...block];
+    if (lines.length > 0 && !isBlank(lines[lines.length - 1])) block = ["", ...block];
+    return [...lines, ...block].join("\n") + "\n";
+  }
+
+  if (position === "append") return [...lines, ...block].join("\n") + "\n";
+  const at = frontmatterLength(lines);
+  return [...lines.slice(0, at), ...block, ...lines.slice(at)].join("\n") + (trailingNewline || lines.length === 0 ? "\n" : "");
+}
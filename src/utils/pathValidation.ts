@@ -1,13 +1,26 @@
 import path from "node:path";
 import { realpath } from "node:fs/promises";
 import { HIDDEN_DIRECTORIES } from "./constants.js";
+import type { PathAccessPolicy, AccessMode } from "./accessControl.js";
+
+const ACCESS_MODE_LABELS: Record<AccessMode, string> = {
+  list: "visible",
+  read: "readable",
+  write: "writable",
+};
 
 /**
  * Resolves and validates that a given path stays within the vault directory.
  * Returns the resolved absolute path.
- * Throws if the path escapes the vault or accesses a hidden directory (.git, .claude).
+ * Throws if the path escapes the vault or accesses a hidden directory (.git, .claude),
+ * or if an access policy is given and does not grant `mode` on the path.
  */
-export function resolveVaultPath(vaultPath: string, filePath: string): string {
+export function resolveVaultPath(
+  vaultPath: string,
+  filePath: string,
+  access?: PathAccessPolicy,
+  mode: AccessMode = "read",
+): string {
   if (!filePath || filePath.trim() === "") {
     throw new PathValidationError("Path cannot be empty");
   }
@@ -35,6 +48,10 @@ export function resolveVaultPath(vaultPath: string, filePath: string): string {
     throw new PathValidationError("Access to internal metadata is not allowed");
   }
 
+  if (access && !access.can(relative, mode)) {
+    throw new PathValidationError(`Access denied: "${filePath}" is not ${ACCESS_MODE_LABELS[mode]} for this user`);
+  }
+
   return resolved;
 }
 
@@ -43,8 +60,13 @@ export function resolveVaultPath(vaultPath: string, filePath: string): string {
  * Use this for any file I/O operation (read, write, edit, delete, rename).
  * Throws if the real (symlink-resolved) path is outside the vault.
  */
-export async function resolveVaultPathSafe(vaultPath: string, filePath: string): Promise<string> {
-  const resolved = resolveVaultPath(vaultPath, filePath);
+export async function resolveVaultPathSafe(
+  vaultPath: string,
+  filePath: string,
+  access?: PathAccessPolicy,
+  mode: AccessMode = "read",
+): Promise<string> {
+  const resolved = resolveVaultPath(vaultPath, filePath, access, mode);
   const normalizedVault = path.resolve(vaultPath);
 
   // Resolve all symlinks (including intermediate directories) and verify
@@ -56,11 +78,16 @@ export async function resolveVaultPathSafe(vaultPath: string, filePath: string):
         `Symlink escape detected: "${filePath}" resolves outside the vault`,
       );
     }
+    // A symlink must not lead from an allowed area into a restricted one
+    if (access && !access.can(path.relative(normalizedVault, real), mode)) {
+      throw new PathValidationError(`Access denied: "${filePath}" links to a path that is not ${ACCESS_MODE_LABELS[mode]} for this user`);
+    }
   } catch (error) {
     if (error instanceof PathValidationError) throw error;
     // File doesn't exist yet (e.g., write_file creating a new file) —
     // walk up the directory tree to find the closest existing ancestor
-    // and verify it resolves inside the vault.
+    // and verify it resolves inside the vault, to a location the caller
+    // may access.
     let ancestor = path.dirname(resolved);
     while (ancestor !== normalizedVault) {
       try {
@@ -70,6 +97,12 @@ export async function resolveVaultPathSafe(vaultPath: string, filePath: string):
             `Symlink escape detected: ancestor of "${filePath}" resolves outside the vault`,
           );
         }
+        // The new file lands below the ancestor's real location, which a
+        // symlinked directory may place in a restricted area
+        const target = path.join(realAncestor, path.relative(ancestor, resolved));
+        if (access && !access.can(path.relative(normalizedVault, target), mode)) {
+          throw new PathValidationError(`Access denied: "${filePath}" links to a path that is not ${ACCESS_MODE_LABELS[mode]} for this user`);
+        }
         break; // Found an existing ancestor inside the vault — safe
       } catch (ancestorError) {
         if (ancestorError instanceof PathValidationError) throw ancestorError;
@@ -0,0 +1,69 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+import { getErrorMessage } from "./toolResponse.js";
+
+/** Minimum time between two progress notifications of one request. */
+const PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * The part of the SDK's per-request `extra` argument a vault scan uses: the
+ * abort signal of the request and the progress token the caller passed in
+ * `_meta`. All optional, so scans also run outside of a request.
+ */
+export type ScanContext = Partial<
+  Pick<RequestHandlerExtra<ServerRequest, ServerNotification>, "signal" | "_meta" | "sendNotification">
+>;
+
+export class ScanCancelledError extends Error {
+  constructor(message = "Request cancelled") {
+    super(message);
+    this.name = "ScanCancelledError";
+  }
+}
+
+/**
+ * Tracks a scan over vault files for one request. `advance()` is called once
+ * per file: it stops the scan by throwing `ScanCancelledError` once the
+ * request was cancelled, and sends `notifications/progress` when the caller
+ * asked for them, at most every 250 ms plus once when the last file is done.
+ */
+export class ScanProgress {
+  private done = 0;
+  private lastSent = 0;
+
+  constructor(
+    private readonly context: ScanContext | undefined,
+    private readonly total?: number,
+  ) {}
+
+  /** Throw `ScanCancelledError` when the request was cancelled. */
+  throwIfCancelled(): void {
+    if (this.context?.signal?.aborted) throw new ScanCancelledError();
+  }
+
+  /** Count one processed file. */
+  advance(): void {
+    this.throwIfCancelled();
+    this.done++;
+    const now = Date.now();
+    if (now - this.lastSent < PROGRESS_INTERVAL_MS && this.done !== this.total) return;
+    this.lastSent = now;
+    this.notify();
+  }
+
+  private notify(): void {
+    const progressToken = this.context?._meta?.progressToken;
+    const sendNotification = this.context?.sendNotification;
+    if (progressToken === undefined || !sendNotification) return;
+
+    const message = this.total === undefined ? `Scanned ${this.done} files` : `Scanned ${this.done} of ${this.total} files`;
+    // Not awaited: a slow client must not hold up the scan
+    sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress: this.done, total: this.total, message },
+    }).catch((error: unknown) => {
+      logger.debug("Failed to send progress notification", { error: getErrorMessage(error) });
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { toolError } from "./toolResponse.js";
+
+/**
+ * The part of the SDK's per-request `extra` argument that tool handlers use
+ * to find out who is calling. `authInfo` is populated from `req.auth`, which
+ * `jwtAuth` sets after verifying the access token.
+ */
+export interface RequestContext {
+  authInfo?: AuthInfo;
+}
+
+/**
+ * Build the auth info attached to `req.auth` for a verified access token or
+ * API key. `paths` limits an API key to some vault paths on top of the
+ * user's own access control rules.
+ */
+export function createAuthInfo(
+  token: string,
+  clientId: string,
+  user: string,
+  scopes: string[],
+  expiresAt: number | undefined,
+  paths: string[] | null = null,
+): AuthInfo {
+  return { token, clientId, scopes, expiresAt, extra: paths ? { user, paths } : { user } };
+}
+
+/**
+ * Return the lowercase GitHub login of the caller, or undefined when the
+ * request did not come through the authenticated HTTP transport.
+ */
+export function getRequestUser(context: RequestContext | undefined): string | undefined {
+  const user = context?.authInfo?.extra?.user;
+  return typeof user === "string" ? user : undefined;
+}
+
+/** Return the path globs an API key is restricted to, or undefined when it is not restricted. */
+export function getRequestPathRestriction(context: RequestContext | undefined): string[] | undefined {
+  const paths = context?.authInfo?.extra?.paths;
+  return Array.isArray(paths) ? paths.filter((p): p is string => typeof p === "string") : undefined;
+}
+
+/**
+ * Return a tool error when the caller's access token was not granted `scope`,
+ * or null when the call may proceed. Requests without auth info (no HTTP auth
+ * in play) are not restricted.
+ */
+export function checkScope(context: RequestContext | undefined, scope: string): ReturnType<typeof toolError> | null {
+  const authInfo = context?.authInfo;
+  if (!authInfo || authInfo.scopes.includes(scope)) return null;
+  return toolError(`Insufficient scope: this tool requires the "${scope}" scope, granted scopes: ${authInfo.scopes.join(" ") || "(none)"}`);
+}
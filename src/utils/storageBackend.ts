@@ -0,0 +1,134 @@
+import { closeSync, mkdirSync, openSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { logger } from "./logger.js";
+import { getErrorMessage } from "./toolResponse.js";
+
+/** How long `update()` waits for another process holding the lock of a storage file. */
+const LOCK_TIMEOUT_MS = 5_000;
+/** A lock held longer than this was left behind by a crashed process; holders only read and write one file. */
+const STALE_LOCK_MS = 10_000;
+const LOCK_RETRY_MS = 10;
+
+/**
+ * Synchronous snapshot storage used by the in-process stores (OAuth clients,
+ * codes, tokens, sessions). Stores keep their working set in memory and hand
+ * a full snapshot to `save()` after every mutation; `load()` is called once
+ * at construction to restore the previous state.
+ *
+ * Stores shared by several processes (replicas with a common DATA_DIR) use
+ * `update()` instead, which re-reads the latest snapshot and writes the
+ * result without another process writing in between.
+ */
+export interface StorageBackend<T> {
+  load(): T | null;
+  save(data: T): void;
+  /** Replace the stored snapshot with `fn(latest)`, atomically with respect to other `update()` calls. */
+  update(fn: (current: T | null) => T): void;
+}
+
+/** Keeps nothing across restarts. Default when no data directory is configured. */
+export class MemoryStorageBackend<T> implements StorageBackend<T> {
+  private data: T | null = null;
+
+  load(): T | null {
+    return this.data;
+  }
+
+  save(data: T): void {
+    this.data = data;
+  }
+
+  update(fn: (current: T | null) => T): void {
+    this.data = fn(this.data);
+  }
+}
+
+/**
+ * Persists snapshots as a JSON file. Writes go to a temporary file first and
+ * are renamed into place so a crash mid-write never leaves a truncated file.
+ * The file is created with mode 0600 since it may contain hashed secrets.
+ */
+export class FileStorageBackend<T> implements StorageBackend<T> {
+  constructor(private readonly filePath: string) {}
+
+  load(): T | null {
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+    try {
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      logger.error("Ignoring corrupt storage file", { file: this.filePath, error: getErrorMessage(error) });
+      return null;
+    }
+  }
+
+  save(data: T): void {
+    mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(data), { encoding: "utf-8", mode: 0o600 });
+    renameSync(tmpPath, this.filePath);
+  }
+
+  /**
+   * Read, transform and write the file while holding `<file>.lock`, created
+   * exclusively so that only one process at a time gets past it. The lock is
+   * held for a read and a write only, so waiting is a short busy sleep.
+   */
+  update(fn: (current: T | null) => T): void {
+    mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const lockPath = `${this.filePath}.lock`;
+    this.acquireLock(lockPath);
+    try {
+      this.save(fn(this.load()));
+    } finally {
+      try {
+        unlinkSync(lockPath);
+      } catch {
+        // Taken over as stale; nothing left to release
+      }
+    }
+  }
+
+  private acquireLock(lockPath: string): void {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        closeSync(openSync(lockPath, "wx", 0o600));
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+      try {
+        if (Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+          logger.warn("Removing stale storage lock", { file: lockPath });
+          unlinkSync(lockPath);
+          continue;
+        }
+      } catch (error) {
+        // Released between the checks
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+        throw error;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the storage lock ${lockPath}`);
+      }
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+    }
+  }
+}
+
+/**
+ * Create the backend for a named store: file-backed inside `dataDir` when a
+ * data directory is configured, in-memory otherwise.
+ */
+export function createStorageBackend<T>(dataDir: string, name: string): StorageBackend<T> {
+  if (!dataDir) {
+    return new MemoryStorageBackend<T>();
+  }
+  return new FileStorageBackend<T>(path.join(dataDir, `${name}.json`));
+}
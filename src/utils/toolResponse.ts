@@ -21,8 +21,12 @@ export function toolError(message: string) {
   return { content: [{ type: "text" as const, text: sanitizeErrorForClient(message) }], isError: true };
 }
 
-export function toolSuccess(text: string) {
-  return { content: [{ type: "text" as const, text }] };
+/**
+ * A successful tool result: `text` for the model and `structuredContent`
+ * matching the tool's `outputSchema` for programmatic clients.
+ */
+export function toolSuccess(text: string, structuredContent: Record<string, unknown>) {
+  return { content: [{ type: "text" as const, text }], structuredContent };
 }
 
 export function getErrorMessage(error: unknown): string {
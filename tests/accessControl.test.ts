@@ -0,0 +1,337 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, writeFile, rm, realpath, mkdtemp, symlink } from "node:fs/promises";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import os from "node:os";
+import path from "node:path";
+import type { Server } from "node:http";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  PathAccessPolicy,
+  loadAccessControlFile,
+  getPathAccess,
+} from "../src/utils/accessControl.js";
+import type { AccessControlRules } from "../src/utils/accessControl.js";
+import { resolveVaultPath, resolveVaultPathSafe, PathValidationError } from "../src/utils/pathValidation.js";
+import { createAuthInfo } from "../src/utils/requestContext.js";
+import { SUPPORTED_SCOPES } from "../src/oauth/scopes.js";
+import { createMcpServer } from "../src/server.js";
+import { initDebouncedSync, stopDebouncedSync } from "../src/git/debouncedSync.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { startMcpTestServer, initTestGitRepo } from "./helpers/mcpTestServer.js";
+
+const execFileAsync = promisify(execFile);
+
+const FAMILY_ACL: AccessControlRules = {
+  default: { allow: [{ path: "Shared/**", access: "read" }], deny: [] },
+  users: {
+    alice: {
+      allow: [{ path: "**", access: "read-write" }],
+      deny: ["Private/Bob/**"],
+    },
+    kid: {
+      allow: [
+        { path: "Shared/**", access: "read" },
+        { path: "Family/Kid", access: "read-write" },
+        { path: "Recipes/**/*.md", access: "read" },
+      ],
+      deny: ["Shared/Finances/**"],
+    },
+  },
+};
+
+function policyFor(user: string): PathAccessPolicy {
+  return getPathAccess(
+    createTestConfig({ accessControl: FAMILY_ACL }),
+    { authInfo: createAuthInfo("token", "client", user, [...SUPPORTED_SCOPES], undefined) },
+  );
+}
+
+describe("PathAccessPolicy", () => {
+  it("grants everything when unrestricted", () => {
+    const policy = new PathAccessPolicy(null);
+    expect(policy.can("Private/Bob/diary.md", "write")).toBe(true);
+    expect(policy.canWriteTree("Private")).toBe(true);
+  });
+
+  it("applies allow rules to the matched directory and everything below it", () => {
+    const kid = policyFor("kid");
+    expect(kid.can("Family/Kid", "write")).toBe(true);
+    expect(kid.can("Family/Kid/homework/math.md", "write")).toBe(true);
+    expect(kid.can("Shared/groceries.md", "read")).toBe(true);
+    expect(kid.can("Shared/groceries.md", "write")).toBe(false);
+  });
+
+  it("lets deny globs win over allow rules", () => {
+    expect(policyFor("kid").can("Shared/Finances/taxes.md", "read")).toBe(false);
+    expect(policyFor("kid").can("Shared/Finances", "list")).toBe(false);
+    expect(policyFor("alice").can("Private/Bob/diary.md", "read")).toBe(false);
+    expect(policyFor("alice").can("Private/Alice/diary.md", "write")).toBe(true);
+  });
+
+  it("makes directories on the way to an allowed area listable but not readable", () => {
+    const kid = policyFor("kid");
+    expect(kid.can("", "list")).toBe(true);
+    expect(kid.can(".", "list")).toBe(true);
+    expect(kid.can("Family", "list")).toBe(true);
+    expect(kid.can("Family", "read")).toBe(false);
+    expect(kid.can("Family/Mom", "list")).toBe(false);
+    expect(kid.can("Private", "list")).toBe(false);
+  });
+
+  it("matches file globs inside a listable directory", () => {
+    const kid = policyFor("kid");
+    expect(kid.can("Recipes/Cakes", "list")).toBe(true);
+    expect(kid.can("Recipes/Cakes/cheesecake.md", "read")).toBe(true);
+    expect(kid.can("Recipes/Cakes/photo.png", "read")).toBe(false);
+  });
+
+  it("accepts platform path separators", () => {
+    expect(policyFor("kid").can(path.join("Family", "Kid", "a.md"), "write")).toBe(true);
+  });
+
+  it("refuses tree writes for directories that contain denied paths", () => {
+    const alice = policyFor("alice");
+    expect(alice.canWriteTree("Private")).toBe(false);
+    expect(alice.canWriteTree("Private/Bob")).toBe(false);
+    expect(alice.canWriteTree("Private/Alice")).toBe(true);
+  });
+});
+
+describe("getPathAccess", () => {
+  it("is unrestricted without an ACL", () => {
+    const policy = getPathAccess(createTestConfig(), { authInfo: createAuthInfo("t", "c", "kid", [...SUPPORTED_SCOPES], undefined) });
+    expect(policy.can("Private/Bob/diary.md", "write")).toBe(true);
+  });
+
+  it("is unrestricted for requests without an authenticated user", () => {
+    const policy = getPathAccess(createTestConfig({ accessControl: FAMILY_ACL }), undefined);
+    expect(policy.can("Private/Bob/diary.md", "write")).toBe(true);
+  });
+
+  it("falls back to the default rules for users without an entry", () => {
+    const policy = policyFor("guest");
+    expect(policy.can("Shared/groceries.md", "read")).toBe(true);
+    expect(policy.can("Family/Kid/a.md", "read")).toBe(false);
+  });
+
+  it("denies everything to unlisted users when there is no default", () => {
+    const config = createTestConfig({ accessControl: { users: FAMILY_ACL.users } });
+    const policy = getPathAccess(config, { authInfo: createAuthInfo("t", "c", "guest", [...SUPPORTED_SCOPES], undefined) });
+    expect(policy.can("", "list")).toBe(false);
+    expect(policy.can("Shared/groceries.md", "read")).toBe(false);
+  });
+});
+
+describe("loadAccessControlFile", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "acl-test-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads rules, lowercases user names and fills in defaults", async () => {
+    const file = path.join(dir, "acl.json");
+    await writeFile(file, JSON.stringify({ users: { Alice: { allow: [{ path: "**", access: "read" }] } } }));
+    expect(loadAccessControlFile(file)).toEqual({
+      default: undefined,
+      users: { alice: { allow: [{ path: "**", access: "read" }], deny: [] } },
+    });
+  });
+
+  it("rejects invalid JSON", async () => {
+    const file = path.join(dir, "broken.json");
+    await writeFile(file, "{ users:");
+    expect(() => loadAccessControlFile(file)).toThrow(/could not be read as JSON/);
+  });
+
+  it("rejects unknown access levels with the offending location", async () => {
+    const file = path.join(dir, "bad-access.json");
+    await writeFile(file, JSON.stringify({ users: { alice: { allow: [{ path: "**", access: "admin" }] } } }));
+    expect(() => loadAccessControlFile(file)).toThrow(/users\.alice\.allow\.0\.access/);
+  });
+
+  it("rejects unknown keys to catch typos", async () => {
+    const file = path.join(dir, "typo.json");
+    await writeFile(file, JSON.stringify({ users: { alice: { alow: [] } } }));
+    expect(() => loadAccessControlFile(file)).toThrow(/is invalid at "users\.alice"/);
+  });
+
+  it("fails for a missing file", () => {
+    expect(() => loadAccessControlFile(path.join(dir, "missing.json"))).toThrow(/ACCESS_CONTROL_FILE/);
+  });
+});
+
+describe("resolveVaultPath with an access policy", () => {
+  it("rejects paths the policy does not grant for the requested mode", () => {
+    const kid = policyFor("kid");
+    expect(() => resolveVaultPath("/vault", "Shared/groceries.md", kid, "write")).toThrow(/Access denied/);
+    expect(() => resolveVaultPath("/vault", "Private/x.md", kid)).toThrow(PathValidationError);
+    expect(resolveVaultPath("/vault", "Shared/groceries.md", kid)).toBe("/vault/Shared/groceries.md");
+    expect(resolveVaultPath("/vault", ".", kid, "list")).toBe("/vault");
+  });
+
+  it("rejects symlinks from an allowed area into a restricted one", async () => {
+    const vault = await realpath(await mkdtemp(path.join(os.tmpdir(), "acl-link-")));
+    try {
+      await mkdir(path.join(vault, "Shared"), { recursive: true });
+      await mkdir(path.join(vault, "Private"), { recursive: true });
+      await writeFile(path.join(vault, "Private", "secret.md"), "secret");
+      await symlink(path.join(vault, "Private", "secret.md"), path.join(vault, "Shared", "link.md"));
+
+      await expect(resolveVaultPathSafe(vault, "Shared/link.md", policyFor("kid"))).rejects.toThrow(/links to a path/);
+    } finally {
+      await rm(vault, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects new files below a symlinked directory that leads into a restricted one", async () => {
+    const vault = await realpath(await mkdtemp(path.join(os.tmpdir(), "acl-link-")));
+    try {
+      await mkdir(path.join(vault, "Family", "Kid"), { recursive: true });
+      await mkdir(path.join(vault, "Family", "Mom"), { recursive: true });
+      await symlink(path.join(vault, "Family", "Mom"), path.join(vault, "Family", "Kid", "mom"));
+      const kid = policyFor("kid");
+
+      await expect(resolveVaultPathSafe(vault, "Family/Kid/mom/new.md", kid, "write")).rejects.toThrow(/links to a path/);
+      await expect(resolveVaultPathSafe(vault, "Family/Kid/mom/sub/new.md", kid, "write")).rejects.toThrow(/links to a path/);
+      expect(await resolveVaultPathSafe(vault, "Family/Kid/sub/new.md", kid, "write")).toBe(path.join(vault, "Family", "Kid", "sub", "new.md"));
+    } finally {
+      await rm(vault, { recursive: true, force: true });
+    }
+  });
+});
+
+// --- Integration Tests: ACLs enforced by the MCP tools ---
+
+describe("Integration: per-user access control", () => {
+  const VAULT_DIR = "/tmp/test-vault-acl";
+  let client: Client;
+  let httpServer: Server;
+
+  function getText(result: Awaited<ReturnType<Client["callTool"]>>): string {
+    return (result.content as Array<{ type: string; text: string }>)[0].text;
+  }
+
+  beforeAll(async () => {
+    await mkdir(VAULT_DIR, { recursive: true });
+    const resolvedVault = await realpath(VAULT_DIR);
+
+    await mkdir(path.join(resolvedVault, "Shared", "Finances"), { recursive: true });
+    await mkdir(path.join(resolvedVault, "Family", "Kid"), { recursive: true });
+    await mkdir(path.join(resolvedVault, "Family", "Mom"), { recursive: true });
+    await mkdir(path.join(resolvedVault, "Private"), { recursive: true });
+    await writeFile(path.join(resolvedVault, "Shared", "groceries.md"), "Milk #shopping\nsecret-word\n");
+    await writeFile(path.join(resolvedVault, "Shared", "Finances", "taxes.md"), "secret-word #money [[diary]]\n");
+    await writeFile(path.join(resolvedVault, "Family", "Kid", "homework.md"), "Math [[groceries]]\n");
+    await writeFile(path.join(resolvedVault, "Family", "Mom", "notes.md"), "secret-word #mom\n");
+    await writeFile(path.join(resolvedVault, "Private", "diary.md"), "secret-word #private [[groceries]]\n");
+    await initTestGitRepo(resolvedVault);
+
+    const config = createTestConfig({ vaultPath: resolvedVault, accessControl: FAMILY_ACL });
+    initDebouncedSync(config);
+    const mcpServer = await createMcpServer(config);
+    const testServer = await startMcpTestServer(mcpServer, createAuthInfo("token", "client", "kid", [...SUPPORTED_SCOPES], undefined));
+    client = testServer.client;
+    httpServer = testServer.httpServer;
+  });
+
+  afterAll(async () => {
+    stopDebouncedSync();
+    await client?.close();
+    httpServer?.close();
+    await rm(VAULT_DIR, { recursive: true, force: true });
+  });
+
+  it("list_directory hides restricted folders and files", async () => {
+    const result = await client.callTool({ name: "list_directory", arguments: { path: ".", recursive: true } });
+    const text = getText(result);
+    expect(text).toContain("Shared/groceries.md");
+    expect(text).toContain("Family/Kid/homework.md");
+    expect(text).not.toContain("Private");
+    expect(text).not.toContain("Mom");
+    expect(text).not.toContain("Finances");
+  });
+
+  it("list_directory rejects a restricted directory", async () => {
+    const result = await client.callTool({ name: "list_directory", arguments: { path: "Private" } });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toContain("Access denied");
+  });
+
+  it("grep only returns matches from readable files", async () => {
+    const result = await client.callTool({ name: "grep", arguments: { query: "secret-word" } });
+    const text = getText(result);
+    expect(text).toContain("Shared/groceries.md");
+    expect(text.split("\n")).toHaveLength(1);
+  });
+
+  it("find_files only returns readable files", async () => {
+    const result = await client.callTool({ name: "find_files", arguments: { name: "**/*.md" } });
+    const files = getText(result).split("\n").map((line) => line.split("  ")[0]);
+    expect(files.sort()).toEqual(["Family/Kid/homework.md", "Shared/groceries.md"]);
+  });
+
+  it("get_tags ignores restricted notes", async () => {
+    const text = getText(await client.callTool({ name: "get_tags", arguments: {} }));
+    expect(text).toContain("#shopping");
+    expect(text).not.toContain("#money");
+    expect(text).not.toContain("#mom");
+    expect(text).not.toContain("#private");
+  });
+
+  it("get_backlinks does not reveal restricted linking notes", async () => {
+    const text = getText(await client.callTool({ name: "get_backlinks", arguments: { path: "Shared/groceries.md" } }));
+    expect(text).toContain("Family/Kid/homework.md");
+    expect(text).not.toContain("Private/diary.md");
+  });
+
+  it("read_file rejects restricted files", async () => {
+    const result = await client.callTool({ name: "read_file", arguments: { path: "Private/diary.md" } });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toContain("Access denied");
+  });
+
+  it("write_file requires read-write access", async () => {
+    const readOnly = await client.callTool({
+      name: "write_file",
+      arguments: { path: "Shared/new.md", content: "x" },
+    });
+    expect(readOnly.isError).toBe(true);
+    expect(getText(readOnly)).toContain("not writable");
+
+    const writable = await client.callTool({
+      name: "write_file",
+      arguments: { path: "Family/Kid/new.md", content: "x" },
+    });
+    expect(writable.isError).toBeFalsy();
+  });
+
+  it("get_vault_info only counts visible content", async () => {
+    const text = getText(await client.callTool({ name: "get_vault_info", arguments: {} }));
+    expect(text).toContain("Top-level folders:");
+    expect(text).not.toContain("Private");
+    // groceries.md, homework.md and the note written above
+    expect(text).toContain("Markdown files: 3\n");
+  });
+
+  it("get_recent_changes needs read access to both paths of a rename", async () => {
+    const vault = await realpath(VAULT_DIR);
+    const run = (...args: string[]) => execFileAsync("git", args, { cwd: vault });
+    await run("mv", "Private/diary.md", "Shared/diary.md");
+    await run("commit", "-m", "Move diary");
+    await run("mv", "Shared/groceries.md", "Shared/shopping.md");
+    await run("commit", "-m", "Rename groceries");
+
+    const result = await client.callTool({ name: "get_recent_changes", arguments: { count: 2 } });
+    const { commits } = result.structuredContent as { commits: Array<{ message: string; files: Array<{ path: string; status: string }> }> };
+    expect(commits).toEqual([
+      { date: expect.any(String), message: "Rename groceries", files: [{ path: "Shared/shopping.md", status: "renamed", diff: [] }] },
+    ]);
+    expect(getText(result)).not.toContain("diary");
+  });
+});
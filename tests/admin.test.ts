@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import express from "express";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  requireAdmin,
+  handleListClients,
+  handleDeleteClient,
+  handleListSessions,
+  handleTerminateSession,
+  handleListTokens,
+  handleRevokeToken,
+  handleListConsents,
+  handleDeleteConsent,
+} from "../src/admin/adminApi.js";
+import type { McpSessionControl, McpSessionInfo } from "../src/admin/adminApi.js";
+import { handleAdminDashboard, handleAdminLogin } from "../src/admin/dashboard.js";
+import { jwtAuth } from "../src/auth.js";
+import { handleProviderCallback } from "../src/oauth/callback.js";
+import { GitHubProvider } from "../src/oauth/githubProvider.js";
+import { OAuthSessionStore } from "../src/oauth/sessionStore.js";
+import { OAuthStore } from "../src/oauth/store.js";
+import type { OAuthStoreSnapshot } from "../src/oauth/store.js";
+import { ApiKeyStore } from "../src/oauth/apiKeyStore.js";
+import { SharedSecretKeys } from "../src/oauth/signingKeys.js";
+import { createAccessToken, verifyAccessToken } from "../src/oauth/jwt.js";
+import { DEFAULT_SCOPES, SUPPORTED_SCOPES } from "../src/oauth/scopes.js";
+import { MemoryStorageBackend } from "../src/utils/storageBackend.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { installGitHubMock, uninstallGitHubMock, resetGitHubMock, setMockGitHubUserResponse } from "./helpers/mockGitHub.js";
+
+const testConfig = createTestConfig({ adminUsers: ["admin"], allowedUsers: ["admin"] });
+const keys = new SharedSecretKeys(testConfig.jwtSecret);
+
+function registerClient(store: OAuthStore, clientName: string) {
+  return store.registerClient({
+    clientName,
+    redirectUris: ["https://claude.ai/oauth/callback"],
+    grantTypes: ["authorization_code", "refresh_token"],
+    responseTypes: ["code"],
+    tokenEndpointAuthMethod: "none",
+  });
+}
+
+describe("Admin API", () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  const store = new OAuthStore();
+  const liveSessions = new Map<string, McpSessionInfo>();
+  const sessionControl: McpSessionControl = {
+    list: () => [...liveSessions.values()],
+    terminate: async (sessionId) => liveSessions.delete(sessionId),
+  };
+  const adminToken = createAccessToken("admin-client", "admin", SUPPORTED_SCOPES, keys, 3600);
+  const userToken = createAccessToken("user-client", "alice", SUPPORTED_SCOPES, keys, 3600);
+  const apiKeyStore = new ApiKeyStore();
+
+  beforeAll(() => {
+    const app = express();
+    app.get("/admin", handleAdminDashboard());
+    app.use("/admin/api", jwtAuth(keys, testConfig.serverUrl, store, apiKeyStore, testConfig.allowedUsers));
+    app.use("/admin/api", requireAdmin(testConfig));
+    app.get("/admin/api/clients", handleListClients(store, sessionControl));
+    app.delete("/admin/api/clients/:clientId", handleDeleteClient(testConfig, store, sessionControl));
+    app.get("/admin/api/sessions", handleListSessions(sessionControl));
+    app.delete("/admin/api/sessions/:sessionId", handleTerminateSession(sessionControl));
+    app.get("/admin/api/tokens", handleListTokens(store));
+    app.delete("/admin/api/tokens/:tokenId", handleRevokeToken(store));
+    app.get("/admin/api/consents", handleListConsents(store));
+    app.delete("/admin/api/consents/:user/:clientId", handleDeleteConsent(store));
+    app.use("/mcp", jwtAuth(keys, testConfig.serverUrl, store, new ApiKeyStore(), testConfig.allowedUsers));
+    app.post("/mcp", (_req, res) => {
+      res.json({ ok: true });
+    });
+
+    httpServer = app.listen(0);
+    baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    httpServer?.close();
+  });
+
+  function adminFetch(path: string, method = "GET", token = adminToken): Promise<Response> {
+    return fetch(`${baseUrl}/admin/api/${path}`, { method, headers: { Authorization: `Bearer ${token}` } });
+  }
+
+  it("requires a token", async () => {
+    const res = await fetch(`${baseUrl}/admin/api/clients`);
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects users not in ADMIN_USERS", async () => {
+    const res = await adminFetch("clients", "GET", userToken);
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toBe("forbidden");
+  });
+
+  it("rejects admin tokens without the admin scope, API keys and path-restricted keys", async () => {
+    const readOnly = createAccessToken("admin-client", "admin", DEFAULT_SCOPES, keys, 3600);
+    const scopeRes = await adminFetch("clients", "GET", readOnly);
+    expect(scopeRes.status).toBe(403);
+    expect((await scopeRes.json()).error).toBe("insufficient_scope");
+
+    const params = { subject: "admin", scopes: [...DEFAULT_SCOPES] };
+    const { key } = apiKeyStore.create({ ...params, name: "admin-key", paths: null });
+    const { key: narrowKey } = apiKeyStore.create({ ...params, name: "admin-narrow-key", paths: ["Inbox/**"] });
+    for (const token of [key, narrowKey]) {
+      const res = await adminFetch("clients", "GET", token);
+      expect(res.status).toBe(403);
+      expect((await res.json()).error_description).toContain("not an API key");
+    }
+  });
+
+  it("lists clients with their users and last activity", async () => {
+    const client = registerClient(store, "Listed Client");
+    store.createRefreshToken(client.clientId, "alice", ["vault:read"], 3600);
+    liveSessions.set("s-listed", { sessionId: "s-listed", clientId: client.clientId, user: "bob", createdAt: Date.now(), lastActivity: Date.now() });
+
+    const res = await adminFetch("clients");
+    expect(res.status).toBe(200);
+    const { clients } = await res.json();
+    const listed = clients.find((c: { clientId: string }) => c.clientId === client.clientId);
+    expect(listed).toMatchObject({
+      clientName: "Listed Client",
+      lastUser: "alice",
+      users: ["alice", "bob"],
+      refreshTokens: 1,
+      sessions: 1,
+    });
+    expect(listed.lastActivity).toBeGreaterThanOrEqual(listed.registeredAt);
+    liveSessions.delete("s-listed");
+  });
+
+  it("lists refresh tokens without secrets", async () => {
+    const client = registerClient(store, "Token Client");
+    store.createRefreshToken(client.clientId, "carol", ["vault:read"], 3600, "sealed-provider-token");
+
+    const { tokens } = await (await adminFetch("tokens")).json();
+    const listed = tokens.find((t: { clientId: string }) => t.clientId === client.clientId);
+    expect(listed).toMatchObject({ subject: "carol", clientName: "Token Client", scopes: ["vault:read"] });
+    expect(listed.id).toMatch(/^[0-9a-f]{64}$/);
+    expect(listed.issuedAt).toBeTypeOf("number");
+    expect(JSON.stringify(tokens)).not.toContain("sealed-provider-token");
+  });
+
+  it("revokes a refresh token by id", async () => {
+    const client = registerClient(store, "Revoke Token Client");
+    const refreshToken = store.createRefreshToken(client.clientId, "dave", ["vault:read"], 3600);
+    const { tokens } = await (await adminFetch("tokens")).json();
+    const { id } = tokens.find((t: { clientId: string }) => t.clientId === client.clientId);
+
+    expect((await adminFetch(`tokens/${id}`, "DELETE")).status).toBe(200);
+    expect(store.getRefreshToken(refreshToken)).toBeNull();
+    expect((await adminFetch(`tokens/${id}`, "DELETE")).status).toBe(404);
+  });
+
+  it("lists and terminates MCP sessions", async () => {
+    liveSessions.set("s-1", { sessionId: "s-1", clientId: "c", user: "alice", createdAt: 1, lastActivity: 2 });
+
+    const { sessions } = await (await adminFetch("sessions")).json();
+    expect(sessions).toEqual([{ sessionId: "s-1", clientId: "c", user: "alice", createdAt: 1, lastActivity: 2 }]);
+
+    expect((await adminFetch("sessions/s-1", "DELETE")).status).toBe(200);
+    expect(liveSessions.has("s-1")).toBe(false);
+    expect((await adminFetch("sessions/s-1", "DELETE")).status).toBe(404);
+  });
+
+  it("lists and revokes consents", async () => {
+    const client = registerClient(store, "Consented Client");
+    store.grantConsent("erin", client.clientId, ["vault:read"]);
+    const refreshToken = store.createRefreshToken(client.clientId, "erin", ["vault:read"], 3600);
+
+    const { consents } = await (await adminFetch("consents")).json();
+    expect(consents.find((c: { clientId: string }) => c.clientId === client.clientId)).toMatchObject({
+      user: "erin",
+      clientName: "Consented Client",
+      scopes: ["vault:read"],
+    });
+
+    expect((await adminFetch(`consents/Erin/${client.clientId}`, "DELETE")).status).toBe(200);
+    expect(store.hasConsent("erin", client.clientId, [])).toBe(false);
+    expect(store.getRefreshToken(refreshToken)).toBeNull();
+    expect((await adminFetch(`consents/erin/${client.clientId}`, "DELETE")).status).toBe(404);
+  });
+
+  it("revokes a client with its tokens, sessions and access tokens", async () => {
+    const client = registerClient(store, "Lost Laptop");
+    const refreshToken = store.createRefreshToken(client.clientId, "alice", ["vault:read"], 3600);
+    liveSessions.set("s-laptop", { sessionId: "s-laptop", clientId: client.clientId, user: "alice", createdAt: 1, lastActivity: 1 });
+    const accessToken = createAccessToken(client.clientId, "alice", SUPPORTED_SCOPES, keys, 3600);
+    const mcp = () => fetch(`${baseUrl}/mcp`, { method: "POST", headers: { Authorization: `Bearer ${accessToken}` } });
+    expect((await mcp()).status).toBe(200);
+
+    const res = await adminFetch(`clients/${client.clientId}`, "DELETE");
+    expect(res.status).toBe(200);
+    expect((await res.json()).sessionsClosed).toBe(1);
+
+    expect(store.getClient(client.clientId)).toBeUndefined();
+    expect(store.getRefreshToken(refreshToken)).toBeNull();
+    expect(liveSessions.has("s-laptop")).toBe(false);
+    expect((await mcp()).status).toBe(401);
+    expect((await adminFetch(`clients/${client.clientId}`, "DELETE")).status).toBe(404);
+  });
+
+  it("serves the dashboard page without data and with a restrictive CSP", async () => {
+    const res = await fetch(`${baseUrl}/admin`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/html");
+    expect(res.headers.get("content-security-policy")).toContain("default-src 'none'");
+    const html = await res.text();
+    expect(html).toContain("/admin/api/");
+    expect(html).toContain('href="/admin/login"');
+    expect(html).toContain("const SIGNED_IN_TOKEN = null;");
+  });
+});
+
+describe("Admin dashboard sign-in", () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  // The GitHub mock logs in as "AllowedUser"
+  const config = createTestConfig({ adminUsers: ["alloweduser"] });
+  const sessionStore = new OAuthSessionStore();
+
+  beforeAll(() => {
+    installGitHubMock();
+    const provider = new GitHubProvider(config);
+    const app = express();
+    app.get("/admin/login", handleAdminLogin(provider, sessionStore));
+    app.get("/oauth/github/callback", handleProviderCallback(config, provider, sessionStore, new OAuthStore(), keys));
+    httpServer = app.listen(0);
+    baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+    config.serverUrl = baseUrl;
+  });
+
+  afterAll(() => {
+    httpServer?.close();
+    uninstallGitHubMock();
+  });
+
+  async function signIn(): Promise<Response> {
+    const start = await fetch(`${baseUrl}/admin/login`, { redirect: "manual" });
+    expect(start.status).toBe(302);
+    const state = new URL(start.headers.get("location")!).searchParams.get("state");
+    return fetch(`${baseUrl}/oauth/github/callback?code=gh_code&state=${state}`, { redirect: "manual" });
+  }
+
+  it("renders the dashboard with an admin-only access token for admin users", async () => {
+    resetGitHubMock();
+    const res = await signIn();
+    expect(res.status).toBe(200);
+    expect(res.headers.get("cache-control")).toBe("no-store");
+    const token = (await res.text()).match(/const SIGNED_IN_TOKEN = "([^"]+)";/)?.[1];
+    expect(verifyAccessToken(token!, keys)).toMatchObject({ sub: "alloweduser", client_id: "admin-dashboard", scope: "vault:admin" });
+  });
+
+  it("refuses users not in ADMIN_USERS", async () => {
+    resetGitHubMock();
+    setMockGitHubUserResponse({ login: "someoneelse", id: 2 });
+    const res = await signIn();
+    expect(res.status).toBe(403);
+    expect(await res.text()).not.toContain("SIGNED_IN_TOKEN");
+  });
+});
+
+describe("OAuthStore admin operations", () => {
+  it("records client activity and refresh token issue times", () => {
+    const store = new OAuthStore();
+    const client = registerClient(store, "Activity");
+    expect(store.getClient(client.clientId)!.lastUsedAt).toBeUndefined();
+
+    store.createRefreshToken(client.clientId, "alice", ["vault:read"], 3600);
+    expect(store.getClient(client.clientId)).toMatchObject({ lastUsedAt: expect.any(Number), lastUser: "alice" });
+    expect(store.listRefreshTokens()[0].issuedAt).toBeTypeOf("number");
+  });
+
+  it("persists deleted clients until their access tokens expire", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const backend = new MemoryStorageBackend<OAuthStoreSnapshot>();
+      const store = new OAuthStore(backend);
+      const client = registerClient(store, "Deleted");
+      store.deleteClient(client.clientId, 60);
+
+      const restored = new OAuthStore(backend);
+      expect(restored.isClientRevoked(client.clientId)).toBe(true);
+
+      vi.setSystemTime(Date.now() + 61_000);
+      restored.cleanup();
+      expect(restored.isClientRevoked(client.clientId)).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
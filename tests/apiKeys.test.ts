@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import express from "express";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { mkdir, writeFile, rm, realpath } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ApiKeyStore } from "../src/oauth/apiKeyStore.js";
+import type { ApiKeyStoreSnapshot } from "../src/oauth/apiKeyStore.js";
+import { OAuthStore } from "../src/oauth/store.js";
+import { jwtAuth } from "../src/auth.js";
+import { SharedSecretKeys } from "../src/oauth/signingKeys.js";
+import { runApiKeyCommand } from "../src/cli/apiKeyCommand.js";
+import { getPathAccess } from "../src/utils/accessControl.js";
+import { createAuthInfo } from "../src/utils/requestContext.js";
+import { FileStorageBackend } from "../src/utils/storageBackend.js";
+import { createMcpServer } from "../src/server.js";
+import { initDebouncedSync, stopDebouncedSync } from "../src/git/debouncedSync.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { startMcpTestServer, initTestGitRepo } from "./helpers/mcpTestServer.js";
+
+const params = { name: "cron", subject: "Alice", scopes: ["vault:read", "vault:write"], paths: null };
+
+describe("ApiKeyStore", () => {
+  let dataDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), "api-keys-"));
+    file = path.join(dataDir, "api-keys.json");
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("creates keys that verify and carry the user, scopes and paths", () => {
+    const store = new ApiKeyStore();
+    const { key, apiKey } = store.create({ ...params, paths: ["Journal/**"] });
+    expect(key).toMatch(/^ovk_[0-9a-f]{12}_[0-9a-f]{64}$/);
+    expect(apiKey.subject).toBe("alice");
+    expect(apiKey.expiresAt).toBeNull();
+
+    expect(store.verify(key)).toEqual(apiKey);
+    expect(store.verify(key.slice(0, -1) + (key.endsWith("0") ? "1" : "0"))).toBeNull();
+    expect(store.verify("ovk_not-a-key")).toBeNull();
+  });
+
+  it("rejects expired keys", () => {
+    const store = new ApiKeyStore();
+    const { key } = store.create({ ...params, expiresInSeconds: 1 });
+    const originalNow = Date.now;
+    try {
+      Date.now = () => originalNow() + 2000;
+      expect(store.verify(key)).toBeNull();
+    } finally {
+      Date.now = originalNow;
+    }
+  });
+
+  it("rejects duplicate names", () => {
+    const store = new ApiKeyStore();
+    store.create(params);
+    expect(() => store.create(params)).toThrow('An API key named "cron" already exists');
+  });
+
+  it("revokes by id or name", () => {
+    const store = new ApiKeyStore();
+    const first = store.create(params);
+    const second = store.create({ ...params, name: "ci" });
+
+    expect(store.revoke(first.apiKey.id)?.name).toBe("cron");
+    expect(store.revoke("ci")?.id).toBe(second.apiKey.id);
+    expect(store.revoke("ci")).toBeNull();
+    expect(store.verify(first.key)).toBeNull();
+    expect(store.list()).toEqual([]);
+  });
+
+  it("stores only the hash of the secret", () => {
+    const store = new ApiKeyStore(new FileStorageBackend<ApiKeyStoreSnapshot>(file));
+    const { key } = store.create(params);
+    const raw = readFileSync(file, "utf-8");
+    expect(raw).not.toContain(key.split("_")[2]);
+    expect(JSON.parse(raw).keys[0].secretHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("picks up keys created and revoked by another process after the reload interval", () => {
+    const server = new ApiKeyStore(new FileStorageBackend<ApiKeyStoreSnapshot>(file), 0);
+    const cli = new ApiKeyStore(new FileStorageBackend<ApiKeyStoreSnapshot>(file));
+
+    const { key } = cli.create(params);
+    expect(server.verify(key)?.name).toBe("cron");
+
+    cli.revoke("cron");
+    expect(server.verify(key)).toBeNull();
+  });
+});
+
+describe("jwtAuth with API keys", () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  const apiKeyStore = new ApiKeyStore();
+  const testConfig = createTestConfig({ allowedUsers: ["alice"] });
+
+  beforeAll(() => {
+    const app = express();
+    app.use("/mcp", jwtAuth(new SharedSecretKeys(testConfig.jwtSecret), testConfig.serverUrl, new OAuthStore(), apiKeyStore, testConfig.allowedUsers));
+    app.post("/mcp", (req, res) => {
+      res.json({ user: req.auth?.extra?.user, clientId: req.auth?.clientId, scopes: req.auth?.scopes, paths: req.auth?.extra?.paths });
+    });
+    httpServer = app.listen(0);
+    baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    httpServer?.close();
+  });
+
+  function call(token: string): Promise<Response> {
+    return fetch(`${baseUrl}/mcp`, { method: "POST", headers: { Authorization: `Bearer ${token}` } });
+  }
+
+  it("accepts an API key as a Bearer token", async () => {
+    const { key, apiKey } = apiKeyStore.create({ ...params, name: "auth-ok", paths: ["Journal/**"] });
+    const res = await call(key);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      user: "alice",
+      clientId: `api-key:${apiKey.id}`,
+      scopes: ["vault:read", "vault:write"],
+      paths: ["Journal/**"],
+    });
+  });
+
+  it("rejects unknown and revoked API keys with 401", async () => {
+    const { key } = apiKeyStore.create({ ...params, name: "auth-revoked" });
+    apiKeyStore.revoke("auth-revoked");
+    const res = await call(key);
+    expect(res.status).toBe(401);
+    expect(res.headers.get("www-authenticate")).toContain("resource_metadata");
+    expect((await call(`ovk_${"0".repeat(12)}_${"0".repeat(64)}`)).status).toBe(401);
+  });
+
+  it("rejects the keys of users no longer in the allowlist", async () => {
+    const { key } = apiKeyStore.create({ ...params, name: "auth-removed", subject: "mallory" });
+    const res = await call(key);
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: "Invalid token" });
+  });
+});
+
+describe("API key path restriction", () => {
+  const keyContext = (paths: string[] | null, user = "alice") => ({
+    authInfo: createAuthInfo("ovk_x", "api-key:1", user, ["vault:write"], undefined, paths),
+  });
+
+  it("limits an unrestricted user to the key's paths", () => {
+    const access = getPathAccess(createTestConfig(), keyContext(["Journal/**"]));
+    expect(access.can("Journal/2024/today.md", "write")).toBe(true);
+    expect(access.can("Private/secret.md", "read")).toBe(false);
+    expect(access.can("", "list")).toBe(true);
+    expect(access.canWriteTree("Journal")).toBe(true);
+    expect(access.canWriteTree("Private")).toBe(false);
+  });
+
+  it("intersects the key's paths with the user's ACL", () => {
+    const config = createTestConfig({
+      accessControl: { users: { alice: { allow: [{ path: "Journal/**", access: "read" }], deny: [] } } },
+    });
+    const access = getPathAccess(config, keyContext(["Journal/**", "Inbox/**"]));
+    expect(access.can("Journal/today.md", "read")).toBe(true);
+    expect(access.can("Journal/today.md", "write")).toBe(false);
+    expect(access.can("Inbox/task.md", "read")).toBe(false);
+  });
+
+  it("does not restrict keys without paths", () => {
+    const access = getPathAccess(createTestConfig(), keyContext(null));
+    expect(access.can("Private/secret.md", "write")).toBe(true);
+  });
+});
+
+describe("Integration: path-restricted API key", () => {
+  const VAULT_DIR = "/tmp/test-vault-api-keys";
+  let client: Client;
+  let httpServer: Server;
+
+  function getText(result: Awaited<ReturnType<Client["callTool"]>>): string {
+    return (result.content as Array<{ type: string; text: string }>)[0].text;
+  }
+
+  beforeAll(async () => {
+    await mkdir(`${VAULT_DIR}/Inbox`, { recursive: true });
+    const resolvedVault = await realpath(VAULT_DIR);
+    await writeFile(`${resolvedVault}/private.md`, "secret\n");
+    await initTestGitRepo(resolvedVault);
+
+    const config = createTestConfig({ vaultPath: resolvedVault });
+    initDebouncedSync(config);
+    const mcpServer = await createMcpServer(config);
+    const authInfo = createAuthInfo("ovk_x", "api-key:1", "alice", ["vault:read", "vault:write"], undefined, ["Inbox/**"]);
+    const testServer = await startMcpTestServer(mcpServer, authInfo);
+    client = testServer.client;
+    httpServer = testServer.httpServer;
+  });
+
+  afterAll(async () => {
+    stopDebouncedSync();
+    await client?.close();
+    httpServer?.close();
+    await rm(VAULT_DIR, { recursive: true, force: true });
+  });
+
+  it("writes inside the key's paths", async () => {
+    const result = await client.callTool({ name: "write_file", arguments: { path: "Inbox/cron.md", content: "ran" } });
+    expect(result.isError).toBeFalsy();
+  });
+
+  it("cannot read or write outside the key's paths", async () => {
+    const read = await client.callTool({ name: "read_file", arguments: { path: "private.md" } });
+    expect(read.isError).toBe(true);
+    const write = await client.callTool({ name: "write_file", arguments: { path: "other.md", content: "x" } });
+    expect(write.isError).toBe(true);
+    expect(getText(write)).toMatch(/access/i);
+  });
+});
+
+describe("api-key CLI", () => {
+  let dataDir: string;
+  let lines: string[];
+  let errors: string[];
+  const output = { log: (line: string) => lines.push(line), error: (line: string) => errors.push(line) };
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), "api-key-cli-"));
+    lines = [];
+    errors = [];
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("creates, lists and revokes keys", () => {
+    expect(runApiKeyCommand(
+      ["create", "--name", "nightly", "--user", "Alice", "--scope", "vault:write", "--expires-in-days", "30", "--path", "Inbox/**"],
+      dataDir,
+      output,
+    )).toBe(0);
+    const key = lines[lines.length - 1];
+    expect(key).toMatch(/^ovk_/);
+    expect(lines.join("\n")).toContain("scope: vault:read vault:write");
+
+    const store = new ApiKeyStore(new FileStorageBackend<ApiKeyStoreSnapshot>(path.join(dataDir, "api-keys.json")));
+    const apiKey = store.verify(key)!;
+    expect(apiKey.paths).toEqual(["Inbox/**"]);
+    expect(apiKey.expiresAt! - apiKey.createdAt).toBe(30 * 24 * 60 * 60 * 1000);
+
+    lines = [];
+    expect(runApiKeyCommand(["list"], dataDir, output)).toBe(0);
+    expect(lines.join("\n")).toContain("nightly");
+    expect(lines.join("\n")).not.toContain(key);
+
+    expect(runApiKeyCommand(["revoke", "nightly"], dataDir, output)).toBe(0);
+    expect(runApiKeyCommand(["revoke", "nightly"], dataDir, output)).toBe(1);
+    expect(errors).toEqual(['No API key with id or name "nightly"']);
+  });
+
+  it("defaults to all scopes and no expiry", () => {
+    expect(runApiKeyCommand(["create", "--name", "ci", "--user", "bob"], dataDir, output)).toBe(0);
+    expect(lines.join("\n")).toContain("scope: vault:read vault:write vault:history");
+    expect(lines.join("\n")).toContain("expires: never");
+  });
+
+  it("rejects invalid input", () => {
+    expect(runApiKeyCommand(["create", "--name", "x"], dataDir, output)).toBe(1);
+    expect(runApiKeyCommand(["create", "--name", "x", "--user", "a", "--scope", "vault:admin"], dataDir, output)).toBe(1);
+    expect(runApiKeyCommand(["create", "--name", "x", "--user", "a", "--expires-in-days", "0"], dataDir, output)).toBe(1);
+    expect(runApiKeyCommand(["create", "--bogus"], dataDir, output)).toBe(1);
+    expect(runApiKeyCommand(["frobnicate"], dataDir, output)).toBe(1);
+    expect(errors).toEqual([
+      "--name and --user are required",
+      "API keys cannot have the vault:admin scope; the admin API needs an OAuth access token",
+      "--expires-in-days must be a positive integer",
+      expect.stringContaining("--bogus"),
+      expect.stringContaining("Usage:"),
+    ]);
+  });
+
+  it("requires DATA_DIR", () => {
+    expect(runApiKeyCommand(["list"], "", output)).toBe(1);
+    expect(errors[0]).toContain("DATA_DIR must be set");
+  });
+});
@@ -0,0 +1,342 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import express from "express";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { mkdir, writeFile, rm, realpath } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  initAuditLog,
+  stopAuditLog,
+  redactArguments,
+  queryAuditLog,
+  withAuditLog,
+  recordAuditCommit,
+  getCurrentAuditCallId,
+} from "../src/utils/auditLog.js";
+import type { AuditEntry } from "../src/utils/auditLog.js";
+import { requireAdmin, handleQueryAuditLog } from "../src/admin/adminApi.js";
+import { jwtAuth } from "../src/auth.js";
+import { OAuthStore } from "../src/oauth/store.js";
+import { ApiKeyStore } from "../src/oauth/apiKeyStore.js";
+import { SharedSecretKeys } from "../src/oauth/signingKeys.js";
+import { createAccessToken } from "../src/oauth/jwt.js";
+import { SUPPORTED_SCOPES } from "../src/oauth/scopes.js";
+import { createAuthInfo } from "../src/utils/requestContext.js";
+import { createMcpServer } from "../src/server.js";
+import { initDebouncedSync, flushDebouncedSync, stopDebouncedSync } from "../src/git/debouncedSync.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { startMcpTestServer, initTestGitRepo } from "./helpers/mcpTestServer.js";
+
+vi.mock("../src/git/gitSync.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/git/gitSync.js")>()),
+  stageCommitAndPush: vi.fn().mockResolvedValue("0123abcd"),
+}));
+
+function readEntries(file: string): AuditEntry[] {
+  return readFileSync(file, "utf-8").trim().split("\n").map((line) => JSON.parse(line) as AuditEntry);
+}
+
+function toolCall(id: string, timestamp: string, user: string, paths: string[]): AuditEntry {
+  return {
+    type: "tool_call",
+    id,
+    timestamp,
+    user,
+    clientId: "client",
+    sessionId: "session",
+    tool: "write_file",
+    arguments: { path: paths[0] },
+    paths,
+    result: "success",
+    message: "ok",
+    durationMs: 1,
+  };
+}
+
+describe("redactArguments", () => {
+  it("hashes note content", () => {
+    const redacted = redactArguments({ path: "a.md", content: "secret note", edits: [{ old_text: "a", new_text: "b" }] });
+    expect(redacted).toEqual({
+      path: "a.md",
+      content: expect.stringMatching(/^sha256:[0-9a-f]{64} \(11 chars\)$/),
+      edits: [{ old_text: expect.stringMatching(/^sha256:/), new_text: expect.stringMatching(/^sha256:/) }],
+    });
+    expect(JSON.stringify(redacted)).not.toContain("secret note");
+  });
+
+  it("hashes headings, property values and every other string that is not a path", () => {
+    const redacted = redactArguments({
+      path: "a.md",
+      heading_path: "Projects > Alpha",
+      operation: "append",
+      heading: "Secret plan",
+      set: { status: "private", path: "not a vault path" },
+      append: { tags: ["hidden"] },
+      unset: ["codename"],
+    }) as Record<string, unknown>;
+    expect(redacted).toMatchObject({ path: "a.md", heading_path: expect.stringMatching(/^sha256:/), operation: "append" });
+    expect(redacted.set).toEqual({ status: expect.stringMatching(/^sha256:/), path: expect.stringMatching(/^sha256:/) });
+    for (const secret of ["Projects > Alpha", "Secret plan", "private", "not a vault path", "hidden", "codename"]) {
+      expect(JSON.stringify(redacted)).not.toContain(secret);
+    }
+  });
+
+  it("truncates long paths", () => {
+    const redacted = redactArguments({ path: "x".repeat(500), dry_run: true }) as { path: string; dry_run: boolean };
+    expect(redacted.path).toBe(`${"x".repeat(200)}... (500 chars)`);
+    expect(redacted.dry_run).toBe(true);
+  });
+});
+
+describe("withAuditLog", () => {
+  let dir: string;
+  let file: string;
+  const extra = { authInfo: createAuthInfo("t", "client-1", "alice", ["vault:write"], undefined), sessionId: "session-1" };
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "audit-"));
+    file = path.join(dir, "logs", "audit.jsonl");
+    initAuditLog(createTestConfig({ auditLogFile: file }));
+  });
+
+  afterEach(() => {
+    stopAuditLog();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records the caller, arguments and result", async () => {
+    let callId: string | undefined;
+    const handler = withAuditLog("move_file", async (_args: { old_path: string; new_path: string }, _extra: typeof extra) => {
+      callId = getCurrentAuditCallId();
+      return { content: [{ type: "text", text: "Moved a.md to b/a.md\nmore detail" }] };
+    });
+
+    await handler({ old_path: "a.md", new_path: "b/a.md" }, extra);
+
+    const [entry] = readEntries(file);
+    expect(entry).toMatchObject({
+      type: "tool_call",
+      id: callId,
+      user: "alice",
+      clientId: "client-1",
+      sessionId: "session-1",
+      tool: "move_file",
+      arguments: { old_path: "a.md", new_path: "b/a.md" },
+      paths: ["a.md", "b/a.md"],
+      result: "success",
+      message: "Moved a.md to b/a.md",
+    });
+    expect(entry.type === "tool_call" && entry.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("hashes the heading path of edit_section and does not index it as a vault path", async () => {
+    const handler = withAuditLog("edit_section", async (_args: { path: string; heading_path: string; operation: string; content: string }, _extra: typeof extra) => ({
+      content: [{ type: "text", text: "Section edited (replace): Projects.md > Secret merger > Timeline" }],
+    }));
+
+    await handler({ path: "Projects.md", heading_path: "Secret merger > Timeline", operation: "replace", content: "x" }, extra);
+
+    const [entry] = readEntries(file);
+    expect(entry).toMatchObject({
+      paths: ["Projects.md"],
+      arguments: { path: "Projects.md", operation: "replace" },
+      message: "Section edited (replace): Projects.md > [redacted]",
+    });
+    expect(JSON.stringify(entry)).not.toContain("Secret merger");
+  });
+
+  it("records failed and throwing calls", async () => {
+    const failing = withAuditLog("delete_file", async (_args: { path: string }, _extra: typeof extra) => ({
+      content: [{ type: "text", text: "Error: not found" }],
+      isError: true,
+    }));
+    const throwing = withAuditLog("delete_file", async (_args: { path: string }, _extra: typeof extra): Promise<{ content: [] }> => {
+      throw new Error("disk full");
+    });
+
+    await failing({ path: "missing.md" }, extra);
+    await expect(throwing({ path: "full.md" }, extra)).rejects.toThrow("disk full");
+
+    const entries = readEntries(file);
+    expect(entries).toMatchObject([
+      { result: "error", message: "Error: not found" },
+      { result: "error", message: "disk full" },
+    ]);
+  });
+
+  it("writes nothing when the log is disabled", async () => {
+    stopAuditLog();
+    const handler = withAuditLog("write_file", async (_args: { path: string }, _extra: typeof extra) => ({ content: [] }));
+    await handler({ path: "a.md" }, extra);
+    expect(() => readFileSync(file)).toThrow();
+    expect(await queryAuditLog({ limit: 10 })).toEqual([]);
+  });
+});
+
+describe("queryAuditLog", () => {
+  let dir: string;
+  let file: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "audit-query-"));
+    file = path.join(dir, "audit.jsonl");
+    const lines = [
+      toolCall("1", "2026-01-01T10:00:00.000Z", "alice", ["Journal/2026-01-01.md"]),
+      toolCall("2", "2026-01-02T10:00:00.000Z", "bob", ["Inbox/task.md"]),
+      { type: "commit", timestamp: "2026-01-02T10:00:05.000Z", sha: "abc", callIds: ["1", "2"] },
+      toolCall("3", "2026-01-03T10:00:00.000Z", "alice", ["Journal.md", "Archive/Journal/old.md"]),
+    ];
+    writeFileSync(file, lines.map((line) => JSON.stringify(line)).join("\n") + "\n{\"type\":\"tool_ca");
+  });
+
+  beforeEach(() => {
+    initAuditLog(createTestConfig({ auditLogFile: file }));
+  });
+
+  afterAll(() => {
+    stopAuditLog();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns calls newest first with their commits", async () => {
+    const entries = await queryAuditLog({ limit: 10 });
+    expect(entries.map((e) => [e.id, e.commit])).toEqual([["3", null], ["2", "abc"], ["1", "abc"]]);
+    expect(entries[0]).not.toHaveProperty("type");
+  });
+
+  it("filters by time range, user and path", async () => {
+    const ids = async (query: Parameters<typeof queryAuditLog>[0]) => (await queryAuditLog(query)).map((e) => e.id);
+    expect(await ids({ from: Date.parse("2026-01-02T00:00:00Z"), limit: 10 })).toEqual(["3", "2"]);
+    expect(await ids({ to: Date.parse("2026-01-02T10:00:00Z"), limit: 10 })).toEqual(["2", "1"]);
+    expect(await ids({ user: "alice", limit: 10 })).toEqual(["3", "1"]);
+    expect(await ids({ path: "Journal/", limit: 10 })).toEqual(["1"]);
+    expect(await ids({ path: "Journal.md", limit: 10 })).toEqual(["3"]);
+  });
+
+  it("keeps the newest matches up to the limit, with the commits of those", async () => {
+    expect((await queryAuditLog({ limit: 2 })).map((e) => [e.id, e.commit])).toEqual([["3", null], ["2", "abc"]]);
+    expect((await queryAuditLog({ limit: 1, user: "bob" })).map((e) => [e.id, e.commit])).toEqual([["2", "abc"]]);
+  });
+
+  it("returns nothing for a missing file", async () => {
+    initAuditLog(createTestConfig({ auditLogFile: path.join(dir, "missing", "audit.jsonl") }));
+    expect(await queryAuditLog({ limit: 10 })).toEqual([]);
+  });
+
+  it("ignores commits without calls", () => {
+    recordAuditCommit("def", []);
+    expect(readFileSync(file, "utf-8")).not.toContain("def");
+  });
+});
+
+describe("Integration: audited tool calls", () => {
+  const VAULT_DIR = "/tmp/test-vault-audit-log";
+  let logDir: string;
+  let logFile: string;
+  let client: Client;
+  let httpServer: Server;
+
+  beforeAll(async () => {
+    await mkdir(`${VAULT_DIR}/Notes`, { recursive: true });
+    const resolvedVault = await realpath(VAULT_DIR);
+    await writeFile(`${resolvedVault}/Notes/existing.md`, "hello\n");
+    await initTestGitRepo(resolvedVault);
+
+    logDir = mkdtempSync(path.join(os.tmpdir(), "audit-integration-"));
+    logFile = path.join(logDir, "audit.jsonl");
+    const config = createTestConfig({ vaultPath: resolvedVault, auditLogFile: logFile });
+    initDebouncedSync(config);
+    initAuditLog(config);
+    const mcpServer = await createMcpServer(config);
+    const authInfo = createAuthInfo("token", "client-1", "alice", ["vault:read", "vault:write"], undefined);
+    const testServer = await startMcpTestServer(mcpServer, authInfo);
+    client = testServer.client;
+    httpServer = testServer.httpServer;
+  });
+
+  afterAll(async () => {
+    stopDebouncedSync();
+    stopAuditLog();
+    await client?.close();
+    httpServer?.close();
+    await rm(VAULT_DIR, { recursive: true, force: true });
+    rmSync(logDir, { recursive: true, force: true });
+  });
+
+  it("logs modifying calls and links them to the commit", async () => {
+    await client.callTool({ name: "write_file", arguments: { path: "Notes/new.md", content: "private text" } });
+    await client.callTool({ name: "delete_file", arguments: { path: "Notes/missing.md" } });
+    await client.callTool({ name: "read_file", arguments: { path: "Notes/existing.md" } });
+    await flushDebouncedSync();
+
+    const entries = await queryAuditLog({ limit: 10 });
+    expect(entries).toMatchObject([
+      { tool: "delete_file", result: "error", paths: ["Notes/missing.md"], commit: null },
+      { tool: "write_file", result: "success", user: "alice", clientId: "client-1", paths: ["Notes/new.md"], commit: "0123abcd" },
+    ]);
+    expect(entries[1].sessionId).toEqual(expect.any(String));
+    expect(readFileSync(logFile, "utf-8")).not.toContain("private text");
+  });
+});
+
+describe("Admin audit endpoint", () => {
+  const testConfig = createTestConfig({ adminUsers: ["admin"] });
+  const keys = new SharedSecretKeys(testConfig.jwtSecret);
+  const adminToken = createAccessToken("admin-client", "admin", SUPPORTED_SCOPES, keys, 3600);
+  const userToken = createAccessToken("user-client", "alice", SUPPORTED_SCOPES, keys, 3600);
+  let dir: string;
+  let httpServer: Server;
+  let baseUrl: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "audit-admin-"));
+    const file = path.join(dir, "audit.jsonl");
+    const lines = [
+      toolCall("1", "2026-01-01T10:00:00.000Z", "alice", ["Journal/a.md"]),
+      toolCall("2", "2026-01-02T10:00:00.000Z", "bob", ["Inbox/b.md"]),
+    ];
+    writeFileSync(file, lines.map((line) => JSON.stringify(line) + "\n").join(""));
+    initAuditLog(createTestConfig({ auditLogFile: file }));
+
+    const app = express();
+    app.use("/admin/api", jwtAuth(keys, testConfig.serverUrl, new OAuthStore(), new ApiKeyStore(), testConfig.allowedUsers));
+    app.use("/admin/api", requireAdmin(testConfig));
+    app.get("/admin/api/audit", handleQueryAuditLog());
+    httpServer = app.listen(0);
+    baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    stopAuditLog();
+    httpServer?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function query(params: string, token = adminToken): Promise<Response> {
+    return fetch(`${baseUrl}/admin/api/audit${params}`, { headers: { Authorization: `Bearer ${token}` } });
+  }
+
+  it("is admin only", async () => {
+    expect((await query("", userToken)).status).toBe(403);
+  });
+
+  it("filters entries", async () => {
+    const res = await query("?user=BOB&from=2026-01-01T12:00:00Z");
+    expect(res.status).toBe(200);
+    expect((await res.json()).entries.map((e: { id: string }) => e.id)).toEqual(["2"]);
+
+    const byPath = await (await query(`?path=Journal&to=${Date.parse("2026-01-01T10:00:00Z")}`)).json();
+    expect(byPath.entries.map((e: { id: string }) => e.id)).toEqual(["1"]);
+  });
+
+  it("rejects invalid parameters", async () => {
+    for (const params of ["?limit=0", "?limit=5000", "?limit=abc", "?from=yesterday", "?user=a&user=b"]) {
+      const res = await query(params);
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toBe("invalid_request");
+    }
+  });
+});
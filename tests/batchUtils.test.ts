@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest";
 import {
   validateBatchSize,
   formatBatchResults,
+  structuredBatchResults,
   MAX_BATCH_SIZE,
 } from "../src/utils/batchUtils.js";
 import type { BatchResult } from "../src/utils/batchUtils.js";
@@ -66,3 +67,18 @@ describe("formatBatchResults", () => {
     expect(output).toContain("Content");
   });
 });
+
+describe("structuredBatchResults", () => {
+  it("reports errors for failures and merges per-item data for successes", () => {
+    const results: BatchResult[] = [
+      { path: "a.md", success: true, content: "Hello", data: { content: "Hello" } },
+      { path: "b.md", success: false, content: "ENOENT" },
+    ];
+    expect(structuredBatchResults(results)).toEqual({
+      results: [
+        { path: "a.md", success: true, content: "Hello" },
+        { path: "b.md", success: false, error: "ENOENT" },
+      ],
+    });
+  });
+});
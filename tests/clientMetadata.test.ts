@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import express from "express";
+import crypto from "node:crypto";
+import http from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { handleAuthorizeGet } from "../src/oauth/authorize.js";
+import { handleProviderCallback } from "../src/oauth/callback.js";
+import { handleToken } from "../src/oauth/token.js";
+import { handleRevoke } from "../src/oauth/revoke.js";
+import { ClientMetadataResolver } from "../src/oauth/clientMetadata.js";
+import { GitHubProvider } from "../src/oauth/githubProvider.js";
+import { createAccessTokenKeys } from "../src/oauth/signingKeys.js";
+import { OAuthStore } from "../src/oauth/store.js";
+import { OAuthSessionStore } from "../src/oauth/sessionStore.js";
+import { RateLimiter } from "../src/utils/rateLimiter.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { installGitHubMock, uninstallGitHubMock, resetGitHubMock } from "./helpers/mockGitHub.js";
+import { startAuthorizeFlow, completeCallback } from "./helpers/oauthHelpers.js";
+
+const REDIRECT_URI = "https://claude.ai/oauth/callback";
+
+interface StandInResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Local stand-in for the web servers hosting client metadata documents.
+ * Documents are plain responses keyed by path; requests are counted per path.
+ */
+function startDocumentServer() {
+  const responses = new Map<string, StandInResponse>();
+  const requests = new Map<string, number>();
+  const server = http.createServer((req, res) => {
+    const path = req.url ?? "/";
+    requests.set(path, (requests.get(path) ?? 0) + 1);
+    const response = responses.get(path);
+    if (!response) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(response.status ?? 200, { "Content-Type": "application/json", ...response.headers });
+    res.end(response.body);
+  });
+  server.listen(0, "127.0.0.1");
+  return {
+    server,
+    responses,
+    requests,
+    url: (path: string) => `http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`,
+  };
+}
+
+describe("Client ID Metadata Documents", () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  const documents = startDocumentServer();
+
+  const testConfig = createTestConfig();
+  const store = new OAuthStore();
+  const sessionStore = new OAuthSessionStore();
+  const provider = new GitHubProvider(testConfig);
+  const keys = createAccessTokenKeys(testConfig);
+  const resolver = new ClientMetadataResolver({ allowLoopback: true });
+
+  /** Serve a metadata document at `path` and return its client_id. */
+  function serveDocument(path: string, overrides: Record<string, unknown> = {}, headers?: Record<string, string>): string {
+    const clientId = documents.url(path);
+    documents.responses.set(path, {
+      headers,
+      body: JSON.stringify({ client_id: clientId, client_name: "Metadata Client", redirect_uris: [REDIRECT_URI], ...overrides }),
+    });
+    return clientId;
+  }
+
+  function authorize(clientId: string, redirectUri = REDIRECT_URI): Promise<Response> {
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      state: "client-state",
+      code_challenge: "challenge",
+      code_challenge_method: "S256",
+    });
+    return fetch(`${baseUrl}/oauth/authorize?${params}`, { redirect: "manual" });
+  }
+
+  function postForm(path: string, fields: Record<string, string>): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams(fields).toString(),
+    });
+  }
+
+  beforeAll(() => {
+    installGitHubMock();
+
+    const app = express();
+    app.get("/oauth/authorize", handleAuthorizeGet(provider, store, sessionStore, resolver));
+    app.get("/oauth/github/callback", handleProviderCallback(testConfig, provider, sessionStore, store, keys));
+    app.post("/oauth/token", express.urlencoded({ extended: false }), handleToken(testConfig, store, new RateLimiter(100, 60_000), provider, keys, resolver));
+    app.post("/oauth/revoke", express.urlencoded({ extended: false }), handleRevoke(keys, store, new RateLimiter(100, 60_000), resolver));
+
+    httpServer = app.listen(0);
+    baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+    testConfig.serverUrl = baseUrl;
+  });
+
+  beforeEach(() => {
+    resetGitHubMock();
+  });
+
+  afterAll(() => {
+    httpServer?.close();
+    documents.server.close();
+    uninstallGitHubMock();
+  });
+
+  it("runs the authorization code and refresh grants for a URL client without registering it", async () => {
+    const clientId = serveDocument("/flow.json");
+    const codeVerifier = crypto.randomBytes(32).toString("hex");
+    const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+
+    const { sessionKey } = await startAuthorizeFlow(baseUrl, clientId, codeChallenge);
+    const { authCode } = await completeCallback(baseUrl, sessionKey);
+    const tokenRes = await postForm("/oauth/token", {
+      grant_type: "authorization_code",
+      code: authCode,
+      redirect_uri: REDIRECT_URI,
+      client_id: clientId,
+      code_verifier: codeVerifier,
+    });
+    expect(tokenRes.status).toBe(200);
+    const tokens = await tokenRes.json();
+    expect(tokens.access_token).toBeTruthy();
+
+    const refreshRes = await postForm("/oauth/token", { grant_type: "refresh_token", refresh_token: tokens.refresh_token, client_id: clientId });
+    expect(refreshRes.status).toBe(200);
+    const refreshed = await refreshRes.json();
+
+    expect((await postForm("/oauth/revoke", { token: refreshed.refresh_token, client_id: clientId })).status).toBe(200);
+    expect(store.getRefreshToken(refreshed.refresh_token)).toBeNull();
+    expect(store.getClient(clientId)).toBeUndefined();
+  });
+
+  it("rejects a client secret, since URL clients are public", async () => {
+    const clientId = serveDocument("/public.json");
+    const res = await postForm("/oauth/token", { grant_type: "refresh_token", refresh_token: "rt", client_id: clientId, client_secret: "secret" });
+    expect(res.status).toBe(401);
+    expect((await res.json()).error).toBe("invalid_client");
+  });
+
+  it("rejects redirect URIs the document does not list", async () => {
+    const clientId = serveDocument("/redirects.json");
+    const res = await authorize(clientId, "https://claude.ai/other/callback");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error_description).toBe("redirect_uri not registered for this client.");
+  });
+
+  it("rejects documents whose client_id does not match their URL", async () => {
+    serveDocument("/copied.json", { client_id: documents.url("/original.json") });
+    const res = await authorize(documents.url("/copied.json"));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error_description).toContain("does not match its URL");
+  });
+
+  it("applies the registration rules to the document's redirect URIs and auth method", async () => {
+    const evil = serveDocument("/evil.json", { redirect_uris: ["https://evil.example/callback"] });
+    expect((await (await authorize(evil, "https://evil.example/callback")).json()).error_description).toContain("Redirect host not allowed");
+
+    const confidential = serveDocument("/confidential.json", { token_endpoint_auth_method: "private_key_jwt" });
+    expect((await (await authorize(confidential)).json()).error_description).toContain("Unsupported token_endpoint_auth_method");
+  });
+
+  it("caches documents per Cache-Control and does not follow redirects or read oversized documents", async () => {
+    const cached = serveDocument("/cached.json", {}, { "Cache-Control": "max-age=600" });
+    expect((await authorize(cached)).status).toBe(302);
+    expect((await authorize(cached)).status).toBe(302);
+    expect(documents.requests.get("/cached.json")).toBe(1);
+
+    documents.responses.set("/moved.json", { status: 302, headers: { Location: documents.url("/cached.json") }, body: "" });
+    const moved = await authorize(documents.url("/moved.json"));
+    expect(moved.status).toBe(400);
+    expect((await moved.json()).error_description).toContain("redirects are not followed");
+
+    serveDocument("/large.json", { client_name: "x".repeat(200), padding: "x".repeat(10_000) });
+    expect((await (await authorize(documents.url("/large.json"))).json()).error_description).toContain("exceeds");
+
+    documents.responses.set("/page.json", { headers: { "Content-Type": "text/html" }, body: "<html></html>" });
+    expect((await (await authorize(documents.url("/page.json"))).json()).error_description).toContain("application/json");
+  });
+
+  it("keeps consents of URL clients on cleanup", () => {
+    const clientId = documents.url("/consent.json");
+    store.grantConsent("alice", clientId, ["vault:read"]);
+    store.cleanup();
+    expect(store.hasConsent("alice", clientId, ["vault:read"])).toBe(true);
+  });
+});
+
+describe("ClientMetadataResolver address checks", () => {
+  const resolver = new ClientMetadataResolver();
+
+  it("requires normalized HTTPS URLs with a path", async () => {
+    await expect(resolver.resolve("http://example.com/client.json")).rejects.toThrow("must use HTTPS");
+    await expect(resolver.resolve("https://example.com")).rejects.toThrow("must have a path");
+    await expect(resolver.resolve("https://user:pw@example.com/client.json")).rejects.toThrow("credentials");
+    await expect(resolver.resolve("https://example.com/a/../client.json")).rejects.toThrow("normalized");
+  });
+
+  it("does not fetch from loopback, private or link-local addresses", async () => {
+    await expect(resolver.resolve("https://localhost/client.json")).rejects.toThrow("non-public address");
+    await expect(resolver.resolve("https://127.0.0.1/client.json")).rejects.toThrow("non-public address");
+    await expect(resolver.resolve("https://10.1.2.3/client.json")).rejects.toThrow("non-public address");
+    await expect(resolver.resolve("https://169.254.169.254/latest/meta-data")).rejects.toThrow("non-public address");
+    await expect(resolver.resolve("https://[::ffff:7f00:1]/client.json")).rejects.toThrow("non-public address");
+    await expect(resolver.resolve("https://[fd00::1]/client.json")).rejects.toThrow("non-public address");
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, writeFile, rm, realpath, mkdtemp } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { Server } from "node:http";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { createMcpServer } from "../src/server.js";
+import { createAuthInfo } from "../src/utils/requestContext.js";
+import { VAULT_WRITE_SCOPE } from "../src/oauth/scopes.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { startMcpTestServer } from "./helpers/mcpTestServer.js";
+
+describe("Integration: argument completions", () => {
+  let vault: string;
+  let config: ReturnType<typeof createTestConfig>;
+  const servers: Array<{ client: Client; httpServer: Server }> = [];
+
+  async function connect(user?: string, scopes = ["vault:read"]): Promise<Client> {
+    const authInfo = user ? createAuthInfo("token", "client", user, scopes, undefined) : undefined;
+    const server = await startMcpTestServer(await createMcpServer(config), authInfo);
+    servers.push(server);
+    return server.client;
+  }
+
+  function completePath(client: Client, value: string) {
+    return client.complete({ ref: { type: "ref/resource", uri: "vault://{path}" }, argument: { name: "path", value } });
+  }
+
+  beforeAll(async () => {
+    vault = await realpath(await mkdtemp(path.join(os.tmpdir(), "completions-vault-")));
+    await mkdir(path.join(vault, "Projects", "Webapp"), { recursive: true });
+    await mkdir(path.join(vault, "Private"));
+    await mkdir(path.join(vault, ".claude"));
+    await mkdir(path.join(vault, ".git"));
+    await writeFile(path.join(vault, "Projects", "plan.md"), "#project/alpha #project/alpha #meeting\n");
+    await writeFile(path.join(vault, "Projects", "Webapp", "notes.md"), "---\ntags: [project/beta]\n---\n");
+    await writeFile(path.join(vault, "Private", "diary.md"), "#private\n");
+    await writeFile(path.join(vault, "Pinned.md"), "# Pinned\n");
+    config = createTestConfig({
+      vaultPath: vault,
+      gitMode: "off",
+      accessControl: { default: { allow: [{ path: "**", access: "read" }], deny: ["Private/**"] }, users: {} },
+    });
+  });
+
+  afterAll(async () => {
+    for (const { client, httpServer } of servers) {
+      await client.close();
+      httpServer.close();
+    }
+    await rm(vault, { recursive: true, force: true });
+  });
+
+  it("completes vault paths by prefix, directory by directory", async () => {
+    const client = await connect();
+    expect((await completePath(client, "")).completion.values).toEqual(["Pinned.md", "Private/", "Projects/"]);
+    expect((await completePath(client, "pr")).completion.values).toEqual(["Private/", "Projects/"]);
+    expect((await completePath(client, "Projects/")).completion.values).toEqual(["Projects/plan.md", "Projects/Webapp/"]);
+    expect((await completePath(client, "Projects/Web")).completion.values).toEqual(["Projects/Webapp/"]);
+    expect((await completePath(client, ".git/")).completion.values).toEqual([]);
+    expect((await completePath(client, "../")).completion.values).toEqual([]);
+  });
+
+  it("leaves out paths the caller's ACL hides", async () => {
+    const client = await connect("kid");
+    expect((await completePath(client, "")).completion.values).toEqual(["Pinned.md", "Projects/"]);
+    expect((await completePath(client, "Private/")).completion.values).toEqual([]);
+  });
+
+  it("completes tags by prefix, most used first", async () => {
+    const client = await connect("kid");
+    const result = await client.complete({ ref: { type: "ref/resource", uri: "vault://tags/{tag}" }, argument: { name: "tag", value: "#proj" } });
+    expect(result.completion.values).toEqual(["project/alpha", "project/beta"]);
+  });
+
+  it("completes the note types defined in the create-note guide", async () => {
+    const client = await connect();
+    const all = await client.complete({ ref: { type: "ref/prompt", name: "obsidian-create-note" }, argument: { name: "note_type", value: "" } });
+    expect(all.completion.values).toEqual(["zettel", "meeting", "daily", "project", "literature"]);
+    const some = await client.complete({ ref: { type: "ref/prompt", name: "obsidian-create-note" }, argument: { name: "note_type", value: "m" } });
+    expect(some.completion.values).toEqual(["meeting"]);
+    const topic = await client.complete({ ref: { type: "ref/prompt", name: "obsidian-create-note" }, argument: { name: "topic", value: "" } });
+    expect(topic.completion.values).toEqual([]);
+  });
+
+  it("requires the read scope", async () => {
+    const client = await connect("kid", [VAULT_WRITE_SCOPE]);
+    await expect(completePath(client, "")).rejects.toThrow("Insufficient scope");
+  });
+});
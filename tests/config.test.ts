@@ -117,4 +117,262 @@ describe("loadConfig", () => {
     process.env.MAX_SESSIONS = "abc";
     expect(() => loadConfig()).toThrow("MAX_SESSIONS must be a positive number");
   });
+
+  // --- SESSION_MODE ---
+
+  it("defaults to stateful sessions and accepts SESSION_MODE=stateless", () => {
+    expect(loadConfig().sessionMode).toBe("stateful");
+    process.env.SESSION_MODE = "Stateless";
+    expect(loadConfig().sessionMode).toBe("stateless");
+  });
+
+  it("rejects unknown SESSION_MODE values", () => {
+    process.env.SESSION_MODE = "sticky";
+    expect(() => loadConfig()).toThrow("SESSION_MODE must be one of stateful, stateless");
+  });
+
+  // --- DATA_DIR ---
+
+  it("defaults dataDir to empty (in-memory stores)", () => {
+    delete process.env.DATA_DIR;
+    const config = loadConfig();
+    expect(config.dataDir).toBe("");
+  });
+
+  it("accepts DATA_DIR for persistent stores", () => {
+    process.env.DATA_DIR = "/data";
+    const config = loadConfig();
+    expect(config.dataDir).toBe("/data");
+  });
+
+  // --- GIT_MODE ---
+
+  it("defaults to GIT_MODE=sync, which requires GIT_REPO_URL", () => {
+    delete process.env.GIT_MODE;
+    delete process.env.GIT_REPO_URL;
+    expect(() => loadConfig()).toThrow("GIT_REPO_URL environment variable is required");
+  });
+
+  it("does not need GIT_REPO_URL with GIT_MODE=local or off", () => {
+    process.env.GIT_REPO_URL = "https://example.com/ignored.git";
+    process.env.GIT_MODE = "LOCAL";
+    expect(loadConfig()).toMatchObject({ gitMode: "local", gitRepoUrl: "" });
+    delete process.env.GIT_REPO_URL;
+    process.env.GIT_MODE = "off";
+    expect(loadConfig().gitMode).toBe("off");
+  });
+
+  it("rejects unknown GIT_MODE values", () => {
+    process.env.GIT_MODE = "push";
+    expect(() => loadConfig()).toThrow("GIT_MODE must be one of sync, local, off");
+  });
+
+  // --- stdio ---
+
+  it("does not require or read the OAuth settings in stdio mode", () => {
+    for (const key of ["GITHUB_CLIENT_ID", "GITHUB_CLIENT_SECRET", "ALLOWED_GITHUB_USERS", "JWT_SECRET", "SERVER_URL"]) {
+      delete process.env[key];
+    }
+    expect(() => loadConfig()).toThrow();
+    process.env.AUTH_PROVIDER = "oidc";
+    const config = loadConfig({ stdio: true });
+    expect(config.authProvider).toBe("github");
+    expect(config.oidc).toBeNull();
+    expect(config.allowedUsers).toEqual([]);
+    expect(config.serverUrl).toBe("");
+  });
+
+  // --- OAUTH_CONSENT ---
+
+  it("shows the consent page unless OAUTH_CONSENT=false", () => {
+    delete process.env.OAUTH_CONSENT;
+    expect(loadConfig().oauthConsent).toBe(true);
+    process.env.OAUTH_CONSENT = "FALSE";
+    expect(loadConfig().oauthConsent).toBe(false);
+  });
+
+  // --- CLIENT_ID_METADATA_DOCUMENTS ---
+
+  it("accepts URL client IDs unless CLIENT_ID_METADATA_DOCUMENTS=false", () => {
+    delete process.env.CLIENT_ID_METADATA_DOCUMENTS;
+    expect(loadConfig().clientIdMetadataDocuments).toBe(true);
+    process.env.CLIENT_ID_METADATA_DOCUMENTS = "false";
+    expect(loadConfig().clientIdMetadataDocuments).toBe(false);
+  });
+
+  // --- AUDIT_LOG_FILE ---
+
+  it("keeps the audit log under DATA_DIR by default", () => {
+    delete process.env.AUDIT_LOG_FILE;
+    delete process.env.DATA_DIR;
+    expect(loadConfig().auditLogFile).toBe("");
+    process.env.DATA_DIR = "/data";
+    expect(loadConfig().auditLogFile).toBe("/data/audit.jsonl");
+  });
+
+  it("rejects an audit log inside the vault", () => {
+    process.env.VAULT_PATH = "/vault";
+    process.env.AUDIT_LOG_FILE = "/vault/.audit/audit.jsonl";
+    expect(() => loadConfig()).toThrow("AUDIT_LOG_FILE must be outside VAULT_PATH");
+    process.env.AUDIT_LOG_FILE = "/var/log/vault-audit.jsonl";
+    expect(loadConfig().auditLogFile).toBe("/var/log/vault-audit.jsonl");
+  });
+
+  // --- ACCESS_CONTROL_FILE ---
+
+  it("defaults accessControl to null (full access for allowed users)", () => {
+    delete process.env.ACCESS_CONTROL_FILE;
+    expect(loadConfig().accessControl).toBeNull();
+  });
+
+  it("fails startup when ACCESS_CONTROL_FILE cannot be loaded", () => {
+    process.env.ACCESS_CONTROL_FILE = "/nonexistent/acl.json";
+    expect(() => loadConfig()).toThrow("ACCESS_CONTROL_FILE could not be read as JSON");
+  });
+
+  // --- CONFIRMATION_POLICY_FILE ---
+
+  it("defaults confirmationRules to null (changes are never confirmed)", () => {
+    delete process.env.CONFIRMATION_POLICY_FILE;
+    expect(loadConfig().confirmationRules).toBeNull();
+  });
+
+  it("fails startup when CONFIRMATION_POLICY_FILE cannot be loaded", () => {
+    process.env.CONFIRMATION_POLICY_FILE = "/nonexistent/confirmation.json";
+    expect(() => loadConfig()).toThrow("CONFIRMATION_POLICY_FILE could not be read as JSON");
+  });
+
+  // --- Identity provider ---
+
+  it("defaults to the GitHub provider", () => {
+    delete process.env.AUTH_PROVIDER;
+    const config = loadConfig();
+    expect(config.authProvider).toBe("github");
+    expect(config.oidc).toBeNull();
+    expect(config.allowedUsers).toEqual(["testuser"]);
+  });
+
+  it("rejects an unknown AUTH_PROVIDER", () => {
+    process.env.AUTH_PROVIDER = "saml";
+    expect(() => loadConfig()).toThrow('AUTH_PROVIDER must be "github" or "oidc"');
+  });
+
+  it("prefers ALLOWED_USERS over ALLOWED_GITHUB_USERS", () => {
+    process.env.ALLOWED_USERS = "Alice, bob";
+    expect(loadConfig().allowedUsers).toEqual(["alice", "bob"]);
+  });
+
+  it("loads OIDC settings without requiring GitHub credentials", () => {
+    process.env.AUTH_PROVIDER = "oidc";
+    process.env.OIDC_ISSUER = "https://sso.example.com/realms/family/";
+    process.env.OIDC_CLIENT_ID = "vault-mcp";
+    delete process.env.GITHUB_CLIENT_ID;
+    delete process.env.GITHUB_CLIENT_SECRET;
+    const config = loadConfig();
+    expect(config.authProvider).toBe("oidc");
+    expect(config.githubClientId).toBe("");
+    expect(config.oidc).toEqual({
+      issuer: "https://sso.example.com/realms/family",
+      clientId: "vault-mcp",
+      clientSecret: "",
+      scopes: ["openid", "profile", "email"],
+      usernameClaim: "preferred_username",
+    });
+  });
+
+  it("requires OIDC_ISSUER and OIDC_CLIENT_ID for the OIDC provider", () => {
+    process.env.AUTH_PROVIDER = "oidc";
+    delete process.env.OIDC_ISSUER;
+    expect(() => loadConfig()).toThrow("OIDC_ISSUER environment variable is required");
+
+    process.env.OIDC_ISSUER = "https://sso.example.com";
+    delete process.env.OIDC_CLIENT_ID;
+    expect(() => loadConfig()).toThrow("OIDC_CLIENT_ID environment variable is required");
+  });
+
+  it("rejects OIDC_SCOPES without openid", () => {
+    process.env.AUTH_PROVIDER = "oidc";
+    process.env.OIDC_ISSUER = "https://sso.example.com";
+    process.env.OIDC_CLIENT_ID = "vault-mcp";
+    process.env.OIDC_SCOPES = "profile email";
+    expect(() => loadConfig()).toThrow('OIDC_SCOPES must include "openid"');
+  });
+
+  // --- GitHub organization and team allowlists ---
+
+  it("defaults to no organization or team allowlist", () => {
+    const config = loadConfig();
+    expect(config.allowedGithubOrgs).toEqual([]);
+    expect(config.allowedGithubTeams).toEqual([]);
+  });
+
+  it("parses ALLOWED_GITHUB_ORGS and ALLOWED_GITHUB_TEAMS in lowercase", () => {
+    process.env.ALLOWED_GITHUB_ORGS = "Family-Org, other";
+    process.env.ALLOWED_GITHUB_TEAMS = "Work-Org/Vault-Editors";
+    const config = loadConfig();
+    expect(config.allowedGithubOrgs).toEqual(["family-org", "other"]);
+    expect(config.allowedGithubTeams).toEqual(["work-org/vault-editors"]);
+  });
+
+  it("makes ALLOWED_USERS optional when an organization or team allowlist is set", () => {
+    delete process.env.ALLOWED_GITHUB_USERS;
+    expect(() => loadConfig()).toThrow("ALLOWED_USERS environment variable is required");
+    process.env.ALLOWED_GITHUB_TEAMS = "work-org/vault-editors";
+    expect(loadConfig().allowedUsers).toEqual([]);
+  });
+
+  it("rejects ALLOWED_GITHUB_TEAMS entries without an organization", () => {
+    process.env.ALLOWED_GITHUB_TEAMS = "vault-editors";
+    expect(() => loadConfig()).toThrow('ALLOWED_GITHUB_TEAMS entries must be "org/team-slug"');
+  });
+
+  it("rejects invalid organization names", () => {
+    process.env.ALLOWED_GITHUB_ORGS = "family org";
+    expect(() => loadConfig()).toThrow("ALLOWED_GITHUB_ORGS contains an invalid organization name");
+  });
+
+  it("rejects organization allowlists for the OIDC provider", () => {
+    process.env.AUTH_PROVIDER = "oidc";
+    process.env.OIDC_ISSUER = "https://sso.example.com";
+    process.env.OIDC_CLIENT_ID = "vault-mcp";
+    process.env.ALLOWED_GITHUB_ORGS = "family-org";
+    expect(() => loadConfig()).toThrow("ALLOWED_GITHUB_ORGS and ALLOWED_GITHUB_TEAMS require AUTH_PROVIDER=github");
+  });
+
+  it("parses ADMIN_USERS in lowercase and defaults to no admins", () => {
+    expect(loadConfig().adminUsers).toEqual([]);
+    process.env.ADMIN_USERS = "Alice, bob";
+    expect(loadConfig().adminUsers).toEqual(["alice", "bob"]);
+  });
+
+  it("defaults to HS256 access tokens without a key directory", () => {
+    const config = loadConfig();
+    expect(config.jwtSigningAlgorithm).toBe("HS256");
+    expect(config.jwtKeysDir).toBe("");
+    expect(config.jwtKeyRotationDays).toBe(0);
+  });
+
+  it("stores asymmetric signing keys under DATA_DIR by default", () => {
+    process.env.JWT_SIGNING_ALG = "es256";
+    process.env.DATA_DIR = "/data";
+    const config = loadConfig();
+    expect(config.jwtSigningAlgorithm).toBe("ES256");
+    expect(config.jwtKeysDir).toBe("/data/jwt-keys");
+  });
+
+  it("requires JWT_KEYS_DIR or DATA_DIR for asymmetric signing", () => {
+    process.env.JWT_SIGNING_ALG = "RS256";
+    delete process.env.DATA_DIR;
+    expect(() => loadConfig()).toThrow("JWT_KEYS_DIR or DATA_DIR is required when JWT_SIGNING_ALG=RS256");
+    process.env.JWT_KEYS_DIR = "/keys";
+    expect(loadConfig().jwtKeysDir).toBe("/keys");
+  });
+
+  it("rejects unsupported signing algorithms and invalid rotation periods", () => {
+    process.env.JWT_SIGNING_ALG = "none";
+    expect(() => loadConfig()).toThrow("JWT_SIGNING_ALG must be one of HS256, RS256, ES256");
+    process.env.JWT_SIGNING_ALG = "HS256";
+    process.env.JWT_KEY_ROTATION_DAYS = "-1";
+    expect(() => loadConfig()).toThrow("JWT_KEY_ROTATION_DAYS must be a non-negative integer");
+  });
 });
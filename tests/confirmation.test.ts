@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, readFile, realpath, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { Server } from "node:http";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { ElicitRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { createMcpServer } from "../src/server.js";
+import { initDebouncedSync, stopDebouncedSync } from "../src/git/debouncedSync.js";
+import { SUPPORTED_SCOPES } from "../src/oauth/scopes.js";
+import { createAuthInfo } from "../src/utils/requestContext.js";
+import { diffLines, loadConfirmationPolicyFile, requiresConfirmation } from "../src/utils/confirmation.js";
+import type { ConfirmationRule } from "../src/utils/confirmation.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { startMcpTestServer } from "./helpers/mcpTestServer.js";
+
+function getToolText(result: Awaited<ReturnType<Client["callTool"]>>): string {
+  return (result.content as Array<{ type: string; text: string }>)[0].text;
+}
+
+describe("loadConfirmationPolicyFile", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "confirmation-policy-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("defaults the paths of a rule to the whole vault", async () => {
+    const file = path.join(dir, "policy.json");
+    await writeFile(file, JSON.stringify({ rules: [{ tools: ["delete_file"] }] }));
+    expect(loadConfirmationPolicyFile(file)).toEqual([{ tools: ["delete_file"], paths: ["**"] }]);
+  });
+
+  it("rejects unknown tools", async () => {
+    const file = path.join(dir, "policy.json");
+    await writeFile(file, JSON.stringify({ rules: [{ tools: ["read_file"] }] }));
+    expect(() => loadConfirmationPolicyFile(file)).toThrow('CONFIRMATION_POLICY_FILE is invalid at "rules.0.tools.0"');
+  });
+});
+
+describe("requiresConfirmation", () => {
+  const rules: ConfirmationRule[] = [
+    { tools: ["delete_file", "move_directory"], paths: ["**"] },
+    { tools: ["write_file"], paths: ["Journal/**"] },
+  ];
+
+  it("matches tools and path globs", () => {
+    expect(requiresConfirmation(rules, "delete_file", ["notes/a.md"])).toBe(true);
+    expect(requiresConfirmation(rules, "write_file", ["Journal/2024-01-01.md"])).toBe(true);
+    expect(requiresConfirmation(rules, "write_file", ["./Journal/"])).toBe(true);
+    expect(requiresConfirmation(rules, "write_file", ["notes/a.md"])).toBe(false);
+    expect(requiresConfirmation(rules, "edit_file", ["Journal/2024-01-01.md"])).toBe(false);
+    expect(requiresConfirmation(null, "delete_file", ["notes/a.md"])).toBe(false);
+  });
+});
+
+describe("diffLines", () => {
+  it("shows the changed block with context", () => {
+    expect(diffLines("a\nb\nc\nd\ne\nf", "a\nb\nc\nX\ne\nf")).toEqual([" b", " c", "-d", "+X", " e", " f"]);
+    expect(diffLines("", "new\nfile")).toEqual(["+new", "+file"]);
+    expect(diffLines("same", "same")).toEqual([]);
+  });
+
+  it("truncates long diffs", () => {
+    const lines = diffLines("", Array.from({ length: 100 }, (_, i) => `line ${i}`).join("\n"));
+    expect(lines).toHaveLength(41);
+    expect(lines[40]).toBe("... (60 more lines)");
+  });
+});
+
+describe("Integration: confirmation of changes", () => {
+  let vault: string;
+  let config: ReturnType<typeof createTestConfig>;
+  const servers: Array<{ client: Client; httpServer: Server }> = [];
+
+  async function connect(elicitation: boolean, authInfo?: AuthInfo): Promise<Client> {
+    const server = await startMcpTestServer(await createMcpServer(config), authInfo, elicitation ? { elicitation: {} } : {});
+    servers.push(server);
+    return server.client;
+  }
+
+  beforeEach(async () => {
+    vault = await realpath(await mkdtemp(path.join(os.tmpdir(), "confirmation-vault-")));
+    await mkdir(path.join(vault, "Journal"));
+    await writeFile(path.join(vault, "Journal", "today.md"), "# Today\nFirst line\n");
+    await writeFile(path.join(vault, "scratch.md"), "scratch\n");
+    config = createTestConfig({
+      vaultPath: vault,
+      gitMode: "off",
+      confirmationRules: [
+        { tools: ["delete_file"], paths: ["**"] },
+        { tools: ["edit_file", "write_file"], paths: ["Journal/**"] },
+      ],
+    });
+    initDebouncedSync(config);
+  });
+
+  afterEach(async () => {
+    stopDebouncedSync();
+    for (const { client, httpServer } of servers.splice(0)) {
+      await client.close();
+      httpServer.close();
+    }
+    await rm(vault, { recursive: true, force: true });
+  });
+
+  it("applies the change after the user accepts a summary with a diff", async () => {
+    const client = await connect(true);
+    const messages: string[] = [];
+    client.setRequestHandler(ElicitRequestSchema, async (request): Promise<ElicitResult> => {
+      messages.push(request.params.message);
+      return { action: "accept", content: {} };
+    });
+
+    const result = await client.callTool({
+      name: "edit_file",
+      arguments: { path: "Journal/today.md", old_text: "First line", new_text: "Edited line" },
+    });
+    expect(result.isError).toBeFalsy();
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toContain("Approve edit_file?");
+    expect(messages[0]).toContain("Edit Journal/today.md");
+    expect(messages[0]).toContain("-First line\n+Edited line");
+    expect(await readFile(path.join(vault, "Journal", "today.md"), "utf-8")).toBe("# Today\nEdited line\n");
+  });
+
+  it("reports a failed write for every capture of the note, however they named it", async () => {
+    config.confirmationRules = [{ tools: ["append_to_note"], paths: ["**"] }];
+    const client = await connect(true);
+    client.setRequestHandler(ElicitRequestSchema, async (): Promise<ElicitResult> => {
+      // Something else takes the path before the note is written
+      await mkdir(path.join(vault, "Journal", "new.md"));
+      return { action: "accept", content: {} };
+    });
+
+    const result = await client.callTool({
+      name: "append_to_note",
+      arguments: { notes: [
+        { path: "Journal/new.md", content: "first" },
+        { path: "./Journal/new.md", content: "second" },
+        { path: "scratch.md", content: "third" },
+      ] },
+    });
+    const { results } = result.structuredContent as { results: Array<{ path: string; success: boolean }> };
+    expect(results.map((r) => [r.path, r.success])).toEqual([
+      ["Journal/new.md", false],
+      ["./Journal/new.md", false],
+      ["scratch.md", true],
+    ]);
+  });
+
+  it("leaves the vault unchanged when the user declines", async () => {
+    const client = await connect(true);
+    client.setRequestHandler(ElicitRequestSchema, async (): Promise<ElicitResult> => ({ action: "decline" }));
+
+    const result = await client.callTool({ name: "delete_file", arguments: { path: "scratch.md" } });
+    expect(result.isError).toBe(true);
+    expect(getToolText(result)).toBe("Change not applied: the user declined the confirmation of delete_file on scratch.md.");
+    expect(await readFile(path.join(vault, "scratch.md"), "utf-8")).toBe("scratch\n");
+  });
+
+  it("asks nothing for changes no rule covers", async () => {
+    const client = await connect(true);
+    let asked = false;
+    client.setRequestHandler(ElicitRequestSchema, async (): Promise<ElicitResult> => {
+      asked = true;
+      return { action: "decline" };
+    });
+
+    const result = await client.callTool({ name: "write_file", arguments: { path: "notes.md", content: "free\n" } });
+    expect(result.isError).toBeFalsy();
+    expect(asked).toBe(false);
+  });
+
+  it("asks only about the writes the user may make", async () => {
+    const client = await connect(true, createAuthInfo("token", "client", "kid", [...SUPPORTED_SCOPES], undefined, ["Journal/today.md"]));
+    const messages: string[] = [];
+    client.setRequestHandler(ElicitRequestSchema, async (request): Promise<ElicitResult> => {
+      messages.push(request.params.message);
+      return { action: "accept", content: {} };
+    });
+
+    const denied = await client.callTool({ name: "write_file", arguments: { path: "Journal/secret.md", content: "x\n" } });
+    expect(denied.isError).toBe(true);
+    expect(getToolText(denied)).toContain("Access denied");
+    expect(messages).toEqual([]);
+
+    const batch = await client.callTool({
+      name: "write_file",
+      arguments: { files: [
+        { path: "Journal/secret.md", content: "x\n" },
+        { path: "Journal/today.md", content: "# Today\n" },
+      ] },
+    });
+    const { results } = batch.structuredContent as { results: Array<{ path: string; success: boolean }> };
+    expect(results.map((r) => [r.path, r.success])).toEqual([
+      ["Journal/secret.md", false],
+      ["Journal/today.md", true],
+    ]);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toContain("Write Journal/today.md");
+    expect(messages[0]).not.toContain("Journal/secret.md");
+    await expect(readFile(path.join(vault, "Journal", "secret.md"), "utf-8")).rejects.toThrow("ENOENT");
+  });
+
+  it("fails with an instructive error when the client does not support elicitation", async () => {
+    const client = await connect(false);
+    const result = await client.callTool({ name: "write_file", arguments: { path: "Journal/new.md", content: "x\n" } });
+    expect(result.isError).toBe(true);
+    expect(getToolText(result)).toContain("Confirmation required: write_file on Journal/new.md must be approved by the user");
+    expect(getToolText(result)).toContain("does not support MCP elicitation");
+    await expect(readFile(path.join(vault, "Journal", "new.md"), "utf-8")).rejects.toThrow("ENOENT");
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import express from "express";
+import crypto from "node:crypto";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { handleAuthorizeGet } from "../src/oauth/authorize.js";
+import { handleProviderCallback } from "../src/oauth/callback.js";
+import { handleConsent, handleConsentsGet, handleRevokeConsent } from "../src/oauth/consent.js";
+import { GitHubProvider } from "../src/oauth/githubProvider.js";
+import { OAuthStore } from "../src/oauth/store.js";
+import type { OAuthStoreSnapshot } from "../src/oauth/store.js";
+import { OAuthSessionStore } from "../src/oauth/sessionStore.js";
+import { SharedSecretKeys } from "../src/oauth/signingKeys.js";
+import { MemoryStorageBackend } from "../src/utils/storageBackend.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { installGitHubMock, uninstallGitHubMock, resetGitHubMock } from "./helpers/mockGitHub.js";
+import { startAuthorizeFlow } from "./helpers/oauthHelpers.js";
+
+const REDIRECT_URI = "https://claude.ai/oauth/callback";
+
+const testConfig = createTestConfig({ oauthConsent: true });
+
+function registerClient(store: OAuthStore, clientName: string) {
+  return store.registerClient({
+    clientName,
+    redirectUris: [REDIRECT_URI],
+    grantTypes: ["authorization_code", "refresh_token"],
+    responseTypes: ["code"],
+    tokenEndpointAuthMethod: "none",
+  });
+}
+
+describe("OAuth consent page", () => {
+  let httpServer: Server;
+  let baseUrl: string;
+
+  const store = new OAuthStore();
+  const sessionStore = new OAuthSessionStore();
+  const provider = new GitHubProvider(testConfig);
+
+  beforeAll(() => {
+    installGitHubMock();
+
+    const app = express();
+    app.get("/oauth/authorize", handleAuthorizeGet(provider, store, sessionStore));
+    app.get("/oauth/github/callback", handleProviderCallback(testConfig, provider, sessionStore, store, new SharedSecretKeys(testConfig.jwtSecret)));
+    app.post("/oauth/consent", express.urlencoded({ extended: false }), handleConsent(store, sessionStore));
+    app.get("/oauth/consents", handleConsentsGet(provider, sessionStore));
+    app.post("/oauth/consents", express.urlencoded({ extended: false }), handleRevokeConsent(store, sessionStore));
+
+    httpServer = app.listen(0);
+    baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+    testConfig.serverUrl = baseUrl;
+  });
+
+  beforeEach(() => {
+    resetGitHubMock();
+  });
+
+  afterAll(() => {
+    httpServer?.close();
+    uninstallGitHubMock();
+  });
+
+  /** Runs authorize + GitHub callback and returns the callback response. */
+  async function login(clientId: string, scope?: string): Promise<Response> {
+    const codeChallenge = crypto.createHash("sha256").update("verifier").digest("base64url");
+    const { sessionKey } = await startAuthorizeFlow(baseUrl, clientId, codeChallenge, "client-state", REDIRECT_URI, scope);
+    return fetch(`${baseUrl}/oauth/github/callback?code=gh_code&state=${sessionKey}`, { redirect: "manual" });
+  }
+
+  function hiddenField(html: string, name: string): string {
+    const match = html.match(new RegExp(`name="${name}" value="([^"]+)"`));
+    expect(match).not.toBeNull();
+    return match![1];
+  }
+
+  function post(path: string, fields: Record<string, string>): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams(fields).toString(),
+      redirect: "manual",
+    });
+  }
+
+  it("shows the client, redirect URI and scopes before issuing a code", async () => {
+    const client = registerClient(store, "Notes <b>App</b>");
+    const res = await login(client.clientId, "vault:read");
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/html");
+    const csp = res.headers.get("content-security-policy")!;
+    expect(csp).toContain("frame-ancestors 'none'");
+    expect(csp).toContain("form-action 'self' https://claude.ai");
+    const html = await res.text();
+    expect(html).toContain("Notes &lt;b&gt;App&lt;/b&gt;");
+    expect(html).not.toContain("<b>App</b>");
+    expect(html).toContain(REDIRECT_URI);
+    expect(html).toContain("vault:read");
+    expect(html).not.toContain("vault:write");
+    expect(html).toContain("alloweduser");
+    expect(store.hasConsent("alloweduser", client.clientId, ["vault:read"])).toBe(false);
+  });
+
+  it("issues the code after approval and remembers the consent", async () => {
+    const client = registerClient(store, "Approved App");
+    const html = await (await login(client.clientId)).text();
+
+    const res = await post("/oauth/consent", { session: hiddenField(html, "session"), decision: "approve" });
+    expect(res.status).toBe(302);
+    const location = new URL(res.headers.get("location")!);
+    expect(location.origin + location.pathname).toBe(REDIRECT_URI);
+    expect(location.searchParams.get("code")).toMatch(/^[0-9a-f]{64}$/);
+    expect(location.searchParams.get("state")).toBe("client-state");
+
+    const second = await login(client.clientId);
+    expect(second.status).toBe(302);
+    expect(new URL(second.headers.get("location")!).searchParams.get("code")).toBeTruthy();
+  });
+
+  it("asks again when the client requests more scopes", async () => {
+    const client = registerClient(store, "Growing App");
+    const html = await (await login(client.clientId, "vault:read")).text();
+    await post("/oauth/consent", { session: hiddenField(html, "session"), decision: "approve" });
+
+    expect((await login(client.clientId, "vault:read")).status).toBe(302);
+    const res = await login(client.clientId, "vault:write");
+    expect(res.status).toBe(200);
+    await post("/oauth/consent", { session: hiddenField(await res.text(), "session"), decision: "approve" });
+    expect(store.listConsents("alloweduser").find((c) => c.clientId === client.clientId)!.scopes.sort()).toEqual(["vault:read", "vault:write"]);
+  });
+
+  it("redirects with access_denied when the user denies", async () => {
+    const client = registerClient(store, "Denied App");
+    const html = await (await login(client.clientId)).text();
+
+    const res = await post("/oauth/consent", { session: hiddenField(html, "session"), decision: "deny" });
+    expect(res.status).toBe(302);
+    const location = new URL(res.headers.get("location")!);
+    expect(location.searchParams.get("error")).toBe("access_denied");
+    expect(location.searchParams.get("state")).toBe("client-state");
+    expect(location.searchParams.has("code")).toBe(false);
+    expect(store.listConsents("alloweduser").some((c) => c.clientId === client.clientId)).toBe(false);
+  });
+
+  it("accepts each consent form once and only after login", async () => {
+    const client = registerClient(store, "Replay App");
+    const html = await (await login(client.clientId)).text();
+    const session = hiddenField(html, "session");
+
+    expect((await post("/oauth/consent", { session, decision: "approve" })).status).toBe(302);
+    expect((await post("/oauth/consent", { session, decision: "approve" })).status).toBe(400);
+
+    // A session still waiting for the GitHub callback has no user to consent for
+    const { sessionKey } = await startAuthorizeFlow(baseUrl, client.clientId, "challenge");
+    expect((await post("/oauth/consent", { session: sessionKey, decision: "approve" })).status).toBe(400);
+  });
+
+  it("does not accept a consent form key as callback state", async () => {
+    const client = registerClient(store, "Confused App");
+    const html = await (await login(client.clientId)).text();
+    const res = await fetch(`${baseUrl}/oauth/github/callback?code=gh_code&state=${hiddenField(html, "session")}`, { redirect: "manual" });
+    expect(res.status).toBe(400);
+  });
+
+  it("lets users review and revoke their consents after logging in", async () => {
+    const client = registerClient(store, "Revocable App");
+    const html = await (await login(client.clientId)).text();
+    await post("/oauth/consent", { session: hiddenField(html, "session"), decision: "approve" });
+    const refreshToken = store.createRefreshToken(client.clientId, "alloweduser", ["vault:read"], 3600);
+    const otherUserToken = store.createRefreshToken(client.clientId, "someoneelse", ["vault:read"], 3600);
+
+    const start = await fetch(`${baseUrl}/oauth/consents`, { redirect: "manual" });
+    expect(start.status).toBe(302);
+    const state = new URL(start.headers.get("location")!).searchParams.get("state");
+    const page = await fetch(`${baseUrl}/oauth/github/callback?code=gh_code&state=${state}`, { redirect: "manual" });
+    expect(page.status).toBe(200);
+    const pageHtml = await page.text();
+    expect(pageHtml).toContain("Revocable App");
+    const ticket = hiddenField(pageHtml, "ticket");
+
+    const revoked = await post("/oauth/consents", { ticket, client_id: client.clientId });
+    expect(revoked.status).toBe(200);
+    const revokedHtml = await revoked.text();
+    expect(revokedHtml).toContain("Access revoked.");
+    expect(revokedHtml).not.toContain("Revocable App");
+    expect(store.hasConsent("alloweduser", client.clientId, [])).toBe(false);
+    expect(store.getRefreshToken(refreshToken)).toBeNull();
+    expect(store.getRefreshToken(otherUserToken)).not.toBeNull();
+
+    // The ticket is single-use, and the client has to ask again
+    expect((await post("/oauth/consents", { ticket, client_id: client.clientId })).status).toBe(400);
+    expect((await login(client.clientId)).status).toBe(200);
+  });
+});
+
+describe("OAuthStore consents", () => {
+  it("persists consents and drops them with their client", () => {
+    const backend = new MemoryStorageBackend<OAuthStoreSnapshot>();
+    const store = new OAuthStore(backend);
+    const kept = registerClient(store, "Kept");
+    const deleted = registerClient(store, "Deleted");
+    store.grantConsent("alice", kept.clientId, ["vault:read"]);
+    store.grantConsent("alice", deleted.clientId, ["vault:read"]);
+    store.deleteClient(deleted.clientId, 60);
+
+    const restored = new OAuthStore(backend);
+    expect(restored.hasConsent("alice", kept.clientId, ["vault:read"])).toBe(true);
+    expect(restored.hasConsent("alice", kept.clientId, ["vault:write"])).toBe(false);
+    expect(restored.hasConsent("bob", kept.clientId, ["vault:read"])).toBe(false);
+    expect(restored.listConsents().map((c) => c.clientId)).toEqual([kept.clientId]);
+  });
+
+  it("reports unknown consents on revoke", () => {
+    expect(new OAuthStore().revokeConsent("alice", "nope")).toBe(false);
+  });
+});
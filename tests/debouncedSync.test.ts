@@ -49,6 +49,8 @@ describe("debouncedSync", () => {
     expect(mockedStageCommitAndPush).toHaveBeenCalledWith(
       config,
       "MCP: write test.md",
+      undefined,
+      undefined,
     );
   });
 
@@ -100,6 +102,8 @@ describe("debouncedSync", () => {
     expect(mockedStageCommitAndPush).toHaveBeenCalledWith(
       config,
       "MCP: write single.md",
+      undefined,
+      undefined,
     );
   });
 
@@ -114,6 +118,8 @@ describe("debouncedSync", () => {
     expect(mockedStageCommitAndPush).toHaveBeenCalledWith(
       config,
       "MCP: write urgent.md",
+      undefined,
+      undefined,
     );
   });
 
@@ -162,8 +168,8 @@ describe("debouncedSync", () => {
 
     // The loop should have drained both: first from the timer, second from the loop iteration
     expect(mockedStageCommitAndPush).toHaveBeenCalledTimes(2);
-    expect(mockedStageCommitAndPush).toHaveBeenNthCalledWith(1, config, "MCP: write first.md");
-    expect(mockedStageCommitAndPush).toHaveBeenNthCalledWith(2, config, "MCP: write second.md");
+    expect(mockedStageCommitAndPush).toHaveBeenNthCalledWith(1, config, "MCP: write first.md", undefined, undefined);
+    expect(mockedStageCommitAndPush).toHaveBeenNthCalledWith(2, config, "MCP: write second.md", undefined, undefined);
   });
 
   it("flushDebouncedSync is a no-op when nothing is pending", async () => {
@@ -215,6 +221,71 @@ describe("debouncedSync", () => {
     expect(message).toContain("4 operations");
   });
 
+  it("commits as the GitHub user when all batched changes come from one user", async () => {
+    scheduleSync("MCP: write a.md", "alice");
+    scheduleSync("MCP: write b.md", "alice");
+
+    vi.advanceTimersByTime(1000);
+    await vi.runAllTimersAsync();
+
+    expect(mockedStageCommitAndPush).toHaveBeenCalledWith(
+      config,
+      expect.stringContaining("2 operations"),
+      { name: "alice", email: "alice@users.noreply.github.com" },
+      undefined,
+    );
+  });
+
+  it("commits the paths of all batched changes, or everything when one did not name its paths", async () => {
+    scheduleSync("MCP: write a.md", "alice", ["a.md"]);
+    scheduleSync("MCP: rename a.md -> b.md", "alice", ["a.md", "b.md"]);
+    await flushDebouncedSync();
+    expect(mockedStageCommitAndPush.mock.calls[0][3]).toEqual(["a.md", "b.md"]);
+
+    scheduleSync("MCP: write c.md", "alice", ["c.md"]);
+    scheduleSync("MCP: external change", "alice");
+    await flushDebouncedSync();
+    expect(mockedStageCommitAndPush.mock.calls[1][3]).toBeUndefined();
+  });
+
+  it("still commits the paths and users of changes past the description cap", async () => {
+    for (let i = 0; i < 1000; i++) {
+      scheduleSync(`MCP: write ${i}.md`, "alice", [`${i}.md`]);
+    }
+    scheduleSync("MCP: write late.md", "bob", ["late.md"]);
+    expect(getPendingSyncCount()).toBe(1000);
+    await flushDebouncedSync();
+
+    const [, message, author, paths] = mockedStageCommitAndPush.mock.calls[0];
+    expect(message).toMatch(/^MCP: 1000 operations by alice, bob - /);
+    expect(message).not.toContain("late.md");
+    expect(author).toBeUndefined();
+    expect(paths).toHaveLength(1001);
+    expect(paths).toContain("late.md");
+  });
+
+  it("keeps the default author and names the user when logins are not GitHub's", async () => {
+    initDebouncedSync(createTestConfig({ gitDebounceSyncDelaySeconds: 1, authProvider: "oidc" }));
+    scheduleSync("MCP: write a.md", "alice");
+    await flushDebouncedSync();
+
+    const [, message, author] = mockedStageCommitAndPush.mock.calls[0];
+    expect(message).toBe("MCP: write a.md by alice");
+    expect(author).toBeUndefined();
+  });
+
+  it("names all users in the message when a batch mixes users", async () => {
+    scheduleSync("MCP: write a.md", "alice");
+    scheduleSync("MCP: write b.md", "bob");
+
+    vi.advanceTimersByTime(1000);
+    await vi.runAllTimersAsync();
+
+    const [, message, author] = mockedStageCommitAndPush.mock.calls[0];
+    expect(message).toMatch(/^MCP: 2 operations by alice, bob - /);
+    expect(author).toBeUndefined();
+  });
+
   it("scheduleSync is a no-op if not initialized", () => {
     stopDebouncedSync(); // Resets syncConfig to null
     scheduleSync("MCP: write orphan.md");
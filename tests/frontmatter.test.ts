@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { frontmatterTags, parseFrontmatter, splitFrontmatter, updateFrontmatter } from "../src/utils/frontmatter.js";
+import { extractTags } from "../src/tools/vaultOperations.js";
+
+const NOTE = [
+  "---",
+  "# Reviewed weekly",
+  "title: Roadmap # working title",
+  "tags: [project, planning]",
+  "aliases:",
+  "  - Plan",
+  "created: 2024-01-02",
+  "---",
+  "# Roadmap",
+  "---",
+  "",
+].join("\n");
+
+describe("parseFrontmatter", () => {
+  it("parses the properties and leaves dates as strings", () => {
+    expect(parseFrontmatter(NOTE)).toEqual({
+      title: "Roadmap",
+      tags: ["project", "planning"],
+      aliases: ["Plan"],
+      created: "2024-01-02",
+    });
+    expect(parseFrontmatter("# No frontmatter\n")).toEqual({});
+    expect(parseFrontmatter("---\n---\nbody")).toEqual({});
+  });
+
+  it("splits off the body after the closing line only", () => {
+    expect(splitFrontmatter(NOTE).body).toBe("# Roadmap\n---\n");
+    expect(splitFrontmatter("---\nunclosed: true\n").yaml).toBeNull();
+  });
+
+  it("rejects invalid YAML and frontmatter that is not a map", () => {
+    expect(() => parseFrontmatter("---\ntags: [a\n---\n")).toThrow("Invalid frontmatter");
+    expect(() => parseFrontmatter("---\n- a\n- b\n---\n")).toThrow("expected key: value properties");
+  });
+});
+
+describe("frontmatterTags", () => {
+  it("accepts lists and single values and strips a leading #", () => {
+    expect(frontmatterTags({ tags: ["a", "#b", 2] })).toEqual(["a", "b", "2"]);
+    expect(frontmatterTags({ tags: "single" })).toEqual(["single"]);
+    expect(frontmatterTags({ tags: null })).toEqual([]);
+  });
+});
+
+describe("extractTags", () => {
+  it("counts inline tags and frontmatter tags in any YAML list style", () => {
+    const tagCounts = new Map<string, number>();
+    extractTags("---\ntags:\n  - alpha\n  - 'beta'\ntitle: x\n---\nText #alpha\n", tagCounts);
+    extractTags("---\ntags: [gamma]\n---\n", tagCounts);
+    extractTags("---\ntags: [broken\n---\n#inline\n", tagCounts);
+    expect(Object.fromEntries(tagCounts)).toEqual({ "#alpha": 2, "#beta": 1, "#gamma": 1, "#inline": 1 });
+  });
+});
+
+describe("updateFrontmatter", () => {
+  it("renames, sets, appends and unsets, keeping order, comments and the body", () => {
+    const result = updateFrontmatter(NOTE, {
+      rename: { title: "name" },
+      set: { created: "2024-02-01", status: "active" },
+      append: { tags: ["planning", "q3"], aliases: "Q3 plan" },
+      unset: ["missing"],
+    });
+    expect(result).toBe([
+      "---",
+      "# Reviewed weekly",
+      "name: Roadmap # working title",
+      "tags: [project, planning, q3]",
+      "aliases:",
+      "  - Plan",
+      "  - Q3 plan",
+      "created: 2024-02-01",
+      "status: active",
+      "---",
+      "# Roadmap",
+      "---",
+      "",
+    ].join("\n"));
+  });
+
+  it("turns a single value into a list and creates missing lists", () => {
+    const result = updateFrontmatter("---\ntags: one\n---\n", { append: { tags: "two", topics: ["x"] } });
+    expect(parseFrontmatter(result)).toEqual({ tags: ["one", "two"], topics: ["x"] });
+    expect(() => updateFrontmatter("---\nmeta:\n  a: 1\n---\n", { append: { meta: "b" } })).toThrow("Cannot append to meta: not a list");
+  });
+
+  it("adds frontmatter to a note without one and removes it when emptied", () => {
+    expect(updateFrontmatter("# Body\n", { set: { status: "draft" } })).toBe("---\nstatus: draft\n---\n# Body\n");
+    expect(updateFrontmatter("---\nstatus: draft\n---\n# Body\n", { unset: ["status"] })).toBe("# Body\n");
+  });
+
+  it("refuses to rename onto an existing key", () => {
+    expect(() => updateFrontmatter(NOTE, { rename: { title: "created" } })).toThrow("Cannot rename title to created: property already exists");
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import express from "express";
+import crypto from "node:crypto";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { handleAuthorizeGet } from "../src/oauth/authorize.js";
+import { handleProviderCallback } from "../src/oauth/callback.js";
+import { handleToken } from "../src/oauth/token.js";
+import { GitHubProvider } from "../src/oauth/githubProvider.js";
+import { OAuthStore } from "../src/oauth/store.js";
+import { OAuthSessionStore } from "../src/oauth/sessionStore.js";
+import { RateLimiter } from "../src/utils/rateLimiter.js";
+import { sealSecret, openSecret } from "../src/oauth/secretBox.js";
+import { SharedSecretKeys } from "../src/oauth/signingKeys.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import {
+  installGitHubMock,
+  uninstallGitHubMock,
+  resetGitHubMock,
+  setMockGitHubUserResponse,
+  setMockGitHubMemberships,
+  setMockGitHubMembershipStatus,
+  getMockGitHubMembershipRequests,
+} from "./helpers/mockGitHub.js";
+import { startAuthorizeFlow, completeCallback } from "./helpers/oauthHelpers.js";
+
+const REDIRECT_URI = "https://claude.ai/oauth/callback";
+
+const testConfig = createTestConfig({
+  vaultPath: "/tmp/test-vault-membership",
+  allowedUsers: ["listeduser"],
+  allowedGithubOrgs: ["family-org"],
+  allowedGithubTeams: ["work-org/vault-editors"],
+});
+
+describe("GitHub organization and team allowlist", () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  let client: { clientId: string; clientSecret: string };
+
+  const store = new OAuthStore();
+  const sessionStore = new OAuthSessionStore();
+  const provider = new GitHubProvider(testConfig);
+
+  beforeAll(() => {
+    installGitHubMock();
+
+    const app = express();
+    app.get("/oauth/authorize", handleAuthorizeGet(provider, store, sessionStore));
+    app.get("/oauth/github/callback", handleProviderCallback(testConfig, provider, sessionStore, store, new SharedSecretKeys(testConfig.jwtSecret)));
+    app.post("/oauth/token", express.urlencoded({ extended: false }), handleToken(testConfig, store, new RateLimiter(50, 60_000), provider, new SharedSecretKeys(testConfig.jwtSecret)));
+
+    httpServer = app.listen(0);
+    baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+    testConfig.serverUrl = baseUrl;
+
+    const registered = store.registerClient({
+      clientName: "Membership Test Client",
+      redirectUris: [REDIRECT_URI],
+      grantTypes: ["authorization_code", "refresh_token"],
+      responseTypes: ["code"],
+      tokenEndpointAuthMethod: "client_secret_post",
+    });
+    client = { clientId: registered.clientId, clientSecret: registered.clientSecret! };
+  });
+
+  beforeEach(() => {
+    resetGitHubMock();
+    setMockGitHubUserResponse({ login: "OrgMember", id: 777 });
+  });
+
+  afterAll(() => {
+    httpServer?.close();
+    uninstallGitHubMock();
+  });
+
+  /** Runs authorize + callback and returns the callback redirect plus the PKCE verifier. */
+  async function login(): Promise<{ location: URL; codeVerifier: string }> {
+    const codeVerifier = crypto.randomBytes(32).toString("hex");
+    const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+    const { sessionKey } = await startAuthorizeFlow(baseUrl, client.clientId, codeChallenge);
+    const { location } = await completeCallback(baseUrl, sessionKey);
+    return { location: new URL(location), codeVerifier };
+  }
+
+  async function obtainTokens(): Promise<{ access_token: string; refresh_token: string }> {
+    const { location, codeVerifier } = await login();
+    const res = await fetch(`${baseUrl}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: location.searchParams.get("code")!,
+        redirect_uri: REDIRECT_URI,
+        client_id: client.clientId,
+        client_secret: client.clientSecret,
+        code_verifier: codeVerifier,
+      }).toString(),
+    });
+    expect(res.status).toBe(200);
+    return res.json();
+  }
+
+  function refresh(refreshToken: string): Promise<Response> {
+    return fetch(`${baseUrl}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: refreshToken,
+        client_id: client.clientId,
+        client_secret: client.clientSecret,
+      }).toString(),
+    });
+  }
+
+  it("requests the read:org scope from GitHub", async () => {
+    const { location } = await startAuthorizeFlow(baseUrl, client.clientId, "challenge");
+    expect(new URL(location).searchParams.get("scope")).toBe("read:user read:org");
+  });
+
+  it("admits an active member of an allowed organization", async () => {
+    setMockGitHubMemberships({ orgs: ["family-org"] });
+    const { access_token } = await obtainTokens();
+    expect(JSON.parse(Buffer.from(access_token.split(".")[1], "base64url").toString()).sub).toBe("orgmember");
+  });
+
+  it("admits an active member of an allowed team", async () => {
+    setMockGitHubMemberships({ orgs: ["work-org"], teams: ["work-org/vault-editors"] });
+    const { location } = await login();
+    expect(location.searchParams.get("code")).toBeTruthy();
+  });
+
+  it("denies a member of another team in the same organization", async () => {
+    setMockGitHubMemberships({ orgs: ["work-org"], teams: ["work-org/marketing"] });
+    const { location } = await login();
+    expect(location.searchParams.get("error")).toBe("access_denied");
+    expect(location.searchParams.get("code")).toBeNull();
+  });
+
+  it("admits ALLOWED_USERS without checking memberships", async () => {
+    setMockGitHubUserResponse({ login: "ListedUser", id: 1 });
+    const { refresh_token } = await obtainTokens();
+    expect((await refresh(refresh_token)).status).toBe(200);
+    expect(getMockGitHubMembershipRequests()).toBe(0);
+  });
+
+  it("rechecks membership on refresh and keeps access while it is active", async () => {
+    setMockGitHubMemberships({ orgs: ["family-org"] });
+    const { refresh_token } = await obtainTokens();
+    const requestsAfterLogin = getMockGitHubMembershipRequests();
+
+    const res = await refresh(refresh_token);
+    expect(res.status).toBe(200);
+    expect(getMockGitHubMembershipRequests()).toBeGreaterThan(requestsAfterLogin);
+
+    // The rotated refresh token is rechecked too
+    const { refresh_token: rotated } = await res.json();
+    setMockGitHubMemberships({});
+    expect((await refresh(rotated)).status).toBe(400);
+  });
+
+  it("rejects and revokes the refresh token after the user leaves the organization", async () => {
+    setMockGitHubMemberships({ orgs: ["family-org"] });
+    const { refresh_token } = await obtainTokens();
+
+    setMockGitHubMemberships({});
+    const res = await refresh(refresh_token);
+    expect(res.status).toBe(400);
+    const data = await res.json();
+    expect(data.error).toBe("invalid_grant");
+    expect(data.error_description).toBe("User is no longer authorized");
+
+    // Rejoining does not revive the revoked token
+    setMockGitHubMemberships({ orgs: ["family-org"] });
+    expect((await refresh(refresh_token)).status).toBe(400);
+  });
+
+  it("treats a revoked GitHub token as lost membership", async () => {
+    setMockGitHubMemberships({ orgs: ["family-org"] });
+    const { refresh_token } = await obtainTokens();
+
+    setMockGitHubMembershipStatus(401);
+    expect((await refresh(refresh_token)).status).toBe(400);
+  });
+
+  it("keeps the refresh token usable when GitHub is unavailable", async () => {
+    setMockGitHubMemberships({ orgs: ["family-org"] });
+    const { refresh_token } = await obtainTokens();
+
+    setMockGitHubMembershipStatus(502);
+    const res = await refresh(refresh_token);
+    expect(res.status).toBe(503);
+    expect((await res.json()).error).toBe("temporarily_unavailable");
+
+    setMockGitHubMembershipStatus(undefined);
+    expect((await refresh(refresh_token)).status).toBe(200);
+  });
+
+  it("stores the GitHub token encrypted with the refresh token", async () => {
+    setMockGitHubMemberships({ orgs: ["family-org"] });
+    const { refresh_token } = await obtainTokens();
+
+    const entry = store.getRefreshToken(refresh_token)!;
+    expect(entry.providerToken).toBeDefined();
+    expect(entry.providerToken).not.toContain("gh_mock_token");
+    expect(openSecret(entry.providerToken!, testConfig.jwtSecret)).toBe("gh_mock_token");
+  });
+});
+
+describe("GitHubProvider", () => {
+  it("requests only read:user without membership rules", async () => {
+    const provider = new GitHubProvider(createTestConfig());
+    const url = new URL(await provider.getAuthorizationUrl({ state: "s", codeChallenge: "c", nonce: "n" }));
+    expect(url.searchParams.get("scope")).toBe("read:user");
+  });
+
+  it("does not query GitHub without membership rules", async () => {
+    const provider = new GitHubProvider(createTestConfig());
+    expect(await provider.checkMembership({ username: "someone", accessToken: "token" })).toBe(false);
+  });
+});
+
+describe("secretBox", () => {
+  const secret = "a".repeat(32);
+
+  it("round-trips a sealed value", () => {
+    const sealed = sealSecret("gho_example", secret);
+    expect(sealed).not.toContain("gho_example");
+    expect(openSecret(sealed, secret)).toBe("gho_example");
+  });
+
+  it("uses a fresh IV for every seal", () => {
+    expect(sealSecret("same", secret)).not.toBe(sealSecret("same", secret));
+  });
+
+  it("returns null for another JWT_SECRET or tampered input", () => {
+    const sealed = sealSecret("gho_example", secret);
+    expect(openSecret(sealed, "b".repeat(32))).toBeNull();
+    expect(openSecret(sealed.slice(0, -2) + "AA", secret)).toBeNull();
+    expect(openSecret("not-sealed", secret)).toBeNull();
+  });
+});
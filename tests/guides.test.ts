@@ -182,6 +182,18 @@ describe("Guide Tool and MCP Prompts", () => {
     expect(text).toContain("title:");
   });
 
+  it("get_obsidian_guide rejects note types without a template, listing the defined ones", async () => {
+    for (const note_type of ["project", "zett"]) {
+      const result = await client.callTool({
+        name: "get_obsidian_guide",
+        arguments: { topic: "create-note", note_type },
+      });
+      expect(result.isError).toBe(true);
+      const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+      expect(text).toContain(`Unknown note type: ${note_type}. Available: zettel, meeting, daily`);
+    }
+  });
+
   it("template variable {{today}} is replaced with ISO date", async () => {
     const result = await client.callTool({
       name: "get_obsidian_guide",
@@ -6,6 +6,8 @@ import express from "express";
 import crypto from "node:crypto";
 import type { Server } from "node:http";
 import type { AddressInfo } from "node:net";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { ClientCapabilities } from "@modelcontextprotocol/sdk/types.js";
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
 
@@ -19,11 +21,25 @@ export interface McpTestServer {
 /**
  * Starts a minimal Express server with MCP transport and connects a client.
  * Useful for integration tests that need to test MCP tools end-to-end.
+ * When `authInfo` is given, every request carries it as `req.auth`, the way
+ * `jwtAuth` does for an authenticated user. `capabilities` are declared by
+ * the client, e.g. elicitation.
  */
-export async function startMcpTestServer(mcpServer: McpServer): Promise<McpTestServer> {
+export async function startMcpTestServer(
+  mcpServer: McpServer,
+  authInfo?: AuthInfo,
+  capabilities: ClientCapabilities = {},
+): Promise<McpTestServer> {
   const app = express();
   const transports = new Map<string, StreamableHTTPServerTransport>();
 
+  if (authInfo) {
+    app.use((req, _res, next) => {
+      req.auth = authInfo;
+      next();
+    });
+  }
+
   app.post("/mcp", express.json(), async (req, res) => {
     const sessionId = req.headers["mcp-session-id"] as string | undefined;
     if (sessionId && transports.has(sessionId)) {
@@ -63,7 +79,7 @@ export async function startMcpTestServer(mcpServer: McpServer): Promise<McpTestS
   const httpServer = app.listen(0);
   const port = (httpServer.address() as AddressInfo).port;
 
-  const client = new Client({ name: "test-client", version: "1.0.0" });
+  const client = new Client({ name: "test-client", version: "1.0.0" }, { capabilities });
   const clientTransport = new StreamableHTTPClientTransport(
     new URL(`http://localhost:${port}/mcp`),
   );
@@ -1,8 +1,9 @@
 /**
  * GitHub API fetch mock for OAuth tests.
  *
- * Intercepts requests to github.com/login/oauth/access_token and
- * api.github.com/user, returning configurable mock responses.
+ * Intercepts requests to github.com/login/oauth/access_token,
+ * api.github.com/user and the org/team membership endpoints, returning
+ * configurable mock responses. Memberships apply to the mock user.
  * All other URLs are passed through to the original fetch.
  *
  * Usage:
@@ -17,12 +18,20 @@ let mockGitHubTokenResponse: object = {};
 let mockGitHubUserResponse: object = {};
 let mockGitHubTokenStatus = 200;
 let mockGitHubUserStatus = 200;
+let mockGitHubOrgs: string[] = [];
+let mockGitHubTeams: string[] = [];
+let mockGitHubMembershipStatus: number | undefined;
+let mockGitHubMembershipRequests = 0;
 
 export function resetGitHubMock(): void {
   mockGitHubTokenResponse = { access_token: "gh_mock_token", token_type: "bearer", scope: "read:user" };
   mockGitHubUserResponse = { login: "AllowedUser", id: 12345 };
   mockGitHubTokenStatus = 200;
   mockGitHubUserStatus = 200;
+  mockGitHubOrgs = [];
+  mockGitHubTeams = [];
+  mockGitHubMembershipStatus = undefined;
+  mockGitHubMembershipRequests = 0;
 }
 
 export function setMockGitHubTokenResponse(response: object, status = 200): void {
@@ -35,6 +44,36 @@ export function setMockGitHubUserResponse(response: object, status = 200): void
   mockGitHubUserStatus = status;
 }
 
+/** Active memberships of the mock user: org logins and "org/team-slug" teams. */
+export function setMockGitHubMemberships(memberships: { orgs?: string[]; teams?: string[] }): void {
+  mockGitHubOrgs = memberships.orgs ?? [];
+  mockGitHubTeams = memberships.teams ?? [];
+}
+
+/** Force a status for every membership request (e.g. 502 for an outage). Undefined restores normal answers. */
+export function setMockGitHubMembershipStatus(status: number | undefined): void {
+  mockGitHubMembershipStatus = status;
+}
+
+/** Number of membership requests since the last reset. */
+export function getMockGitHubMembershipRequests(): number {
+  return mockGitHubMembershipRequests;
+}
+
+function membershipResponse(isMember: boolean): Response {
+  mockGitHubMembershipRequests++;
+  if (mockGitHubMembershipStatus !== undefined) {
+    return new Response(JSON.stringify({ message: "Mock status" }), { status: mockGitHubMembershipStatus });
+  }
+  if (!isMember) {
+    return new Response(JSON.stringify({ message: "Not Found" }), { status: 404 });
+  }
+  return new Response(JSON.stringify({ state: "active", role: "member" }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
 export function installGitHubMock(): void {
   if (originalFetch) return; // Already installed
 
@@ -55,6 +94,16 @@ export function installGitHubMock(): void {
       });
     }
 
+    const orgMembership = url.match(/^https:\/\/api\.github\.com\/user\/memberships\/orgs\/([^/]+)$/);
+    if (orgMembership) {
+      return membershipResponse(mockGitHubOrgs.includes(orgMembership[1]));
+    }
+    const teamMembership = url.match(/^https:\/\/api\.github\.com\/orgs\/([^/]+)\/teams\/([^/]+)\/memberships\/([^/]+)$/);
+    if (teamMembership) {
+      const [, org, team] = teamMembership;
+      return membershipResponse(mockGitHubTeams.includes(`${org}/${team}`));
+    }
+
     return originalFetch!(input, init);
   };
 }
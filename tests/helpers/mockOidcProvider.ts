@@ -0,0 +1,150 @@
+/**
+ * Local OpenID Connect provider for OIDC tests.
+ *
+ * Serves a discovery document, a JWKS, a token endpoint and a userinfo
+ * endpoint on 127.0.0.1. There is no login page: tests read `state`, `nonce`
+ * and `code_challenge` from the authorize redirect and call `issueCode()`
+ * to simulate the user logging in. The token endpoint checks client
+ * authentication and PKCE like a real provider.
+ *
+ * Usage:
+ *   const idp = await startMockOidcProvider({ clientId: "c", clientSecret: "s" });
+ *   const code = idp.issueCode({ sub: "1", preferred_username: "Alice" }, { nonce, codeChallenge });
+ *   await idp.close();
+ */
+import express from "express";
+import crypto from "node:crypto";
+import jwt from "jsonwebtoken";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+interface PendingCode {
+  claims: Record<string, unknown>;
+  nonce: string;
+  codeChallenge: string;
+}
+
+export interface MockOidcProviderOptions {
+  clientId: string;
+  /** Omit for a public client. */
+  clientSecret?: string;
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  /** Register a code for a simulated login. `claims` go into the ID token. */
+  issueCode(claims: Record<string, unknown>, request: { nonce: string; codeChallenge: string }): string;
+  /** Overrides merged into the next ID tokens (e.g. `{ aud: "other" }`). */
+  setIdTokenOverrides(overrides: Record<string, unknown>): void;
+  /** Sign ID tokens with a key that is not in the JWKS. */
+  setSignWithUnknownKey(enabled: boolean): void;
+  /** Claims returned from the userinfo endpoint. */
+  setUserInfo(claims: Record<string, unknown>): void;
+  /** Issuer value reported in the discovery document. */
+  setDiscoveryIssuer(issuer: string): void;
+  /** Token endpoint requests received so far. */
+  tokenRequests: Array<{ authorization: string | undefined; body: Record<string, string> }>;
+  close(): Promise<void>;
+}
+
+export async function startMockOidcProvider(options: MockOidcProviderOptions): Promise<MockOidcProvider> {
+  const signingKey = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const unknownKey = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const kid = "mock-key-1";
+
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Map<string, Record<string, unknown>>();
+  const tokenRequests: MockOidcProvider["tokenRequests"] = [];
+  let idTokenOverrides: Record<string, unknown> = {};
+  let signWithUnknownKey = false;
+  let userInfo: Record<string, unknown> = {};
+  let discoveryIssuer: string | undefined;
+
+  const app = express();
+  const server: Server = app.listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  app.get("/.well-known/openid-configuration", (_req, res) => {
+    res.json({
+      issuer: discoveryIssuer ?? issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+      id_token_signing_alg_values_supported: ["ES256"],
+    });
+  });
+
+  app.get("/jwks", (_req, res) => {
+    res.json({ keys: [{ ...signingKey.publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "ES256" }] });
+  });
+
+  app.post("/token", express.urlencoded({ extended: false }), (req, res) => {
+    const body = req.body as Record<string, string>;
+    tokenRequests.push({ authorization: req.headers.authorization, body });
+
+    if (options.clientSecret !== undefined) {
+      const expected = `Basic ${Buffer.from(`${options.clientId}:${options.clientSecret}`).toString("base64")}`;
+      if (req.headers.authorization !== expected) {
+        res.status(401).json({ error: "invalid_client" });
+        return;
+      }
+    } else if (body.client_id !== options.clientId) {
+      res.status(401).json({ error: "invalid_client" });
+      return;
+    }
+
+    const pending = codes.get(body.code);
+    codes.delete(body.code);
+    const challenge = crypto.createHash("sha256").update(body.code_verifier ?? "").digest("base64url");
+    if (!pending || body.grant_type !== "authorization_code" || challenge !== pending.codeChallenge) {
+      res.status(400).json({ error: "invalid_grant" });
+      return;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = jwt.sign(
+      { iss: issuer, aud: options.clientId, iat: now, exp: now + 300, nonce: pending.nonce, ...pending.claims, ...idTokenOverrides },
+      signWithUnknownKey ? unknownKey.privateKey : signingKey.privateKey,
+      { algorithm: "ES256", keyid: signWithUnknownKey ? "unknown-key" : kid },
+    );
+    const accessToken = crypto.randomBytes(16).toString("hex");
+    accessTokens.set(accessToken, pending.claims);
+    res.json({ access_token: accessToken, token_type: "Bearer", expires_in: 300, id_token: idToken });
+  });
+
+  app.get("/userinfo", (req, res) => {
+    const token = req.headers.authorization?.replace(/^Bearer /, "") ?? "";
+    const claims = accessTokens.get(token);
+    if (!claims) {
+      res.status(401).json({ error: "invalid_token" });
+      return;
+    }
+    res.json({ sub: claims.sub, ...userInfo });
+  });
+
+  return {
+    issuer,
+    issueCode(claims, request) {
+      const code = crypto.randomBytes(16).toString("hex");
+      codes.set(code, { claims, nonce: request.nonce, codeChallenge: request.codeChallenge });
+      return code;
+    },
+    setIdTokenOverrides(overrides) {
+      idTokenOverrides = overrides;
+    },
+    setSignWithUnknownKey(enabled) {
+      signWithUnknownKey = enabled;
+    },
+    setUserInfo(claims) {
+      userInfo = claims;
+    },
+    setDiscoveryIssuer(value) {
+      discoveryIssuer = value;
+    },
+    tokenRequests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -10,6 +10,7 @@ export async function startAuthorizeFlow(
   codeChallenge: string,
   state = "test-state",
   redirectUri = "https://claude.ai/oauth/callback",
+  scope?: string,
 ): Promise<{ sessionKey: string; location: string }> {
   const params = new URLSearchParams({
     response_type: "code",
@@ -19,6 +20,7 @@ export async function startAuthorizeFlow(
     code_challenge: codeChallenge,
     code_challenge_method: "S256",
   });
+  if (scope !== undefined) params.set("scope", scope);
 
   const res = await fetch(`${baseUrl}/oauth/authorize?${params}`, { redirect: "manual" });
   expect(res.status).toBe(302);
@@ -4,6 +4,7 @@ export const TEST_JWT_SECRET = "test-jwt-secret-that-is-at-least-32-chars-long";
 
 export function createTestConfig(overrides: Partial<Config> = {}): Config {
   return {
+    gitMode: "sync",
     gitRepoUrl: "https://example.com/repo.git",
     gitBranch: "main",
     gitSyncIntervalSeconds: 0,
@@ -14,15 +15,30 @@ export function createTestConfig(overrides: Partial<Config> = {}): Config {
     port: 0,
     logLevel: "error",
     jwtSecret: TEST_JWT_SECRET,
+    jwtSigningAlgorithm: "HS256",
+    jwtKeysDir: "",
+    jwtKeyRotationDays: 0,
     serverUrl: "",
     accessTokenExpirySeconds: 3600,
     refreshTokenExpirySeconds: 604800,
+    authProvider: "github",
     githubClientId: "test-github-client-id",
     githubClientSecret: "test-github-client-secret",
-    allowedGithubUsers: ["alloweduser"],
+    oidc: null,
+    allowedUsers: ["alloweduser"],
+    allowedGithubOrgs: [],
+    allowedGithubTeams: [],
+    adminUsers: [],
+    auditLogFile: "",
+    oauthConsent: false,
+    clientIdMetadataDocuments: true,
     trustProxy: false,
+    sessionMode: "stateful",
     maxSessions: 100,
     promptsDir: "prompts",
+    dataDir: "",
+    accessControl: null,
+    confirmationRules: null,
     ...overrides,
   };
 }
@@ -13,6 +13,8 @@ import { registerFileOperations } from "../src/tools/fileOperations.js";
 import { registerDirectoryOps } from "../src/tools/directoryOps.js";
 import { registerSearchOperations } from "../src/tools/searchOperations.js";
 import { registerVaultOperations } from "../src/tools/vaultOperations.js";
+import { registerHistoryOperations } from "../src/tools/historyOperations.js";
+import { registerNoteOperations } from "../src/tools/noteOperations.js";
 import { initDebouncedSync, stopDebouncedSync } from "../src/git/debouncedSync.js";
 import { createTestConfig } from "./helpers/testConfig.js";
 
@@ -84,6 +86,8 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
       registerDirectoryOps(server, testConfig);
       registerSearchOperations(server, testConfig);
       registerVaultOperations(server, testConfig);
+      registerHistoryOperations(server, testConfig);
+      registerNoteOperations(server, testConfig);
       return server;
     };
 
@@ -173,6 +177,7 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
     expect(toolNames).toContain("get_vault_info");
     expect(toolNames).toContain("get_backlinks");
     expect(toolNames).toContain("get_tags");
+    expect(result.tools.filter((t) => !t.outputSchema).map((t) => t.name)).toEqual([]);
   });
 
   it("reads a file", async () => {
@@ -233,6 +238,10 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
     });
     const text = getToolText(result);
     expect(text).toContain("hello.md");
+    expect(result.structuredContent).toEqual({
+      matches: [{ path: "hello.md", line: 1, text: "# Hello World" }],
+      truncated: false,
+    });
   });
 
   it("gets backlinks", async () => {
@@ -244,6 +253,26 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
     expect(text).toContain("subfolder/nested.md");
   });
 
+  it("reports grep progress to callers passing a progress token", async () => {
+    const updates: Array<{ progress: number; total?: number }> = [];
+    const result = await client.callTool(
+      { name: "grep", arguments: { query: "Hello World" } },
+      undefined,
+      { onprogress: (update) => updates.push(update) },
+    );
+    expect(result.isError).toBeFalsy();
+    expect(updates.length).toBeGreaterThan(0);
+    const last = updates[updates.length - 1];
+    expect(last.progress).toBe(last.total);
+  });
+
+  it("returns recent commits as structured content", async () => {
+    const result = await client.callTool({ name: "get_recent_changes", arguments: { count: 20 } });
+    const { commits } = result.structuredContent as { commits: Array<{ message: string; files: Array<{ path: string; status: string }> }> };
+    const init = commits.find((c) => c.message === "init");
+    expect(init?.files).toContainEqual(expect.objectContaining({ path: "hello.md", status: "added" }));
+  });
+
   it("gets tags", async () => {
     const result = await client.callTool({
       name: "get_tags",
@@ -252,6 +281,7 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
     const text = getToolText(result);
     expect(text).toContain("#test");
     expect(text).toContain("#example");
+    expect(result.structuredContent).toEqual({ tags: [{ tag: "#test", count: 1 }, { tag: "#example", count: 1 }] });
   });
 
   it("gets vault info", async () => {
@@ -302,6 +332,17 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
     expect(text).toBe("No matches found");
   });
 
+  it("returns find_files rows with size and modification time", async () => {
+    const result = await client.callTool({
+      name: "find_files",
+      arguments: { name: "hello.md" },
+    });
+    const { results } = result.structuredContent as { results: Array<{ files: Array<Record<string, unknown>> }> };
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ path: ".", success: true, truncated: false });
+    expect(results[0].files).toEqual([{ path: "hello.md", size: expect.any(Number), mtime: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/) }]);
+  });
+
   it("excludes .claude files from find_files", async () => {
     const result = await client.callTool({
       name: "find_files",
@@ -462,6 +503,12 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
     expect(text).toContain("# Hello World");
     expect(text).toContain("--- [2/2] nonexistent.md ---");
     expect(text).toContain("ERROR:");
+    expect(result.structuredContent).toEqual({
+      results: [
+        { path: "hello.md", success: true, content: expect.stringContaining("# Hello World") },
+        { path: "nonexistent.md", success: false, error: expect.stringContaining("ENOENT") },
+      ],
+    });
   });
 
   it("batch read rejects empty batch", async () => {
@@ -486,6 +533,13 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
     expect(text).toContain("5: Line 5 content");
     expect(text).not.toContain("2: Line 2 content");
     expect(text).not.toContain("6: Line 6 content");
+    expect(result.structuredContent).toEqual({
+      path: "multiline.md",
+      start_line: 3,
+      end_line: 5,
+      total_lines: 20,
+      lines: [3, 4, 5].map((line) => ({ line, text: `Line ${line} content` })),
+    });
   });
 
   it("reads to end of file when end_line is omitted", async () => {
@@ -640,6 +694,12 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
     expect(text).toContain("File written: batch1.md");
     expect(text).toContain("--- [2/2] batch2.md ---");
     expect(text).toContain("File written: batch2.md");
+    expect(result.structuredContent).toEqual({
+      results: [
+        { path: "batch1.md", success: true },
+        { path: "batch2.md", success: true },
+      ],
+    });
 
     // Verify files were actually written
     const read1 = await client.callTool({ name: "read_file", arguments: { path: "batch1.md" } });
@@ -696,6 +756,120 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
     expect(text).toContain("ERROR:");
   });
 
+  // --- edit_section tests ---
+
+  it("edits a section addressed by its heading path", async () => {
+    await client.callTool({
+      name: "write_file",
+      arguments: { path: "sections.md", content: "# Webapp\n## Open questions\n- Which database?\n# Mobile\n## Open questions\n- Which framework?\n" },
+    });
+
+    const result = await client.callTool({
+      name: "edit_section",
+      arguments: { path: "sections.md", heading_path: "Mobile > Open questions", operation: "append", content: "- Which store?" },
+    });
+    expect(getToolText(result)).toBe("Section edited (append): sections.md > Mobile > Open questions");
+    expect(result.structuredContent).toEqual({ path: "sections.md", heading_path: "Mobile > Open questions", operation: "append" });
+
+    const read = await client.callTool({ name: "read_file", arguments: { path: "sections.md" } });
+    expect(getToolText(read)).toBe("# Webapp\n## Open questions\n- Which database?\n# Mobile\n## Open questions\n- Which framework?\n- Which store?\n");
+  });
+
+  it("edit_section reports ambiguous heading paths without changing the note", async () => {
+    await client.callTool({
+      name: "write_file",
+      arguments: { path: "ambiguous.md", content: "# A\n## Todo\n# B\n## Todo\n" },
+    });
+    const result = await client.callTool({
+      name: "edit_section",
+      arguments: { path: "ambiguous.md", heading_path: "Todo", operation: "delete" },
+    });
+    expect(result.isError).toBe(true);
+    expect(getToolText(result)).toContain("Heading path matches 2 sections");
+  });
+
+  // --- append_to_note / prepend_to_note tests ---
+
+  it("append_to_note adds to a section and prepend_to_note after the frontmatter", async () => {
+    await client.callTool({
+      name: "write_file",
+      arguments: { path: "inbox.md", content: "---\ntags: [inbox]\n---\n# Todo\n- first\n\n# Ideas\n" },
+    });
+
+    const appended = await client.callTool({
+      name: "append_to_note",
+      arguments: { path: "inbox.md", content: "- second", heading: "Todo" },
+    });
+    expect(getToolText(appended)).toBe("Appended to inbox.md");
+    expect(appended.structuredContent).toEqual({ results: [{ path: "inbox.md", success: true, created: false }] });
+
+    const prepended = await client.callTool({ name: "prepend_to_note", arguments: { path: "inbox.md", content: "Captured on the go" } });
+    expect(getToolText(prepended)).toBe("Prepended to inbox.md");
+
+    const read = await client.callTool({ name: "read_file", arguments: { path: "inbox.md" } });
+    expect(getToolText(read)).toBe("---\ntags: [inbox]\n---\nCaptured on the go\n# Todo\n- first\n- second\n\n# Ideas\n");
+  });
+
+  it("append_to_note creates a missing note from a template and writes batch captures once", async () => {
+    const result = await client.callTool({
+      name: "append_to_note",
+      arguments: {
+        notes: [
+          { path: "Daily/capture.md", content: "- [ ] call back", heading: "Plan für heute", template: "daily" },
+          { path: "Daily/capture.md", content: "Met Alex", heading: "Log" },
+          { path: "Daily/other.md", content: "x", template: "no-such-type" },
+        ],
+      },
+    });
+    const text = getToolText(result);
+    expect(text).toContain("Appended to Daily/capture.md (created)");
+    expect(text).toContain("Unknown note type: no-such-type");
+    expect((result.structuredContent as { results: Array<{ created?: boolean }> }).results[1].created).toBe(true);
+
+    const read = await client.callTool({ name: "read_file", arguments: { path: "Daily/capture.md" } });
+    const note = getToolText(read);
+    expect(note).toMatch(/^---\ndate: \d{4}-\d{2}-\d{2}\ntags: \[daily\]\n---/);
+    expect(note).toContain("## Plan für heute\n\n- [ ]\n- [ ] call back\n\n## Notizen");
+    expect(note.endsWith("\n\n## Log\nMet Alex\n")).toBe(true);
+  });
+
+  // --- get_properties / set_properties tests ---
+
+  it("set_properties updates frontmatter in batch and get_properties reads it", async () => {
+    await client.callTool({
+      name: "write_file",
+      arguments: { files: [
+        { path: "props-a.md", content: "---\ntitle: A # keep\ntags: [x]\n---\nBody A\n" },
+        { path: "props-b.md", content: "Body B\n" },
+      ] },
+    });
+
+    const update = await client.callTool({
+      name: "set_properties",
+      arguments: { files: [
+        { path: "props-a.md", set: { status: "done" }, append: { tags: "y" } },
+        { path: "props-b.md", set: { status: "draft" } },
+        { path: "props-a.md", rename: { title: "name" } },
+      ] },
+    });
+    expect(getToolText(update)).toContain("Properties updated: props-b.md");
+    const results = (update.structuredContent as { results: Array<{ properties?: Record<string, unknown> }> }).results;
+    expect(results[2].properties).toEqual({ name: "A", tags: ["x", "y"], status: "done" });
+
+    const read = await client.callTool({ name: "read_file", arguments: { path: "props-a.md" } });
+    expect(getToolText(read)).toBe("---\nname: A # keep\ntags: [x, y]\nstatus: done\n---\nBody A\n");
+
+    const props = await client.callTool({ name: "get_properties", arguments: { path: "props-b.md" } });
+    expect(getToolText(props)).toBe("status: draft");
+    expect(props.structuredContent).toEqual({ results: [{ path: "props-b.md", success: true, properties: { status: "draft" } }] });
+  });
+
+  it("set_properties rejects an update without changes", async () => {
+    const result = await client.callTool({ name: "set_properties", arguments: { path: "props-b.md" } });
+    expect(result.isError).toBe(true);
+    expect(getToolText(result)).toContain("Nothing to change");
+  });
+
   // --- is_directory tests ---
 
   it("is_directory returns true for existing directory", async () => {
@@ -706,6 +880,7 @@ describe("Integration: MCP Server over Streamable HTTP", () => {
     const text = getToolText(result);
     expect(result.isError).toBeFalsy();
     expect(text).toContain("Directory exists: subfolder");
+    expect(result.structuredContent).toEqual({ path: "subfolder", exists: true, is_directory: true });
   });
 
   it("is_directory returns false for nonexistent path", async () => {
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { editSection, findSection, insertIntoNote, parseHeadingPath, parseSections } from "../src/utils/markdownSections.js";
+
+const NOTE = [
+  "---",
+  "title: Notes",
+  "# not a heading",
+  "---",
+  "# Projects",
+  "",
+  "## Webapp",
+  "",
+  "### Open questions",
+  "- Which database?",
+  "",
+  "### Done",
+  "- Login",
+  "",
+  "## Mobile",
+  "",
+  "### Open questions",
+  "- Which framework?",
+  "",
+  "```",
+  "# Inside a code block",
+  "```",
+  "",
+  "# Inbox",
+  "- idea",
+  "",
+].join("\n");
+
+describe("parseSections", () => {
+  it("finds ATX headings outside frontmatter and code blocks, with their section ends", () => {
+    const sections = parseSections(NOTE.split("\n"));
+    expect(sections.map((s) => `${s.level} ${s.text}`)).toEqual([
+      "1 Projects",
+      "2 Webapp",
+      "3 Open questions",
+      "3 Done",
+      "2 Mobile",
+      "3 Open questions",
+      "1 Inbox",
+    ]);
+    expect(sections[1]).toMatchObject({ line: 6, end: 14, parent: 0 });
+    expect(sections[6]).toMatchObject({ line: 23, parent: null });
+  });
+
+  it("strips closing hashes", () => {
+    expect(parseSections(["## Title ##"])[0].text).toBe("Title");
+  });
+});
+
+describe("findSection", () => {
+  const sections = parseSections(NOTE.split("\n"));
+
+  it("follows the heading path through direct subsections", () => {
+    expect(findSection(sections, parseHeadingPath("Projects > Mobile > Open questions")).line).toBe(16);
+    expect(findSection(sections, parseHeadingPath("Webapp > Open questions")).line).toBe(8);
+  });
+
+  it("rejects ambiguous and unknown paths", () => {
+    expect(() => findSection(sections, ["Open questions"])).toThrow("Heading path matches 2 sections: Open questions");
+    expect(() => findSection(sections, ["Projects", "Open questions"])).toThrow("Section not found: Projects > Open questions");
+    expect(() => findSection(sections, ["Projects", ""])).toThrow("Invalid heading path");
+  });
+});
+
+describe("editSection", () => {
+  const webappQuestions = ["Projects", "Webapp", "Open questions"];
+
+  it("replaces the body of a section", () => {
+    const result = editSection(NOTE, webappQuestions, "replace", "- Postgres it is\n");
+    expect(result).toContain("### Open questions\n- Postgres it is\n\n### Done");
+  });
+
+  it("appends after the last line of the section and prepends right after the heading", () => {
+    expect(editSection(NOTE, webappQuestions, "append", "- Which host?")).toContain("- Which database?\n- Which host?\n\n### Done");
+    expect(editSection(NOTE, webappQuestions, "prepend", "- First?")).toContain("### Open questions\n- First?\n- Which database?");
+  });
+
+  it("appends after the subsections of a section", () => {
+    const result = editSection(NOTE, ["Projects", "Webapp"], "append", "Notes on the webapp");
+    expect(result).toContain("- Login\nNotes on the webapp\n\n## Mobile");
+  });
+
+  it("deletes the section with its heading", () => {
+    const result = editSection(NOTE, ["Webapp"], "delete");
+    expect(result).toContain("# Projects\n\n## Mobile");
+    expect(result).not.toContain("Which database");
+  });
+
+  it("inserts sibling and child headings at the end of the section", () => {
+    expect(editSection(NOTE, ["Projects", "Webapp"], "insert_sibling", "- todo", "Desktop"))
+      .toContain("- Login\n\n## Desktop\n- todo\n\n## Mobile");
+    expect(editSection(NOTE, ["Inbox"], "insert_child", "", "Later")).toMatch(/- idea\n\n## Later\n$/);
+    expect(() => editSection(NOTE, ["Inbox"], "insert_child")).toThrow("insert_child requires a heading");
+  });
+
+  it("keeps the trailing newline of the note", () => {
+    expect(editSection(NOTE, ["Inbox"], "delete").endsWith("```\n\n")).toBe(true);
+    expect(editSection("# A\ntext", ["A"], "append", "more")).toBe("# A\ntext\nmore");
+  });
+});
+
+describe("insertIntoNote", () => {
+  it("appends at the end and prepends after the frontmatter", () => {
+    expect(insertIntoNote("# A\ntext", "append", "more\n")).toBe("# A\ntext\nmore\n");
+    expect(insertIntoNote("---\ntags: [a]\n---\n# A\n", "prepend", "first")).toBe("---\ntags: [a]\n---\nfirst\n# A\n");
+    expect(insertIntoNote("", "prepend", "only")).toBe("only\n");
+  });
+
+  it("adds to an existing section and creates a missing single heading", () => {
+    expect(insertIntoNote(NOTE, "append", "- later", ["Inbox"])).toMatch(/- idea\n- later\n$/);
+    expect(insertIntoNote("# A\ntext\n", "append", "- todo", ["Todo"])).toBe("# A\ntext\n\n## Todo\n- todo\n");
+    expect(insertIntoNote("", "prepend", "- todo", ["Todo"])).toBe("## Todo\n- todo\n");
+    expect(() => insertIntoNote(NOTE, "append", "x", ["Projects", "Desktop"])).toThrow("Section not found: Projects > Desktop");
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import fs from "node:fs/promises";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import { startHttpServer } from "../src/transport.js";
+import type { HttpServerHandle } from "../src/transport.js";
+import { McpSessionStore } from "../src/mcpSessionStore.js";
+import type { McpSessionSnapshot } from "../src/mcpSessionStore.js";
+import { BoundedEventStore } from "../src/utils/eventStore.js";
+import { SharedSecretKeys } from "../src/oauth/signingKeys.js";
+import { createAccessToken } from "../src/oauth/jwt.js";
+import { SUPPORTED_SCOPES } from "../src/oauth/scopes.js";
+import { FileStorageBackend } from "../src/utils/storageBackend.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: "2.0", method: "notifications/message", params: { level: "info", data: n } };
+}
+
+async function replay(store: BoundedEventStore, lastEventId: string): Promise<{ streamId: string; messages: JSONRPCMessage[] }> {
+  const messages: JSONRPCMessage[] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (_eventId, message) => {
+      messages.push(message);
+    },
+  });
+  return { streamId, messages };
+}
+
+describe("BoundedEventStore", () => {
+  it("replays the events of the same stream after the last event ID", async () => {
+    const store = new BoundedEventStore();
+    const first = await store.storeEvent("_GET_stream", notification(1));
+    await store.storeEvent("request_stream", notification(2));
+    await store.storeEvent("_GET_stream", notification(3));
+
+    expect(await store.getStreamIdForEventId(first)).toBe("_GET_stream");
+    const { streamId, messages } = await replay(store, first);
+    expect(streamId).toBe("_GET_stream");
+    expect(messages).toEqual([notification(3)]);
+  });
+
+  it("drops the oldest events beyond the event and size limits", async () => {
+    const store = new BoundedEventStore({ maxEvents: 3 });
+    const ids = [];
+    for (let i = 0; i < 5; i++) ids.push(await store.storeEvent("s", notification(i)));
+    expect(store.size()).toBe(3);
+    // The client missed events 1-4 but only 2-4 are left
+    expect((await replay(store, ids[0])).messages).toEqual([notification(2), notification(3), notification(4)]);
+
+    const small = new BoundedEventStore({ maxBytes: 200 });
+    for (let i = 0; i < 5; i++) await small.storeEvent("s", notification(i));
+    expect(small.size()).toBeLessThan(5);
+  });
+
+  it("resumes without replay for event IDs from another store", async () => {
+    const before = new BoundedEventStore();
+    const lastEventId = await before.storeEvent("_GET_stream", notification(1));
+    const after = new BoundedEventStore();
+    await after.storeEvent("_GET_stream", notification(2));
+
+    expect(await replay(after, lastEventId)).toEqual({ streamId: "_GET_stream", messages: [] });
+    expect(await after.getStreamIdForEventId("not-an-event-id")).toBeUndefined();
+  });
+});
+
+describe("McpSessionStore", () => {
+  let dataDir: string;
+  const params = { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "c", version: "1" } };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-session-store-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("persists sessions by hashed ID and writes activity on flush", () => {
+    const backend = new FileStorageBackend<McpSessionSnapshot>(path.join(dataDir, "mcp-sessions.json"));
+    const store = new McpSessionStore(60_000, backend);
+    store.save("session-id", { clientId: "c", user: "alice", createdAt: 1, lastActivity: Date.now(), initializeParams: params });
+    expect(JSON.stringify(backend.load())).not.toContain("session-id");
+
+    const reloaded = new McpSessionStore(60_000, backend);
+    expect(reloaded.get("session-id")?.user).toBe("alice");
+    reloaded.touch("session-id", Date.now() + 1000);
+    expect(new McpSessionStore(60_000, backend).get("session-id")?.lastActivity).not.toBe(reloaded.get("session-id")?.lastActivity);
+    reloaded.flush();
+    expect(new McpSessionStore(60_000, backend).get("session-id")?.lastActivity).toBe(reloaded.get("session-id")?.lastActivity);
+  });
+
+  it("forgets sessions idle for longer than the TTL", () => {
+    const store = new McpSessionStore(60_000);
+    store.save("old", { clientId: "c", user: "alice", createdAt: 1, lastActivity: Date.now() - 120_000, initializeParams: params });
+    expect(store.get("old")).toBeNull();
+    store.cleanup();
+    expect(store.size()).toBe(0);
+  });
+});
+
+async function freePort(): Promise<number> {
+  const probe = net.createServer().listen(0);
+  await new Promise((resolve) => probe.once("listening", resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+describe("Integration: sessions across restarts", () => {
+  let dataDir: string;
+  let port: number;
+  let handle: HttpServerHandle | undefined;
+  const keys = new SharedSecretKeys(createTestConfig().jwtSecret);
+  const aliceToken = createAccessToken("client-a", "alice", SUPPORTED_SCOPES, keys, 3600);
+  const bobToken = createAccessToken("client-a", "bob", SUPPORTED_SCOPES, keys, 3600);
+  const aliceOtherClientToken = createAccessToken("client-b", "alice", SUPPORTED_SCOPES, keys, 3600);
+
+  let initialized = 0;
+  let lastServer: McpServer | undefined;
+
+  async function createMcpServer(): Promise<McpServer> {
+    const server = new McpServer({ name: "restart-test", version: "1.0.0" });
+    lastServer = server;
+    server.registerTool("ping", { description: "Ping" }, async () => ({ content: [{ type: "text", text: "pong" }] }));
+    server.server.oninitialized = () => {
+      initialized++;
+    };
+    return server;
+  }
+
+  async function start(): Promise<void> {
+    handle = await startHttpServer(createMcpServer, createTestConfig({ port, dataDir, serverUrl: `http://localhost:${port}` }));
+  }
+
+  async function connect(token: string, sessionId?: string): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const transport = new StreamableHTTPClientTransport(new URL(`http://localhost:${port}/mcp`), {
+      sessionId,
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    });
+    const client = new Client({ name: "restart-test-client", version: "1.0.0" });
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-sessions-"));
+    port = await freePort();
+  });
+
+  afterEach(async () => {
+    await handle?.close();
+    handle = undefined;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("keeps a session ID valid after the server restarts", async () => {
+    await start();
+    const { transport } = await connect(aliceToken);
+    const sessionId = transport.sessionId!;
+    expect(sessionId).toBeTruthy();
+
+    await handle!.close();
+    await start();
+    initialized = 0;
+
+    const { client } = await connect(aliceToken, sessionId);
+    const result = await client.callTool({ name: "ping", arguments: {} });
+    expect((result.content as Array<{ text: string }>)[0].text).toBe("pong");
+    // The restored server ran its initialized hooks again
+    expect(initialized).toBe(1);
+    await client.close();
+  });
+
+  it("streams server notifications to the client over its GET stream", async () => {
+    await start();
+    const { client } = await connect(aliceToken);
+    const received = new Promise<void>((resolve) => {
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () => resolve());
+    });
+    // The client opens the stream in the background after initializing
+    const deadline = Date.now() + 5000;
+    const sent = setInterval(() => {
+      if (Date.now() > deadline) clearInterval(sent);
+      lastServer?.sendToolListChanged();
+    }, 50);
+    try {
+      await received;
+    } finally {
+      clearInterval(sent);
+    }
+    await client.close();
+  });
+
+  it("does not restore a session for another user", async () => {
+    await start();
+    const { transport } = await connect(aliceToken);
+    const sessionId = transport.sessionId!;
+    await handle!.close();
+    await start();
+
+    const { client } = await connect(bobToken, sessionId);
+    await expect(client.callTool({ name: "ping", arguments: {} })).rejects.toThrow();
+    await client.close();
+  });
+
+  it("ends a persisted session only for the user and client that initialized it", async () => {
+    await start();
+    const { transport } = await connect(aliceToken);
+    const sessionId = transport.sessionId!;
+    await handle!.close();
+    await start();
+
+    const terminate = (token: string) => fetch(`http://localhost:${port}/mcp`, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${token}`, "mcp-session-id": sessionId },
+    });
+    expect((await terminate(aliceOtherClientToken)).status).toBe(400);
+    expect((await terminate(bobToken)).status).toBe(400);
+    expect((await terminate(aliceToken)).status).toBe(200);
+
+    const { client } = await connect(aliceToken, sessionId);
+    await expect(client.callTool({ name: "ping", arguments: {} })).rejects.toThrow();
+    await client.close();
+  });
+
+  it("forgets sessions ended with DELETE", async () => {
+    await start();
+    const { transport } = await connect(aliceToken);
+    const sessionId = transport.sessionId!;
+    await transport.terminateSession();
+    await handle!.close();
+    await start();
+
+    const { client } = await connect(aliceToken, sessionId);
+    await expect(client.callTool({ name: "ping", arguments: {} })).rejects.toThrow();
+    await client.close();
+  });
+});
+
+describe("Integration: stateless mode", () => {
+  let port: number;
+  let handle: HttpServerHandle | undefined;
+  const keys = new SharedSecretKeys(createTestConfig().jwtSecret);
+  const token = createAccessToken("client-a", "alice", SUPPORTED_SCOPES, keys, 3600);
+
+  beforeEach(async () => {
+    port = await freePort();
+    const createMcpServer = async () => {
+      const server = new McpServer({ name: "stateless-test", version: "1.0.0" });
+      server.registerTool("ping", { description: "Ping" }, async () => ({ content: [{ type: "text", text: "pong" }] }));
+      return server;
+    };
+    handle = await startHttpServer(createMcpServer, createTestConfig({ port, sessionMode: "stateless", maxSessions: 1 }));
+  });
+
+  afterEach(async () => {
+    await handle?.close();
+    handle = undefined;
+  });
+
+  it("serves requests without session IDs, beyond MAX_SESSIONS", async () => {
+    const clients = [];
+    for (let i = 0; i < 2; i++) {
+      const transport = new StreamableHTTPClientTransport(new URL(`http://localhost:${port}/mcp`), {
+        requestInit: { headers: { Authorization: `Bearer ${token}` } },
+      });
+      const client = new Client({ name: "stateless-client", version: "1.0.0" });
+      await client.connect(transport);
+      expect(transport.sessionId).toBeUndefined();
+      const result = await client.callTool({ name: "ping", arguments: {} });
+      expect((result.content as Array<{ text: string }>)[0].text).toBe("pong");
+      clients.push(client);
+    }
+    await Promise.all(clients.map((client) => client.close()));
+  });
+
+  it("rejects GET and DELETE with 405", async () => {
+    for (const method of ["GET", "DELETE"]) {
+      const res = await fetch(`http://localhost:${port}/mcp`, { method, headers: { Authorization: `Bearer ${token}` } });
+      expect(res.status).toBe(405);
+      expect(res.headers.get("allow")).toBe("POST");
+    }
+  });
+});
@@ -1,19 +1,29 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
 import express from "express";
 import crypto from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import type { Server } from "node:http";
 import type { AddressInfo } from "node:net";
 import { handleProtectedResource } from "../src/oauth/protectedResource.js";
 import { handleMetadata } from "../src/oauth/metadata.js";
 import { handleRegistration } from "../src/oauth/registration.js";
 import { handleAuthorizeGet } from "../src/oauth/authorize.js";
-import { handleGitHubCallback } from "../src/oauth/githubCallback.js";
+import { handleProviderCallback } from "../src/oauth/callback.js";
+import { GitHubProvider } from "../src/oauth/githubProvider.js";
 import { handleToken } from "../src/oauth/token.js";
+import { handleRevoke } from "../src/oauth/revoke.js";
+import { handleIntrospect } from "../src/oauth/introspect.js";
 import { jwtAuth } from "../src/auth.js";
 import { createAccessToken } from "../src/oauth/jwt.js";
+import { SharedSecretKeys } from "../src/oauth/signingKeys.js";
+import { DEFAULT_SCOPES, SUPPORTED_SCOPES, parseScope, scopesFromClaim } from "../src/oauth/scopes.js";
 import { OAuthStore } from "../src/oauth/store.js";
+import { ApiKeyStore } from "../src/oauth/apiKeyStore.js";
 import { OAuthSessionStore } from "../src/oauth/sessionStore.js";
 import { RateLimiter } from "../src/utils/rateLimiter.js";
+import { FileStorageBackend } from "../src/utils/storageBackend.js";
 import { isAllowedUser } from "../src/oauth/allowlist.js";
 import { createTestConfig } from "./helpers/testConfig.js";
 import {
@@ -27,7 +37,7 @@ import { startAuthorizeFlow, completeCallback } from "./helpers/oauthHelpers.js"
 
 const testConfig = createTestConfig({
   vaultPath: "/tmp/test-vault-oauth",
-  allowedGithubUsers: ["alloweduser", "anotheruser"],
+  allowedUsers: ["alloweduser", "anotheruser"],
 });
 
 describe("OAuth 2.1 with GitHub Authentication", () => {
@@ -39,8 +49,11 @@ describe("OAuth 2.1 with GitHub Authentication", () => {
   // Fresh stores and rate limiters per test suite
   const oauthStore = new OAuthStore();
   const oauthSessionStore = new OAuthSessionStore();
+  const githubProvider = new GitHubProvider(testConfig);
+  const accessTokenKeys = new SharedSecretKeys(testConfig.jwtSecret);
   const registrationRateLimiter = new RateLimiter(10, 60_000);
-  const tokenRateLimiter = new RateLimiter(20, 60_000);
+  const tokenRateLimiter = new RateLimiter(50, 60_000);
+  const revocationRateLimiter = new RateLimiter(50, 60_000);
 
   beforeAll(async () => {
     installGitHubMock();
@@ -50,13 +63,15 @@ describe("OAuth 2.1 with GitHub Authentication", () => {
     app.get("/.well-known/oauth-protected-resource", handleProtectedResource(testConfig));
     app.get("/.well-known/oauth-authorization-server", handleMetadata(testConfig));
     app.post("/oauth/register", express.json(), handleRegistration(oauthStore, registrationRateLimiter));
-    app.get("/oauth/authorize", handleAuthorizeGet(testConfig, oauthStore, oauthSessionStore));
-    app.get("/oauth/github/callback", handleGitHubCallback(testConfig, oauthSessionStore, oauthStore));
-    app.post("/oauth/token", express.urlencoded({ extended: false }), handleToken(testConfig, oauthStore, tokenRateLimiter));
-
-    app.use("/mcp", jwtAuth(testConfig.jwtSecret, testConfig.serverUrl));
-    app.post("/mcp", express.json(), (_req, res) => {
-      res.json({ ok: true });
+    app.get("/oauth/authorize", handleAuthorizeGet(githubProvider, oauthStore, oauthSessionStore));
+    app.get("/oauth/github/callback", handleProviderCallback(testConfig, githubProvider, oauthSessionStore, oauthStore, accessTokenKeys));
+    app.post("/oauth/token", express.urlencoded({ extended: false }), handleToken(testConfig, oauthStore, tokenRateLimiter, githubProvider, accessTokenKeys));
+    app.post("/oauth/revoke", express.urlencoded({ extended: false }), handleRevoke(accessTokenKeys, oauthStore, revocationRateLimiter));
+    app.post("/oauth/introspect", express.urlencoded({ extended: false }), handleIntrospect(accessTokenKeys, oauthStore, revocationRateLimiter));
+
+    app.use("/mcp", jwtAuth(accessTokenKeys, testConfig.serverUrl, oauthStore, new ApiKeyStore(), testConfig.allowedUsers));
+    app.post("/mcp", express.json(), (req, res) => {
+      res.json({ ok: true, user: req.auth?.extra?.user, clientId: req.auth?.clientId, scopes: req.auth?.scopes });
     });
 
     httpServer = app.listen(0);
@@ -104,6 +119,10 @@ describe("OAuth 2.1 with GitHub Authentication", () => {
     expect(data.token_endpoint).toContain("/oauth/token");
     expect(data.registration_endpoint).toContain("/oauth/register");
     expect(data.code_challenge_methods_supported).toContain("S256");
+    expect(data.scopes_supported).toEqual(["vault:read", "vault:write", "vault:history", "vault:admin"]);
+    expect(data.revocation_endpoint).toBe(`${testConfig.serverUrl}/oauth/revoke`);
+    expect(data.introspection_endpoint).toBe(`${testConfig.serverUrl}/oauth/introspect`);
+    expect(data.client_id_metadata_document_supported).toBe(true);
   });
 
   it("registers a client via DCR", async () => {
@@ -417,6 +436,278 @@ describe("OAuth 2.1 with GitHub Authentication", () => {
     expect(newTokens.refresh_token).not.toBe(tokens.refresh_token);
   });
 
+  // ----- Per-user identity -----
+
+  it("carries the GitHub login through auth code and refresh token into the JWT subject", async () => {
+    setMockGitHubUserResponse({ login: "AnotherUser", id: 777 });
+    const codeVerifier = crypto.randomBytes(32).toString("hex");
+    const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+    const { sessionKey } = await startAuthorizeFlow(baseUrl, sharedClient.client_id, codeChallenge);
+    const { authCode } = await completeCallback(baseUrl, sessionKey);
+
+    const tokenRes = await fetch(`${baseUrl}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: authCode,
+        redirect_uri: "https://claude.ai/oauth/callback",
+        client_id: sharedClient.client_id,
+        client_secret: sharedClient.client_secret,
+        code_verifier: codeVerifier,
+      }).toString(),
+    });
+    const tokens = await tokenRes.json();
+    const decodeSub = (token: string) =>
+      JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString()).sub;
+    expect(decodeSub(tokens.access_token)).toBe("anotheruser");
+
+    const refreshRes = await fetch(`${baseUrl}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: tokens.refresh_token,
+        client_id: sharedClient.client_id,
+        client_secret: sharedClient.client_secret,
+      }).toString(),
+    });
+    const refreshed = await refreshRes.json();
+    expect(decodeSub(refreshed.access_token)).toBe("anotheruser");
+  });
+
+  it("auth middleware exposes the token's user and client on req.auth", async () => {
+    const jwt = createAccessToken("identity-client", "alloweduser", SUPPORTED_SCOPES, accessTokenKeys, 3600);
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${jwt}`, "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    expect(await res.json()).toEqual({ ok: true, user: "alloweduser", clientId: "identity-client", scopes: [...SUPPORTED_SCOPES] });
+  });
+
+  // ----- Scopes -----
+
+  async function obtainTokens(scope?: string): Promise<Record<string, string>> {
+    const codeVerifier = crypto.randomBytes(32).toString("hex");
+    const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+    const { sessionKey } = await startAuthorizeFlow(
+      baseUrl, sharedClient.client_id, codeChallenge, "test-state", "https://claude.ai/oauth/callback", scope,
+    );
+    const { authCode } = await completeCallback(baseUrl, sessionKey);
+    const tokenRes = await fetch(`${baseUrl}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: authCode,
+        redirect_uri: "https://claude.ai/oauth/callback",
+        client_id: sharedClient.client_id,
+        client_secret: sharedClient.client_secret,
+        code_verifier: codeVerifier,
+      }).toString(),
+    });
+    expect(tokenRes.status).toBe(200);
+    return tokenRes.json();
+  }
+
+  function refresh(refreshToken: string, scope?: string): Promise<Response> {
+    const body = new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: sharedClient.client_id,
+      client_secret: sharedClient.client_secret,
+    });
+    if (scope !== undefined) body.set("scope", scope);
+    return fetch(`${baseUrl}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: body.toString(),
+    });
+  }
+
+  const decodeScope = (token: string) =>
+    JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString()).scope;
+
+  it("grants all scopes when the client requests none", async () => {
+    const tokens = await obtainTokens();
+    expect(tokens.scope).toBe("vault:read vault:write vault:history");
+    expect(decodeScope(tokens.access_token)).toBe("vault:read vault:write vault:history");
+  });
+
+  it("grants only the requested scopes and keeps them across refresh", async () => {
+    const tokens = await obtainTokens("vault:read");
+    expect(tokens.scope).toBe("vault:read");
+    expect(decodeScope(tokens.access_token)).toBe("vault:read");
+
+    const refreshRes = await refresh(tokens.refresh_token);
+    expect(refreshRes.status).toBe(200);
+    const refreshed = await refreshRes.json();
+    expect(refreshed.scope).toBe("vault:read");
+
+    const mcpRes = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${refreshed.access_token}`, "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    expect((await mcpRes.json()).scopes).toEqual(["vault:read"]);
+  });
+
+  it("rejects authorize with an unsupported scope", async () => {
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: sharedClient.client_id,
+      redirect_uri: "https://claude.ai/oauth/callback",
+      state: "s",
+      code_challenge: "challenge",
+      code_challenge_method: "S256",
+      scope: "vault:read vault:delete",
+    });
+    const res = await fetch(`${baseUrl}/oauth/authorize?${params}`, { redirect: "manual" });
+    expect(res.status).toBe(400);
+    const data = await res.json();
+    expect(data.error).toBe("invalid_scope");
+    expect(data.error_description).toContain("vault:delete");
+  });
+
+  it("refresh may narrow the granted scopes but not widen them", async () => {
+    const tokens = await obtainTokens("vault:write");
+    expect(tokens.scope).toBe("vault:read vault:write");
+
+    // A blank scope keeps the grant
+    const kept = await refresh(tokens.refresh_token, "  ");
+    expect(kept.status).toBe(200);
+    const keptData = await kept.json();
+    expect(keptData.scope).toBe("vault:read vault:write");
+
+    const narrowed = await refresh(keptData.refresh_token, "vault:read");
+    expect(narrowed.status).toBe(200);
+    const data = await narrowed.json();
+    expect(data.scope).toBe("vault:read");
+    expect(decodeScope(data.access_token)).toBe("vault:read");
+
+    // The narrowed refresh token cannot win back the dropped scope
+    const widened = await refresh(data.refresh_token, "vault:write");
+    expect(widened.status).toBe(400);
+    const error = await widened.json();
+    expect(error.error).toBe("invalid_scope");
+    expect(error.error_description).toContain("exceeds the original grant");
+  });
+
+  // ----- Revocation & introspection -----
+
+  function postClientForm(endpoint: "revoke" | "introspect", token: string, clientSecret = sharedClient.client_secret): Promise<Response> {
+    return fetch(`${baseUrl}/oauth/${endpoint}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ token, client_id: sharedClient.client_id, client_secret: clientSecret }).toString(),
+    });
+  }
+
+  function callMcp(accessToken: string): Promise<Response> {
+    return fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${accessToken}`, "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+  }
+
+  it("introspects active access and refresh tokens", async () => {
+    const tokens = await obtainTokens("vault:read");
+
+    const accessRes = await postClientForm("introspect", tokens.access_token);
+    expect(accessRes.status).toBe(200);
+    expect(accessRes.headers.get("cache-control")).toBe("no-store");
+    const access = await accessRes.json();
+    expect(access).toMatchObject({
+      active: true,
+      token_type: "Bearer",
+      scope: "vault:read",
+      client_id: sharedClient.client_id,
+      sub: "alloweduser",
+      username: "alloweduser",
+    });
+    expect(typeof access.jti).toBe("string");
+    expect(access.exp).toBeGreaterThan(Date.now() / 1000);
+
+    const refreshRes = await postClientForm("introspect", tokens.refresh_token);
+    expect(await refreshRes.json()).toMatchObject({
+      active: true,
+      token_type: "refresh_token",
+      scope: "vault:read",
+      client_id: sharedClient.client_id,
+      sub: "alloweduser",
+    });
+  });
+
+  it("introspection reports unknown and foreign tokens as inactive", async () => {
+    const unknown = await postClientForm("introspect", "not-a-token");
+    expect(await unknown.json()).toEqual({ active: false });
+
+    const foreignAccess = createAccessToken("other-client", "alloweduser", SUPPORTED_SCOPES, accessTokenKeys, 3600);
+    expect(await (await postClientForm("introspect", foreignAccess)).json()).toEqual({ active: false });
+
+    const foreignRefresh = oauthStore.createRefreshToken("other-client", "alloweduser", ["vault:read"], 3600);
+    expect(await (await postClientForm("introspect", foreignRefresh)).json()).toEqual({ active: false });
+  });
+
+  it("revoked access token is rejected by the auth middleware before it expires", async () => {
+    const tokens = await obtainTokens();
+    expect((await callMcp(tokens.access_token)).status).toBe(200);
+
+    const revokeRes = await postClientForm("revoke", tokens.access_token);
+    expect(revokeRes.status).toBe(200);
+
+    const mcpRes = await callMcp(tokens.access_token);
+    expect(mcpRes.status).toBe(401);
+    expect(mcpRes.headers.get("www-authenticate")).toContain("resource_metadata=");
+    expect(await (await postClientForm("introspect", tokens.access_token)).json()).toEqual({ active: false });
+
+    // The refresh token of the same grant is unaffected
+    const refreshRes = await refresh(tokens.refresh_token);
+    expect(refreshRes.status).toBe(200);
+    expect((await callMcp((await refreshRes.json()).access_token)).status).toBe(200);
+  });
+
+  it("revoked refresh token can no longer be used", async () => {
+    const tokens = await obtainTokens();
+    expect((await postClientForm("revoke", tokens.refresh_token)).status).toBe(200);
+
+    expect(await (await postClientForm("introspect", tokens.refresh_token)).json()).toEqual({ active: false });
+    const refreshRes = await refresh(tokens.refresh_token);
+    expect(refreshRes.status).toBe(400);
+    expect((await refreshRes.json()).error).toBe("invalid_grant");
+  });
+
+  it("revocation returns 200 for unknown tokens and ignores tokens of other clients", async () => {
+    expect((await postClientForm("revoke", "not-a-token")).status).toBe(200);
+
+    const foreignAccess = createAccessToken("other-client", "alloweduser", SUPPORTED_SCOPES, accessTokenKeys, 3600);
+    expect((await postClientForm("revoke", foreignAccess)).status).toBe(200);
+    expect((await callMcp(foreignAccess)).status).toBe(200);
+
+    const foreignRefresh = oauthStore.createRefreshToken("other-client", "alloweduser", ["vault:read"], 3600);
+    expect((await postClientForm("revoke", foreignRefresh)).status).toBe(200);
+    expect(oauthStore.getRefreshToken(foreignRefresh)).not.toBeNull();
+  });
+
+  it("revocation and introspection require client authentication", async () => {
+    const revokeRes = await postClientForm("revoke", "anything", "wrong-secret");
+    expect(revokeRes.status).toBe(401);
+    expect((await revokeRes.json()).error).toBe("invalid_client");
+
+    const introspectRes = await postClientForm("introspect", "anything", "wrong-secret");
+    expect(introspectRes.status).toBe(401);
+
+    const missingToken = await fetch(`${baseUrl}/oauth/revoke`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ client_id: sharedClient.client_id, client_secret: sharedClient.client_secret }).toString(),
+    });
+    expect(missingToken.status).toBe(400);
+    expect((await missingToken.json()).error).toBe("invalid_request");
+  });
+
   it("rejects auth code reuse after GitHub flow", async () => {
     const codeVerifier = crypto.randomBytes(32).toString("hex");
     const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
@@ -452,7 +743,7 @@ describe("OAuth 2.1 with GitHub Authentication", () => {
   // ----- JWT Auth Middleware -----
 
   it("auth middleware accepts JWT access token", async () => {
-    const jwt = createAccessToken("test-client", testConfig.jwtSecret, 3600);
+    const jwt = createAccessToken("test-client", "alloweduser", SUPPORTED_SCOPES, accessTokenKeys, 3600);
     const res = await fetch(`${baseUrl}/mcp`, {
       method: "POST",
       headers: { "Authorization": `Bearer ${jwt}`, "Content-Type": "application/json" },
@@ -735,6 +1026,34 @@ describe("OAuth 2.1 with GitHub Authentication", () => {
 
 // ----- OAuthStore Unit Tests -----
 
+describe("parseScope", () => {
+  it("returns the default scopes, without vault:admin, when no scope is requested", () => {
+    expect(parseScope(undefined)).toEqual({ scopes: ["vault:read", "vault:write", "vault:history"] });
+    expect(parseScope("")).toEqual({ scopes: [...DEFAULT_SCOPES] });
+    expect(parseScope("vault:admin")).toEqual({ scopes: ["vault:admin"] });
+    expect(parseScope("   ")).toEqual({ scopes: [...DEFAULT_SCOPES] });
+  });
+
+  it("reads scope claims without empty entries", () => {
+    expect(scopesFromClaim("vault:read  vault:history ")).toEqual(["vault:read", "vault:history"]);
+    expect(scopesFromClaim("")).toEqual([]);
+    expect(scopesFromClaim(undefined)).toEqual([...DEFAULT_SCOPES]);
+  });
+
+  it("deduplicates and returns scopes in canonical order", () => {
+    expect(parseScope("vault:history  vault:read vault:history")).toEqual({ scopes: ["vault:read", "vault:history"] });
+  });
+
+  it("adds vault:read when vault:write is requested", () => {
+    expect(parseScope("vault:write")).toEqual({ scopes: ["vault:read", "vault:write"] });
+  });
+
+  it("rejects unknown scopes and non-string values", () => {
+    expect(parseScope("vault:read openid")).toEqual({ error: "Unsupported scope: openid" });
+    expect(parseScope(["vault:read"])).toHaveProperty("error");
+  });
+});
+
 describe("OAuthStore", () => {
   const defaultParams = {
     redirectUris: ["https://claude.ai/oauth/callback"],
@@ -801,6 +1120,21 @@ describe("OAuthStore", () => {
     expect(store.authenticateClient("nonexistent", "some-secret")).toBe(false);
   });
 
+  it("evicts the revoked access token closest to expiry when the revocation list is full", () => {
+    const store = new OAuthStore();
+    const now = Date.now();
+    store.revokeAccessToken("jti-late", now + 3_600_000);
+    store.revokeAccessToken("jti-soon", now + 1000);
+    for (let i = 2; i < 5000; i++) {
+      store.revokeAccessToken(`jti-${i}`, now + 60_000);
+    }
+
+    store.revokeAccessToken("jti-new", now + 60_000);
+    expect(store.isAccessTokenRevoked("jti-new")).toBe(true);
+    expect(store.isAccessTokenRevoked("jti-late")).toBe(true);
+    expect(store.isAccessTokenRevoked("jti-soon")).toBe(false);
+  });
+
   it("cleanup does not evict fresh clients even at capacity", () => {
     const store = new OAuthStore();
 
@@ -915,3 +1249,139 @@ describe("OAuthSessionStore", () => {
     expect(key1).not.toBe(key2);
   });
 });
+
+// ----- Persistence Unit Tests -----
+
+describe("OAuth store persistence", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), "oauth-persist-"));
+  });
+
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const params = {
+    clientName: "persisted",
+    redirectUris: ["https://claude.ai/oauth/callback"],
+    grantTypes: ["authorization_code", "refresh_token"],
+    responseTypes: ["code"],
+    tokenEndpointAuthMethod: "client_secret_post",
+  } as const;
+
+  it("restores clients and refresh tokens after a restart", () => {
+    const file = path.join(dataDir, "oauth-store.json");
+    const store = new OAuthStore(new FileStorageBackend(file));
+    const client = store.registerClient(params);
+    const refreshToken = store.createRefreshToken(client.clientId, "alloweduser", ["vault:read"], 3600);
+
+    const restarted = new OAuthStore(new FileStorageBackend(file));
+    expect(restarted.clientCount()).toBe(1);
+    expect(restarted.authenticateClient(client.clientId, client.clientSecret)).toBe(true);
+    expect(restarted.consumeRefreshToken(refreshToken)).toMatchObject({ clientId: client.clientId, subject: "alloweduser" });
+  });
+
+  it("keeps one-time-use semantics across restarts", () => {
+    const file = path.join(dataDir, "oauth-store.json");
+    const store = new OAuthStore(new FileStorageBackend(file));
+    const code = store.createAuthCode("client", "https://claude.ai/oauth/callback", "challenge", "alloweduser", ["vault:read"]);
+    expect(store.consumeAuthCode(code)).not.toBeNull();
+
+    const restarted = new OAuthStore(new FileStorageBackend(file));
+    expect(restarted.consumeAuthCode(code)).toBeNull();
+  });
+
+  it("never writes client secrets, codes or refresh tokens in plaintext", () => {
+    const file = path.join(dataDir, "oauth-store.json");
+    const store = new OAuthStore(new FileStorageBackend(file));
+    const client = store.registerClient(params);
+    const code = store.createAuthCode(client.clientId, "https://claude.ai/oauth/callback", "challenge", "alloweduser", ["vault:read"]);
+    const refreshToken = store.createRefreshToken(client.clientId, "alloweduser", ["vault:read"], 3600);
+
+    const raw = readFileSync(file, "utf-8");
+    expect(raw).not.toContain(client.clientSecret!);
+    expect(raw).not.toContain(code);
+    expect(raw).not.toContain(refreshToken);
+  });
+
+  it("persists pending authorization sessions with hashed keys", () => {
+    const file = path.join(dataDir, "oauth-sessions.json");
+    const sessionStore = new OAuthSessionStore(new FileStorageBackend(file));
+    const key = sessionStore.create({
+      clientId: "c1",
+      redirectUri: "https://example.com/cb",
+      state: "s1",
+      codeChallenge: "ch1",
+      codeChallengeMethod: "S256",
+    })!;
+    expect(readFileSync(file, "utf-8")).not.toContain(key);
+
+    const restarted = new OAuthSessionStore(new FileStorageBackend(file));
+    expect(restarted.consume(key)?.state).toBe("s1");
+  });
+
+  it("keeps revoked access tokens on the revocation list across restarts until they expire", () => {
+    const file = path.join(dataDir, "oauth-store.json");
+    const originalNow = Date.now;
+    try {
+      const store = new OAuthStore(new FileStorageBackend(file));
+      store.revokeAccessToken("jti-1", originalNow() + 1000);
+
+      const restarted = new OAuthStore(new FileStorageBackend(file));
+      expect(restarted.isAccessTokenRevoked("jti-1")).toBe(true);
+      expect(restarted.isAccessTokenRevoked("jti-2")).toBe(false);
+
+      Date.now = () => originalNow() + 2000;
+      restarted.cleanup();
+      expect(restarted.isAccessTokenRevoked("jti-1")).toBe(false);
+    } finally {
+      Date.now = originalNow;
+    }
+  });
+
+  it("lets replicas sharing the file keep each other's changes", () => {
+    const file = path.join(dataDir, "replicas.json");
+    const replicaA = new OAuthStore(new FileStorageBackend(file), 0);
+    const replicaB = new OAuthStore(new FileStorageBackend(file), 0);
+
+    const client = replicaA.registerClient(params);
+    const refreshToken = replicaB.createRefreshToken(client.clientId, "alloweduser", ["vault:read"], 3600);
+    replicaA.cleanup();
+
+    expect(replicaB.getClient(client.clientId)).toBeDefined();
+    expect(replicaA.consumeRefreshToken(refreshToken)).not.toBeNull();
+    // Rotated on replica A, so replica B must not accept it again
+    expect(replicaB.consumeRefreshToken(refreshToken)).toBeNull();
+  });
+
+  it("rejects access tokens and clients revoked on another replica", () => {
+    const file = path.join(dataDir, "replicas-revoked.json");
+    const replicaA = new OAuthStore(new FileStorageBackend(file), 0);
+    const replicaB = new OAuthStore(new FileStorageBackend(file), 0);
+    const client = replicaA.registerClient(params);
+    expect(replicaB.isAccessTokenRevoked("jti-shared")).toBe(false);
+
+    replicaA.revokeAccessToken("jti-shared", Date.now() + 60_000);
+    replicaA.deleteClient(client.clientId, 3600);
+    expect(replicaB.isAccessTokenRevoked("jti-shared")).toBe(true);
+    expect(replicaB.isClientRevoked(client.clientId)).toBe(true);
+  });
+
+  it("drops expired entries on cleanup and persists the result", () => {
+    const file = path.join(dataDir, "oauth-store.json");
+    const originalNow = Date.now;
+    try {
+      const store = new OAuthStore(new FileStorageBackend(file));
+      const refreshToken = store.createRefreshToken("client", "alloweduser", ["vault:read"], 1);
+      Date.now = () => originalNow() + 2000;
+      store.cleanup();
+
+      const restarted = new OAuthStore(new FileStorageBackend(file));
+      expect(restarted.consumeRefreshToken(refreshToken)).toBeNull();
+    } finally {
+      Date.now = originalNow;
+    }
+  });
+});
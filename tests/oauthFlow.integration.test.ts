@@ -19,10 +19,13 @@ import { handleProtectedResource } from "../src/oauth/protectedResource.js";
 import { handleMetadata } from "../src/oauth/metadata.js";
 import { handleRegistration } from "../src/oauth/registration.js";
 import { handleAuthorizeGet } from "../src/oauth/authorize.js";
-import { handleGitHubCallback } from "../src/oauth/githubCallback.js";
+import { handleProviderCallback } from "../src/oauth/callback.js";
+import { GitHubProvider } from "../src/oauth/githubProvider.js";
 import { handleToken } from "../src/oauth/token.js";
 import { jwtAuth } from "../src/auth.js";
+import { SharedSecretKeys } from "../src/oauth/signingKeys.js";
 import { OAuthStore } from "../src/oauth/store.js";
+import { ApiKeyStore } from "../src/oauth/apiKeyStore.js";
 import { OAuthSessionStore } from "../src/oauth/sessionStore.js";
 import { RateLimiter } from "../src/utils/rateLimiter.js";
 import { createTestConfig } from "./helpers/testConfig.js";
@@ -104,6 +107,8 @@ describe("OAuth Full-Flow Integration: OAuth → MCP Transport", () => {
 
     const oauthStore = new OAuthStore();
     const oauthSessionStore = new OAuthSessionStore();
+    const githubProvider = new GitHubProvider(testConfig);
+    const accessTokenKeys = new SharedSecretKeys(testConfig.jwtSecret);
     const registrationRateLimiter = new RateLimiter(50, 60_000);
     const tokenRateLimiter = new RateLimiter(50, 60_000);
 
@@ -113,12 +118,12 @@ describe("OAuth Full-Flow Integration: OAuth → MCP Transport", () => {
 
     // OAuth endpoints
     app.post("/oauth/register", express.json(), handleRegistration(oauthStore, registrationRateLimiter));
-    app.get("/oauth/authorize", handleAuthorizeGet(testConfig, oauthStore, oauthSessionStore));
-    app.get("/oauth/github/callback", handleGitHubCallback(testConfig, oauthSessionStore, oauthStore));
-    app.post("/oauth/token", express.urlencoded({ extended: false }), handleToken(testConfig, oauthStore, tokenRateLimiter));
+    app.get("/oauth/authorize", handleAuthorizeGet(githubProvider, oauthStore, oauthSessionStore));
+    app.get("/oauth/github/callback", handleProviderCallback(testConfig, githubProvider, oauthSessionStore, oauthStore, accessTokenKeys));
+    app.post("/oauth/token", express.urlencoded({ extended: false }), handleToken(testConfig, oauthStore, tokenRateLimiter, githubProvider, accessTokenKeys));
 
     // JWT auth on /mcp
-    app.use("/mcp", jwtAuth(testConfig.jwtSecret, testConfig.serverUrl));
+    app.use("/mcp", jwtAuth(accessTokenKeys, testConfig.serverUrl, oauthStore, new ApiKeyStore(), testConfig.allowedUsers));
 
     // MCP transport (mirrors src/transport.ts)
     const sessions = new Map<string, StreamableHTTPServerTransport>();
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import express from "express";
+import crypto from "node:crypto";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { handleAuthorizeGet } from "../src/oauth/authorize.js";
+import { handleProviderCallback } from "../src/oauth/callback.js";
+import { handleToken } from "../src/oauth/token.js";
+import { SharedSecretKeys } from "../src/oauth/signingKeys.js";
+import { OidcProvider } from "../src/oauth/oidcProvider.js";
+import { createIdentityProvider } from "../src/oauth/identityProvider.js";
+import { GitHubProvider } from "../src/oauth/githubProvider.js";
+import { OAuthStore } from "../src/oauth/store.js";
+import { OAuthSessionStore } from "../src/oauth/sessionStore.js";
+import { RateLimiter } from "../src/utils/rateLimiter.js";
+import type { OidcConfig } from "../src/config.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { startMockOidcProvider } from "./helpers/mockOidcProvider.js";
+import type { MockOidcProvider } from "./helpers/mockOidcProvider.js";
+
+const CLIENT_REDIRECT_URI = "https://claude.ai/oauth/callback";
+
+interface TestServer {
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  close: () => void;
+}
+
+/** Authorization server wired to an OidcProvider, with one registered client. */
+async function startOidcServer(oidc: OidcConfig): Promise<TestServer> {
+  const config = createTestConfig({ authProvider: "oidc", oidc, allowedUsers: ["alice", "alice@example.com"] });
+  const provider = new OidcProvider(config, oidc);
+  const store = new OAuthStore();
+  const sessionStore = new OAuthSessionStore();
+
+  const app = express();
+  app.get("/oauth/authorize", handleAuthorizeGet(provider, store, sessionStore));
+  app.get(provider.callbackPath, handleProviderCallback(config, provider, sessionStore, store, new SharedSecretKeys(config.jwtSecret)));
+  app.post("/oauth/token", express.urlencoded({ extended: false }), handleToken(config, store, new RateLimiter(50, 60_000), provider, new SharedSecretKeys(config.jwtSecret)));
+
+  const httpServer: Server = app.listen(0);
+  const baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+  config.serverUrl = baseUrl;
+
+  const client = store.registerClient({
+    clientName: "OIDC Test Client",
+    redirectUris: [CLIENT_REDIRECT_URI],
+    grantTypes: ["authorization_code", "refresh_token"],
+    responseTypes: ["code"],
+    tokenEndpointAuthMethod: "client_secret_post",
+  });
+  return { baseUrl, clientId: client.clientId, clientSecret: client.clientSecret!, close: () => httpServer.close() };
+}
+
+describe("OIDC identity provider", () => {
+  let idp: MockOidcProvider;
+  let server: TestServer;
+  let oidc: OidcConfig;
+
+  beforeAll(async () => {
+    idp = await startMockOidcProvider({ clientId: "vault-mcp", clientSecret: "idp-secret" });
+    oidc = {
+      issuer: idp.issuer,
+      clientId: "vault-mcp",
+      clientSecret: "idp-secret",
+      scopes: ["openid", "profile", "email"],
+      usernameClaim: "preferred_username",
+    };
+    server = await startOidcServer(oidc);
+  });
+
+  beforeEach(() => {
+    idp.setIdTokenOverrides({});
+    idp.setSignWithUnknownKey(false);
+    idp.setUserInfo({});
+  });
+
+  afterAll(async () => {
+    server?.close();
+    await idp?.close();
+  });
+
+  /** Runs authorize and returns the provider redirect plus the client's PKCE verifier. */
+  async function authorize(target: TestServer): Promise<{ providerUrl: URL; codeVerifier: string }> {
+    const codeVerifier = crypto.randomBytes(32).toString("hex");
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: target.clientId,
+      redirect_uri: CLIENT_REDIRECT_URI,
+      state: "client-state",
+      code_challenge: crypto.createHash("sha256").update(codeVerifier).digest("base64url"),
+      code_challenge_method: "S256",
+    });
+    const res = await fetch(`${target.baseUrl}/oauth/authorize?${params}`, { redirect: "manual" });
+    expect(res.status).toBe(302);
+    return { providerUrl: new URL(res.headers.get("location")!), codeVerifier };
+  }
+
+  /** Simulates the user logging in at the IdP with `claims` and returns the callback response. */
+  async function login(claims: Record<string, unknown>, target = server): Promise<{ res: Response; codeVerifier: string }> {
+    const { providerUrl, codeVerifier } = await authorize(target);
+    const code = idp.issueCode(claims, {
+      nonce: providerUrl.searchParams.get("nonce")!,
+      codeChallenge: providerUrl.searchParams.get("code_challenge")!,
+    });
+    const state = providerUrl.searchParams.get("state")!;
+    const res = await fetch(`${target.baseUrl}/oauth/oidc/callback?code=${code}&state=${state}`, { redirect: "manual" });
+    return { res, codeVerifier };
+  }
+
+  it("redirects to the discovered authorization endpoint with PKCE and a nonce", async () => {
+    const { providerUrl } = await authorize(server);
+    expect(`${providerUrl.origin}${providerUrl.pathname}`).toBe(`${idp.issuer}/authorize`);
+    expect(providerUrl.searchParams.get("response_type")).toBe("code");
+    expect(providerUrl.searchParams.get("client_id")).toBe("vault-mcp");
+    expect(providerUrl.searchParams.get("redirect_uri")).toBe(`${server.baseUrl}/oauth/oidc/callback`);
+    expect(providerUrl.searchParams.get("scope")).toBe("openid profile email");
+    expect(providerUrl.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(providerUrl.searchParams.get("code_challenge")).toMatch(/^[\w-]{43}$/);
+    expect(providerUrl.searchParams.get("nonce")).toMatch(/^[0-9a-f]{32}$/);
+    expect(providerUrl.searchParams.get("state")).toHaveLength(64);
+  });
+
+  it("completes the flow and uses the username claim as the token subject", async () => {
+    const { res, codeVerifier } = await login({ sub: "kc-123", preferred_username: "Alice" });
+    expect(res.status).toBe(302);
+    const redirect = new URL(res.headers.get("location")!);
+    expect(redirect.searchParams.get("state")).toBe("client-state");
+
+    const lastTokenRequest = idp.tokenRequests[idp.tokenRequests.length - 1];
+    expect(lastTokenRequest.authorization).toMatch(/^Basic /);
+    expect(lastTokenRequest.body.code_verifier).toBeDefined();
+    expect(lastTokenRequest.body.redirect_uri).toBe(`${server.baseUrl}/oauth/oidc/callback`);
+
+    const tokenRes = await fetch(`${server.baseUrl}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: redirect.searchParams.get("code")!,
+        redirect_uri: CLIENT_REDIRECT_URI,
+        client_id: server.clientId,
+        client_secret: server.clientSecret,
+        code_verifier: codeVerifier,
+      }).toString(),
+    });
+    expect(tokenRes.status).toBe(200);
+    const { access_token } = await tokenRes.json();
+    expect(JSON.parse(Buffer.from(access_token.split(".")[1], "base64url").toString()).sub).toBe("alice");
+  });
+
+  it("redirects with access_denied for users not in the allowlist", async () => {
+    const { res } = await login({ sub: "kc-456", preferred_username: "mallory" });
+    expect(res.status).toBe(302);
+    const redirect = new URL(res.headers.get("location")!);
+    expect(redirect.searchParams.get("error")).toBe("access_denied");
+    expect(redirect.searchParams.get("code")).toBeNull();
+  });
+
+  it("falls back to the userinfo endpoint when the ID token lacks the claim", async () => {
+    idp.setUserInfo({ preferred_username: "alice" });
+    const { res } = await login({ sub: "kc-123" });
+    expect(res.status).toBe(302);
+    expect(new URL(res.headers.get("location")!).searchParams.get("code")).toBeTruthy();
+  });
+
+  it("rejects a userinfo response for a different subject", async () => {
+    idp.setUserInfo({ sub: "someone-else", preferred_username: "alice" });
+    const { res } = await login({ sub: "kc-123" });
+    expect(res.status).toBe(502);
+  });
+
+  it.each([
+    ["a different audience", { aud: "another-client" }],
+    ["a different issuer", { iss: "https://evil.example.com" }],
+    ["a wrong nonce", { nonce: "replayed" }],
+    ["an expired token", { exp: Math.floor(Date.now() / 1000) - 3600 }],
+  ])("rejects an ID token with %s", async (_name, overrides) => {
+    idp.setIdTokenOverrides(overrides);
+    const { res } = await login({ sub: "kc-123", preferred_username: "alice" });
+    expect(res.status).toBe(502);
+    const data = await res.json();
+    expect(data.error).toBe("server_error");
+    expect(data.error_description).toContain("127.0.0.1");
+  });
+
+  it("rejects an ID token signed with a key outside the JWKS", async () => {
+    idp.setSignWithUnknownKey(true);
+    const { res } = await login({ sub: "kc-123", preferred_username: "alice" });
+    expect(res.status).toBe(502);
+  });
+
+  it("checks a configurable claim against the allowlist", async () => {
+    const emailServer = await startOidcServer({ ...oidc, usernameClaim: "email" });
+    try {
+      const { res } = await login({ sub: "kc-123", preferred_username: "mallory", email: "Alice@example.com" }, emailServer);
+      expect(res.status).toBe(302);
+      expect(new URL(res.headers.get("location")!).searchParams.get("code")).toBeTruthy();
+    } finally {
+      emailServer.close();
+    }
+  });
+
+  it("refuses to start a login when the discovery issuer does not match", async () => {
+    const mismatchServer = await startOidcServer({ ...oidc });
+    idp.setDiscoveryIssuer("https://other-issuer.example.com");
+    try {
+      const res = await fetch(`${mismatchServer.baseUrl}/oauth/authorize?${new URLSearchParams({
+        response_type: "code",
+        client_id: mismatchServer.clientId,
+        redirect_uri: CLIENT_REDIRECT_URI,
+        state: "s",
+        code_challenge: "challenge",
+        code_challenge_method: "S256",
+      })}`, { redirect: "manual" });
+      expect(res.status).toBe(502);
+    } finally {
+      idp.setDiscoveryIssuer(idp.issuer);
+      mismatchServer.close();
+    }
+  });
+});
+
+describe("createIdentityProvider", () => {
+  it("returns the GitHub provider by default", () => {
+    const provider = createIdentityProvider(createTestConfig());
+    expect(provider).toBeInstanceOf(GitHubProvider);
+    expect(provider.callbackPath).toBe("/oauth/github/callback");
+  });
+
+  it("returns the OIDC provider for AUTH_PROVIDER=oidc", () => {
+    const oidc: OidcConfig = {
+      issuer: "https://sso.example.com/realms/family",
+      clientId: "vault-mcp",
+      clientSecret: "",
+      scopes: ["openid"],
+      usernameClaim: "preferred_username",
+    };
+    const provider = createIdentityProvider(createTestConfig({ authProvider: "oidc", oidc }));
+    expect(provider).toBeInstanceOf(OidcProvider);
+    expect(provider.callbackPath).toBe("/oauth/oidc/callback");
+    expect(provider.displayName).toBe("sso.example.com");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import { ScanCancelledError, ScanProgress } from "../src/utils/progress.js";
+import { countVaultTags } from "../src/tools/vaultOperations.js";
+import { PathAccessPolicy } from "../src/utils/accessControl.js";
+
+function recorder(): { sent: ServerNotification[]; sendNotification: (n: ServerNotification) => Promise<void> } {
+  const sent: ServerNotification[] = [];
+  return { sent, sendNotification: async (n) => { sent.push(n); } };
+}
+
+describe("ScanProgress", () => {
+  it("reports the first and the last file, throttling the ones in between", () => {
+    const { sent, sendNotification } = recorder();
+    const progress = new ScanProgress({ _meta: { progressToken: "t1" }, sendNotification }, 3);
+    progress.advance();
+    progress.advance();
+    progress.advance();
+    expect(sent.map((n) => n.params)).toEqual([
+      { progressToken: "t1", progress: 1, total: 3, message: "Scanned 1 of 3 files" },
+      { progressToken: "t1", progress: 3, total: 3, message: "Scanned 3 of 3 files" },
+    ]);
+  });
+
+  it("sends nothing when the caller passed no progress token", () => {
+    const { sent, sendNotification } = recorder();
+    const progress = new ScanProgress({ sendNotification }, 1);
+    progress.advance();
+    expect(sent).toEqual([]);
+  });
+
+  it("throws once the request was cancelled", () => {
+    const controller = new AbortController();
+    const progress = new ScanProgress({ signal: controller.signal });
+    progress.advance();
+    controller.abort();
+    expect(() => progress.advance()).toThrow(ScanCancelledError);
+  });
+});
+
+describe("countVaultTags", () => {
+  let vault: string;
+
+  beforeAll(async () => {
+    vault = await mkdtemp(path.join(os.tmpdir(), "progress-vault-"));
+    await writeFile(path.join(vault, "a.md"), "#alpha\n");
+    await writeFile(path.join(vault, "b.md"), "#beta\n");
+  });
+
+  afterAll(async () => {
+    await rm(vault, { recursive: true, force: true });
+  });
+
+  it("reports one step per note", async () => {
+    const { sent, sendNotification } = recorder();
+    const tagCounts = new Map<string, number>();
+    await countVaultTags(vault, new PathAccessPolicy(null), tagCounts, { _meta: { progressToken: 7 }, sendNotification });
+    expect(tagCounts.size).toBe(2);
+    expect(sent.at(-1)?.params).toMatchObject({ progressToken: 7, progress: 2, total: 2 });
+  });
+
+  it("stops reading notes when the request is cancelled", async () => {
+    const tagCounts = new Map<string, number>();
+    const signal = AbortSignal.abort();
+    await expect(countVaultTags(vault, new PathAccessPolicy(null), tagCounts, { signal })).rejects.toThrow(ScanCancelledError);
+    expect(tagCounts.size).toBe(0);
+  });
+});
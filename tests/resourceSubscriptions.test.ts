@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFile } from "node:child_process";
+import { mkdtemp, realpath, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import type { Server } from "node:http";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createMcpServer } from "../src/server.js";
+import { noteUri } from "../src/resources/vaultResources.js";
+import { diffVaultChanges, pullVault, stageCommitAndPush } from "../src/git/gitSync.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { startMcpTestServer } from "./helpers/mcpTestServer.js";
+
+const execFileAsync = promisify(execFile);
+
+async function gitIn(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd });
+  return stdout.trim();
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + 5000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for notifications");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe("Integration: resource subscriptions", () => {
+  let root: string;
+  let vault: string;
+  let laptop: string;
+  let client: Client;
+  let httpServer: Server;
+  let updated: string[];
+  let listChanged: number;
+
+  beforeEach(async () => {
+    root = await realpath(await mkdtemp(path.join(os.tmpdir(), "subscriptions-")));
+    const remote = path.join(root, "remote.git");
+    vault = path.join(root, "vault");
+    laptop = path.join(root, "laptop");
+    await execFileAsync("git", ["init", "--bare", "--initial-branch", "main", remote]);
+    for (const dir of [vault, laptop]) {
+      await execFileAsync("git", ["clone", remote, dir]);
+      await gitIn(dir, "config", "user.name", "Test");
+      await gitIn(dir, "config", "user.email", "test@test.com");
+      await gitIn(dir, "config", "commit.gpgsign", "false");
+    }
+    await writeFile(path.join(laptop, "watched.md"), "# Watched\n");
+    await writeFile(path.join(laptop, "other.md"), "# Other\n");
+    await gitIn(laptop, "add", ".");
+    await gitIn(laptop, "commit", "-m", "init");
+    await gitIn(laptop, "push", "origin", "HEAD:main");
+    await gitIn(vault, "pull", "origin", "main");
+
+    ({ client, httpServer } = await startMcpTestServer(await createMcpServer(createTestConfig({ vaultPath: vault }))));
+    updated = [];
+    listChanged = 0;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    httpServer.close();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("notifies subscribers of the notes a pull changed", async () => {
+    expect(client.getServerCapabilities()?.resources).toMatchObject({ subscribe: true, listChanged: true });
+    await client.subscribeResource({ uri: noteUri("watched.md") });
+    await client.subscribeResource({ uri: "vault://tags/project" });
+
+    await writeFile(path.join(laptop, "watched.md"), "# Watched\n#project\n");
+    await gitIn(laptop, "commit", "-am", "edit on the laptop");
+    await gitIn(laptop, "push", "origin", "HEAD:main");
+    await pullVault(createTestConfig({ vaultPath: vault }));
+
+    await waitFor(() => updated.length === 2);
+    expect(updated.sort()).toEqual([noteUri("watched.md"), "vault://tags/project"].sort());
+    expect(listChanged).toBe(0);
+  });
+
+  it("notifies about committed local writes and added notes, until unsubscribed", async () => {
+    await client.subscribeResource({ uri: noteUri("watched.md") });
+    await writeFile(path.join(vault, "watched.md"), "# Watched\nEdited by a tool\n");
+    await writeFile(path.join(vault, "new.md"), "# New\n");
+    await stageCommitAndPush(createTestConfig({ vaultPath: vault }), "MCP: edit");
+
+    await waitFor(() => updated.length === 1 && listChanged === 1);
+    expect(updated).toEqual([noteUri("watched.md")]);
+
+    await client.unsubscribeResource({ uri: noteUri("watched.md") });
+    await writeFile(path.join(vault, "watched.md"), "# Watched\nEdited again\n");
+    await writeFile(path.join(vault, "other.md"), "# Other\nEdited\n");
+    await stageCommitAndPush(createTestConfig({ vaultPath: vault }), "MCP: edit again");
+    // other.md was not subscribed either, so nothing arrives
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(updated).toHaveLength(1);
+  });
+
+  it("commits only the given paths, leaving files other processes are writing", async () => {
+    const config = createTestConfig({ vaultPath: vault });
+    await writeFile(path.join(vault, "watched.md"), "# Watched\nEdited by a tool\n");
+    await rm(path.join(vault, "other.md"));
+    await writeFile(path.join(vault, "half.md"), "# Half written by another replica\n");
+    await writeFile(path.join(vault, ".gitignore"), "*.log\n");
+    await writeFile(path.join(vault, "debug.log"), "ignored\n");
+
+    expect(await stageCommitAndPush(config, "MCP: edit", undefined, ["./watched.md", "other.md", "debug.log"])).not.toBeNull();
+    expect(await gitIn(vault, "show", "--name-status", "--format=", "HEAD")).toBe("D\tother.md\nM\twatched.md");
+    expect(await gitIn(vault, "status", "--porcelain")).toBe("?? .gitignore\n?? half.md");
+    expect(await stageCommitAndPush(config, "MCP: nothing", undefined, ["watched.md"])).toBeNull();
+  });
+
+  it("pulls and pushes while another path has uncommitted changes", async () => {
+    const config = createTestConfig({ vaultPath: vault });
+    await writeFile(path.join(laptop, "laptop.md"), "# From the laptop\n");
+    await gitIn(laptop, "add", ".");
+    await gitIn(laptop, "commit", "-m", "laptop note");
+    await gitIn(laptop, "push", "origin", "HEAD:main");
+    await writeFile(path.join(vault, "other.md"), "# Other\nHalf written by another replica\n");
+    await writeFile(path.join(vault, "watched.md"), "# Watched\nEdited by a tool\n");
+
+    await stageCommitAndPush(config, "MCP: edit", undefined, ["watched.md"]);
+    expect(await gitIn(vault, "log", "--format=%s", "origin/main")).toBe("MCP: edit\nlaptop note\ninit");
+    expect(await gitIn(vault, "status", "--porcelain")).toBe("M other.md");
+
+    await gitIn(laptop, "pull", "origin", "main");
+    await writeFile(path.join(laptop, "watched.md"), "# Watched\nEdited on the laptop\n");
+    await gitIn(laptop, "commit", "-am", "laptop edit");
+    await gitIn(laptop, "push", "origin", "HEAD:main");
+    await pullVault(config);
+    expect(await gitIn(vault, "log", "-1", "--format=%s")).toBe("laptop edit");
+    expect(await gitIn(vault, "status", "--porcelain")).toBe("M other.md");
+  });
+
+  it("rejects subscriptions to unknown URIs", async () => {
+    await expect(client.subscribeResource({ uri: "vault://daily/someday" })).rejects.toThrow("Invalid date");
+    await expect(client.subscribeResource({ uri: "https://example.com/" })).rejects.toThrow("Unknown resource");
+  });
+});
+
+describe("diffVaultChanges", () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await realpath(await mkdtemp(path.join(os.tmpdir(), "diff-")));
+    await gitIn(repo, "init");
+    await gitIn(repo, "config", "user.name", "Test");
+    await gitIn(repo, "config", "user.email", "test@test.com");
+    await gitIn(repo, "config", "commit.gpgsign", "false");
+  });
+
+  afterEach(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  it("reports renames as removal and addition, and diffs a first commit against the empty tree", async () => {
+    await writeFile(path.join(repo, "old name.md"), "# Note\n");
+    await writeFile(path.join(repo, "kept.md"), "# Kept\n");
+    await gitIn(repo, "add", ".");
+    await gitIn(repo, "commit", "-m", "first");
+    const first = await gitIn(repo, "rev-parse", "HEAD");
+    expect((await diffVaultChanges(repo, null, first)).added.sort()).toEqual(["kept.md", "old name.md"]);
+
+    await gitIn(repo, "mv", "old name.md", "Ünïcode name.md");
+    await gitIn(repo, "commit", "-m", "rename");
+    const second = await gitIn(repo, "rev-parse", "HEAD");
+    expect(await diffVaultChanges(repo, first, second)).toEqual({
+      changed: ["old name.md", "Ünïcode name.md"],
+      added: ["Ünïcode name.md"],
+      removed: ["old name.md"],
+    });
+  });
+});
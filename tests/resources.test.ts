@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, writeFile, rm, realpath, mkdtemp, symlink } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { Server } from "node:http";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { createMcpServer } from "../src/server.js";
+import { noteUri } from "../src/resources/vaultResources.js";
+import { createAuthInfo } from "../src/utils/requestContext.js";
+import { VAULT_WRITE_SCOPE } from "../src/oauth/scopes.js";
+import { MAX_FILE_SIZE } from "../src/utils/constants.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { startMcpTestServer } from "./helpers/mcpTestServer.js";
+
+function textOf(result: Awaited<ReturnType<Client["readResource"]>>): string {
+  return (result.contents[0] as { text: string }).text;
+}
+
+describe("Integration: vault resources", () => {
+  let vault: string;
+  const servers: Array<{ client: Client; httpServer: Server }> = [];
+
+  async function connect(config: ReturnType<typeof createTestConfig>, user?: string, scopes = ["vault:read"]): Promise<Client> {
+    const authInfo = user ? createAuthInfo("token", "client", user, scopes, undefined) : undefined;
+    const server = await startMcpTestServer(await createMcpServer(config), authInfo);
+    servers.push(server);
+    return server.client;
+  }
+
+  beforeAll(async () => {
+    vault = await realpath(await mkdtemp(path.join(os.tmpdir(), "resources-vault-")));
+    await mkdir(path.join(vault, "daily"));
+    await mkdir(path.join(vault, "archive"));
+    await mkdir(path.join(vault, "Private"));
+    await mkdir(path.join(vault, "bulk"));
+    await writeFile(path.join(vault, "daily", "2024-01-31.md"), "# Daily\n#journal\n");
+    await writeFile(path.join(vault, "archive", "2024-01-31.md"), "# Old copy\n");
+    await writeFile(path.join(vault, "My Note.md"), "---\ntags: [project/alpha]\n---\n# My Note\n");
+    await writeFile(path.join(vault, "board.canvas"), "{\"nodes\":[]}");
+    await writeFile(path.join(vault, "binary.md"), Buffer.from([0x41, 0x00, 0x42]));
+    await writeFile(path.join(vault, "Private", "secret.md"), "#project secret\n");
+    for (let i = 0; i < 105; i++) {
+      await writeFile(path.join(vault, "bulk", `note-${String(i).padStart(3, "0")}.md`), `Note ${i}\n`);
+    }
+  });
+
+  afterAll(async () => {
+    for (const { client, httpServer } of servers) {
+      await client.close();
+      httpServer.close();
+    }
+    await rm(vault, { recursive: true, force: true });
+  });
+
+  it("offers subscriptions and list changes only with stateful sessions", async () => {
+    const stateful = await connect(createTestConfig({ vaultPath: vault, gitMode: "off" }));
+    expect(stateful.getServerCapabilities()?.resources).toEqual({ subscribe: true, listChanged: true });
+    const stateless = await connect(createTestConfig({ vaultPath: vault, gitMode: "off", sessionMode: "stateless" }));
+    expect(stateless.getServerCapabilities()?.resources).toEqual({ listChanged: false });
+    await expect(stateless.subscribeResource({ uri: noteUri("My Note.md") })).rejects.toThrow();
+  });
+
+  it("lists markdown notes in pages", async () => {
+    const client = await connect(createTestConfig({ vaultPath: vault, gitMode: "off" }));
+    const first = await client.listResources();
+    expect(first.resources).toHaveLength(100);
+    expect(first.nextCursor).toBeTruthy();
+    const second = await client.listResources({ cursor: first.nextCursor });
+    expect(second.nextCursor).toBeUndefined();
+
+    const all = [...first.resources, ...second.resources];
+    expect(all).toHaveLength(110);
+    expect(new Set(all.map((r) => r.uri)).size).toBe(110);
+    expect(all.find((r) => r.name === "My Note.md")).toMatchObject({ uri: "vault://My%20Note.md", title: "My Note", mimeType: "text/markdown" });
+    expect(all.some((r) => r.name === "board.canvas")).toBe(false);
+
+    await expect(client.listResources({ cursor: "not a cursor" })).rejects.toThrow("Invalid cursor");
+  });
+
+  it("reads files by vault URI with their MIME type and the read_file limits", async () => {
+    const client = await connect(createTestConfig({ vaultPath: vault, gitMode: "off" }));
+    const note = await client.readResource({ uri: noteUri("daily/2024-01-31.md") });
+    expect(note.contents[0]).toMatchObject({ uri: "vault://daily%2F2024-01-31.md", mimeType: "text/markdown", text: "# Daily\n#journal\n" });
+
+    const canvas = await client.readResource({ uri: noteUri("board.canvas") });
+    expect(canvas.contents[0].mimeType).toBe("application/json");
+
+    await expect(client.readResource({ uri: noteUri("binary.md") })).rejects.toThrow("Binary file detected");
+    await expect(client.readResource({ uri: noteUri(".git/config") })).rejects.toThrow("Cannot read .git/config");
+    await expect(client.readResource({ uri: noteUri("../outside.md") })).rejects.toThrow("Cannot read");
+  });
+
+  it("lists the note, daily note and tag templates", async () => {
+    const client = await connect(createTestConfig({ vaultPath: vault, gitMode: "off" }));
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual(["vault://{path}", "vault://daily/{date}", "vault://tags/{tag}"]);
+  });
+
+  it("resolves daily notes by date, preferring the daily folder", async () => {
+    const client = await connect(createTestConfig({ vaultPath: vault, gitMode: "off" }));
+    const daily = await client.readResource({ uri: "vault://daily/2024-01-31" });
+    expect(daily.contents[0].uri).toBe(noteUri("daily/2024-01-31.md"));
+    expect(textOf(daily)).toContain("# Daily");
+
+    await expect(client.readResource({ uri: "vault://daily/2024-02-01" })).rejects.toThrow("No daily note for 2024-02-01");
+    await expect(client.readResource({ uri: "vault://daily/yesterday" })).rejects.toThrow("Invalid date");
+  });
+
+  it("lists the notes with a tag, including nested tags", async () => {
+    const client = await connect(createTestConfig({ vaultPath: vault, gitMode: "off" }));
+    const text = textOf(await client.readResource({ uri: "vault://tags/project" }));
+    expect(text).toContain("# #project (2 notes)");
+    expect(text).toContain("[[My Note]] (vault://My%20Note.md)");
+    expect(text).toContain("[[Private/secret]]");
+  });
+
+  it("skips oversized notes and symlinks out of the vault when listing a tag", async () => {
+    const root = await realpath(await mkdtemp(path.join(os.tmpdir(), "resources-links-")));
+    try {
+      await mkdir(path.join(root, "vault"));
+      await writeFile(path.join(root, "outside.md"), "#leak outside the vault\n");
+      await symlink(path.join(root, "outside.md"), path.join(root, "vault", "linked.md"));
+      await writeFile(path.join(root, "vault", "huge.md"), `#leak\n${"x".repeat(MAX_FILE_SIZE)}`);
+      await writeFile(path.join(root, "vault", "small.md"), "#leak\n");
+
+      const client = await connect(createTestConfig({ vaultPath: path.join(root, "vault"), gitMode: "off" }));
+      const text = textOf(await client.readResource({ uri: "vault://tags/leak" }));
+      expect(text).toContain("# #leak (1 notes)");
+      expect(text).toContain("[[small]]");
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it("applies the caller's ACL and scopes", async () => {
+    const config = createTestConfig({
+      vaultPath: vault,
+      gitMode: "off",
+      accessControl: { default: { allow: [{ path: "**", access: "read" }], deny: ["Private/**"] }, users: {} },
+    });
+    const kid = await connect(config, "kid");
+    const { resources } = await kid.listResources();
+    expect(resources.some((r) => r.name.startsWith("Private/"))).toBe(false);
+    await expect(kid.readResource({ uri: noteUri("Private/secret.md") })).rejects.toThrow("Cannot read Private/secret.md");
+    expect(textOf(await kid.readResource({ uri: "vault://tags/project" }))).not.toContain("Private");
+
+    const writeOnly = await connect(config, "kid", [VAULT_WRITE_SCOPE]);
+    await expect(writeOnly.readResource({ uri: noteUri("My Note.md") })).rejects.toThrow("Insufficient scope");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, writeFile, rm, realpath } from "node:fs/promises";
+import type { Server } from "node:http";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { createAuthInfo, checkScope } from "../src/utils/requestContext.js";
+import { createMcpServer } from "../src/server.js";
+import { initDebouncedSync, stopDebouncedSync } from "../src/git/debouncedSync.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+import { startMcpTestServer, initTestGitRepo } from "./helpers/mcpTestServer.js";
+
+describe("checkScope", () => {
+  it("allows requests without auth info", () => {
+    expect(checkScope(undefined, "vault:write")).toBeNull();
+    expect(checkScope({}, "vault:write")).toBeNull();
+  });
+
+  it("allows a granted scope and rejects a missing one", () => {
+    const context = { authInfo: createAuthInfo("t", "c", "alice", ["vault:read"], undefined) };
+    expect(checkScope(context, "vault:read")).toBeNull();
+
+    const error = checkScope(context, "vault:history");
+    expect(error?.isError).toBe(true);
+    expect(error?.content[0].text).toContain('requires the "vault:history" scope');
+    expect(error?.content[0].text).toContain("granted scopes: vault:read");
+  });
+});
+
+// --- Integration Tests: scopes enforced by the MCP tools ---
+
+describe("Integration: read-only token", () => {
+  const VAULT_DIR = "/tmp/test-vault-scopes";
+  let client: Client;
+  let httpServer: Server;
+
+  function getText(result: Awaited<ReturnType<Client["callTool"]>>): string {
+    return (result.content as Array<{ type: string; text: string }>)[0].text;
+  }
+
+  beforeAll(async () => {
+    await mkdir(VAULT_DIR, { recursive: true });
+    const resolvedVault = await realpath(VAULT_DIR);
+    await writeFile(`${resolvedVault}/note.md`, "Hello #greeting\n");
+    await initTestGitRepo(resolvedVault);
+
+    const config = createTestConfig({ vaultPath: resolvedVault });
+    initDebouncedSync(config);
+    const mcpServer = await createMcpServer(config);
+    const testServer = await startMcpTestServer(mcpServer, createAuthInfo("token", "client", "alice", ["vault:read"], undefined));
+    client = testServer.client;
+    httpServer = testServer.httpServer;
+  });
+
+  afterAll(async () => {
+    stopDebouncedSync();
+    await client?.close();
+    httpServer?.close();
+    await rm(VAULT_DIR, { recursive: true, force: true });
+  });
+
+  it("read tools work", async () => {
+    const result = await client.callTool({ name: "read_file", arguments: { path: "note.md" } });
+    expect(result.isError).toBeFalsy();
+    expect(getText(result)).toContain("Hello");
+  });
+
+  it("write tools are rejected", async () => {
+    const result = await client.callTool({ name: "write_file", arguments: { path: "new.md", content: "x" } });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toContain('requires the "vault:write" scope');
+  });
+
+  it("history tools are rejected", async () => {
+    const result = await client.callTool({ name: "get_recent_changes", arguments: {} });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toContain('requires the "vault:history" scope');
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import express from "express";
+import crypto from "node:crypto";
+import { mkdtempSync, readdirSync, rmSync, statSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import jwt from "jsonwebtoken";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { KeyDirectory, SharedSecretKeys, createAccessTokenKeys } from "../src/oauth/signingKeys.js";
+import { createAccessToken, verifyAccessToken } from "../src/oauth/jwt.js";
+import { handleJwks } from "../src/oauth/jwks.js";
+import { handleMetadata } from "../src/oauth/metadata.js";
+import { jwtAuth } from "../src/auth.js";
+import { OAuthStore } from "../src/oauth/store.js";
+import { ApiKeyStore } from "../src/oauth/apiKeyStore.js";
+import { runJwtKeyCommand } from "../src/cli/jwtKeyCommand.js";
+import { SUPPORTED_SCOPES } from "../src/oauth/scopes.js";
+import { createTestConfig } from "./helpers/testConfig.js";
+
+const SECRET = "a".repeat(32);
+const LIFETIME_SECONDS = 3600;
+
+function header(token: string): jwt.JwtHeader {
+  return jwt.decode(token, { complete: true })!.header;
+}
+
+describe("KeyDirectory", () => {
+  let keysDir: string;
+
+  beforeEach(() => {
+    keysDir = path.join(mkdtempSync(path.join(os.tmpdir(), "jwt-keys-")), "keys");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(path.dirname(keysDir), { recursive: true, force: true });
+  });
+
+  function createKeys(algorithm: "RS256" | "ES256" = "ES256"): KeyDirectory {
+    const keys = new KeyDirectory(keysDir, algorithm, SECRET, LIFETIME_SECONDS, 0);
+    keys.ensureActiveKey();
+    return keys;
+  }
+
+  it.each(["RS256", "ES256"] as const)("signs %s tokens with a kid and verifies them", (algorithm) => {
+    const keys = createKeys(algorithm);
+    const token = createAccessToken("client", "alice", SUPPORTED_SCOPES, keys, 60);
+
+    expect(header(token)).toMatchObject({ alg: algorithm, kid: keys.list()[0].kid });
+    expect(verifyAccessToken(token, keys)?.sub).toBe("alice");
+  });
+
+  it("stores private keys readable only by the owner", () => {
+    createKeys();
+    const [file] = readdirSync(keysDir);
+    expect(statSync(keysDir).mode & 0o777).toBe(0o700);
+    expect(statSync(path.join(keysDir, file)).mode & 0o777).toBe(0o600);
+  });
+
+  it("publishes public keys only", () => {
+    const keys = createKeys();
+    const { keys: jwks } = keys.getJwks();
+    expect(jwks).toHaveLength(1);
+    expect(jwks[0]).toMatchObject({ kty: "EC", crv: "P-256", alg: "ES256", use: "sig", kid: keys.list()[0].kid });
+    expect(jwks[0].d).toBeUndefined();
+  });
+
+  it("lets other services verify tokens with the published key", () => {
+    const keys = createKeys("RS256");
+    const token = createAccessToken("client", "alice", SUPPORTED_SCOPES, keys, 60);
+    const publicKey = crypto.createPublicKey({ key: keys.getJwks().keys[0], format: "jwk" });
+    expect((jwt.verify(token, publicKey, { algorithms: ["RS256"] }) as jwt.JwtPayload).sub).toBe("alice");
+  });
+
+  it("keeps an existing key across restarts", () => {
+    const kid = createKeys().list()[0].kid;
+    expect(createKeys().list().map((k) => k.kid)).toEqual([kid]);
+  });
+
+  it("keeps tokens of a rotated key valid until they expire", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const keys = createKeys();
+    const oldToken = createAccessToken("client", "alice", SUPPORTED_SCOPES, keys, LIFETIME_SECONDS);
+
+    const newKid = keys.rotate();
+    const newToken = createAccessToken("client", "alice", SUPPORTED_SCOPES, keys, LIFETIME_SECONDS);
+    expect(header(newToken).kid).toBe(newKid);
+    expect(verifyAccessToken(oldToken, keys)).not.toBeNull();
+    expect(keys.getJwks().keys).toHaveLength(2);
+
+    vi.setSystemTime(Date.now() + LIFETIME_SECONDS * 1000 + 1000);
+    keys.prune();
+    expect(keys.list().map((k) => k.kid)).toEqual([newKid]);
+    expect(keys.getJwks().keys.map((k) => k.kid)).toEqual([newKid]);
+    expect(verifyAccessToken(oldToken, keys)).toBeNull();
+  });
+
+  it("rotates only when the active key is older than the rotation period", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const keys = createKeys();
+    expect(keys.rotateIfOlderThan(24 * 60 * 60 * 1000)).toBe(false);
+    vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000);
+    expect(keys.rotateIfOlderThan(24 * 60 * 60 * 1000)).toBe(true);
+    expect(keys.list()).toHaveLength(2);
+  });
+
+  it("rotates when the configured algorithm changes", () => {
+    const rsaKid = createKeys("RS256").list()[0].kid;
+    const keys = createKeys("ES256");
+    const list = keys.list();
+    expect(list).toHaveLength(2);
+    expect(list.find((k) => k.kid === rsaKid)).toMatchObject({ alg: "RS256", retiredAt: expect.any(Number) });
+    expect(keys.getSigningKey()).toMatchObject({ algorithm: "ES256", kid: expect.not.stringMatching(rsaKid) });
+  });
+
+  it("picks up keys rotated by another process", () => {
+    const serverKeys = createKeys();
+    const newKid = new KeyDirectory(keysDir, "ES256", SECRET, LIFETIME_SECONDS).rotate();
+    expect(serverKeys.getSigningKey().kid).toBe(newKid);
+  });
+
+  it("accepts HS256 tokens issued before the switch until they expire", () => {
+    const legacyToken = createAccessToken("client", "alice", SUPPORTED_SCOPES, new SharedSecretKeys(SECRET), 60);
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 2000);
+    const keys = createKeys();
+
+    expect(verifyAccessToken(legacyToken, keys)?.sub).toBe("alice");
+    // A token signed with JWT_SECRET after the switch is not accepted
+    vi.setSystemTime(Date.now() + 2000);
+    const lateToken = createAccessToken("client", "alice", SUPPORTED_SCOPES, new SharedSecretKeys(SECRET), 60);
+    expect(verifyAccessToken(lateToken, keys)).toBeNull();
+  });
+
+  it("rejects tokens with an unknown kid or a mismatched algorithm", () => {
+    const keys = createKeys("RS256");
+    const { kid } = keys.list()[0];
+    const payload = { sub: "alice", client_id: "client", aud: "obsidian-vault-mcp", iss: "obsidian-vault-mcp" };
+
+    const otherKey = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey;
+    expect(verifyAccessToken(jwt.sign(payload, otherKey, { algorithm: "RS256", keyid: "unknown" }), keys)).toBeNull();
+    expect(verifyAccessToken(jwt.sign(payload, otherKey, { algorithm: "RS256", keyid: kid }), keys)).toBeNull();
+
+    // HS256 signed with the published public key must not verify
+    const publicPem = crypto.createPublicKey({ key: keys.getJwks().keys[0], format: "jwk" }).export({ type: "spki", format: "pem" });
+    const unsigned = [{ alg: "HS256", typ: "JWT", kid }, { ...payload, exp: Math.floor(Date.now() / 1000) + 60 }]
+      .map((part) => Buffer.from(JSON.stringify(part)).toString("base64url"))
+      .join(".");
+    const forged = `${unsigned}.${crypto.createHmac("sha256", publicPem).update(unsigned).digest("base64url")}`;
+    expect(verifyAccessToken(forged, keys)).toBeNull();
+  });
+});
+
+describe("SharedSecretKeys", () => {
+  it("signs HS256 tokens without a kid and publishes no keys", () => {
+    const keys = new SharedSecretKeys(SECRET);
+    const token = createAccessToken("client", "alice", SUPPORTED_SCOPES, keys, 60);
+    expect(header(token)).toEqual({ alg: "HS256", typ: "JWT" });
+    expect(verifyAccessToken(token, keys)?.sub).toBe("alice");
+    expect(verifyAccessToken(token, new SharedSecretKeys("b".repeat(32)))).toBeNull();
+    expect(keys.getJwks()).toEqual({ keys: [] });
+  });
+});
+
+describe("JWKS endpoint and asymmetric tokens on /mcp", () => {
+  let dataDir: string;
+  let httpServer: Server;
+  let baseUrl: string;
+  let keys: KeyDirectory;
+  const testConfig = createTestConfig({ jwtSigningAlgorithm: "RS256" });
+
+  beforeAll(() => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), "jwks-"));
+    testConfig.jwtKeysDir = path.join(dataDir, "jwt-keys");
+    keys = createAccessTokenKeys(testConfig) as KeyDirectory;
+
+    const app = express();
+    app.get("/.well-known/oauth-authorization-server", handleMetadata(testConfig));
+    app.get("/.well-known/jwks.json", handleJwks(keys));
+    app.use("/mcp", jwtAuth(keys, testConfig.serverUrl, new OAuthStore(), new ApiKeyStore(), testConfig.allowedUsers));
+    app.post("/mcp", (req, res) => {
+      res.json({ user: req.auth?.extra?.user });
+    });
+    httpServer = app.listen(0);
+    baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+    testConfig.serverUrl = baseUrl;
+  });
+
+  afterAll(() => {
+    httpServer?.close();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("advertises jwks_uri in the authorization server metadata", async () => {
+    const metadata = await (await fetch(`${baseUrl}/.well-known/oauth-authorization-server`)).json();
+    expect(metadata.jwks_uri).toBe(`${baseUrl}/.well-known/jwks.json`);
+  });
+
+  it("omits jwks_uri with HS256", async () => {
+    const app = express().get("/", handleMetadata(createTestConfig({ serverUrl: "https://vault.example.com" })));
+    const server = app.listen(0);
+    try {
+      const metadata = await (await fetch(`http://localhost:${(server.address() as AddressInfo).port}/`)).json();
+      expect(metadata.jwks_uri).toBeUndefined();
+    } finally {
+      server.close();
+    }
+  });
+
+  it("serves the public keys", async () => {
+    const res = await fetch(`${baseUrl}/.well-known/jwks.json`);
+    expect(res.status).toBe(200);
+    const { keys: jwks } = await res.json();
+    expect(jwks).toEqual(keys.getJwks().keys);
+    expect(jwks[0].kty).toBe("RSA");
+  });
+
+  it("accepts access tokens signed with the active key", async () => {
+    const token = createAccessToken("client", "alice", SUPPORTED_SCOPES, keys, 60);
+    const res = await fetch(`${baseUrl}/mcp`, { method: "POST", headers: { Authorization: `Bearer ${token}` } });
+    expect(res.status).toBe(200);
+    expect((await res.json()).user).toBe("alice");
+  });
+});
+
+describe("jwt-key CLI", () => {
+  let dataDir: string;
+  const output = { lines: [] as string[], errors: [] as string[] };
+  const sink = { log: (l: string) => output.lines.push(l), error: (l: string) => output.errors.push(l) };
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), "jwt-key-cli-"));
+    output.lines = [];
+    output.errors = [];
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("rotates and lists keys in DATA_DIR/jwt-keys", () => {
+    const env = { JWT_SIGNING_ALG: "ES256", DATA_DIR: dataDir };
+    expect(runJwtKeyCommand(["rotate"], env, sink)).toBe(0);
+    expect(runJwtKeyCommand(["rotate"], env, sink)).toBe(0);
+    expect(readdirSync(path.join(dataDir, "jwt-keys"))).toHaveLength(2);
+
+    output.lines = [];
+    expect(runJwtKeyCommand(["list"], env, sink)).toBe(0);
+    expect(output.lines[0]).toMatch(/ES256 .*\(retired, verifies until /);
+    expect(output.lines[0]).toMatch(/\(active\)$/m);
+  });
+
+  it("refuses to run for HS256", () => {
+    expect(runJwtKeyCommand(["rotate"], { DATA_DIR: dataDir }, sink)).toBe(1);
+    expect(output.errors[0]).toContain("JWT_SIGNING_ALG must be RS256 or ES256");
+  });
+
+  it("prints usage for unknown commands", () => {
+    expect(runJwtKeyCommand(["delete"], { JWT_SIGNING_ALG: "RS256", DATA_DIR: dataDir }, sink)).toBe(1);
+    expect(output.errors[0]).toContain("Usage:");
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+const execFileAsync = promisify(execFile);
+
+const TSX = path.resolve("node_modules/.bin/tsx");
+const ENTRY = path.resolve("src/index.ts");
+
+/**
+ * Starts the real server with `--stdio` in a child process and connects a
+ * client to it. Only the variables the test passes are set: no OAuth
+ * settings and no GIT_REPO_URL.
+ */
+async function startStdioServer(env: Record<string, string>): Promise<Client> {
+  const transport = new StdioClientTransport({
+    command: TSX,
+    args: [ENTRY, "--stdio"],
+    env: { PATH: process.env.PATH ?? "", HOME: process.env.HOME ?? "", LOG_LEVEL: "error", ...env },
+    stderr: "pipe",
+  });
+  const client = new Client({ name: "stdio-test-client", version: "1.0.0" });
+  await client.connect(transport);
+  return client;
+}
+
+function textOf(result: Awaited<ReturnType<Client["callTool"]>>): string {
+  return (result.content as Array<{ text: string }>)[0].text;
+}
+
+describe("--stdio mode", () => {
+  let vaultPath: string;
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), "stdio-vault-"));
+    await fs.writeFile(path.join(vaultPath, "note.md"), "# Note\n");
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  it("commits locally with GIT_MODE=local and flushes when the client disconnects", async () => {
+    const client = await startStdioServer({
+      VAULT_PATH: vaultPath,
+      GIT_MODE: "local",
+      GIT_DEBOUNCE_SYNC_DELAY_SECONDS: "60",
+    });
+
+    const result = await client.callTool({ name: "write_file", arguments: { path: "new.md", content: "Hello" } });
+    expect(result.isError).toBeFalsy();
+    const tools = (await client.listTools()).tools.map((t) => t.name);
+    expect(tools).toContain("get_recent_changes");
+
+    // Closing stdin ends the server, which commits the pending change first
+    await client.close();
+
+    const { stdout: log } = await execFileAsync("git", ["log", "--format=%s"], { cwd: vaultPath });
+    expect(log.trim()).toBe("MCP: write new.md");
+    const { stdout: remotes } = await execFileAsync("git", ["remote"], { cwd: vaultPath });
+    expect(remotes.trim()).toBe("");
+  }, 60_000);
+
+  it("serves the vault without git with GIT_MODE=off", async () => {
+    const client = await startStdioServer({ VAULT_PATH: vaultPath, GIT_MODE: "off" });
+
+    const moved = await client.callTool({ name: "move_file", arguments: { old_path: "note.md", new_path: "moved.md" } });
+    expect(textOf(moved)).toBe("File moved: note.md -> moved.md");
+    const read = await client.callTool({ name: "read_file", arguments: { path: "moved.md" } });
+    expect(textOf(read)).toContain("# Note");
+    const tools = (await client.listTools()).tools.map((t) => t.name);
+    expect(tools).not.toContain("get_recent_changes");
+
+    await client.close();
+    await expect(fs.access(path.join(vaultPath, ".git"))).rejects.toThrow();
+  }, 60_000);
+});
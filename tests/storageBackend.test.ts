@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, readFile, stat, utimes, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  MemoryStorageBackend,
+  FileStorageBackend,
+  createStorageBackend,
+} from "../src/utils/storageBackend.js";
+
+describe("StorageBackend", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(os.tmpdir(), "storage-backend-"));
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("memory backend returns null before the first save", () => {
+    const backend = new MemoryStorageBackend<{ a: number }>();
+    expect(backend.load()).toBeNull();
+    backend.save({ a: 1 });
+    expect(backend.load()).toEqual({ a: 1 });
+  });
+
+  it("file backend returns null when the file does not exist", () => {
+    const backend = new FileStorageBackend(path.join(dataDir, "missing.json"));
+    expect(backend.load()).toBeNull();
+  });
+
+  it("file backend round-trips snapshots and creates parent directories", () => {
+    const filePath = path.join(dataDir, "nested", "store.json");
+    new FileStorageBackend<{ items: string[] }>(filePath).save({ items: ["x", "y"] });
+    expect(new FileStorageBackend<{ items: string[] }>(filePath).load()).toEqual({ items: ["x", "y"] });
+  });
+
+  it("file backend writes files readable only by the owner", async () => {
+    const filePath = path.join(dataDir, "store.json");
+    new FileStorageBackend(filePath).save({});
+    const fileStat = await stat(filePath);
+    expect(fileStat.mode & 0o777).toBe(0o600);
+  });
+
+  it("file backend ignores a corrupt file instead of throwing", async () => {
+    const filePath = path.join(dataDir, "store.json");
+    await writeFile(filePath, "{not json");
+    expect(new FileStorageBackend(filePath).load()).toBeNull();
+  });
+
+  it("file backend updates the latest stored snapshot and releases its lock", async () => {
+    const filePath = path.join(dataDir, "store.json");
+    const first = new FileStorageBackend<{ items: string[] }>(filePath);
+    const second = new FileStorageBackend<{ items: string[] }>(filePath);
+    first.update((current) => ({ items: [...(current?.items ?? []), "a"] }));
+    second.update((current) => ({ items: [...(current?.items ?? []), "b"] }));
+    expect(first.load()).toEqual({ items: ["a", "b"] });
+    await expect(stat(`${filePath}.lock`)).rejects.toThrow("ENOENT");
+  });
+
+  it("file backend takes over a lock left behind by a crashed process", async () => {
+    const filePath = path.join(dataDir, "store.json");
+    await writeFile(`${filePath}.lock`, "");
+    const old = new Date(Date.now() - 60_000);
+    await utimes(`${filePath}.lock`, old, old);
+    new FileStorageBackend<{ ok: boolean }>(filePath).update(() => ({ ok: true }));
+    expect(new FileStorageBackend(filePath).load()).toEqual({ ok: true });
+  });
+
+  it("createStorageBackend uses memory when no data directory is configured", () => {
+    expect(createStorageBackend("", "oauth-store")).toBeInstanceOf(MemoryStorageBackend);
+  });
+
+  it("createStorageBackend stores named files inside the data directory", async () => {
+    const backend = createStorageBackend<{ ok: boolean }>(dataDir, "oauth-store");
+    expect(backend).toBeInstanceOf(FileStorageBackend);
+    backend.save({ ok: true });
+    const raw = await readFile(path.join(dataDir, "oauth-store.json"), "utf-8");
+    expect(JSON.parse(raw)).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { withWorkingCopyLock } from "../src/git/workingCopyLock.js";
+
+describe("withWorkingCopyLock", () => {
+  let vaultPath: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), "lock-vault-"));
+    await fs.mkdir(path.join(vaultPath, ".git"));
+    lockPath = path.join(vaultPath, ".git", "mcp-working-copy.lock");
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  it("runs callers of this process one at a time and removes the lock file afterwards", async () => {
+    const events: string[] = [];
+    const task = (name: string) => withWorkingCopyLock(vaultPath, async () => {
+      events.push(`${name} start`);
+      await fs.access(lockPath);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      events.push(`${name} end`);
+      return name;
+    });
+
+    expect(await Promise.all([task("a"), task("b"), task("c")])).toEqual(["a", "b", "c"]);
+    expect(events).toEqual(["a start", "a end", "b start", "b end", "c start", "c end"]);
+    await expect(fs.access(lockPath)).rejects.toThrow();
+  });
+
+  it("releases the lock when the callback throws", async () => {
+    await expect(withWorkingCopyLock(vaultPath, async () => {
+      throw new Error("git failed");
+    })).rejects.toThrow("git failed");
+    expect(await withWorkingCopyLock(vaultPath, async () => "next")).toBe("next");
+  });
+
+  it("waits for a lock file held by another process", async () => {
+    await fs.writeFile(lockPath, "other-host 1234 token");
+    let ran = false;
+    const pending = withWorkingCopyLock(vaultPath, async () => {
+      ran = true;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(ran).toBe(false);
+    await fs.unlink(lockPath);
+    await pending;
+    expect(ran).toBe(true);
+  });
+
+  it("takes over a lock file its holder stopped refreshing", async () => {
+    await fs.writeFile(lockPath, "crashed-host 1234 token");
+    const stale = new Date(Date.now() - 5 * 60 * 1000);
+    await fs.utimes(lockPath, stale, stale);
+
+    expect(await withWorkingCopyLock(vaultPath, async () => fs.readFile(lockPath, "utf-8"))).not.toContain("crashed-host");
+  });
+});